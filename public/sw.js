@@ -381,4 +381,24 @@ self.addEventListener('message', event => {
         .then(() => console.log('[SW] 壁纸缓存已清除'))
     );
   }
-});
\ No newline at end of file
+});
+
+// 待办到期提醒通知点击：聚焦已打开的页面并打开待办列表
+self.addEventListener('notificationclick', event => {
+  const data = event.notification.data;
+  if (!data || data.type !== 'todo-reminder') {
+    return;
+  }
+
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clientList => {
+      const client = clientList.find(c => 'focus' in c);
+      if (client) {
+        client.postMessage({ type: 'TODO_REMINDER_CLICK', todoId: data.todoId });
+        return client.focus();
+      }
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
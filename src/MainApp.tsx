@@ -15,8 +15,17 @@ import { SyncProvider } from '@/contexts/SyncContext';
 import { UserProfileProvider, useUserProfile } from '@/contexts/UserProfileContext';
 import { WorkspaceProvider } from '@/contexts/WorkspaceContext';
 import { AdminProvider } from '@/contexts/AdminContext';
-import { WebsiteData, updateUserActiveTime } from '@/lib/supabaseSync';
+import {
+  WebsiteData,
+  WebsiteGroup,
+  WebsitePage,
+  mergeWebsiteData,
+  mergeWebsiteGroups,
+  mergeWebsitePages,
+  updateUserActiveTime,
+} from '@/lib/supabaseSync';
 import { checkUserBanned } from '@/lib/adminUtils';
+import { todoReminderService } from '@/lib/todoReminder';
 import { useState, useEffect, useRef } from 'react';
 import { usePageTitle } from '@/hooks/usePageTitle';
 import { useResourcePreloader } from '@/hooks/useResourcePreloader';
@@ -44,24 +53,18 @@ function AppContent() {
   // 存储管理
   const storage = useStorage();
   const { currentUser, logout } = useAuth();
-  const {
-    setCardOpacity,
-    setSearchBarOpacity,
-    setParallaxEnabled,
-    setWallpaperResolution,
-    setCardColor,
-    setSearchBarColor,
-    setAutoSyncEnabled,
-    setAutoSyncInterval,
-    setAutoSortEnabled,
-  } = useTransparency();
+  const { applySettings } = useTransparency();
 
   // 云端数据管理
   const {
     cloudWebsites,
+    cloudGroups,
+    cloudPages,
     cloudSettings,
     loading: cloudLoading,
     mergeWithLocalData,
+    mergeWithLocalGroups,
+    mergeWithLocalPages,
   } = useCloudData(true);
 
   // 本地数据状态
@@ -70,6 +73,18 @@ function AppContent() {
     return saved || [];
   });
 
+  // 网站分组（文件夹）状态
+  const [groups, setGroups] = useState<WebsiteGroup[]>(() => {
+    const saved = storage.getItem<WebsiteGroup[]>('websiteGroups');
+    return Array.isArray(saved) ? saved : [];
+  });
+
+  // 页面（多个主页）状态，页面顺序通过存储管理器持久化
+  const [pages, setPages] = useState<WebsitePage[]>(() => {
+    const saved = storage.getItem<WebsitePage[]>('websitePages');
+    return Array.isArray(saved) ? saved : [];
+  });
+
   const [dataInitialized, setDataInitialized] = useState(false);
   const [settingsApplied, setSettingsApplied] = useState(false);
   const [showPrivacySettings, setShowPrivacySettings] = useState(false);
@@ -78,6 +93,9 @@ function AppContent() {
   // 用于防止重复检查禁用状态
   const banCheckRef = useRef(false);
 
+  // 待办到期提醒（仅在已授予通知权限时发送）
+  useEffect(() => todoReminderService.start(), []);
+
   // 当用户变化时重置状态
   useEffect(() => {
     setDataInitialized(false);
@@ -195,6 +213,21 @@ function AppContent() {
       setWebsites([]);
     }
 
+    // 合并分组数据（与网站数据使用相同的时间戳冲突策略）
+    if (cloudGroups && cloudGroups.length > 0) {
+      const localGroups = storage.getItem<WebsiteGroup[]>('websiteGroups') || [];
+      const mergedGroups = mergeWithLocalGroups(localGroups);
+      setGroups(mergedGroups);
+      storage.setItem('websiteGroups', mergedGroups);
+    }
+
+    if (cloudPages && cloudPages.length > 0) {
+      const localPages = storage.getItem<WebsitePage[]>('websitePages') || [];
+      const mergedPages = mergeWithLocalPages(localPages);
+      setPages(mergedPages);
+      storage.setItem('websitePages', mergedPages);
+    }
+
     // 记录已合并的数据标识
     setLastMergedDataId(currentDataId);
 
@@ -202,16 +235,8 @@ function AppContent() {
     if (cloudSettings && !settingsApplied) {
       logger.debug('🔄 应用云端设置数据', cloudSettings);
 
-      // 应用云端设置到本地状态
-      setCardOpacity(cloudSettings.cardOpacity);
-      setSearchBarOpacity(cloudSettings.searchBarOpacity);
-      setParallaxEnabled(cloudSettings.parallaxEnabled);
-      setWallpaperResolution(cloudSettings.wallpaperResolution);
-      setCardColor(cloudSettings.cardColor);
-      setSearchBarColor(cloudSettings.searchBarColor);
-      setAutoSyncEnabled(cloudSettings.autoSyncEnabled);
-      setAutoSyncInterval(cloudSettings.autoSyncInterval);
-      setAutoSortEnabled(cloudSettings.autoSortEnabled ?? false); // 提供默认值
+      // 应用云端设置到本地状态（缺失或无效的设置保留本地值）
+      applySettings(cloudSettings);
 
       // 同步主题设置
       if (cloudSettings.theme) {
@@ -230,23 +255,40 @@ function AppContent() {
   }, [
     currentUser,
     cloudWebsites,
+    cloudGroups,
+    cloudPages,
     cloudSettings,
     cloudLoading,
     storage,
     settingsApplied,
     lastMergedDataId,
     mergeWithLocalData,
-    setCardOpacity,
-    setSearchBarOpacity,
-    setParallaxEnabled,
-    setWallpaperResolution,
-    setCardColor,
-    setSearchBarColor,
-    setAutoSyncEnabled,
-    setAutoSyncInterval,
-    setAutoSortEnabled,
+    mergeWithLocalGroups,
+    mergeWithLocalPages,
+    applySettings,
   ]);
 
+  // 合并其他设备通过 Realtime 推送的变更（本设备写入的回声已在 useCloudData 中过滤）
+  useEffect(() => {
+    const handleCloudUpdate = (event: Event) => {
+      const { websites: cloudWebsites, groups: cloudGroups, pages: cloudPages } =
+        (event as CustomEvent).detail || {};
+
+      if (Array.isArray(cloudWebsites)) {
+        setWebsites((prev) => mergeWebsiteData(prev, cloudWebsites));
+      }
+      if (Array.isArray(cloudGroups)) {
+        setGroups((prev) => mergeWebsiteGroups(prev, cloudGroups));
+      }
+      if (Array.isArray(cloudPages)) {
+        setPages((prev) => mergeWebsitePages(prev, cloudPages));
+      }
+    };
+
+    window.addEventListener('cloudDataUpdated', handleCloudUpdate);
+    return () => window.removeEventListener('cloudDataUpdated', handleCloudUpdate);
+  }, []);
+
   // 持久化到存储管理器（仅在数据初始化完成后）
   useEffect(() => {
     if (dataInitialized) {
@@ -254,6 +296,18 @@ function AppContent() {
     }
   }, [websites, storage, dataInitialized]);
 
+  useEffect(() => {
+    if (dataInitialized) {
+      storage.setItem('websiteGroups', groups);
+    }
+  }, [groups, storage, dataInitialized]);
+
+  useEffect(() => {
+    if (dataInitialized) {
+      storage.setItem('websitePages', pages);
+    }
+  }, [pages, storage, dataInitialized]);
+
   logger.debug('✅ AppContent 渲染完成');
 
   // 注释掉加载状态，直接显示应用内容
@@ -276,7 +330,15 @@ function AppContent() {
         <Route
           path="/"
           element={
-            <Home websites={websites} setWebsites={setWebsites} dataInitialized={dataInitialized} />
+            <Home
+              websites={websites}
+              setWebsites={setWebsites}
+              groups={groups}
+              setGroups={setGroups}
+              pages={pages}
+              setPages={setPages}
+              dataInitialized={dataInitialized}
+            />
           }
         />
         <Route path="/auth/callback" element={<AuthCallback />} />
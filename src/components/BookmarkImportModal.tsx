@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { WebsiteData } from '@/lib/supabaseSync';
+import {
+  BookmarkFolderMapping,
+  ImportedBookmark,
+  getFolderLabel,
+  prepareBookmarkCandidates,
+} from '@/lib/bookmarkImport';
+
+interface BookmarkImportModalProps {
+  bookmarks: ImportedBookmark[];
+  websites: WebsiteData[];
+  allowGroups?: boolean; // 是否允许将文件夹导入为分组
+  onClose: () => void;
+  onImport: (bookmarks: ImportedBookmark[], mapping: BookmarkFolderMapping) => void;
+}
+
+const MAPPING_OPTIONS: { value: BookmarkFolderMapping; label: string }[] = [
+  { value: 'tags', label: '文件夹作为标签' },
+  { value: 'groups', label: '文件夹作为分组' },
+  { value: 'none', label: '忽略文件夹' },
+];
+
+/**
+ * 书签导入预览 - 勾选要导入的书签，已存在的网址默认不勾选
+ */
+export default function BookmarkImportModal({
+  bookmarks,
+  websites,
+  allowGroups = false,
+  onClose,
+  onImport,
+}: BookmarkImportModalProps) {
+  const candidates = useMemo(
+    () => prepareBookmarkCandidates(bookmarks, websites),
+    [bookmarks, websites]
+  );
+  // 按书签序号勾选，重复书签默认不勾选
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(candidates.flatMap((candidate, index) => (candidate.duplicate ? [] : [index])))
+  );
+  const [mapping, setMapping] = useState<BookmarkFolderMapping>('tags');
+
+  const duplicateCount = candidates.filter((candidate) => candidate.duplicate).length;
+  const mappingOptions = MAPPING_OPTIONS.filter((option) => allowGroups || option.value !== 'groups');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const selectNew = () => {
+    setSelected(
+      new Set(candidates.flatMap((candidate, index) => (candidate.duplicate ? [] : [index])))
+    );
+  };
+
+  const handleImport = () => {
+    onImport(
+      candidates.filter((_, index) => selected.has(index)).map((candidate) => candidate.bookmark),
+      mapping
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center">
+      <motion.div
+        className="absolute inset-0 bg-black/50"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+      />
+      <motion.div
+        className="relative bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col border-2 border-emerald-200 dark:border-emerald-800"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        transition={{ type: 'spring', damping: 20, stiffness: 300 }}
+      >
+        <div className="p-5 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">导入浏览器书签</h3>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 flex items-center justify-center rounded-lg text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            共 {candidates.length} 个书签
+            {duplicateCount > 0 && `，其中 ${duplicateCount} 个网址已存在`}
+            ，已选择 {selected.size} 个
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {mappingOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMapping(option.value)}
+                className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-all duration-200 ${mapping === option.value
+                  ? 'bg-emerald-500 text-white shadow-md'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <div className="flex-1"></div>
+            <button
+              onClick={selectNew}
+              className="text-xs text-gray-500 hover:text-emerald-500 transition-colors"
+            >
+              全选新书签
+            </button>
+            <button
+              onClick={() => setSelected(new Set())}
+              className="text-xs text-gray-500 hover:text-emerald-500 transition-colors"
+            >
+              全不选
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {candidates.map((candidate, index) => (
+            <label
+              key={index}
+              className={`flex items-center gap-3 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${candidate.duplicate ? 'opacity-60' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggle(index)}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-800 dark:text-gray-100 truncate">
+                  {candidate.bookmark.name}
+                </div>
+                <div className="text-xs text-gray-400 truncate">{candidate.bookmark.url}</div>
+              </div>
+              {candidate.bookmark.folders.length > 0 && mapping !== 'none' && (
+                <span className="max-w-[35%] truncate px-1.5 py-0.5 rounded bg-emerald-50 dark:bg-emerald-900/30 text-[0.65rem] text-emerald-600 dark:text-emerald-400">
+                  {getFolderLabel(candidate.bookmark.folders)}
+                </span>
+              )}
+              {candidate.duplicate && (
+                <span className="text-[0.65rem] text-orange-500 flex-shrink-0">已存在</span>
+              )}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selected.size === 0}
+            className="px-4 py-2 rounded-lg transition-colors bg-emerald-500 hover:bg-emerald-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            导入 {selected.size} 个书签
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
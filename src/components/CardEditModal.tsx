@@ -4,6 +4,18 @@ import { z } from 'zod';
 import Tilt from 'react-parallax-tilt';
 import { uploadFaviconToStorage } from '@/lib/supabaseFaviconUpload';
 import { processFaviconUrl } from '@/lib/faviconUtils';
+import { corsProxyService } from '@/lib/proxy';
+import { getSortedPageIcons, getSuggestedName, pageMetadataService } from '@/lib/pageMetadata';
+import { WebsiteGroup, WebsitePage } from '@/lib/supabaseSync';
+
+// 分组下拉框中"新建分组"选项的值
+const NEW_GROUP_OPTION = '__new__';
+
+// 网页声明的图标不小于该尺寸时优先于图标服务
+const MIN_PAGE_ICON_SIZE = 64;
+
+// 自动填写的备注最大长度
+const MAX_NOTE_LENGTH = 200;
 
 const websiteSchema = z.object({
   name: z.string().min(1, '网站名不能为空'),
@@ -19,6 +31,10 @@ interface CardEditModalProps {
   favicon: string;
   tags: string[];
   note?: string;
+  groupId?: string;
+  groups?: WebsiteGroup[]; // 可选分组列表，提供时显示分组选择
+  pageId?: string;
+  pages?: WebsitePage[]; // 可选页面列表，提供时显示页面选择
   onClose: () => void;
   onSave: (data: {
     id: string;
@@ -27,6 +43,9 @@ interface CardEditModalProps {
     favicon: string;
     tags: string[];
     note?: string;
+    groupId?: string;
+    newGroupName?: string; // 选择新建分组时的分组名称
+    pageId?: string;
   }) => void;
   onDelete?: (id: string) => void;
 }
@@ -38,6 +57,10 @@ export default function CardEditModal({
   favicon,
   tags,
   note,
+  groupId,
+  groups,
+  pageId,
+  pages,
   onClose,
   onSave,
   onDelete,
@@ -50,6 +73,9 @@ export default function CardEditModal({
   });
   const [formTags, setFormTags] = useState<string[]>(tags || []);
   const [newTag, setNewTag] = useState('');
+  const [selectedGroupId, setSelectedGroupId] = useState(groupId || '');
+  const [newGroupName, setNewGroupName] = useState('');
+  const [selectedPageId, setSelectedPageId] = useState(pageId || pages?.[0]?.id || '');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [autoFetching, setAutoFetching] = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -93,14 +119,14 @@ export default function CardEditModal({
    * 获取 favicon 的备用 URL 列表（代理优先，支持降级）
    */
   const getFaviconUrls = (domain: string): string[] => {
-    // 代理服务前缀
-    const proxyPrefix = 'https://api.allorigins.win/raw?url=';
+    const faviconImUrl = `https://favicon.im/${domain}?larger=true`;
+    const proxiedUrl = corsProxyService.getProxiedUrl(faviconImUrl, true);
 
     return [
       // 使用代理访问 favicon.im（支持国内访问，速度快）
-      proxyPrefix + encodeURIComponent(`https://favicon.im/${domain}?larger=true`),
+      ...(proxiedUrl ? [proxiedUrl] : []),
       // 代理失败时的直接访问降级
-      `https://favicon.im/${domain}?larger=true`,
+      faviconImUrl,
       // 直接访问Google服务（无CORS限制）
       `https://www.google.com/s2/favicons?domain=${domain}&sz=64`,
       `https://www.google.com/s2/favicons?domain=${domain}&sz=32`,
@@ -116,11 +142,19 @@ export default function CardEditModal({
 
   /**
    * 测试图标URL是否可用
+   * @param requireSquare 只接受接近正方形的图片（用于 og:image 这类横幅图）
    */
-  const testFaviconUrl = (url: string): Promise<string> => {
+  const testFaviconUrl = (url: string, requireSquare = false): Promise<string> => {
     return new Promise((resolve, reject) => {
       const img = new Image();
-      img.onload = () => resolve(url);
+      img.onload = () => {
+        const ratio = img.naturalWidth / (img.naturalHeight || 1);
+        if (requireSquare && (ratio < 0.8 || ratio > 1.25)) {
+          reject(new Error(`图片不是方形: ${url}`));
+          return;
+        }
+        resolve(url);
+      };
       img.onerror = () => reject(new Error(`无法加载: ${url}`));
       img.src = url;
       // 设置3秒超时
@@ -138,6 +172,12 @@ export default function CardEditModal({
       setAutoFetching(true);
       const domain = new URL(formData.url).hostname;
 
+      // 抓取网页的标题、描述和图标，失败时退回到按域名生成
+      const metadataPromise = pageMetadataService.fetch(formData.url).catch((error) => {
+        console.warn('获取网页信息失败:', error);
+        return null;
+      });
+
       // 清除该域名的 favicon 缓存，确保获取最新图标
       const extractDomain = (url: string) => {
         try {
@@ -163,17 +203,29 @@ export default function CardEditModal({
         console.warn('清除缓存失败:', error);
       }
 
-      // 尝试多个图标服务，优先使用国内访问稳定的服务
-      const faviconUrls = getFaviconUrls(cacheDomain);
+      const metadata = await metadataPromise;
+
+      // 网页声明的高清图标（apple-touch-icon、manifest）优先，其次方形的 og:image，
+      // 然后是图标服务（优先使用国内访问稳定的服务），最后才是网页声明的小图标
+      const pageIcons = metadata ? getSortedPageIcons(metadata) : [];
+      const faviconCandidates = [
+        ...pageIcons.filter((icon) => icon.size >= MIN_PAGE_ICON_SIZE).map((icon) => ({ url: icon.url, requireSquare: false })),
+        ...(metadata?.image ? [{ url: metadata.image, requireSquare: true }] : []),
+        // 末尾的默认图标不参与尝试，全部失败时直接使用
+        ...getFaviconUrls(cacheDomain)
+          .slice(0, -1)
+          .map((url) => ({ url, requireSquare: false })),
+        ...pageIcons.filter((icon) => icon.size < MIN_PAGE_ICON_SIZE).map((icon) => ({ url: icon.url, requireSquare: false })),
+      ];
       let newFaviconUrl = '/icon/favicon.png'; // 默认图标
 
-      console.log('🔍 开始尝试获取图标，优先使用国内稳定服务...');
+      console.log('🔍 开始尝试获取图标，优先使用网页声明的高清图标...');
 
       // 逐个尝试图标URL，找到第一个可用的
-      for (const url of faviconUrls) {
+      for (const { url, requireSquare } of faviconCandidates) {
         try {
           console.log(`⏳ 尝试: ${url}`);
-          await testFaviconUrl(url);
+          await testFaviconUrl(url, requireSquare);
           newFaviconUrl = url;
           console.log(`✅ 图标获取成功: ${url}`);
           break;
@@ -189,10 +241,13 @@ export default function CardEditModal({
         favicon: newFaviconUrl,
       }));
 
-      // 自动获取网站名
+      // 自动获取网站名和备注（备注只在为空时填写）
+      const suggestedName = metadata ? getSuggestedName(metadata) : '';
+      const description = metadata?.description.slice(0, MAX_NOTE_LENGTH) || '';
       setFormData((prev) => ({
         ...prev,
-        name: domain.replace('www.', '').split('.')[0],
+        name: suggestedName || domain.replace('www.', '').split('.')[0],
+        note: prev.note.trim() ? prev.note : description,
       }));
 
       // 清除错误
@@ -272,6 +327,16 @@ export default function CardEditModal({
         }
       }
 
+      // 分组信息仅在提供分组列表时回传，避免覆盖原有分组
+      const groupData = groups
+        ? selectedGroupId === NEW_GROUP_OPTION
+          ? newGroupName.trim()
+            ? { newGroupName: newGroupName.trim() }
+            : { groupId: undefined }
+          : { groupId: selectedGroupId || undefined }
+        : {};
+      const pageData = pages ? { pageId: selectedPageId || undefined } : {};
+
       // 保存逻辑
       onSave({
         id,
@@ -280,6 +345,8 @@ export default function CardEditModal({
         favicon: finalFaviconUrl, // 使用上传后的URL
         tags: formTags, // 使用独立的标签
         note: cleanedNote,
+        ...groupData,
+        ...pageData,
       });
 
       onClose();
@@ -536,6 +603,62 @@ export default function CardEditModal({
               </div>
             </div>
 
+            {/* 页面选择 */}
+            {pages && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1 select-none">
+                  页面
+                </label>
+                <select
+                  value={selectedPageId}
+                  onChange={(e) => setSelectedPageId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {pages.map((page) => (
+                    <option key={page.id} value={page.id}>
+                      {page.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* 分组选择 */}
+            {groups && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1 select-none">
+                  分组
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedGroupId}
+                    onChange={(e) => setSelectedGroupId(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">未分组</option>
+                    {groups
+                      .filter((group) => !group.deleted)
+                      .map((group) => (
+                        <option key={group.id} value={group.id}>
+                          {group.name}
+                        </option>
+                      ))}
+                    <option value={NEW_GROUP_OPTION}>+ 新建分组…</option>
+                  </select>
+                  {selectedGroupId === NEW_GROUP_OPTION && (
+                    <input
+                      type="text"
+                      value={newGroupName}
+                      onChange={(e) => setNewGroupName(e.target.value)}
+                      className="flex-1 px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="分组名称"
+                      maxLength={20}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1 select-none">
                 备注
@@ -594,7 +717,7 @@ export default function CardEditModal({
                 <motion.button
                   type="button"
                   onClick={() => {
-                    if (confirm('确定要删除这个卡片吗？')) {
+                    if (confirm('确定要删除这个卡片吗？删除后 30 天内可在设置的回收站中恢复。')) {
                       onDelete(id);
                       onClose();
                     }
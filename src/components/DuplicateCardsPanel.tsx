@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { WebsiteData } from '@/lib/supabaseSync';
+import {
+  applyMerge,
+  findDuplicateGroups,
+  getDefaultKeeper,
+  mergeWebsites,
+  normalizeWebsiteUrl,
+} from '@/lib/websiteDuplicates';
+
+interface DuplicateCardsPanelProps {
+  websites: WebsiteData[];
+  setWebsites: (websites: WebsiteData[]) => void;
+}
+
+const DEFAULT_FAVICON = '/icon/favicon.png';
+
+/**
+ * 重复卡片 - 按标准化网址找出重复的卡片并排对比，选择保留的卡片后合并
+ */
+export default function DuplicateCardsPanel({ websites, setWebsites }: DuplicateCardsPanelProps) {
+  // 每组选择保留的卡片（标准化网址 -> 卡片 ID），未选择时使用默认
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  const groups = useMemo(
+    () => findDuplicateGroups(websites).map((cards) => ({ key: normalizeWebsiteUrl(cards[0].url), cards })),
+    [websites]
+  );
+
+  const getKeeperId = (key: string, cards: WebsiteData[]) =>
+    cards.some((card) => card.id === keepers[key]) ? keepers[key] : getDefaultKeeper(cards).id;
+
+  const handleMerge = (key: string, cards: WebsiteData[]) => {
+    setWebsites(applyMerge(websites, cards, getKeeperId(key, cards)));
+  };
+
+  const handleMergeAll = () => {
+    const result = groups.reduce(
+      (current, { key, cards }) => applyMerge(current, cards, getKeeperId(key, cards)),
+      websites
+    );
+    setWebsites(result);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <i className="fa-solid fa-clone text-violet-500 text-sm"></i>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">重复卡片</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+            {groups.length > 0
+              ? `发现 ${groups.length} 组重复的卡片，合并后标签合并、保留最多的访问次数和最近的访问时间`
+              : '没有发现重复的卡片（忽略协议、www、末尾斜杠和跟踪参数的差异）'}
+          </p>
+        </div>
+        {groups.length > 1 && (
+          <button
+            onClick={handleMergeAll}
+            className="text-xs text-violet-600 dark:text-violet-400 hover:underline select-none flex-shrink-0"
+          >
+            <i className="fa-solid fa-object-group mr-1"></i>全部合并
+          </button>
+        )}
+      </div>
+
+      {groups.length > 0 && (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {groups.map(({ key, cards }) => {
+            const keeperId = getKeeperId(key, cards);
+            const merged = mergeWebsites(cards, keeperId);
+
+            return (
+              <div key={key} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {cards.map((card) => {
+                    const selected = card.id === keeperId;
+                    return (
+                      <button
+                        key={card.id}
+                        onClick={() => setKeepers((prev) => ({ ...prev, [key]: card.id }))}
+                        className={`text-left p-2 rounded-lg border transition-all ${selected
+                          ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/30'
+                          : 'border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 hover:border-violet-300'
+                          }`}
+                        title={selected ? '保留这张卡片' : '点击选择保留这张卡片'}
+                      >
+                        <div className="flex items-center gap-1.5 mb-1">
+                          <img
+                            src={card.favicon || DEFAULT_FAVICON}
+                            alt=""
+                            className="w-4 h-4 rounded-sm object-contain flex-shrink-0"
+                            onError={(e) => {
+                              e.currentTarget.src = DEFAULT_FAVICON;
+                            }}
+                          />
+                          <span className="flex-1 min-w-0 text-xs font-medium text-gray-700 dark:text-gray-200 truncate">
+                            {card.name}
+                          </span>
+                          {selected && <i className="fa-solid fa-circle-check text-violet-500 text-xs"></i>}
+                        </div>
+                        <div className="text-[0.65rem] text-gray-500 dark:text-gray-400 truncate" title={card.url}>
+                          {card.url}
+                        </div>
+                        <div className="text-[0.65rem] text-gray-400 dark:text-gray-500 mt-0.5">
+                          {card.visitCount || 0} 次访问 · {card.lastVisit || '从未访问'}
+                          {card.archived && ' · 已归档'}
+                        </div>
+                        {card.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {card.tags.map((tag) => (
+                              <span
+                                key={tag}
+                                className="px-1.5 py-0.5 bg-gray-200 dark:bg-gray-600 rounded-full text-[0.6rem] text-gray-600 dark:text-gray-300"
+                              >
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {card.note && (
+                          <div className="text-[0.65rem] text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">{card.note}</div>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[0.65rem] text-gray-500 dark:text-gray-400 truncate">
+                    合并后：{merged.tags.length > 0 ? merged.tags.join('、') : '无标签'} · {merged.visitCount} 次访问
+                  </span>
+                  <button
+                    onClick={() => handleMerge(key, cards)}
+                    className="px-2 py-0.5 rounded text-xs font-medium bg-violet-500 hover:bg-violet-600 text-white transition-colors select-none flex-shrink-0"
+                  >
+                    合并 {cards.length} 张卡片
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
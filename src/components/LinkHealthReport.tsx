@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { useLinkHealthRecords } from '@/hooks/useLinkHealth';
+import { LinkHealthRecord, getLinkHealth, isLinkProblem, linkHealthChecker } from '@/lib/linkHealth';
+import { WebsiteData } from '@/lib/supabaseSync';
+
+interface LinkHealthReportProps {
+  websites: WebsiteData[];
+  setWebsites: (websites: WebsiteData[]) => void;
+}
+
+const actionClassName =
+  'px-2 py-0.5 rounded text-xs font-medium transition-colors select-none disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatCheckedAt = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes}分钟前`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}小时前`;
+  return `${Math.floor(minutes / (24 * 60))}天前`;
+};
+
+const getStatusLabel = (record: LinkHealthRecord) => {
+  switch (record.status) {
+    case 'redirected':
+      return { text: '已跳转', className: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' };
+    case 'broken':
+      return {
+        text: record.httpStatus ? `失效 ${record.httpStatus}` : '失效',
+        className: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300',
+      };
+    default:
+      return { text: '无法访问', className: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300' };
+  }
+};
+
+/**
+ * 链接检查报告 - 列出失效、跳转和无法访问的卡片，可一键更新为跳转后的地址或归档
+ */
+export default function LinkHealthReport({ websites, setWebsites }: LinkHealthReportProps) {
+  const { linkCheckEnabled, setLinkCheckEnabled } = useTransparency();
+  const records = useLinkHealthRecords();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeWebsites = websites.filter((website) => !website.deleted && !website.archived);
+  const archivedWebsites = websites.filter((website) => !website.deleted && website.archived);
+  const problems = activeWebsites
+    .map((website) => ({ website, record: getLinkHealth(records, website) }))
+    .filter((item): item is { website: WebsiteData; record: LinkHealthRecord } => isLinkProblem(item.record));
+  const checkedCount = activeWebsites.filter((website) => getLinkHealth(records, website)).length;
+
+  const updateWebsite = (id: string, updates: Partial<WebsiteData>) => {
+    setWebsites(
+      websites.map((website) => (website.id === id ? { ...website, ...updates, updatedAt: Date.now() } : website))
+    );
+  };
+
+  const handleCheckAll = async () => {
+    setProgress({ done: 0, total: activeWebsites.length });
+    await linkHealthChecker.checkWebsites(websites, {
+      force: true,
+      onProgress: (done, total) => setProgress({ done, total }),
+    });
+    setProgress(null);
+  };
+
+  const handleUseRedirect = (website: WebsiteData, finalUrl: string) => {
+    updateWebsite(website.id, { url: finalUrl });
+    linkHealthChecker.acceptRedirect(website.id, finalUrl);
+  };
+
+  const handleArchive = (website: WebsiteData) => {
+    updateWebsite(website.id, { archived: true });
+    linkHealthChecker.remove(website.id);
+  };
+
+  if (!linkHealthChecker.isAvailable()) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+        链接检查需要配置 Supabase 并部署 proxy-fetch 边缘函数
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <i className="fa-solid fa-link text-violet-500 text-sm"></i>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">定期检查失效链接</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+            已检查 {checkedCount}/{activeWebsites.length} 个卡片，发现 {problems.length} 个问题
+          </p>
+        </div>
+        <button
+          onClick={() => setLinkCheckEnabled(!linkCheckEnabled)}
+          className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all duration-300 hover:scale-105 ${linkCheckEnabled
+            ? 'bg-gradient-to-r from-violet-500 to-purple-600 shadow-lg shadow-purple-300/50'
+            : 'bg-gradient-to-r from-gray-400 to-gray-500 dark:from-gray-600 dark:to-gray-700 shadow-lg shadow-gray-300/50 dark:shadow-gray-900/50'
+            }`}
+        >
+          <span
+            className={`inline-block h-5 w-5 transform rounded-full bg-white dark:bg-gray-200 transition-all duration-300 shadow-md ${linkCheckEnabled
+              ? 'translate-x-6 shadow-purple-200'
+              : 'translate-x-1 shadow-gray-200 dark:shadow-gray-600'
+              }`}
+          />
+        </button>
+      </div>
+
+      <button
+        onClick={handleCheckAll}
+        disabled={progress !== null || linkHealthChecker.isRunning() || activeWebsites.length === 0}
+        className="w-full flex items-center justify-center gap-2 px-4 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-violet-50 dark:hover:bg-violet-900/30 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed select-none"
+      >
+        {progress ? (
+          <>
+            <i className="fa-solid fa-spinner fa-spin"></i>
+            <span>
+              检查中 {progress.done}/{progress.total}
+            </span>
+          </>
+        ) : (
+          <>
+            <i className="fa-solid fa-stethoscope"></i>
+            <span>立即检查全部卡片</span>
+          </>
+        )}
+      </button>
+
+      {problems.length > 0 && (
+        <div className="space-y-1.5 max-h-64 overflow-y-auto">
+          {problems.map(({ website, record }) => {
+            const status = getStatusLabel(record);
+            const redirectUrl = record.status === 'redirected' ? record.finalUrl : undefined;
+
+            return (
+              <div key={website.id} className="px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`px-1.5 py-0.5 rounded text-[0.65rem] font-medium flex-shrink-0 ${status.className}`}>
+                    {status.text}
+                  </span>
+                  <span className="flex-1 min-w-0 text-sm text-gray-700 dark:text-gray-200 truncate select-none">
+                    {website.name}
+                  </span>
+                  <span className="text-[0.65rem] text-gray-400 flex-shrink-0 select-none">
+                    {formatCheckedAt(record.checkedAt)}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={website.url}>
+                  {website.url}
+                </div>
+                {redirectUrl && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400 truncate" title={redirectUrl}>
+                    <i className="fa-solid fa-arrow-right mr-1"></i>
+                    {redirectUrl}
+                  </div>
+                )}
+                {record.status === 'unreachable' && record.error && (
+                  <div className="text-xs text-red-500 truncate">{record.error}</div>
+                )}
+                <div className="flex justify-end gap-1.5">
+                  {redirectUrl && (
+                    <button
+                      onClick={() => handleUseRedirect(website, redirectUrl)}
+                      className={`${actionClassName} bg-violet-500 hover:bg-violet-600 text-white`}
+                    >
+                      更新为新地址
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleArchive(website)}
+                    className={`${actionClassName} bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200`}
+                  >
+                    归档
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {archivedWebsites.length > 0 && (
+        <div className="space-y-1.5">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:text-violet-600 dark:hover:text-violet-400 select-none"
+          >
+            <i className={`fa-solid fa-chevron-${showArchived ? 'down' : 'right'} mr-1`}></i>
+            已归档 {archivedWebsites.length} 个卡片
+          </button>
+          {showArchived &&
+            archivedWebsites.map((website) => (
+              <div key={website.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-700 dark:text-gray-200 truncate select-none">{website.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{website.url}</div>
+                </div>
+                <button
+                  onClick={() => updateWebsite(website.id, { archived: false })}
+                  className={`${actionClassName} bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200`}
+                >
+                  恢复
+                </button>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { motion } from 'framer-motion';
+import { useState } from 'react';
+import { useDrop } from 'react-dnd';
+import { WebsitePage } from '@/lib/supabaseSync';
+import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
+
+// 页面标签拖拽类型，与卡片、分组区分
+export const WEBSITE_PAGE_DND_TYPE = 'WEBSITE_PAGE';
+
+interface PageTabProps {
+  page: WebsitePage;
+  index: number;
+  pages: WebsitePage[];
+  isActive: boolean;
+  canDelete: boolean;
+  onSelect: (pageId: string) => void;
+  onReorder: (pages: WebsitePage[]) => void;
+  onDropCard: (cardId: string, pageId: string) => void;
+  onRename: (pageId: string, name: string) => void;
+  onDelete: (pageId: string) => void;
+}
+
+function PageTab({
+  page,
+  index,
+  pages,
+  isActive,
+  canDelete,
+  onSelect,
+  onReorder,
+  onDropCard,
+  onRename,
+  onDelete,
+}: PageTabProps) {
+  const { isMobile } = useResponsiveLayout();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(page.name);
+  const { drag, drop, isDragging } = useDragAndDrop(
+    pages,
+    onReorder,
+    index,
+    WEBSITE_PAGE_DND_TYPE,
+    !isMobile && !isEditing
+  );
+
+  // 卡片拖到标签上即移动到该页面
+  const [{ isCardOver }, cardDrop] = useDrop({
+    accept: 'WEBSITE_CARD',
+    drop: (item: { id: string }) => {
+      onDropCard(item.id, page.id);
+    },
+    collect: (monitor) => ({
+      isCardOver: monitor.isOver(),
+    }),
+  });
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (name && name !== page.name) {
+      onRename(page.id, name);
+    } else {
+      setDraftName(page.name);
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <div
+      ref={(node) => {
+        drag(drop(cardDrop(node)));
+      }}
+      className={`group relative flex items-center rounded-full transition-all duration-200 ${isDragging ? 'opacity-50' : 'opacity-100'} ${
+        isActive ? 'bg-white/25 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'
+      } ${isCardOver ? 'ring-2 ring-white/70' : ''}`}
+    >
+      {isEditing ? (
+        <input
+          autoFocus
+          value={draftName}
+          maxLength={12}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              setDraftName(page.name);
+              setIsEditing(false);
+            }
+          }}
+          className="w-20 bg-transparent text-white text-xs text-center px-3 py-1 outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => onSelect(page.id)}
+          onDoubleClick={() => setIsEditing(true)}
+          className="text-xs px-3 py-1 whitespace-nowrap"
+          title={isMobile ? page.name : `${page.name}（双击重命名${index < 9 ? `，Ctrl+${index + 1} 切换` : ''}）`}
+        >
+          {page.name}
+        </button>
+      )}
+      {canDelete && isActive && !isEditing && (
+        <button
+          onClick={() => {
+            if (confirm(`确定要删除页面「${page.name}」吗？其中的卡片会移到第一个页面。`)) {
+              onDelete(page.id);
+            }
+          }}
+          className="pr-2 -ml-1 text-white/50 hover:text-white transition-colors"
+          title="删除页面"
+        >
+          <i className="fa-solid fa-xmark text-[0.6rem]"></i>
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface PageTabsProps {
+  pages: WebsitePage[];
+  activePageId: string | undefined;
+  onSelect: (pageId: string) => void;
+  onReorder: (pages: WebsitePage[]) => void;
+  onDropCard: (cardId: string, pageId: string) => void;
+  onRename: (pageId: string, name: string) => void;
+  onDelete: (pageId: string) => void;
+  onAdd: () => void;
+}
+
+/**
+ * 页面切换标签栏 - 点击切换、双击重命名、拖拽排序，卡片可拖到标签上换页
+ */
+export default function PageTabs({
+  pages,
+  activePageId,
+  onSelect,
+  onReorder,
+  onDropCard,
+  onRename,
+  onDelete,
+  onAdd,
+}: PageTabsProps) {
+  return (
+    <motion.div
+      className="flex items-center justify-center flex-wrap gap-1 mb-4 px-4 select-none"
+      data-interactive="true"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      {pages.map((page, index) => (
+        <PageTab
+          key={page.id}
+          page={page}
+          index={index}
+          pages={pages}
+          isActive={page.id === activePageId}
+          canDelete={pages.length > 1}
+          onSelect={onSelect}
+          onReorder={onReorder}
+          onDropCard={onDropCard}
+          onRename={onRename}
+          onDelete={onDelete}
+        />
+      ))}
+      <button
+        onClick={onAdd}
+        className="px-2 py-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+        title="新建页面"
+      >
+        <i className="fa-solid fa-plus text-[0.65rem]"></i>
+      </button>
+    </motion.div>
+  );
+}
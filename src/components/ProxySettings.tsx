@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { corsProxyService, ProxyEndpointStatus } from '@/lib/proxy';
+
+const inputClassName =
+  'flex-1 min-w-0 px-2 py-1 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 transition-all';
+
+const iconButtonClassName =
+  'w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent transition-colors';
+
+// 状态指示：熔断中为红色，评分较低为黄色，其余为绿色
+const getStatusColor = (endpoint: ProxyEndpointStatus) => {
+  if (!endpoint.enabled) return 'bg-gray-300 dark:bg-gray-600';
+  if (endpoint.health.circuit === 'open') return 'bg-red-500';
+  if (endpoint.health.circuit === 'half-open' || endpoint.health.score < 0.5) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+const getStatusText = (endpoint: ProxyEndpointStatus) => {
+  const { health } = endpoint;
+  if (health.successes + health.failures === 0) return '暂无记录';
+  const parts = [`成功率 ${Math.round(health.score * 100)}%`];
+  if (health.latency > 0) parts.push(`${Math.round(health.latency)}ms`);
+  if (health.circuit === 'open') parts.push('已暂停');
+  return parts.join(' · ');
+};
+
+/**
+ * 代理服务设置 - 调整跨域代理的顺序和启用状态，配置自建代理并查看各代理的健康状况
+ */
+export default function ProxySettings() {
+  const {
+    proxyEndpoints,
+    setProxyEndpoints,
+    selfHostedProxyUrl,
+    setSelfHostedProxyUrl,
+    selfHostedProxyTrusted,
+    setSelfHostedProxyTrusted,
+  } = useTransparency();
+
+  const [selfHostedDraft, setSelfHostedDraft] = useState(selfHostedProxyUrl);
+  const [selfHostedError, setSelfHostedError] = useState('');
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, string>>({});
+  // 健康记录保存在代理服务中，测试或重置后刷新列表
+  const [, setHealthVersion] = useState(0);
+
+  const endpoints = corsProxyService.getEndpointStatuses(proxyEndpoints, selfHostedProxyUrl, selfHostedProxyTrusted);
+
+  const savePreferences = (list: ProxyEndpointStatus[]) => {
+    setProxyEndpoints(list.map(({ id, enabled }) => ({ id, enabled })));
+  };
+
+  const toggleEndpoint = (id: string) => {
+    savePreferences(
+      endpoints.map((endpoint) => (endpoint.id === id ? { ...endpoint, enabled: !endpoint.enabled } : endpoint))
+    );
+  };
+
+  const moveEndpoint = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= endpoints.length) return;
+    const list = [...endpoints];
+    [list[index], list[target]] = [list[target], list[index]];
+    savePreferences(list);
+  };
+
+  const handleSaveSelfHosted = () => {
+    const url = selfHostedDraft.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      setSelfHostedError('代理地址需要以 http:// 或 https:// 开头');
+      return;
+    }
+    setSelfHostedError('');
+    setSelfHostedProxyUrl(url);
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    const result = await corsProxyService.testProxy(id);
+    setTestResults((prev) => ({
+      ...prev,
+      [id]: result.ok ? `连接正常（${result.latency}ms）` : `连接失败：${result.error || '未知错误'}`,
+    }));
+    setTestingId(null);
+    setHealthVersion((version) => version + 1);
+  };
+
+  const handleReset = () => {
+    corsProxyService.resetHealth();
+    setTestResults({});
+    setHealthVersion((version) => version + 1);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 border border-gray-200 dark:border-gray-700 shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-300 space-y-4">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 bg-teal-500 rounded-lg flex items-center justify-center">
+          <i className="fa-solid fa-route text-white text-sm"></i>
+        </div>
+        <div className="flex-1">
+          <div className="text-sm font-medium text-gray-800 dark:text-gray-100 select-none">代理服务</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 select-none">
+            图标、壁纸和 Notion 等跨域请求按顺序使用以下代理，失败时自动切换
+          </div>
+        </div>
+        <button
+          onClick={handleReset}
+          className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline select-none"
+        >
+          <i className="fa-solid fa-rotate-left mr-1"></i>重置状态
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        {endpoints.map((endpoint, index) => (
+          <div
+            key={endpoint.id}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+          >
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getStatusColor(endpoint)}`}></span>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-gray-700 dark:text-gray-200 truncate select-none">
+                {endpoint.name}
+                {!endpoint.supportsBinary && (
+                  <span className="ml-1.5 text-xs text-gray-400 dark:text-gray-500">仅文本</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate select-none">
+                {testResults[endpoint.id] || getStatusText(endpoint)}
+              </div>
+            </div>
+            <button
+              onClick={() => handleTest(endpoint.id)}
+              disabled={testingId !== null}
+              className={iconButtonClassName}
+              title="测试连接"
+            >
+              <i className={`fa-solid ${testingId === endpoint.id ? 'fa-spinner fa-spin' : 'fa-plug'} text-xs`}></i>
+            </button>
+            <button
+              onClick={() => moveEndpoint(index, -1)}
+              disabled={index === 0}
+              className={iconButtonClassName}
+              title="上移"
+            >
+              <i className="fa-solid fa-chevron-up text-xs"></i>
+            </button>
+            <button
+              onClick={() => moveEndpoint(index, 1)}
+              disabled={index === endpoints.length - 1}
+              className={iconButtonClassName}
+              title="下移"
+            >
+              <i className="fa-solid fa-chevron-down text-xs"></i>
+            </button>
+            <input
+              type="checkbox"
+              checked={endpoint.enabled}
+              onChange={() => toggleEndpoint(endpoint.id)}
+              className="w-4 h-4 accent-emerald-500 cursor-pointer"
+              title={endpoint.enabled ? '停用' : '启用'}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-xs font-medium text-gray-700 dark:text-gray-200 select-none">自建代理</div>
+        <div className="flex items-center gap-2">
+          <input
+            type="url"
+            value={selfHostedDraft}
+            onChange={(e) => setSelfHostedDraft(e.target.value)}
+            placeholder="https://proxy.example.com/?url={url}"
+            className={inputClassName}
+          />
+          <button
+            onClick={handleSaveSelfHosted}
+            disabled={selfHostedDraft.trim() === selfHostedProxyUrl}
+            className="px-3 py-1 rounded-lg text-xs font-medium bg-emerald-500 hover:bg-emerald-600 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors select-none"
+          >
+            保存
+          </button>
+        </div>
+        {selfHostedError ? (
+          <p className="text-xs text-red-500">{selfHostedError}</p>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+            {'{url}'} 会替换为编码后的目标地址，{'{rawUrl}'} 为原始地址；不含占位符时目标地址追加在末尾
+          </p>
+        )}
+        <label className="flex items-start gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={selfHostedProxyTrusted}
+            onChange={(e) => setSelfHostedProxyTrusted(e.target.checked)}
+            className="mt-0.5 w-4 h-4 accent-emerald-500 cursor-pointer"
+          />
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            信任自建代理：允许通过它转发带认证信息的请求（如 Notion 令牌）。公共代理不会转发这类请求
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
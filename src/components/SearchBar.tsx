@@ -9,6 +9,27 @@ import { processFaviconUrl } from '@/lib/faviconUtils';
 import { pinyin, match as pinyinMatch } from 'pinyin-pro';
 import { userStatsManager } from '@/hooks/useUserStats';
 import { createTomatoRain } from './effects/TomatoRain';
+import { loadTodos, saveTodos, createTodo } from '@/lib/todoStorage';
+import { todoReminderService } from '@/lib/todoReminder';
+import { parseTodoInput, formatTodoDue } from '@/utils/todoParser';
+import { TodoItem } from '@/lib/supabaseSync';
+import {
+  buildSearchUrl,
+  fetchEngineSuggestions,
+  getSwitchableEngines,
+  parseBang,
+  resolveSearchEngine,
+} from '@/lib/searchEngines';
+import SearchEngineIcon from './SearchEngineIcon';
+import {
+  CommandColor,
+  CommandMatch,
+  PaletteCommand,
+  matchCommands,
+  matchUrlCommands,
+  presentCommand,
+} from '@/lib/commandRegistry';
+import { useCommands, useRegisterCommands } from '@/hooks/useCommands';
 
 interface WebsiteData {
   id: string;
@@ -28,6 +49,7 @@ interface WorkspaceSuggestionData {
   description?: string;
   icon?: string;
   category: string;
+  databaseLabel?: string; // 合并了多个 Notion 数据库时项目所属的数据库
 }
 
 interface SearchBarProps {
@@ -35,19 +57,115 @@ interface SearchBarProps {
   onOpenSettings?: () => void;
 }
 
+// 快捷添加的待办说明，如「买牛奶 · 明天 09:00 · !high」
+const describeQuickTodo = (todoText: string) => {
+  const parsed = parseTodoInput(todoText);
+  return [parsed.text, parsed.dueAt && formatTodoDue(parsed.dueAt), parsed.priority && `!${parsed.priority}`]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+// 添加TODO到存储，支持 `buy milk tomorrow 9am !high` 形式的截止时间和优先级
+const addTodoToStorage = (todoText: string) => {
+  const parsed = parseTodoInput(todoText);
+  const todos = loadTodos();
+  const newTodo: TodoItem = {
+    ...createTodo(parsed.text, todos),
+    dueAt: parsed.dueAt,
+    priority: parsed.priority,
+  };
+  saveTodos([newTodo, ...todos]);
+
+  if (parsed.dueAt) {
+    todoReminderService.requestPermission();
+  }
+
+  return `已添加到TODO：${describeQuickTodo(todoText)}`;
+};
+
+// 命令建议项配色（选中 / 悬停 / 图标 / 标签 / 标题 / 按键提示）
+const COMMAND_COLOR_STYLES: Record<
+  CommandColor,
+  { selected: string; hover: string; icon: string; badge: string; text: string; key: string }
+> = {
+  blue: {
+    selected: 'bg-gradient-to-r from-blue-500/10 to-indigo-500/10 border-blue-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-blue-50',
+    icon: 'text-blue-600',
+    badge: 'bg-blue-100 text-blue-700',
+    text: 'text-blue-700',
+    key: 'text-blue-600 bg-blue-100',
+  },
+  green: {
+    selected: 'bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-green-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-green-50',
+    icon: 'text-green-600',
+    badge: 'bg-green-100 text-green-700',
+    text: 'text-green-700',
+    key: 'text-green-600 bg-green-100',
+  },
+  purple: {
+    selected: 'bg-gradient-to-r from-purple-500/10 to-violet-500/10 border-purple-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-purple-50',
+    icon: 'text-purple-600',
+    badge: 'bg-purple-100 text-purple-700',
+    text: 'text-purple-700',
+    key: 'text-purple-600 bg-purple-100',
+  },
+  teal: {
+    selected: 'bg-gradient-to-r from-teal-500/10 to-cyan-500/10 border-teal-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-teal-50',
+    icon: 'text-teal-600',
+    badge: 'bg-teal-100 text-teal-700',
+    text: 'text-teal-700',
+    key: 'text-teal-600 bg-teal-100',
+  },
+  indigo: {
+    selected: 'bg-gradient-to-r from-indigo-500/10 to-purple-500/10 border-indigo-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-indigo-50',
+    icon: 'text-indigo-600',
+    badge: 'bg-indigo-100 text-indigo-700',
+    text: 'text-indigo-700',
+    key: 'text-indigo-600 bg-indigo-100',
+  },
+  orange: {
+    selected: 'bg-gradient-to-r from-orange-500/10 to-amber-500/10 border-orange-200',
+    hover: 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-orange-50',
+    icon: 'text-orange-600',
+    badge: 'bg-orange-100 text-orange-700',
+    text: 'text-orange-700',
+    key: 'text-orange-600 bg-orange-100',
+  },
+  gray: {
+    selected: 'bg-gray-100/50 text-gray-600',
+    hover: 'bg-gray-50/50 text-gray-600',
+    icon: 'text-gray-500',
+    badge: 'bg-gray-100 text-gray-600',
+    text: 'text-gray-600 italic',
+    key: 'text-gray-500 bg-gray-200',
+  },
+};
+
+// 命令匹配结果转为搜索建议项
+const toCommandSuggestion = (match: CommandMatch) => ({
+  id: `command-${match.command.id}`,
+  text: presentCommand(match).title,
+  query: match.args,
+  command: match,
+});
+
 function SearchBarComponent(props: SearchBarProps = {}) {
   const { websites = [], onOpenSettings } = props;
   const inputRef = useRef<HTMLInputElement>(null);
   const [isFocused, setIsFocused] = useState(false);
-  const { searchBarOpacity, searchBarColor, setIsSearchFocused, searchInNewTab, isSettingsOpen, searchBarBorderRadius, animationStyle, aiIconDisplayMode, darkMode } =
+  const { searchBarOpacity, searchBarColor, setIsSearchFocused, searchInNewTab, isSettingsOpen, searchBarBorderRadius, animationStyle, aiIconDisplayMode, darkMode, searchEngines, defaultSearchEngine, setDefaultSearchEngine } =
     useTransparency();
   const { isMobile } = useResponsiveLayout();
-  const { isWorkspaceOpen, setIsWorkspaceOpen, workspaceItems } = useWorkspace();
+  const { isWorkspaceOpen, setIsWorkspaceOpen, workspaceItems, getDatabaseLabel } = useWorkspace();
 
   // 状态变量声明移到useEffect之前
   const [searchQuery, setSearchQuery] = useState('');
   const [isHovered, setIsHovered] = useState(false);
-  const [engine, setEngine] = useState<'bing' | 'google'>('bing');
   const [suggestions, setSuggestions] = useState<any[]>([]);
   const [websiteSuggestions, setWebsiteSuggestions] = useState<WebsiteData[]>([]);
   const [workspaceSuggestions, setWorkspaceSuggestions] = useState<WorkspaceSuggestionData[]>([]);
@@ -56,41 +174,23 @@ function SearchBarComponent(props: SearchBarProps = {}) {
   const searchBtnRef = useRef<HTMLButtonElement>(null);
   const [hoveredEmojiIdx, setHoveredEmojiIdx] = useState<number | null>(null);
   const [showEngineTooltip, setShowEngineTooltip] = useState(false);
+  const engineButtonRef = useRef<HTMLButtonElement>(null);
+
+  // 当前默认引擎与 Tab 切换的下一个引擎（仅限 !bang 的引擎不参与切换）
+  const currentEngine = useMemo(
+    () => resolveSearchEngine(searchEngines, defaultSearchEngine),
+    [searchEngines, defaultSearchEngine]
+  );
+  const nextEngine = useMemo(() => {
+    const switchable = getSwitchableEngines(searchEngines);
+    const idx = switchable.findIndex((e) => e.id === currentEngine.id);
+    return switchable[(idx + 1) % switchable.length] || currentEngine;
+  }, [searchEngines, currentEngine]);
   const searchBarRef = useRef<HTMLFormElement>(null);
 
   // TODO功能相关状态
   const [showTodoModal, setShowTodoModal] = useState(false);
-  const [todoFeedback, setTodoFeedback] = useState<string | null>(null);
-
-  // 添加TODO到存储
-  const addTodoToStorage = (todoText: string) => {
-    const STORAGE_KEY = 'time-display-todos';
-    const stored = localStorage.getItem(STORAGE_KEY);
-    let todos = [];
-
-    if (stored) {
-      try {
-        todos = JSON.parse(stored);
-      } catch {
-        todos = [];
-      }
-    }
-
-    const newTodo = {
-      id: Date.now().toString(),
-      text: todoText.trim(),
-      completed: false,
-      createdAt: Date.now(),
-      order: Math.max(0, ...todos.map((todo: any) => todo.order || 0)) + 1,
-    };
-
-    todos = [newTodo, ...todos].slice(0, 1000); // 限制为1000条
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(todos));
-
-    // 显示反馈
-    setTodoFeedback(`已添加到TODO：${todoText}`);
-    setTimeout(() => setTodoFeedback(null), 3000);
-  };
+  const [commandFeedback, setCommandFeedback] = useState<{ message: string; isError: boolean } | null>(null);
 
   // 创建彩带动画效果 - 使用真正多样的SVG形状
   const createFireworkEffect = useCallback((centerX: number, centerY: number) => {
@@ -199,6 +299,19 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     }
   }, []);
 
+  // 切换到下一个搜索引擎并记为默认，从引擎按钮位置触发彩带动画
+  const switchEngine = useCallback(() => {
+    setDefaultSearchEngine(nextEngine.id);
+
+    const engineButton = engineButtonRef.current;
+    if (engineButton) {
+      const rect = engineButton.getBoundingClientRect();
+      const centerX = rect.left + rect.width / 2;
+      const centerY = rect.top + rect.height / 2;
+      createFireworkEffect(centerX, centerY);
+    }
+  }, [nextEngine, setDefaultSearchEngine, createFireworkEffect]);
+
   // 全局监听空格键，未聚焦输入框时聚焦搜索框
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
@@ -241,18 +354,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         if (!isInput || isOurSearchInput) {
           e.preventDefault();
           // 切换引擎并触发彩带动画
-          setEngine((prevEngine) => (prevEngine === 'bing' ? 'google' : 'bing'));
-
-          // 触发彩带动画 - 从搜索引擎按钮位置
-          const engineButton = document
-            .querySelector('.fa-brands.fa-microsoft, .fa-brands.fa-google')
-            ?.closest('button');
-          if (engineButton) {
-            const rect = engineButton.getBoundingClientRect();
-            const centerX = rect.left + rect.width / 2;
-            const centerY = rect.top + rect.height / 2;
-            createFireworkEffect(centerX, centerY);
-          }
+          switchEngine();
           return;
         }
       }
@@ -295,30 +397,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     window.addEventListener('keydown', handleGlobalKeyDown, { capture: true });
     return () =>
       window.removeEventListener('keydown', handleGlobalKeyDown, { capture: true } as any);
-  }, [setIsSearchFocused, searchQuery, isFocused, createFireworkEffect, isSettingsOpen, isWorkspaceOpen, showTodoModal]);
-
-  const engineList = [
-    { key: 'bing', label: 'Bing', icon: <i className="fa-brands fa-microsoft text-blue-400"></i> },
-    { key: 'google', label: 'Google', icon: <i className="fa-brands fa-google text-blue-500"></i> },
-  ];
-
-  // 切换搜索引擎并触发动画
-  const switchEngine = () => {
-    const idx = engineList.findIndex((e) => e.key === engine);
-    const newEngine = engineList[(idx + 1) % engineList.length].key as any;
-    setEngine(newEngine);
-
-    // 触发彩带动画 - 从搜索引擎按钮位置
-    const engineButton = document
-      .querySelector('.fa-brands.fa-microsoft, .fa-brands.fa-google')
-      ?.closest('button');
-    if (engineButton) {
-      const rect = engineButton.getBoundingClientRect();
-      const centerX = rect.left + rect.width / 2;
-      const centerY = rect.top + rect.height / 2;
-      createFireworkEffect(centerX, centerY);
-    }
-  };
+  }, [setIsSearchFocused, searchQuery, isFocused, switchEngine, isSettingsOpen, isWorkspaceOpen, showTodoModal]);
 
   // 表情名称和图标 - 双层布局：内圈4个 + 外圈4个
   const emojiNames = [
@@ -495,28 +574,112 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     </span>,
   ];
 
-  const getSearchUrl = (engine: string, query: string) => {
-    switch (engine) {
-      case 'google':
-        return `https://www.google.com/search?q=${encodeURIComponent(query)}`;
-      default:
-        return `https://www.bing.com/search?q=${encodeURIComponent(query)}`;
-    }
-  };
-
-  // 执行搜索并记录统计
-  const performSearchWithStats = (engine: string, query: string) => {
+  // 执行搜索并记录统计，带 !bang 前缀时使用对应引擎且不改变默认引擎
+  const performSearchWithStats = (query: string) => {
+    const bangMatch = parseBang(query, searchEngines);
     userStatsManager.recordSearch();
-    openUrl(getSearchUrl(engine, query));
+    openUrl(buildSearchUrl(bangMatch?.engine ?? currentEngine, bangMatch ? bangMatch.query : query));
   };
 
   // 根据设置打开链接的辅助函数
-  const openUrl = (url: string) => {
+  const openUrl = useCallback((url: string) => {
     if (searchInNewTab) {
       window.open(url, '_blank');
     } else {
       window.location.href = url;
     }
+  }, [searchInNewTab]);
+
+  // 设置入口来自父组件，用 ref 保存避免命令反复注册
+  const onOpenSettingsRef = useRef(onOpenSettings);
+  useEffect(() => {
+    onOpenSettingsRef.current = onOpenSettings;
+  }, [onOpenSettings]);
+
+  // 搜索框自带的命令，其他功能的命令由各自模块通过 useRegisterCommands 注册
+  const coreCommands = useMemo<PaletteCommand[]>(() => [
+    {
+      id: 'todo',
+      aliases: ['todo', '待办', '待办事项'],
+      title: '打开 TODO 列表',
+      icon: 'fa-solid fa-check-square',
+      badge: 'TODO',
+      color: 'blue',
+      args: 'colon',
+      argHint: '继续输入来添加待办事项...',
+      describe: (args) => args
+        ? { title: `添加待办：${describeQuickTodo(args)}`, icon: 'fa-solid fa-plus', badge: '添加', color: 'green' }
+        : {},
+      run: (args) => {
+        if (args) {
+          return addTodoToStorage(args);
+        }
+        setShowTodoModal(true);
+      },
+    },
+    {
+      id: 'workspace',
+      aliases: ['workspace', 'work', 'job', '工作空间', '工作', '办公'],
+      title: '打开工作空间',
+      icon: 'fa-solid fa-briefcase',
+      badge: '工作空间',
+      color: 'orange',
+      run: () => setIsWorkspaceOpen(true),
+    },
+    {
+      id: 'settings',
+      aliases: ['settings', 'setting', 'config', '设置', '配置'],
+      title: '打开设置页面',
+      icon: 'fa-solid fa-cogs',
+      badge: '设置',
+      color: 'purple',
+      run: () => onOpenSettingsRef.current?.(),
+    },
+    {
+      id: 'help',
+      aliases: ['help', '帮助', '帮助页面', '帮助界面', '指南'],
+      title: '打开帮助页面',
+      icon: 'fa-solid fa-question-circle',
+      badge: '帮助',
+      color: 'teal',
+      run: () => openUrl('/help/'),
+    },
+    {
+      id: 'developer',
+      aliases: ['author', 'developer', 'coder', 'about me', 'me', '作者', '开发者', '开发'],
+      title: '查看开发者信息',
+      icon: 'fa-solid fa-user-circle',
+      badge: '开发者',
+      color: 'indigo',
+      run: () => openUrl('/me/'),
+    },
+  ], [openUrl, setIsWorkspaceOpen]);
+  useRegisterCommands(coreCommands);
+  const commands = useCommands();
+
+  const showFeedback = (message: string, isError = false) => {
+    setCommandFeedback({ message, isError });
+    setTimeout(() => setCommandFeedback(null), 3000);
+  };
+
+  // 执行命令，参数未填写时仅提示，等待继续输入
+  const executeCommand = async (match: CommandMatch) => {
+    if (match.needsArgs) return;
+
+    setSearchQuery('');
+    setShowSuggestions(false);
+    setWebsiteSuggestions([]);
+    setWorkspaceSuggestions([]);
+
+    try {
+      const message = await match.command.run(match.args);
+      if (message) {
+        showFeedback(message);
+      }
+    } catch (error) {
+      console.warn(`命令 ${match.command.id} 执行失败:`, error);
+      showFeedback(`${match.command.title}失败`, true);
+    }
   };
 
   // 检测输入是否为URL
@@ -699,93 +862,45 @@ function SearchBarComponent(props: SearchBarProps = {}) {
   const generateSuggestions = useCallback(async (query: string): Promise<any[]> => {
     if (!query.trim()) return [];
 
-    try {
-      // 尝试使用百度联想API，通过JSONP方式绕过CORS
-      const script = document.createElement('script');
-      const callbackName = `baiduCallback_${Date.now()}`;
-
-      return new Promise<any[]>((resolve) => {
-        // 设置全局回调函数
-        (window as any)[callbackName] = (data: any) => {
-          if (data && data.s && Array.isArray(data.s)) {
-            const suggestions = data.s.slice(0, 5).map((suggestion: string, index: number) => ({
-              id: `baidu-${index}`,
-              text: suggestion,
-              query: suggestion,
-            }));
-            resolve(suggestions);
-          } else {
-            // 如果百度API失败，使用本地建议
-            const localSuggestions = generateSmartSuggestions(query);
-            resolve(
-              localSuggestions.slice(0, 5).map((suggestion, index) => ({
-                id: `local-${index}`,
-                text: suggestion,
-                query: suggestion,
-              }))
-            );
-          }
-
-          // 清理
-          document.head.removeChild(script);
-          delete (window as any)[callbackName];
-        };
-
-        // 设置超时处理
-        setTimeout(() => {
-          if ((window as any)[callbackName]) {
-            // 超时后使用本地建议
-            const localSuggestions = generateSmartSuggestions(query);
-            resolve(
-              localSuggestions.slice(0, 5).map((suggestion, index) => ({
-                id: `local-${index}`,
-                text: suggestion,
-                query: suggestion,
-              }))
-            );
-
-            // 清理
-            if (document.head.contains(script)) {
-              document.head.removeChild(script);
-            }
-            delete (window as any)[callbackName];
-          }
-        }, 2000);
-
-        // 创建JSONP请求
-        script.src = `https://suggestion.baidu.com/su?wd=${encodeURIComponent(query)}&cb=${callbackName}`;
-        script.onerror = () => {
-          // 如果脚本加载失败，使用本地建议
-          const localSuggestions = generateSmartSuggestions(query);
-          resolve(
-            localSuggestions.slice(0, 5).map((suggestion, index) => ({
-              id: `local-${index}`,
-              text: suggestion,
-              query: suggestion,
-            }))
-          );
-
-          // 清理
-          if (document.head.contains(script)) {
-            document.head.removeChild(script);
-          }
-          delete (window as any)[callbackName];
-        };
-
-        document.head.appendChild(script);
-      });
-    } catch (error) {
-      console.warn('Failed to fetch Baidu suggestions:', error);
+    // 带 !bang 时按对应引擎获取联想词，选中联想词后仍保留 bang 前缀
+    const bangMatch = parseBang(query, searchEngines);
+    const suggestEngine = bangMatch?.engine ?? currentEngine;
+    const keyword = bangMatch ? bangMatch.query : query;
+    const withBang = (text: string) => (bangMatch ? `!${bangMatch.bang} ${text}` : text);
+
+    const bangHint = bangMatch
+      ? [{
+          id: 'bang-search',
+          text: `使用 ${bangMatch.engine.name} 搜索${keyword ? `：${keyword}` : ''}`,
+          query,
+        }]
+      : [];
+
+    if (!keyword.trim()) return bangHint;
+
+    const remoteSuggestions = await fetchEngineSuggestions(suggestEngine, keyword);
+    if (remoteSuggestions && remoteSuggestions.length > 0) {
+      return [
+        ...bangHint,
+        ...remoteSuggestions.map((suggestion, index) => ({
+          id: `${suggestEngine.id}-${index}`,
+          text: suggestion,
+          query: withBang(suggestion),
+        })),
+      ];
+    }
 
-      // 备用方案：使用本地智能建议
-      const suggestions = generateSmartSuggestions(query);
-      return Promise.resolve(suggestions.slice(0, 5).map((suggestion, index) => ({
+    // 引擎未配置联想地址或请求失败时，使用本地智能建议
+    const localSuggestions = generateSmartSuggestions(keyword);
+    return [
+      ...bangHint,
+      ...localSuggestions.slice(0, 5).map((suggestion, index) => ({
         id: `local-${index}`,
         text: suggestion,
-        query: suggestion,
-      })));
-    }
-  }, [generateSmartSuggestions]);
+        query: withBang(suggestion),
+      })),
+    ];
+  }, [generateSmartSuggestions, searchEngines, currentEngine]);
 
   // 搜索网站卡片 - 智能匹配算法（支持拼音搜索）
   const searchWebsites = useCallback((query: string): WebsiteData[] => {
@@ -915,6 +1030,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     workspaceItems.forEach((item) => {
       let score = 0;
       let matchType = '';
+      const databaseLabel = getDatabaseLabel(item.databaseId);
 
       // 1. 标题匹配 (支持拼音) - 权重最高
       const titleMatch = matchWithPinyin(queryLower, item.title);
@@ -932,6 +1048,15 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         }
       }
 
+      // 2.1 所属数据库匹配 (支持拼音)
+      if (databaseLabel) {
+        const databaseMatch = matchWithPinyin(queryLower, databaseLabel);
+        if (databaseMatch.matched) {
+          score += databaseMatch.score * 0.7;
+          matchType = matchType || `数据库${databaseMatch.matchType}`;
+        }
+      }
+
       // 3. 描述匹配 (支持拼音)
       if (item.description && queryLower.length >= 2) {
         const descMatch = matchWithPinyin(queryLower, item.description);
@@ -967,6 +1092,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
             description: item.description,
             icon: item.icon,
             category: item.category,
+            databaseLabel: databaseLabel || undefined,
           },
           score,
           matchType,
@@ -995,161 +1121,18 @@ function SearchBarComponent(props: SearchBarProps = {}) {
 
     const debounceTimer = setTimeout(() => {
       if (searchQuery.trim()) {
-        const queryLower = searchQuery.toLowerCase();
-
-        // 检测TODO相关输入（支持中英文）
-        if (queryLower === 'todo' || queryLower.startsWith('todo ') ||
-          queryLower === '待办' || queryLower === '待办事项' ||
-          queryLower.startsWith('待办 ') || queryLower.startsWith('待办事项 ') ||
-          queryLower.startsWith('todo:') || queryLower.startsWith('todo：') ||
-          queryLower.startsWith('待办:') || queryLower.startsWith('待办：') ||
-          queryLower.startsWith('待办事项:') || queryLower.startsWith('待办事项：')) {
-          // 生成TODO相关建议
-          const todoSuggestions = [];
-
-          if (queryLower === 'todo' || queryLower === '待办' || queryLower === '待办事项') {
-            todoSuggestions.push({
-              id: 'open-todo',
-              text: '打开 TODO 列表',
-              query: 'todo',
-              isTodoAction: true,
-              action: 'open'
-            });
-          } else if (queryLower === 'todo:' || queryLower === 'todo：' ||
-            queryLower === '待办:' || queryLower === '待办：' ||
-            queryLower === '待办事项:' || queryLower === '待办事项：') {
-            todoSuggestions.push({
-              id: 'todo-input-hint',
-              text: '继续输入来添加待办事项...',
-              query: searchQuery,
-              isTodoAction: true,
-              action: 'hint'
-            });
-          } else if (queryLower.startsWith('todo:') || queryLower.startsWith('todo：') ||
-            queryLower.startsWith('待办:') || queryLower.startsWith('待办：') ||
-            queryLower.startsWith('待办事项:') || queryLower.startsWith('待办事项：')) {
-            // 用户正在输入待办内容
-            let separator = ':';
-            let todoText = '';
-
-            if (searchQuery.includes('：')) {
-              separator = '：';
-            }
-
-            if (queryLower.startsWith('todo')) {
-              todoText = searchQuery.split(separator)[1]?.trim();
-            } else if (queryLower.startsWith('待办事项')) {
-              todoText = searchQuery.split(separator)[1]?.trim();
-            } else if (queryLower.startsWith('待办')) {
-              todoText = searchQuery.split(separator)[1]?.trim();
-            }
-
-            if (todoText) {
-              todoSuggestions.push({
-                id: 'todo-ready-to-add',
-                text: `添加待办：${todoText}`,
-                query: searchQuery,
-                isTodoAction: true,
-                action: 'add',
-                todoText: todoText
-              });
-            } else {
-              todoSuggestions.push({
-                id: 'todo-input-hint',
-                text: '继续输入来添加待办事项...',
-                query: searchQuery,
-                isTodoAction: true,
-                action: 'hint'
-              });
-            }
-          }
-
-          setSuggestions(todoSuggestions);
-          setWebsiteSuggestions([]);
-          setShowSuggestions(todoSuggestions.length > 0);
-          setSelectedSuggestionIndex(-1);
-          return;
-        }
-
-        // 检测工作空间相关输入（支持中英文）
-        if (queryLower === 'workspace' || queryLower === 'work' || queryLower === 'job' ||
-          queryLower === '工作空间' || queryLower === '工作' || queryLower === '办公') {
-          // 生成工作空间相关建议
-          const workspaceSuggestions = [{
-            id: 'open-workspace',
-            text: '打开工作空间',
-            query: searchQuery,
-            isWorkspaceAction: true,
-            action: 'open'
-          }];
-
-          setSuggestions(workspaceSuggestions);
-          setWebsiteSuggestions([]);
-          setShowSuggestions(workspaceSuggestions.length > 0);
-          setSelectedSuggestionIndex(-1);
-          return;
-        }
-
-        // 检测Settings相关输入（支持中英文）
-        if (queryLower === 'settings' || queryLower === 'setting' ||
-          queryLower === '设置' || queryLower === 'config' || queryLower === '配置') {
-          // 生成设置相关建议
-          const settingsSuggestions = [];
-
-          settingsSuggestions.push({
-            id: 'open-settings',
-            text: '打开设置页面',
-            query: queryLower,
-            isSettingsAction: true,
-            action: 'open'
-          });
-
-          setSuggestions(settingsSuggestions);
-          setWebsiteSuggestions([]);
-          setShowSuggestions(settingsSuggestions.length > 0);
-          setSelectedSuggestionIndex(-1);
-          return;
-        }
-
-        // 检测Help相关输入（支持中英文）
-        if (queryLower === 'help' || queryLower === '帮助' ||
-          queryLower === '帮助页面' || queryLower === '帮助界面' || queryLower === '指南') {
-          // 生成帮助相关建议
-          const helpSuggestions = [{
-            id: 'open-help',
-            text: '打开帮助页面',
-            query: queryLower,
-            isHelpAction: true,
-            action: 'open'
-          }];
-
-          setSuggestions(helpSuggestions);
-          setWebsiteSuggestions([]);
-          setShowSuggestions(helpSuggestions.length > 0);
-          setSelectedSuggestionIndex(-1);
-          return;
-        }
-
-        // 检测开发者/作者相关输入（支持中英文）
-        if (queryLower === 'author' || queryLower === 'developer' ||
-          queryLower === 'coder' || queryLower === '作者' ||
-          queryLower === '开发者' || queryLower === '开发' ||
-          queryLower === 'about me' || queryLower === 'me') {
-          // 生成开发者相关建议
-          const developerSuggestions = [{
-            id: 'open-developer',
-            text: '查看开发者信息',
-            query: queryLower,
-            isDeveloperAction: true,
-            action: 'open'
-          }];
-
-          setSuggestions(developerSuggestions);
+        // 命令触发词完全命中时只显示命令
+        const commandMatches = matchCommands(searchQuery, commands, matchWithPinyin);
+        if (commandMatches.some((match) => match.exact)) {
+          setSuggestions(commandMatches.map(toCommandSuggestion));
           setWebsiteSuggestions([]);
-          setShowSuggestions(developerSuggestions.length > 0);
+          setWorkspaceSuggestions([]);
+          setShowSuggestions(true);
           setSelectedSuggestionIndex(-1);
           return;
         }
+        // 拼音/模糊命中的命令作为候选放在搜索建议前面
+        const commandSuggestions = commandMatches.map(toCommandSuggestion);
 
         // 同时搜索网站、工作空间和生成搜索建议
         const matchedWebsites = searchWebsites(searchQuery);
@@ -1173,8 +1156,9 @@ function SearchBarComponent(props: SearchBarProps = {}) {
 
           // 生成常规搜索建议作为备选
           generateSuggestions(searchQuery).then((newSuggestions) => {
-            // URL建议放在最前面
-            const allSuggestions = [urlSuggestion, ...newSuggestions];
+            // URL建议放在最前面，其后是可作用于网址的命令（如添加为卡片）
+            const urlCommandSuggestions = matchUrlCommands(formattedURL, commands).map(toCommandSuggestion);
+            const allSuggestions = [urlSuggestion, ...urlCommandSuggestions, ...commandSuggestions, ...newSuggestions];
             setSuggestions(allSuggestions);
             // 只要有任一类型的建议就显示下拉框
             setShowSuggestions(matchedWebsites.length > 0 || matchedWorkspace.length > 0 || allSuggestions.length > 0);
@@ -1183,9 +1167,10 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         } else {
           // 总是生成搜索建议，与网站卡片并存
           generateSuggestions(searchQuery).then((newSuggestions) => {
-            setSuggestions(newSuggestions);
+            const allSuggestions = [...commandSuggestions, ...newSuggestions];
+            setSuggestions(allSuggestions);
             // 只要有任一类型的建议就显示下拉框
-            setShowSuggestions(matchedWebsites.length > 0 || matchedWorkspace.length > 0 || newSuggestions.length > 0);
+            setShowSuggestions(matchedWebsites.length > 0 || matchedWorkspace.length > 0 || allSuggestions.length > 0);
             setSelectedSuggestionIndex(-1);
           });
         }
@@ -1199,7 +1184,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     }, 300);
 
     return () => clearTimeout(debounceTimer);
-  }, [searchQuery, websites, workspaceItems]);
+  }, [searchQuery, websites, workspaceItems, commands]);
 
   const handleSearch = (
     e: React.FormEvent,
@@ -1256,69 +1241,10 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         const suggestionIndex = selectedSuggestionIndex - websiteSuggestions.length - workspaceSuggestions.length;
         const selectedSuggestion = suggestions[suggestionIndex];
 
-        // 检查是否是TODO操作
-        if (selectedSuggestion?.isTodoAction) {
-          if (selectedSuggestion.action === 'open') {
-            setShowTodoModal(true);
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          } else if (selectedSuggestion.action === 'hint') {
-            // 提示状态，不执行任何操作，让用户继续输入
-            return;
-          } else if (selectedSuggestion.action === 'add' && (selectedSuggestion as any).todoText) {
-            // 添加待办事项
-            addTodoToStorage((selectedSuggestion as any).todoText);
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          }
-        }
-
-        // 检查是否是工作空间操作
-        if (selectedSuggestion?.isWorkspaceAction) {
-          if (selectedSuggestion.action === 'open') {
-            setIsWorkspaceOpen(true);
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          }
-        }
-
-        // 检查是否是Settings操作
-        if (selectedSuggestion?.isSettingsAction) {
-          if (selectedSuggestion.action === 'open' && onOpenSettings) {
-            onOpenSettings();
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          }
-        }
-
-        // 检查是否是Help操作
-        if ((selectedSuggestion as any)?.isHelpAction) {
-          if ((selectedSuggestion as any).action === 'open') {
-            openUrl('/help/');
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          }
-        }
-
-        // 检查是否是开发者操作
-        if ((selectedSuggestion as any)?.isDeveloperAction) {
-          if ((selectedSuggestion as any).action === 'open') {
-            openUrl('/me/');
-            setSearchQuery('');
-            setShowSuggestions(false);
-            setWebsiteSuggestions([]);
-            return;
-          }
+        // 检查是否是命令
+        if (selectedSuggestion?.command) {
+          executeCommand(selectedSuggestion.command);
+          return;
         }
 
         // 检查是否是直接访问建议
@@ -1333,7 +1259,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         // 常规搜索
         const queryToSearch = selectedSuggestion?.query || searchQuery;
         if (queryToSearch.trim()) {
-          performSearchWithStats(engine, queryToSearch);
+          performSearchWithStats(queryToSearch);
           setSearchQuery('');
           setShowSuggestions(false);
           setWebsiteSuggestions([]);
@@ -1345,93 +1271,10 @@ function SearchBarComponent(props: SearchBarProps = {}) {
     // 默认搜索或直接访问
     const queryToSearch = suggestionQuery || searchQuery;
     if (queryToSearch.trim()) {
-      const queryLower = queryToSearch.toLowerCase();
-
-      // 检测TODO相关输入（支持中英文）
-      if (queryLower === 'todo' || queryLower === '待办' || queryLower === '待办事项') {
-        // 打开TODO弹窗
-        setShowTodoModal(true);
-        setSearchQuery('');
-        setShowSuggestions(false);
-        setWebsiteSuggestions([]);
-        return;
-      }
-
-      // 检测TODO:xxx格式，直接添加TODO（支持中英文）
-      if (queryLower.startsWith('todo:') || queryLower.startsWith('todo：') ||
-        queryLower.startsWith('待办:') || queryLower.startsWith('待办：') ||
-        queryLower.startsWith('待办事项:') || queryLower.startsWith('待办事项：')) {
-        let separator = ':';
-        let todoText = '';
-
-        if (queryToSearch.includes('：')) {
-          separator = '：';
-        }
-
-        if (queryLower.startsWith('todo')) {
-          todoText = queryToSearch.split(separator)[1]?.trim();
-        } else if (queryLower.startsWith('待办事项')) {
-          todoText = queryToSearch.split(separator)[1]?.trim();
-        } else if (queryLower.startsWith('待办')) {
-          todoText = queryToSearch.split(separator)[1]?.trim();
-        }
-
-        if (todoText) {
-          addTodoToStorage(todoText);
-          setSearchQuery('');
-          setShowSuggestions(false);
-          setWebsiteSuggestions([]);
-          return;
-        }
-      }
-
-      // 检测工作空间相关输入（支持中英文）
-      if (queryLower === 'workspace' || queryLower === 'work' || queryLower === 'job' ||
-        queryLower === '工作空间' || queryLower === '工作' || queryLower === '办公') {
-        // 打开工作空间
-        setIsWorkspaceOpen(true);
-        setSearchQuery('');
-        setShowSuggestions(false);
-        setWebsiteSuggestions([]);
-        return;
-      }
-
-      // 检测Settings相关输入（支持中英文）
-      if (queryLower === 'settings' || queryLower === 'setting' ||
-        queryLower === '设置' || queryLower === 'config' || queryLower === '配置') {
-        // 打开设置页面
-        if (onOpenSettings) {
-          onOpenSettings();
-          setSearchQuery('');
-          setShowSuggestions(false);
-          setWebsiteSuggestions([]);
-          return;
-        }
-      }
-
-      // Detect Help related inputs (support Chinese and English)
-      if (queryLower === 'help' || queryLower === '帮助' ||
-        queryLower === '帮助页面' || queryLower === '帮助界面') {
-        // Open Workspace Settings in guide mode
-        if (onOpenSettings) {
-          onOpenSettings();
-        }
-        setSearchQuery('');
-        setShowSuggestions(false);
-        setWebsiteSuggestions([]);
-        return;
-      }
-
-      // 检测开发者/作者相关输入（支持中英文）
-      if (queryLower === 'author' || queryLower === 'developer' ||
-        queryLower === 'coder' || queryLower === '作者' ||
-        queryLower === '开发者' || queryLower === '开发' ||
-        queryLower === 'about me' || queryLower === 'me') {
-        // 打开开发者页面
-        openUrl('/me/');
-        setSearchQuery('');
-        setShowSuggestions(false);
-        setWebsiteSuggestions([]);
+      // 触发词完全命中的命令直接执行
+      const [commandMatch] = matchCommands(queryToSearch, commands);
+      if (commandMatch) {
+        executeCommand(commandMatch);
         return;
       }
 
@@ -1454,7 +1297,7 @@ function SearchBarComponent(props: SearchBarProps = {}) {
         }
 
         // 搜索引擎搜索
-        performSearchWithStats(engine, queryToSearch);
+        performSearchWithStats(queryToSearch);
         setSearchQuery('');
         setShowSuggestions(false);
         setWebsiteSuggestions([]);
@@ -1567,22 +1410,23 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                     display: 'flex',
                   }}
                   tabIndex={-1}
+                  ref={engineButtonRef}
                   onClick={() => {
                     switchEngine();
                   }}
                   onMouseEnter={() => setShowEngineTooltip(true)}
                   onMouseLeave={() => setShowEngineTooltip(false)}
                 >
-                  {engineList.find((e) => e.key === engine)?.icon}
+                  <SearchEngineIcon engine={currentEngine} />
                   <span className="hidden sm:inline text-base font-semibold select-none">
-                    {engineList.find((e) => e.key === engine)?.label}
+                    {currentEngine.name}
                   </span>
                 </motion.button>
 
                 {/* 自定义美观的 tooltip */}
                 {showEngineTooltip && (
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-800/90 text-white text-sm rounded-lg shadow-lg backdrop-blur-sm border border-white/10 whitespace-nowrap z-30">
-                    切换至 {engine === 'bing' ? 'Google' : 'Bing'}
+                    切换至 {nextEngine.name}
                     <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-l-transparent border-r-transparent border-t-gray-800/90"></div>
                   </div>
                 )}
@@ -1919,6 +1763,13 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                                         </>
                                       )}
 
+                                      {/* 所属数据库 */}
+                                      {workspace.databaseLabel && (
+                                        <span className={`px-1.5 py-0.5 ${darkMode ? 'bg-purple-900/50 text-purple-300' : 'bg-purple-100 text-purple-600'} rounded text-xs font-medium truncate max-w-[100px]`}>
+                                          {workspace.databaseLabel}
+                                        </span>
+                                      )}
+
                                       {/* URL */}
                                       {!isMobile && (
                                         <>
@@ -1976,96 +1827,30 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                             const adjustedIndex = index + websiteSuggestions.length + workspaceSuggestions.length;
                             const isSelected = adjustedIndex === selectedSuggestionIndex;
                             const isDirectVisit = (suggestion as any).isDirectVisit;
-                            const isTodoAction = (suggestion as any).isTodoAction;
-                            const isSettingsAction = (suggestion as any).isSettingsAction;
-                            const isHint = (suggestion as any).action === 'hint';
-                            const isAdd = (suggestion as any).action === 'add';
+                            const commandMatch = (suggestion as any).command as CommandMatch | undefined;
+                            const commandView = commandMatch && presentCommand(commandMatch);
+                            const commandStyle = commandView && COMMAND_COLOR_STYLES[commandView.color];
+                            const isHint = !!commandMatch?.needsArgs;
 
                             return (
                               <div
                                 key={suggestion.id}
                                 className={`${isMobile ? 'px-3 py-2' : 'px-4 py-3'} ${isHint ? 'cursor-default' : 'cursor-pointer'} transition-all duration-200 border-b ${darkMode ? 'border-gray-700/50' : 'border-gray-100/50'} last:border-b-0 select-none ${isSelected
-                                  ? isTodoAction && !isHint
-                                    ? isAdd
+                                  ? commandStyle
+                                    ? commandStyle.selected
+                                    : isDirectVisit
                                       ? 'bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-green-200'
-                                      : 'bg-gradient-to-r from-blue-500/10 to-indigo-500/10 border-blue-200'
-                                    : isSettingsAction
-                                      ? 'bg-gradient-to-r from-purple-500/10 to-violet-500/10 border-purple-200'
-                                      : (suggestion as any).isHelpAction
-                                        ? 'bg-gradient-to-r from-teal-500/10 to-cyan-500/10 border-teal-200'
-                                        : (suggestion as any).isDeveloperAction
-                                          ? 'bg-gradient-to-r from-indigo-500/10 to-purple-500/10 border-indigo-200'
-                                          : (suggestion as any).isWorkspaceAction
-                                            ? 'bg-gradient-to-r from-orange-500/10 to-amber-500/10 border-orange-200'
-                                            : isHint
-                                              ? 'bg-gray-100/50 text-gray-600'
-                                              : isDirectVisit
-                                                ? 'bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-green-200'
-                                                : 'bg-gradient-to-r from-emerald-500/10 to-teal-500/10 border-emerald-200'
-                                  : isTodoAction && !isHint
-                                    ? isAdd
+                                      : 'bg-gradient-to-r from-emerald-500/10 to-teal-500/10 border-emerald-200'
+                                  : commandStyle
+                                    ? commandStyle.hover
+                                    : isDirectVisit
                                       ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-green-50'
-                                      : 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-blue-50'
-                                    : isSettingsAction
-                                      ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-purple-50'
-                                      : (suggestion as any).isHelpAction
-                                        ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-teal-50'
-                                        : (suggestion as any).isDeveloperAction
-                                          ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-indigo-50'
-                                          : (suggestion as any).isWorkspaceAction
-                                            ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-orange-50'
-                                            : isHint
-                                              ? 'bg-gray-50/50 text-gray-600'
-                                              : isDirectVisit
-                                                ? 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-green-50'
-                                                : 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-emerald-50'
+                                      : 'hover:bg-gradient-to-r hover:from-gray-50 hover:to-emerald-50'
                                   }`}
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  if ((suggestion as any).isTodoAction) {
-                                    if ((suggestion as any).action === 'open') {
-                                      setShowTodoModal(true);
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    } else if ((suggestion as any).action === 'hint') {
-                                      // 提示状态，不执行操作，让用户继续输入
-                                      return;
-                                    } else if ((suggestion as any).action === 'add' && (suggestion as any).todoText) {
-                                      // 添加待办事项
-                                      addTodoToStorage((suggestion as any).todoText);
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    }
-                                  } else if ((suggestion as any).isWorkspaceAction) {
-                                    if ((suggestion as any).action === 'open') {
-                                      setIsWorkspaceOpen(true);
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    }
-                                  } else if ((suggestion as any).isSettingsAction) {
-                                    if ((suggestion as any).action === 'open' && onOpenSettings) {
-                                      onOpenSettings();
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    }
-                                  } else if ((suggestion as any).isHelpAction) {
-                                    if ((suggestion as any).action === 'open') {
-                                      openUrl('/help/');
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    }
-                                  } else if ((suggestion as any).isDeveloperAction) {
-                                    if ((suggestion as any).action === 'open') {
-                                      openUrl('/me/');
-                                      setSearchQuery('');
-                                      setShowSuggestions(false);
-                                      setWebsiteSuggestions([]);
-                                    }
+                                  if (commandMatch) {
+                                    executeCommand(commandMatch);
                                   } else if (isDirectVisit) {
                                     handleSearch(e as any, suggestion.query, undefined, true);
                                   } else {
@@ -2077,39 +1862,11 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                                 onMouseDown={(e) => e.preventDefault()}
                               >
                                 <div className="flex items-center gap-3 select-none">
-                                  {(suggestion as any).isTodoAction ? (
-                                    <div className="flex items-center gap-2">
-                                      <i className={`${isHint ? 'fa-solid fa-pencil-alt text-gray-500' : isAdd ? 'fa-solid fa-plus text-green-600' : 'fa-solid fa-check-square text-blue-600'} text-sm w-4 select-none`}></i>
-                                      <div className={`${isHint ? 'bg-gray-100 text-gray-600' : isAdd ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'} px-2 py-1 rounded-full text-xs font-medium`}>
-                                        {isHint ? '提示' : isAdd ? '添加' : 'TODO'}
-                                      </div>
-                                    </div>
-                                  ) : (suggestion as any).isWorkspaceAction ? (
-                                    <div className="flex items-center gap-2">
-                                      <i className="fa-solid fa-briefcase text-orange-600 text-sm w-4 select-none"></i>
-                                      <div className="bg-orange-100 text-orange-700 px-2 py-1 rounded-full text-xs font-medium">
-                                        工作空间
-                                      </div>
-                                    </div>
-                                  ) : (suggestion as any).isSettingsAction ? (
-                                    <div className="flex items-center gap-2">
-                                      <i className="fa-solid fa-cogs text-purple-600 text-sm w-4 select-none"></i>
-                                      <div className="bg-purple-100 text-purple-700 px-2 py-1 rounded-full text-xs font-medium">
-                                        设置
-                                      </div>
-                                    </div>
-                                  ) : (suggestion as any).isHelpAction ? (
+                                  {commandView && commandStyle ? (
                                     <div className="flex items-center gap-2">
-                                      <i className="fa-solid fa-question-circle text-teal-600 text-sm w-4 select-none"></i>
-                                      <div className="bg-teal-100 text-teal-700 px-2 py-1 rounded-full text-xs font-medium">
-                                        帮助
-                                      </div>
-                                    </div>
-                                  ) : (suggestion as any).isDeveloperAction ? (
-                                    <div className="flex items-center gap-2">
-                                      <i className="fa-solid fa-user-circle text-indigo-600 text-sm w-4 select-none"></i>
-                                      <div className="bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full text-xs font-medium">
-                                        开发者
+                                      <i className={`${isHint ? 'fa-solid fa-pencil-alt' : commandView.icon} ${commandStyle.icon} text-sm w-4 select-none`}></i>
+                                      <div className={`${commandStyle.badge} px-2 py-1 rounded-full text-xs font-medium`}>
+                                        {isHint ? '提示' : commandView.badge}
                                       </div>
                                     </div>
                                   ) : isDirectVisit ? (
@@ -2123,21 +1880,9 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                                     <i className="fa-solid fa-magnifying-glass text-gray-400 text-sm w-4 select-none"></i>
                                   )}
                                   <div className="flex-1 min-w-0 select-none">
-                                    {(suggestion as any).isTodoAction ? (
-                                      <div className={`font-medium text-sm ${isHint ? 'text-gray-600 italic' : isAdd ? 'text-green-700' : 'text-blue-700'} select-none`}>
-                                        {suggestion.text}
-                                      </div>
-                                    ) : (suggestion as any).isSettingsAction ? (
-                                      <div className="font-medium text-sm text-purple-700 select-none">
-                                        {suggestion.text}
-                                      </div>
-                                    ) : (suggestion as any).isHelpAction ? (
-                                      <div className="font-medium text-sm text-teal-700 select-none">
-                                        {suggestion.text}
-                                      </div>
-                                    ) : (suggestion as any).isDeveloperAction ? (
-                                      <div className="font-medium text-sm text-indigo-700 select-none">
-                                        {suggestion.text}
+                                    {commandView && commandStyle ? (
+                                      <div className={`font-medium text-sm truncate ${commandStyle.text} select-none`}>
+                                        {commandView.title}
                                       </div>
                                     ) : isDirectVisit ? (
                                       <div>
@@ -2155,21 +1900,11 @@ function SearchBarComponent(props: SearchBarProps = {}) {
                                     )}
                                   </div>
                                   <div
-                                    className={`text-xs px-2 py-1 rounded ${(suggestion as any).isTodoAction && !isHint
-                                      ? isAdd
+                                    className={`text-xs px-2 py-1 rounded ${commandStyle
+                                      ? commandStyle.key
+                                      : isDirectVisit
                                         ? 'text-green-600 bg-green-100'
-                                        : 'text-blue-600 bg-blue-100'
-                                      : (suggestion as any).isSettingsAction
-                                        ? 'text-purple-600 bg-purple-100'
-                                        : (suggestion as any).isHelpAction
-                                          ? 'text-teal-600 bg-teal-100'
-                                          : (suggestion as any).isDeveloperAction
-                                            ? 'text-indigo-600 bg-indigo-100'
-                                            : isHint
-                                              ? 'text-gray-500 bg-gray-200'
-                                              : isDirectVisit
-                                                ? 'text-green-600 bg-green-100'
-                                                : 'text-gray-400 bg-gray-100'
+                                        : 'text-gray-400 bg-gray-100'
                                       }`}
                                   >
                                     {isHint ? '输入...' : 'Enter'}
@@ -2374,17 +2109,17 @@ function SearchBarComponent(props: SearchBarProps = {}) {
 
       {/* TODO反馈提示 */}
       <AnimatePresence>
-        {todoFeedback && (
+        {commandFeedback && (
           <motion.div
-            className="fixed top-4 right-4 z-[60] bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg"
+            className={`fixed top-4 right-4 z-[60] ${commandFeedback.isError ? 'bg-red-500' : 'bg-green-500'} text-white px-4 py-2 rounded-lg shadow-lg`}
             initial={{ opacity: 0, y: -20, scale: 0.9 }}
             animate={{ opacity: 1, y: 0, scale: 1 }}
             exit={{ opacity: 0, y: -20, scale: 0.9 }}
             transition={{ duration: 0.3 }}
           >
             <div className="flex items-center gap-2">
-              <i className="fa-solid fa-check-circle"></i>
-              <span>{todoFeedback}</span>
+              <i className={`fa-solid ${commandFeedback.isError ? 'fa-circle-exclamation' : 'fa-check-circle'}`}></i>
+              <span>{commandFeedback.message}</span>
             </div>
           </motion.div>
         )}
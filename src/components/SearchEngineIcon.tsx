@@ -0,0 +1,31 @@
+import { SearchEngine } from '@/lib/searchEngines';
+import { extractDomain } from '@/lib/faviconUtils';
+
+interface SearchEngineIconProps {
+  engine: SearchEngine;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * 搜索引擎图标 - 支持 Font Awesome 类名、图片地址，未配置时使用站点图标
+ */
+export default function SearchEngineIcon({ engine, size = 18, className = '' }: SearchEngineIconProps) {
+  const icon = engine.icon.trim();
+
+  if (icon.includes('fa-')) {
+    return <i className={`${icon} ${className}`}></i>;
+  }
+
+  const src = icon || `https://favicon.im/${extractDomain(engine.urlTemplate)}`;
+
+  return (
+    <img
+      src={src}
+      alt={engine.name}
+      className={`rounded-sm object-contain ${className}`}
+      style={{ width: size, height: size, display: 'block', userSelect: 'none' }}
+      draggable={false}
+    />
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import SearchEngineIcon from '@/components/SearchEngineIcon';
+import {
+  SearchEngine,
+  DEFAULT_SEARCH_ENGINES,
+  DEFAULT_SEARCH_ENGINE_ID,
+  createSearchEngine,
+  getSwitchableEngines,
+  isJsonpSuggestUrl,
+  isValidUrlTemplate,
+  normalizeBang,
+  resolveSearchEngine,
+} from '@/lib/searchEngines';
+
+interface EngineDraft {
+  name: string;
+  urlTemplate: string;
+  icon: string;
+  suggestUrl: string;
+  bang: string;
+  bangOnly: boolean;
+}
+
+const EMPTY_DRAFT: EngineDraft = {
+  name: '',
+  urlTemplate: '',
+  icon: '',
+  suggestUrl: '',
+  bang: '',
+  bangOnly: false,
+};
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all';
+
+const toDraft = (engine: SearchEngine): EngineDraft => ({
+  name: engine.name,
+  urlTemplate: engine.urlTemplate,
+  icon: engine.icon,
+  suggestUrl: engine.suggestUrl || '',
+  bang: engine.bang || '',
+  bangOnly: !!engine.bangOnly,
+});
+
+/**
+ * 搜索引擎管理 - 默认引擎、自定义引擎与 !bang 快捷前缀
+ */
+export default function SearchEngineSettings() {
+  const { searchEngines, setSearchEngines, defaultSearchEngine, setDefaultSearchEngine } =
+    useTransparency();
+  // 正在编辑的引擎 ID，'new' 表示新增
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EngineDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState('');
+
+  const currentDefault = resolveSearchEngine(searchEngines, defaultSearchEngine);
+  const switchableCount = getSwitchableEngines(searchEngines).length;
+
+  const startEdit = (engine?: SearchEngine) => {
+    setEditingId(engine ? engine.id : 'new');
+    setDraft(engine ? toDraft(engine) : EMPTY_DRAFT);
+    setError('');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setError('');
+  };
+
+  const validateDraft = (): string => {
+    if (!draft.name.trim()) return '请填写引擎名称';
+    if (!isValidUrlTemplate(draft.urlTemplate.trim())) {
+      return '搜索地址需以 http(s):// 开头并包含 %s';
+    }
+    if (draft.suggestUrl.trim() && !draft.suggestUrl.includes('%s')) {
+      return '联想地址需包含 %s';
+    }
+    if (draft.suggestUrl.includes('%c') && !isJsonpSuggestUrl(draft.suggestUrl.trim())) {
+      return '自定义联想地址不支持 JSONP，请使用返回 JSON 的地址';
+    }
+
+    const bang = normalizeBang(draft.bang);
+    if (bang && !/^[a-z0-9]+$/.test(bang)) return '快捷前缀只能包含字母和数字';
+    if (bang && searchEngines.some((engine) => engine.bang === bang && engine.id !== editingId)) {
+      return `!${bang} 已被其他引擎使用`;
+    }
+
+    // 至少保留一个可切换的引擎
+    const editing = searchEngines.find((engine) => engine.id === editingId);
+    if (draft.bangOnly && editing && !editing.bangOnly && switchableCount <= 1) {
+      return '至少需要保留一个可切换的搜索引擎';
+    }
+    return '';
+  };
+
+  const saveDraft = () => {
+    const message = validateDraft();
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    const fields = {
+      name: draft.name.trim(),
+      urlTemplate: draft.urlTemplate.trim(),
+      icon: draft.icon.trim(),
+      suggestUrl: draft.suggestUrl.trim() || undefined,
+      bang: normalizeBang(draft.bang) || undefined,
+      bangOnly: draft.bangOnly,
+    };
+
+    if (editingId === 'new') {
+      setSearchEngines([...searchEngines, createSearchEngine(fields)]);
+    } else {
+      setSearchEngines(
+        searchEngines.map((engine) => (engine.id === editingId ? { ...engine, ...fields } : engine))
+      );
+    }
+    cancelEdit();
+  };
+
+  const deleteEngine = (engine: SearchEngine) => {
+    if (!engine.bangOnly && switchableCount <= 1) return;
+    if (!confirm(`确定要删除搜索引擎「${engine.name}」吗？`)) return;
+
+    const remaining = searchEngines.filter((item) => item.id !== engine.id);
+    setSearchEngines(remaining);
+    if (engine.id === currentDefault.id) {
+      setDefaultSearchEngine(resolveSearchEngine(remaining, '').id);
+    }
+    if (editingId === engine.id) cancelEdit();
+  };
+
+  const resetEngines = () => {
+    if (!confirm('确定要恢复默认搜索引擎吗？自定义的引擎将被移除。')) return;
+    setSearchEngines(DEFAULT_SEARCH_ENGINES);
+    setDefaultSearchEngine(DEFAULT_SEARCH_ENGINE_ID);
+    cancelEdit();
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-2 p-3 rounded-xl bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="名称"
+          maxLength={30}
+          className={inputClassName}
+        />
+        <input
+          value={draft.bang}
+          onChange={(e) => setDraft({ ...draft, bang: e.target.value })}
+          placeholder="快捷前缀，如 gh"
+          maxLength={10}
+          className={inputClassName}
+        />
+      </div>
+      <input
+        value={draft.urlTemplate}
+        onChange={(e) => setDraft({ ...draft, urlTemplate: e.target.value })}
+        placeholder="搜索地址，如 https://example.com/search?q=%s"
+        className={inputClassName}
+      />
+      <input
+        value={draft.suggestUrl}
+        onChange={(e) => setDraft({ ...draft, suggestUrl: e.target.value })}
+        placeholder="联想地址（可选，%s 为搜索词，需返回 JSON）"
+        className={inputClassName}
+      />
+      <input
+        value={draft.icon}
+        onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+        placeholder="图标（可选，图片地址或 fa-solid fa-xxx，留空使用站点图标）"
+        className={inputClassName}
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={draft.bangOnly}
+          onChange={(e) => setDraft({ ...draft, bangOnly: e.target.checked })}
+        />
+        仅通过快捷前缀使用（不参与 Tab 切换）
+      </label>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={cancelEdit}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+        >
+          取消
+        </button>
+        <button
+          onClick={saveDraft}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-md transition-all duration-200"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <i className="fa-solid fa-magnifying-glass text-blue-500 text-sm"></i>
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">
+            搜索引擎
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={resetEngines}
+            className="px-2.5 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+          >
+            恢复默认
+          </button>
+          <button
+            onClick={() => startEdit()}
+            className="px-2.5 py-1.5 rounded-lg text-xs font-medium bg-gradient-to-r from-indigo-500 to-purple-600 text-white shadow-md transition-all duration-200"
+          >
+            <i className="fa-solid fa-plus mr-1"></i>添加
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 select-none mb-3">
+        当前默认：{currentDefault.name}。在搜索框输入 !gh 关键词 可临时使用对应引擎搜索
+      </p>
+
+      {editingId === 'new' && <div className="mb-2">{renderEditor()}</div>}
+
+      <div className="space-y-1.5">
+        {searchEngines.map((engine) =>
+          editingId === engine.id ? (
+            <div key={engine.id}>{renderEditor()}</div>
+          ) : (
+            <div
+              key={engine.id}
+              className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+            >
+              <span className="w-7 h-7 flex items-center justify-center rounded-lg bg-gray-800 text-sm flex-shrink-0">
+                <SearchEngineIcon engine={engine} size={16} />
+              </span>
+              <span className="text-sm text-gray-700 dark:text-gray-200 truncate">{engine.name}</span>
+              {engine.bang && (
+                <span className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-[0.65rem] font-mono text-gray-500 dark:text-gray-400">
+                  !{engine.bang}
+                </span>
+              )}
+              <div className="flex-1"></div>
+              {engine.bangOnly ? (
+                <span className="text-[0.65rem] text-gray-400">仅快捷前缀</span>
+              ) : engine.id === currentDefault.id ? (
+                <span className="text-[0.65rem] text-indigo-500 font-medium">默认</span>
+              ) : (
+                <button
+                  onClick={() => setDefaultSearchEngine(engine.id)}
+                  className="text-[0.65rem] text-gray-400 hover:text-indigo-500 transition-colors"
+                >
+                  设为默认
+                </button>
+              )}
+              <button
+                onClick={() => startEdit(engine)}
+                className="p-1 text-gray-400 hover:text-indigo-500 transition-colors"
+                title="编辑"
+              >
+                <i className="fa-solid fa-pen text-xs"></i>
+              </button>
+              <button
+                onClick={() => deleteEngine(engine)}
+                disabled={!engine.bangOnly && switchableCount <= 1}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+                title="删除"
+              >
+                <i className="fa-solid fa-trash text-xs"></i>
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { useTransparency } from '@/contexts/TransparencyContext';
 import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
 import { TodoModal } from './TodoModal';
+import { OPEN_TODOS_EVENT } from '@/lib/todoReminder';
 
 export function TimeDisplay() {
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -132,6 +133,15 @@ export function TimeDisplay() {
     );
   };
 
+  // 点击待办提醒通知时打开待办列表
+  useEffect(() => {
+    const handleOpenTodos = () => setShowTodoModal(true);
+    window.addEventListener(OPEN_TODOS_EVENT, handleOpenTodos);
+    return () => {
+      window.removeEventListener(OPEN_TODOS_EVENT, handleOpenTodos);
+    };
+  }, []);
+
   // 处理时间点击事件
   const handleTimeClick = (event: React.MouseEvent) => {
     event.stopPropagation();
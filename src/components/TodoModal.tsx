@@ -1,5 +1,15 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { TodoItem, TodoPriority } from '@/lib/supabaseSync';
+import {
+  loadTodos,
+  saveTodos as persistTodos,
+  getVisibleTodos,
+  createTodo,
+  TODOS_UPDATED_EVENT,
+} from '@/lib/todoStorage';
+import { todoReminderService } from '@/lib/todoReminder';
+import { formatTodoDue } from '@/utils/todoParser';
 
 // 简单的图标组件
 const CloseIcon = () => (
@@ -29,22 +39,39 @@ const TrashIcon = ({ size = 14 }: { size?: number }) => (
   </svg>
 );
 
-interface TodoItem {
-  id: string;
-  text: string;
-  completed: boolean;
-  createdAt: number;
-  order: number;
-}
-
 interface TodoModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const STORAGE_KEY = 'time-display-todos';
 const MAX_TODOS = 30;
-const MAX_HISTORY = 1000;
+
+const PRIORITY_OPTIONS: { value: TodoPriority | undefined; label: string }[] = [
+  { value: undefined, label: '无' },
+  { value: 'low', label: '低' },
+  { value: 'medium', label: '中' },
+  { value: 'high', label: '高' },
+];
+
+// 优先级标记颜色
+const PRIORITY_COLORS: Record<TodoPriority, string> = {
+  high: 'bg-red-500',
+  medium: 'bg-amber-400',
+  low: 'bg-sky-400',
+};
+
+// 时间戳与 datetime-local 输入框值互转（本地时区）
+const toDateTimeInputValue = (timestamp?: number) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromDateTimeInputValue = (value: string) => {
+  const timestamp = value ? new Date(value).getTime() : NaN;
+  return isNaN(timestamp) ? undefined : timestamp;
+};
 
 // Todo项组件 - 移除拖拽功能
 interface TodoItemProps {
@@ -52,9 +79,12 @@ interface TodoItemProps {
   onToggle: (id: string, event?: React.MouseEvent) => void;
   onDelete: (id: string) => void;
   onStartEdit: (id: string, text: string, event?: React.MouseEvent) => void;
+  now: number;
 }
 
-function TodoItemComponent({ todo, onToggle, onDelete, onStartEdit }: TodoItemProps) {
+function TodoItemComponent({ todo, onToggle, onDelete, onStartEdit, now }: TodoItemProps) {
+  const isOverdue = !!todo.dueAt && !todo.completed && todo.dueAt <= now;
+
   return (
     <motion.div
       layout
@@ -72,6 +102,10 @@ function TodoItemComponent({ todo, onToggle, onDelete, onStartEdit }: TodoItemPr
         {todo.completed && <CheckIcon size={12} />}
       </motion.button>
 
+      {todo.priority && (
+        <span className={`flex-shrink-0 w-1.5 h-1.5 rounded-full ${PRIORITY_COLORS[todo.priority]}`}></span>
+      )}
+
       <span
         onClick={(e) => onStartEdit(todo.id, todo.text, e)}
         className={`flex-1 text-sm font-medium cursor-pointer transition-colors truncate ${todo.completed ? 'line-through text-gray-500 dark:text-gray-400' : 'text-blue-600 dark:text-blue-400'
@@ -81,6 +115,15 @@ function TodoItemComponent({ todo, onToggle, onDelete, onStartEdit }: TodoItemPr
         {todo.text}
       </span>
 
+      {todo.dueAt && (
+        <span
+          className={`flex-shrink-0 text-xs ${isOverdue ? 'text-red-500 font-medium' : 'text-gray-400 dark:text-gray-500'}`}
+          title={isOverdue ? '已过期' : '截止时间'}
+        >
+          {formatTodoDue(todo.dueAt)}
+        </span>
+      )}
+
       <button
         onClick={() => onDelete(todo.id)}
         className="opacity-0 group-hover:opacity-100 p-1.5 rounded-lg hover:bg-red-50 text-red-400 hover:text-red-500 transition-all"
@@ -92,38 +135,54 @@ function TodoItemComponent({ todo, onToggle, onDelete, onStartEdit }: TodoItemPr
 }
 
 export function TodoModal({ isOpen, onClose }: TodoModalProps) {
-  const [todos, setTodos] = useState<TodoItem[]>([]);
-  const [editingTodo, setEditingTodo] = useState<{ id: string; text: string; originRect?: DOMRect } | null>(null);
+  const [allTodos, setAllTodos] = useState<TodoItem[]>([]); // 包含软删除记录，用于同步
+  const todos = getVisibleTodos(allTodos);
+  const [editingTodo, setEditingTodo] = useState<{
+    id: string;
+    text: string;
+    dueAt?: number;
+    priority?: TodoPriority;
+    originRect?: DOMRect;
+  } | null>(null);
+  const editingTodoId = editingTodo?.id;
+  const [now, setNow] = useState(() => Date.now()); // 用于判断待办是否过期
   const editInputRef = useRef<HTMLTextAreaElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
 
-  // 加载本地存储的todos
+  // 加载本地存储的todos，并在本地其他入口或云端同步修改后重新加载
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const data = JSON.parse(stored);
-        // 为旧数据添加order字段
-        const dataWithOrder = data.map((todo: TodoItem, index: number) => ({
-          ...todo,
-          order: todo.order ?? index
-        }));
-        // 按创建时间排序，最新的在前面，但只对未完成的进行排序
-        const activeTodos = dataWithOrder
-          .filter((todo: TodoItem) => !todo.completed)
-          .sort((a: TodoItem, b: TodoItem) => (a.order || 0) - (b.order || 0));
-        const completedTodos = dataWithOrder
-          .filter((todo: TodoItem) => todo.completed)
-          .sort((a: TodoItem, b: TodoItem) => b.createdAt - a.createdAt);
-
-        const allTodos = [...activeTodos, ...completedTodos].slice(0, MAX_HISTORY);
-        setTodos(allTodos);
-      } catch {
-        setTodos([]);
-      }
-    }
+    const reload = () => {
+      // 未完成的按 order 排序，已完成的按创建时间倒序
+      const stored = loadTodos();
+      const activeTodos = stored
+        .filter((todo) => !todo.completed)
+        .sort((a, b) => (a.order || 0) - (b.order || 0));
+      const completedTodos = stored
+        .filter((todo) => todo.completed)
+        .sort((a, b) => b.createdAt - a.createdAt);
+      setAllTodos([...activeTodos, ...completedTodos]);
+    };
+
+    reload();
+    window.addEventListener(TODOS_UPDATED_EVENT, reload);
+    return () => {
+      window.removeEventListener(TODOS_UPDATED_EVENT, reload);
+    };
   }, []);
 
+  // 弹窗打开期间定时刷新当前时间，及时标记过期待办
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const refresh = () => setNow(Date.now());
+    const initialTimer = setTimeout(refresh, 0);
+    const timer = setInterval(refresh, 30 * 1000);
+    return () => {
+      clearTimeout(initialTimer);
+      clearInterval(timer);
+    };
+  }, [isOpen]);
+
   // 键盘事件处理和页面滚动控制
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -150,8 +209,17 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
 
   // 保存到本地存储
   const saveTodos = (newTodos: TodoItem[]) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newTodos));
-    setTodos(newTodos);
+    setAllTodos(newTodos);
+    persistTodos(newTodos);
+  };
+
+  // 修改单条Todo并更新时间戳，用于同步时的冲突合并
+  const updateTodo = (id: string, updates: Partial<TodoItem>) => {
+    saveTodos(
+      allTodos.map((todo) =>
+        todo.id === id ? { ...todo, ...updates, updatedAt: Date.now() } : todo
+      )
+    );
   };
 
   // 开始添加新Todo - 直接进入编辑模式
@@ -159,16 +227,10 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
     const activeTodos = todos.filter(todo => !todo.completed);
     if (activeTodos.length >= MAX_TODOS) return;
 
-    const newTodo: TodoItem = {
-      id: Date.now().toString(),
-      text: '',
-      completed: false,
-      createdAt: Date.now(),
-      order: Math.max(0, ...todos.map(todo => todo.order || 0)) + 1,
-    };
+    const newTodo = createTodo('', allTodos);
 
     // 添加到状态但不保存到localStorage（编辑时再保存）
-    setTodos([newTodo, ...todos]);
+    setAllTodos([newTodo, ...allTodos]);
     // 进入编辑模式
     setEditingTodo({ id: newTodo.id, text: '' });
   };
@@ -237,25 +299,25 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
       createCelebrationEffect(centerX, centerY);
     }
 
-    const updatedTodos = todos.map(todo =>
-      todo.id === id ? { ...todo, completed: !todo.completed } : todo
-    );
-    saveTodos(updatedTodos);
+    if (todo) {
+      updateTodo(id, { completed: !todo.completed });
+    }
   };
 
-  // 删除Todo
+  // 删除Todo - 软删除，保留记录以便同步到其他设备
   const deleteTodo = (id: string) => {
-    const updatedTodos = todos.filter(todo => todo.id !== id);
-    saveTodos(updatedTodos);
+    updateTodo(id, { deleted: true });
   };
 
   // 编辑Todo
-  const editTodo = (id: string, newText: string) => {
-    const updatedTodos = todos.map(todo =>
-      todo.id === id ? { ...todo, text: newText } : todo
-    );
-    saveTodos(updatedTodos);
+  const editTodo = (id: string, updates: Pick<TodoItem, 'text' | 'dueAt' | 'priority'>) => {
+    updateTodo(id, updates);
     setEditingTodo(null);
+
+    // 设置了截止时间时请求通知权限，用于到期提醒
+    if (updates.dueAt) {
+      todoReminderService.requestPermission();
+    }
   };
 
   // 开始编辑Todo
@@ -268,7 +330,8 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
       originRect = target.getBoundingClientRect();
     }
 
-    setEditingTodo({ id, text, originRect });
+    const todo = allTodos.find(t => t.id === id);
+    setEditingTodo({ id, text, dueAt: todo?.dueAt, priority: todo?.priority, originRect });
   };
 
   // 取消编辑
@@ -283,25 +346,33 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
 
       if (trimmedText) {
         // 如果有内容，保存编辑
-        editTodo(editingTodo.id, trimmedText);
+        editTodo(editingTodo.id, {
+          text: trimmedText,
+          dueAt: editingTodo.dueAt,
+          priority: editingTodo.priority,
+        });
       } else {
-        // 如果没有内容，删除这个TODO（特别是新建的空TODO）
-        const updatedTodos = todos.filter(todo => todo.id !== editingTodo.id);
-        saveTodos(updatedTodos);
+        // 如果没有内容，删除这个TODO；新建的空TODO从未保存过，直接移除即可
+        const original = allTodos.find(todo => todo.id === editingTodo.id);
+        if (original?.text) {
+          deleteTodo(editingTodo.id);
+        } else {
+          saveTodos(allTodos.filter(todo => todo.id !== editingTodo.id));
+        }
         setEditingTodo(null);
       }
     }
   };
 
-  // 自动聚焦编辑输入框
+  // 自动聚焦编辑输入框（仅在开始编辑时，避免修改截止时间等字段时抢夺焦点）
   useEffect(() => {
-    if (editingTodo && editInputRef.current) {
+    if (editingTodoId && editInputRef.current) {
       editInputRef.current.focus();
       // 将光标移到文本末尾，而不是全选
       const length = editInputRef.current.value.length;
       editInputRef.current.setSelectionRange(length, length);
     }
-  }, [editingTodo]);
+  }, [editingTodoId]);
 
   // 点击外部关闭 - 简化逻辑
   useEffect(() => {
@@ -469,6 +540,7 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
                         onToggle={toggleTodo}
                         onDelete={deleteTodo}
                         onStartEdit={startEditTodo}
+                        now={now}
                       />
                     ))}
                   </div>
@@ -624,6 +696,42 @@ export function TodoModal({ isOpen, onClose }: TodoModalProps) {
                           />
                         </div>
 
+                        {/* 截止时间与优先级 */}
+                        <div className="flex flex-wrap items-center gap-3 mt-3">
+                          <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                            截止
+                            <input
+                              type="datetime-local"
+                              value={toDateTimeInputValue(editingTodo.dueAt)}
+                              onChange={(e) => setEditingTodo({ ...editingTodo, dueAt: fromDateTimeInputValue(e.target.value) })}
+                              className="px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                            />
+                          </label>
+                          {editingTodo.dueAt && (
+                            <button
+                              onClick={() => setEditingTodo({ ...editingTodo, dueAt: undefined })}
+                              className="text-xs text-gray-400 hover:text-red-500 transition-colors"
+                            >
+                              清除
+                            </button>
+                          )}
+                          <div className="flex items-center gap-1 ml-auto text-xs text-gray-500 dark:text-gray-400">
+                            优先级
+                            {PRIORITY_OPTIONS.map((option) => (
+                              <button
+                                key={option.label}
+                                onClick={() => setEditingTodo({ ...editingTodo, priority: option.value })}
+                                className={`px-2 py-1 rounded-lg transition-colors ${editingTodo.priority === option.value
+                                  ? 'bg-blue-500 text-white'
+                                  : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                                  }`}
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
                         {/* 字符计数 */}
                         <div className="flex justify-center mt-2">
                           <span className="text-xs text-gray-500 dark:text-gray-400">
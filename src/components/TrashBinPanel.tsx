@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useWebsiteTrash } from '@/hooks/useWebsiteTrash';
+import { TRASH_RETENTION_DAYS } from '@/lib/websiteTrash';
+import { WebsiteData } from '@/lib/supabaseSync';
+
+interface TrashBinPanelProps {
+  websites: WebsiteData[];
+  setWebsites: (websites: WebsiteData[]) => void;
+}
+
+const DEFAULT_FAVICON = '/icon/favicon.png';
+const DAY = 24 * 60 * 60 * 1000;
+
+const actionClassName =
+  'px-2 py-0.5 rounded text-xs font-medium transition-colors select-none disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatDeletedAt = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '刚刚删除';
+  if (minutes < 60) return `${minutes}分钟前删除`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}小时前删除`;
+  return `${Math.floor(minutes / (24 * 60))}天前删除`;
+};
+
+const getDaysLeft = (timestamp: number) =>
+  Math.max(1, Math.ceil((timestamp + TRASH_RETENTION_DAYS * DAY - Date.now()) / DAY));
+
+/**
+ * 回收站 - 列出已删除的卡片，可以恢复或彻底删除，超过保留期限自动清除
+ */
+export default function TrashBinPanel({ websites, setWebsites }: TrashBinPanelProps) {
+  const { items, restore, purge } = useWebsiteTrash(websites, setWebsites);
+  const [expanded, setExpanded] = useState(false);
+
+  const handlePurgeAll = () => {
+    if (!confirm(`确定要彻底删除回收站中的 ${items.length} 张卡片吗？此操作无法撤销。`)) return;
+    purge(items.map((website) => website.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <i className="fa-solid fa-trash-can text-violet-500 text-sm"></i>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">回收站</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+            {items.length > 0
+              ? `${items.length} 张已删除的卡片，${TRASH_RETENTION_DAYS} 天后自动彻底删除`
+              : `回收站为空，删除的卡片会在这里保留 ${TRASH_RETENTION_DAYS} 天`}
+          </p>
+        </div>
+        {items.length > 0 && (
+          <button
+            onClick={handlePurgeAll}
+            className="text-xs text-red-500 hover:underline select-none flex-shrink-0"
+          >
+            <i className="fa-solid fa-broom mr-1"></i>清空
+          </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-1.5">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:text-violet-600 dark:hover:text-violet-400 select-none"
+          >
+            <i className={`fa-solid fa-chevron-${expanded ? 'down' : 'right'} mr-1`}></i>
+            {expanded ? '收起' : '查看已删除的卡片'}
+          </button>
+          {expanded && (
+            <div className="space-y-1.5 max-h-64 overflow-y-auto">
+              {items.map(({ updatedAt: deletedAt = 0, ...website }) => (
+                <div
+                  key={website.id}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+                >
+                  <img
+                    src={website.favicon || DEFAULT_FAVICON}
+                    alt=""
+                    className="w-4 h-4 rounded-sm object-contain flex-shrink-0"
+                    onError={(e) => {
+                      e.currentTarget.src = DEFAULT_FAVICON;
+                    }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-700 dark:text-gray-200 truncate select-none">{website.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={website.url}>
+                      {website.url}
+                    </div>
+                    <div
+                      className="text-[0.65rem] text-gray-400 dark:text-gray-500 select-none"
+                      title={new Date(deletedAt).toLocaleString()}
+                    >
+                      {formatDeletedAt(deletedAt)} · {getDaysLeft(deletedAt)} 天后清除
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => restore(website.id)}
+                    className={`${actionClassName} bg-violet-500 hover:bg-violet-600 text-white`}
+                  >
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => purge([website.id])}
+                    className={`${actionClassName} bg-gray-200 dark:bg-gray-600 hover:bg-red-100 dark:hover:bg-red-900/40 text-gray-700 dark:text-gray-200 hover:text-red-600`}
+                    title="彻底删除，无法恢复"
+                  >
+                    彻底删除
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { WallpaperMetadata } from '@/lib/customWallpaperManager';
+import { PLAYLIST_SCHEDULE_OPTIONS } from '@/lib/wallpaperProviders';
+import { WallpaperPlaylist } from '@/types/settings';
+
+interface WallpaperPlaylistSettingsProps {
+  wallpapers: Array<{ metadata: WallpaperMetadata; thumbnailUrl: string }>; // 壁纸库（上传和收藏的壁纸）
+}
+
+const MAX_PLAYLISTS = 20;
+
+type WallpaperGroup = 'wallpaperIds' | 'nightWallpaperIds';
+
+const inputClassName =
+  'px-2 py-1 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-500 transition-all';
+
+// 两组壁纸的名称：跟随夜间模式时为日间 / 夜间，按时段切换时为早间 / 晚间
+const getGroupLabels = (playlist: WallpaperPlaylist): [string, string] | null => {
+  if (playlist.followDarkMode) return ['日间', '夜间'];
+  if (playlist.schedule === 'timeOfDay') return ['早间', '晚间'];
+  return null;
+};
+
+/**
+ * 壁纸播放列表设置 - 从壁纸库中挑选壁纸，按新标签页、时间或夜间模式自动轮换
+ */
+export default function WallpaperPlaylistSettings({ wallpapers }: WallpaperPlaylistSettingsProps) {
+  const {
+    wallpaperPlaylists,
+    setWallpaperPlaylists,
+    activeWallpaperPlaylistId,
+    setActiveWallpaperPlaylistId,
+  } = useTransparency();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingGroup, setEditingGroup] = useState<WallpaperGroup>('wallpaperIds');
+
+  const editingPlaylist = wallpaperPlaylists.find((playlist) => playlist.id === editingId);
+  const groupLabels = editingPlaylist ? getGroupLabels(editingPlaylist) : null;
+  // 不区分两组时只编辑白天组
+  const activeGroup: WallpaperGroup = groupLabels ? editingGroup : 'wallpaperIds';
+
+  const updatePlaylist = (id: string, patch: Partial<WallpaperPlaylist>) => {
+    setWallpaperPlaylists(
+      wallpaperPlaylists.map((playlist) => (playlist.id === id ? { ...playlist, ...patch } : playlist))
+    );
+  };
+
+  const handleCreate = () => {
+    const playlist: WallpaperPlaylist = {
+      id: `playlist-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: `播放列表 ${wallpaperPlaylists.length + 1}`,
+      wallpaperIds: wallpapers.map((wallpaper) => wallpaper.metadata.id),
+      nightWallpaperIds: [],
+      schedule: 'daily',
+      morningStart: '07:00',
+      eveningStart: '19:00',
+      followDarkMode: false,
+    };
+    setWallpaperPlaylists([...wallpaperPlaylists, playlist]);
+    setEditingId(playlist.id);
+    setEditingGroup('wallpaperIds');
+  };
+
+  const handleDelete = (id: string) => {
+    setWallpaperPlaylists(wallpaperPlaylists.filter((playlist) => playlist.id !== id));
+    if (activeWallpaperPlaylistId === id) setActiveWallpaperPlaylistId('');
+    if (editingId === id) setEditingId(null);
+  };
+
+  const toggleWallpaper = (playlist: WallpaperPlaylist, wallpaperId: string) => {
+    const ids = playlist[activeGroup];
+    updatePlaylist(playlist.id, {
+      [activeGroup]: ids.includes(wallpaperId) ? ids.filter((id) => id !== wallpaperId) : [...ids, wallpaperId],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <i className="fa-solid fa-list-ol text-blue-500 text-sm"></i>
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-200">壁纸播放列表</span>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={wallpapers.length === 0 || wallpaperPlaylists.length >= MAX_PLAYLISTS}
+          className="text-xs text-pink-600 dark:text-pink-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+        >
+          <i className="fa-solid fa-plus mr-1"></i>新建
+        </button>
+      </div>
+
+      {wallpaperPlaylists.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {wallpapers.length === 0 ? '上传或收藏壁纸后可以创建播放列表' : '创建播放列表后，壁纸会按设定的时间自动轮换'}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-gray-700 dark:text-gray-200">当前播放</label>
+            <select
+              value={activeWallpaperPlaylistId}
+              onChange={(e) => setActiveWallpaperPlaylistId(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">不使用（固定当前壁纸）</option>
+              {wallpaperPlaylists.map((playlist) => (
+                <option key={playlist.id} value={playlist.id}>
+                  {playlist.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            {wallpaperPlaylists.map((playlist) => (
+              <div
+                key={playlist.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${editingId === playlist.id
+                  ? 'border-pink-400 bg-pink-50 dark:bg-pink-900/20'
+                  : 'border-gray-200 dark:border-gray-600'
+                  }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                    <span className="truncate">{playlist.name}</span>
+                    {playlist.id === activeWallpaperPlaylistId && (
+                      <span className="px-1.5 py-0.5 text-[10px] rounded bg-pink-100 dark:bg-pink-900/40 text-pink-600 dark:text-pink-300">
+                        播放中
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {playlist.wallpaperIds.length + playlist.nightWallpaperIds.length} 张 ·{' '}
+                    {PLAYLIST_SCHEDULE_OPTIONS.find((option) => option.value === playlist.schedule)?.label}
+                    {playlist.followDarkMode && ' · 跟随夜间模式'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setEditingId(editingId === playlist.id ? null : playlist.id)}
+                  className="p-1.5 text-gray-400 hover:text-pink-500 transition-colors"
+                  title="编辑"
+                >
+                  <i className={`fa-solid ${editingId === playlist.id ? 'fa-chevron-up' : 'fa-pen'} text-xs`}></i>
+                </button>
+                <button
+                  onClick={() => handleDelete(playlist.id)}
+                  className="p-1.5 text-gray-400 hover:text-red-500 transition-colors"
+                  title="删除"
+                >
+                  <i className="fa-solid fa-trash text-xs"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* 播放列表编辑 */}
+      {editingPlaylist && (
+        <div className="space-y-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={editingPlaylist.name}
+              maxLength={50}
+              onChange={(e) => updatePlaylist(editingPlaylist.id, { name: e.target.value })}
+              className={`flex-1 min-w-[120px] ${inputClassName}`}
+              placeholder="播放列表名称"
+            />
+            <select
+              value={editingPlaylist.schedule}
+              onChange={(e) =>
+                updatePlaylist(editingPlaylist.id, { schedule: e.target.value as WallpaperPlaylist['schedule'] })
+              }
+              className={inputClassName}
+            >
+              {PLAYLIST_SCHEDULE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {editingPlaylist.schedule === 'timeOfDay' && !editingPlaylist.followDarkMode && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              <span>早间从</span>
+              <input
+                type="time"
+                value={editingPlaylist.morningStart}
+                onChange={(e) => e.target.value && updatePlaylist(editingPlaylist.id, { morningStart: e.target.value })}
+                className={inputClassName}
+              />
+              <span>晚间从</span>
+              <input
+                type="time"
+                value={editingPlaylist.eveningStart}
+                onChange={(e) => e.target.value && updatePlaylist(editingPlaylist.id, { eveningStart: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={editingPlaylist.followDarkMode}
+              onChange={(e) => updatePlaylist(editingPlaylist.id, { followDarkMode: e.target.checked })}
+              className="accent-pink-500"
+            />
+            跟随夜间模式（夜间使用单独的一组壁纸）
+          </label>
+
+          {groupLabels && (
+            <div className="flex p-1 bg-gray-100 dark:bg-gray-700 rounded-lg text-xs">
+              {(['wallpaperIds', 'nightWallpaperIds'] as const).map((group, index) => (
+                <button
+                  key={group}
+                  onClick={() => setEditingGroup(group)}
+                  className={`flex-1 py-1.5 rounded-md transition-colors ${activeGroup === group
+                    ? 'bg-white dark:bg-gray-600 text-pink-600 dark:text-pink-400 shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                >
+                  {groupLabels[index]}（{editingPlaylist[group].length}）
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+            {wallpapers.map(({ metadata, thumbnailUrl }) => {
+              const selected = editingPlaylist[activeGroup].includes(metadata.id);
+              return (
+                <button
+                  key={metadata.id}
+                  onClick={() => toggleWallpaper(editingPlaylist, metadata.id)}
+                  className={`relative rounded-md overflow-hidden border-2 transition-all ${selected ? 'border-pink-500' : 'border-transparent opacity-60 hover:opacity-100'
+                    }`}
+                  title={metadata.name}
+                >
+                  {thumbnailUrl ? (
+                    <img src={thumbnailUrl} alt={metadata.name} className="w-full aspect-video object-cover" />
+                  ) : (
+                    <div className="w-full aspect-video bg-gray-200 dark:bg-gray-600" />
+                  )}
+                  {metadata.sourceUrl && (
+                    <i className="fa-solid fa-heart absolute top-1 left-1 text-[10px] text-pink-400 drop-shadow" title="收藏的壁纸"></i>
+                  )}
+                  {selected && (
+                    <i className="fa-solid fa-circle-check absolute top-1 right-1 text-xs text-pink-500 bg-white rounded-full"></i>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {groupLabels && activeGroup === 'nightWallpaperIds' && editingPlaylist.nightWallpaperIds.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{groupLabels[1]}组为空时沿用{groupLabels[0]}的壁纸</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { customWallpaperManager } from '@/lib/customWallpaperManager';
+import {
+  WALLPAPER_PROVIDER_OPTIONS,
+  GENERATED_BACKGROUND_PRESETS,
+  BingArchiveImage,
+  fetchBingArchive,
+  getGeneratedBackgroundCss,
+  parseWallpaperUrlList,
+} from '@/lib/wallpaperProviders';
+import { GeneratedBackground } from '@/types/settings';
+
+interface WallpaperProviderSettingsProps {
+  wallpaperCount: number; // 已上传的自定义壁纸数量
+  onOpenGallery: () => void;
+  onLibraryChanged: () => void; // 上传文件夹后刷新壁纸库
+}
+
+const ROTATION_OPTIONS = [
+  { value: 5, label: '5 分钟' },
+  { value: 15, label: '15 分钟' },
+  { value: 30, label: '30 分钟' },
+  { value: 60, label: '1 小时' },
+  { value: 180, label: '3 小时' },
+  { value: 720, label: '12 小时' },
+  { value: 1440, label: '每天' },
+];
+
+const GRADIENT_TYPE_OPTIONS: { value: GeneratedBackground['type']; label: string }[] = [
+  { value: 'solid', label: '纯色' },
+  { value: 'linear', label: '线性渐变' },
+  { value: 'radial', label: '径向渐变' },
+];
+
+const FOLDER_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const selectClassName =
+  'px-2 py-1 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-500 transition-all';
+
+/**
+ * 壁纸来源设置 - 每日必应、必应往期、图片链接 / 订阅、本地轮播和纯色渐变背景
+ */
+export default function WallpaperProviderSettings({
+  wallpaperCount,
+  onOpenGallery,
+  onLibraryChanged,
+}: WallpaperProviderSettingsProps) {
+  const {
+    wallpaperProvider,
+    setWallpaperProvider,
+    bingArchiveIndex,
+    setBingArchiveIndex,
+    wallpaperUrlList,
+    setWallpaperUrlList,
+    wallpaperRotationMinutes,
+    setWallpaperRotationMinutes,
+    generatedBackground,
+    setGeneratedBackground,
+  } = useTransparency();
+
+  const [archive, setArchive] = useState<BingArchiveImage[] | null>(null);
+  const [archiveError, setArchiveError] = useState('');
+  const [urlDraft, setUrlDraft] = useState(wallpaperUrlList);
+  const [isUploadingFolder, setIsUploadingFolder] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // 切换到必应往期时读取最近几天的壁纸
+  useEffect(() => {
+    if (wallpaperProvider !== 'bingArchive' || archive) return;
+
+    let cancelled = false;
+    fetchBingArchive()
+      .then((images) => {
+        if (!cancelled) setArchive(images);
+      })
+      .catch((error) => {
+        console.error('读取必应往期壁纸失败:', error);
+        if (!cancelled) setArchiveError(error instanceof Error ? error.message : '读取失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wallpaperProvider, archive]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleSaveUrlList = () => {
+    setWallpaperUrlList(urlDraft.trim());
+    showMessage(`已保存 ${parseWallpaperUrlList(urlDraft).length} 个链接`);
+  };
+
+  // 上传文件夹中的全部图片到壁纸库
+  const handleFolderUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter((file) => FOLDER_IMAGE_TYPES.includes(file.type));
+    event.target.value = '';
+    if (files.length === 0) {
+      showMessage('文件夹中没有 JPG、PNG 或 WebP 图片');
+      return;
+    }
+
+    setIsUploadingFolder(true);
+    let uploaded = 0;
+    for (const file of files) {
+      const result = await customWallpaperManager.uploadWallpaper(file);
+      if (result.success) uploaded++;
+    }
+    setIsUploadingFolder(false);
+    onLibraryChanged();
+    showMessage(
+      uploaded === files.length ? `已上传 ${uploaded} 张壁纸` : `已上传 ${uploaded} 张，${files.length - uploaded} 张失败`
+    );
+  };
+
+  const updateGeneratedBackground = (patch: Partial<GeneratedBackground>) => {
+    const next = { ...generatedBackground, ...patch };
+    // 纯色只需要一个颜色，渐变至少两个
+    if (next.type !== 'solid' && next.colors.length < 2) {
+      next.colors = [next.colors[0], '#ffffff'];
+    }
+    setGeneratedBackground(next);
+  };
+
+  const updateGradientColor = (index: number, color: string) => {
+    updateGeneratedBackground({ colors: generatedBackground.colors.map((c, i) => (i === index ? color : c)) });
+  };
+
+  const rotationSelect = (
+    <div className="flex items-center justify-between">
+      <label className="text-sm text-gray-700 dark:text-gray-200">轮换间隔</label>
+      <select
+        value={wallpaperRotationMinutes}
+        onChange={(e) => setWallpaperRotationMinutes(Number(e.target.value))}
+        className={selectClassName}
+      >
+        {ROTATION_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const visibleColors = generatedBackground.type === 'solid' ? generatedBackground.colors.slice(0, 1) : generatedBackground.colors;
+
+  return (
+    <div className="space-y-4">
+      {/* 来源选择 */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 select-none">
+        {WALLPAPER_PROVIDER_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            onClick={() => setWallpaperProvider(option.type)}
+            className={`p-2.5 rounded-lg border-2 text-left transition-all duration-200 ${wallpaperProvider === option.type
+              ? 'border-pink-500 bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300'
+              : 'border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500'
+              }`}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <i className={`${option.icon} text-xs`}></i>
+              {option.label}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{option.description}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* 必应往期 */}
+      {wallpaperProvider === 'bingArchive' && (
+        archiveError ? (
+          <p className="text-sm text-red-500">读取往期壁纸失败：{archiveError}</p>
+        ) : !archive ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            <i className="fa-solid fa-spinner fa-spin mr-2"></i>正在读取最近的必应壁纸...
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {archive.map((image) => (
+              <button
+                key={image.idx}
+                onClick={() => setBingArchiveIndex(image.idx)}
+                className={`relative rounded-lg overflow-hidden border-2 transition-all ${bingArchiveIndex === image.idx
+                  ? 'border-pink-500 ring-2 ring-pink-500/30'
+                  : 'border-transparent hover:border-gray-300 dark:hover:border-gray-500'
+                  }`}
+                title={image.copyright || image.title}
+              >
+                <img src={image.thumbnail} alt={image.title} className="w-full aspect-video object-cover" loading="lazy" />
+                <span className="absolute bottom-0 inset-x-0 px-1.5 py-0.5 text-[10px] text-white bg-black/50 truncate">
+                  {image.idx === 0 ? '今天' : image.date}
+                </span>
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {/* 图片链接 / 订阅 */}
+      {wallpaperProvider === 'urlList' && (
+        <div className="space-y-3">
+          <textarea
+            value={urlDraft}
+            onChange={(e) => setUrlDraft(e.target.value)}
+            rows={4}
+            placeholder={'每行一个图片链接，或填写一个 RSS / Atom 订阅地址\nhttps://example.com/wallpaper.jpg'}
+            className="w-full px-3 py-2 text-sm font-mono rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveUrlList}
+              disabled={urlDraft.trim() === wallpaperUrlList}
+              className="px-3 py-1.5 text-sm bg-pink-500 hover:bg-pink-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              保存链接
+            </button>
+          </div>
+          {rotationSelect}
+        </div>
+      )}
+
+      {/* 本地轮播 */}
+      {wallpaperProvider === 'localRotation' && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-200">
+            <span>壁纸库中有 {wallpaperCount} 张壁纸</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="file"
+                multiple
+                accept={FOLDER_IMAGE_TYPES.join(',')}
+                onChange={handleFolderUpload}
+                className="hidden"
+                id="wallpaper-folder-upload"
+                disabled={isUploadingFolder}
+                ref={(el) => el?.setAttribute('webkitdirectory', '')}
+              />
+              <label
+                htmlFor="wallpaper-folder-upload"
+                className={`px-3 py-1.5 text-sm rounded-lg border border-pink-300 dark:border-pink-700 text-pink-600 dark:text-pink-400 transition-colors ${isUploadingFolder ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-pink-50 dark:hover:bg-pink-900/20'}`}
+              >
+                <i className={`fa-solid ${isUploadingFolder ? 'fa-spinner fa-spin' : 'fa-folder-open'} mr-1.5`}></i>
+                上传文件夹
+              </label>
+              {wallpaperCount > 0 && (
+                <button
+                  onClick={onOpenGallery}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  管理
+                </button>
+              )}
+            </div>
+          </div>
+          {rotationSelect}
+        </div>
+      )}
+
+      {/* 纯色 / 渐变 */}
+      {wallpaperProvider === 'generated' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            {GENERATED_BACKGROUND_PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => setGeneratedBackground(preset.background)}
+                className="group flex flex-col items-center gap-1"
+              >
+                <span
+                  className={`w-full h-10 rounded-lg border-2 transition-all ${getGeneratedBackgroundCss(preset.background) === getGeneratedBackgroundCss(generatedBackground)
+                    ? 'border-pink-500 ring-2 ring-pink-500/30'
+                    : 'border-transparent group-hover:border-gray-300 dark:group-hover:border-gray-500'
+                    }`}
+                  style={{ background: getGeneratedBackgroundCss(preset.background) }}
+                ></span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{preset.name}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={generatedBackground.type}
+              onChange={(e) => updateGeneratedBackground({ type: e.target.value as GeneratedBackground['type'] })}
+              className={selectClassName}
+            >
+              {GRADIENT_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {visibleColors.map((color, index) => (
+              <input
+                key={index}
+                type="color"
+                value={color}
+                onChange={(e) => updateGradientColor(index, e.target.value)}
+                className="w-8 h-8 rounded cursor-pointer border border-gray-200 dark:border-gray-600"
+                title={`颜色 ${index + 1}`}
+              />
+            ))}
+            {generatedBackground.type !== 'solid' && (
+              generatedBackground.colors.length < 3 ? (
+                <button
+                  onClick={() => updateGeneratedBackground({ colors: [...generatedBackground.colors, '#ffffff'] })}
+                  className="text-xs text-pink-600 dark:text-pink-400 hover:underline"
+                >
+                  添加颜色
+                </button>
+              ) : (
+                <button
+                  onClick={() => updateGeneratedBackground({ colors: generatedBackground.colors.slice(0, 2) })}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+                >
+                  移除颜色
+                </button>
+              )
+            )}
+          </div>
+
+          {generatedBackground.type === 'linear' && (
+            <div className="flex items-center gap-3">
+              <label className="text-sm text-gray-700 dark:text-gray-200 whitespace-nowrap">角度</label>
+              <input
+                type="range"
+                min={0}
+                max={360}
+                step={15}
+                value={generatedBackground.angle}
+                onChange={(e) => updateGeneratedBackground({ angle: Number(e.target.value) })}
+                className="flex-1 accent-pink-500"
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-right">{generatedBackground.angle}°</span>
+            </div>
+          )}
+
+          <div className="h-16 rounded-lg border border-gray-200 dark:border-gray-600" style={{ background: getGeneratedBackgroundCss(generatedBackground) }}></div>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-pink-600 dark:text-pink-400">{message}</p>}
+    </div>
+  );
+}
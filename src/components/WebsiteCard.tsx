@@ -8,6 +8,8 @@ import { useTransparency } from '@/contexts/TransparencyContext';
 import { useLazyFavicon } from '@/hooks/useLazyFavicon';
 import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
 import { userStatsManager } from '@/hooks/useUserStats';
+import { WebsiteGroup, WebsitePage } from '@/lib/supabaseSync';
+import { LinkHealthRecord, isLinkProblem } from '@/lib/linkHealth';
 
 interface WebsiteCardData {
   id: string;
@@ -18,6 +20,9 @@ interface WebsiteCardData {
   note?: string;
   visitCount?: number;
   lastVisit?: string;
+  groupId?: string;
+  newGroupName?: string;
+  pageId?: string;
 }
 
 interface WebsiteCardProps {
@@ -28,6 +33,11 @@ interface WebsiteCardProps {
   tags: string[];
   visitCount: number;
   note?: string;
+  groupId?: string;
+  groups?: WebsiteGroup[]; // 提供时可在编辑弹窗中选择分组
+  pageId?: string;
+  pages?: WebsitePage[]; // 提供时可在编辑弹窗中选择页面
+  linkHealth?: LinkHealthRecord; // 链接检查结果，失效或跳转时显示提示
   index: number;
   moveCard: (dragIndex: number, hoverIndex: number) => void;
   onSave: (data: WebsiteCardData) => void;
@@ -36,6 +46,23 @@ interface WebsiteCardProps {
   onAddCard?: () => void; // 新增卡片回调
 }
 
+// 链接失效提示：红色为失效或无法访问，琥珀色为已跳转到其他地址
+const getLinkBadge = (record?: LinkHealthRecord) => {
+  if (!record || !isLinkProblem(record)) return null;
+
+  if (record.status === 'redirected') {
+    return { icon: 'fa-share', color: 'bg-amber-500/80', title: `已跳转到 ${record.finalUrl}` };
+  }
+  return {
+    icon: 'fa-link-slash',
+    color: 'bg-red-500/80',
+    title:
+      record.status === 'broken'
+        ? `链接已失效${record.httpStatus ? `（${record.httpStatus}）` : ''}`
+        : `链接无法访问${record.error ? `：${record.error}` : ''}`,
+  };
+};
+
 export const WebsiteCard = memo(function WebsiteCardComponent({
   id,
   name,
@@ -44,6 +71,11 @@ export const WebsiteCard = memo(function WebsiteCardComponent({
   tags,
   visitCount,
   note,
+  groupId,
+  groups,
+  pageId,
+  pages,
+  linkHealth,
   index,
   moveCard,
   onSave,
@@ -220,6 +252,8 @@ export const WebsiteCard = memo(function WebsiteCardComponent({
     setContextMenu({ x: e.clientX, y: e.clientY });
   }, []);
 
+  const linkBadge = getLinkBadge(linkHealth);
+
   // 右键菜单项
   const contextMenuItems: ContextMenuItem[] = [
     {
@@ -302,6 +336,16 @@ export const WebsiteCard = memo(function WebsiteCardComponent({
           viewport={{ once: true }}
           ref={cardRef}
         >
+          {/* 链接检查提示，详情可在设置的链接检查中查看 */}
+          {linkBadge && (
+            <div
+              className={`absolute top-1 left-1 z-10 ${isMobile ? 'w-3 h-3' : 'w-4 h-4'} ${linkBadge.color} rounded-full flex items-center justify-center select-none`}
+              title={linkBadge.title}
+            >
+              <i className={`fa-solid ${linkBadge.icon} text-white ${isMobile ? 'text-[6px]' : 'text-[8px]'}`}></i>
+            </div>
+          )}
+
           {/* 设置按钮 - 移动端隐藏，通过长按进入编辑 */}
           {!isMobile && (
             <div className={`absolute bottom-0.5 right-0.5 z-10`}>
@@ -448,6 +492,10 @@ export const WebsiteCard = memo(function WebsiteCardComponent({
           favicon={favicon}
           tags={tags}
           note={note}
+          groupId={groupId}
+          groups={groups}
+          pageId={pageId}
+          pages={pages}
           onClose={() => setShowEditModal(false)}
           onSave={(data) => {
             onSave(data);
@@ -0,0 +1,170 @@
+import { motion } from 'framer-motion';
+import { memo } from 'react';
+import { useDrop } from 'react-dnd';
+import { WebsiteData, WebsiteGroup } from '@/lib/supabaseSync';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
+import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { faviconCache } from '@/lib/faviconCache';
+import { processFaviconUrl } from '@/lib/faviconUtils';
+
+// 分组拖拽类型，与卡片的 WEBSITE_CARD 区分
+export const WEBSITE_GROUP_DND_TYPE = 'WEBSITE_GROUP';
+
+// 文件夹图标中最多展示的网站图标数量（3x3）
+const PREVIEW_ICON_COUNT = 9;
+
+interface GroupDndProps {
+  group: WebsiteGroup;
+  index: number;
+  groups: WebsiteGroup[];
+  onReorder: (groups: WebsiteGroup[]) => void;
+  onDropCard: (cardId: string, groupId: string) => void;
+}
+
+/**
+ * 分组拖拽逻辑：分组之间拖拽排序，同时接收卡片拖入
+ */
+function useGroupDnd({ group, index, groups, onReorder, onDropCard }: GroupDndProps) {
+  const { isMobile } = useResponsiveLayout();
+  const { autoSortEnabled } = useTransparency();
+  const { drag, drop, isDragging } = useDragAndDrop(
+    groups,
+    onReorder,
+    index,
+    WEBSITE_GROUP_DND_TYPE,
+    !isMobile && !autoSortEnabled
+  );
+
+  const [{ isCardOver }, cardDrop] = useDrop({
+    accept: 'WEBSITE_CARD',
+    drop: (item: { id: string }) => {
+      onDropCard(item.id, group.id);
+    },
+    collect: (monitor) => ({
+      isCardOver: monitor.isOver({ shallow: true }),
+    }),
+  });
+
+  return { drag, drop, cardDrop, isDragging, isCardOver };
+}
+
+interface WebsiteGroupFolderProps extends GroupDndProps {
+  websites: WebsiteData[];
+  onOpen: (groupId: string) => void;
+}
+
+/**
+ * 折叠状态的分组 - 在主网格中以手机桌面文件夹的形式显示
+ */
+export const WebsiteGroupFolder = memo(function WebsiteGroupFolderComponent({
+  websites,
+  onOpen,
+  ...dndProps
+}: WebsiteGroupFolderProps) {
+  const { group } = dndProps;
+  const { cardOpacity, cardColor } = useTransparency();
+  const { isMobile, getCardClasses } = useResponsiveLayout();
+  const { drag, drop, cardDrop, isDragging, isCardOver } = useGroupDnd(dndProps);
+
+  const previewWebsites = websites.slice(0, PREVIEW_ICON_COUNT);
+
+  return (
+    <motion.div
+      ref={(node: HTMLDivElement | null) => {
+        drag(drop(cardDrop(node)));
+      }}
+      data-website-card="true"
+      className={`${getCardClasses()} relative rounded-lg cursor-pointer select-none`}
+      style={{
+        backgroundColor: `rgba(${cardColor}, ${cardOpacity})`,
+        backdropFilter: 'blur(10px)',
+        border: isCardOver ? '1px solid rgba(255, 255, 255, 0.8)' : '1px solid rgba(255, 255, 255, 0.2)',
+      }}
+      animate={{
+        opacity: isDragging ? 0.5 : 1,
+        scale: isCardOver ? 1.08 : 1,
+      }}
+      transition={{ type: 'spring', stiffness: 200, damping: 15 }}
+      onClick={() => onOpen(group.id)}
+      whileTap={{ scale: 0.95 }}
+    >
+      <div className={`h-full flex flex-col items-center ${isMobile ? 'pt-1.5 pb-1' : 'pt-3 pb-2'}`}>
+        <div
+          className={`${isMobile ? 'w-7 h-7 gap-px p-0.5' : 'w-11 h-11 gap-0.5 p-1 mb-1'} grid grid-cols-3 rounded-md bg-white/20`}
+        >
+          {previewWebsites.map((website) => (
+            <img
+              key={website.id}
+              src={
+                faviconCache.getCachedFavicon(website.url) ||
+                processFaviconUrl(website.favicon, website.url, website.favicon)
+              }
+              alt=""
+              className="w-full h-full object-contain rounded-sm"
+              loading="lazy"
+              draggable="false"
+            />
+          ))}
+        </div>
+        <h3
+          className={`${isMobile ? 'text-[10px] line-clamp-1 mt-0.5 px-0.5' : 'text-xs line-clamp-2 px-2 mt-1'} font-medium text-white text-center`}
+        >
+          {group.name}
+        </h3>
+        {!isMobile && (
+          <p className="text-white/60 text-[0.65rem] text-center">{websites.length} 个网站</p>
+        )}
+      </div>
+    </motion.div>
+  );
+});
+
+interface WebsiteGroupHeaderProps extends GroupDndProps {
+  count: number;
+  onToggleCollapse: (groupId: string) => void;
+  onOpen: (groupId: string) => void;
+}
+
+/**
+ * 展开状态的分组标题栏 - 可拖拽排序，也可接收卡片拖入
+ */
+export function WebsiteGroupHeader({
+  count,
+  onToggleCollapse,
+  onOpen,
+  ...dndProps
+}: WebsiteGroupHeaderProps) {
+  const { group } = dndProps;
+  const { drag, drop, cardDrop, isDragging, isCardOver } = useGroupDnd(dndProps);
+
+  return (
+    <div
+      ref={(node) => {
+        drag(drop(cardDrop(node)));
+      }}
+      data-interactive="true"
+      className={`flex items-center gap-2 px-6 mb-3 text-white/80 select-none transition-opacity ${isDragging ? 'opacity-50' : 'opacity-100'}`}
+    >
+      <button
+        onClick={() => onToggleCollapse(group.id)}
+        className="flex items-center gap-2 hover:text-white transition-colors"
+        title="收起为文件夹"
+      >
+        <i className="fa-solid fa-chevron-down text-xs"></i>
+        <span className="text-sm font-medium">{group.name}</span>
+        <span className="text-xs text-white/50">{count}</span>
+      </button>
+      <div
+        className={`flex-1 h-px transition-colors ${isCardOver ? 'bg-white/80' : 'bg-white/20'}`}
+      ></div>
+      <button
+        onClick={() => onOpen(group.id)}
+        className="p-1 text-white/50 hover:text-white transition-colors"
+        title="分组设置"
+      >
+        <i className="fa-solid fa-ellipsis text-xs"></i>
+      </button>
+    </div>
+  );
+}
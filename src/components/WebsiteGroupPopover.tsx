@@ -0,0 +1,136 @@
+import { motion } from 'framer-motion';
+import { ReactNode, useEffect, useState } from 'react';
+import { WebsiteData, WebsiteGroup } from '@/lib/supabaseSync';
+import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
+
+interface WebsiteGroupPopoverProps {
+  group: WebsiteGroup;
+  websites: WebsiteData[];
+  renderCard: (website: WebsiteData) => ReactNode;
+  onClose: () => void;
+  onRename: (groupId: string, name: string) => void;
+  onToggleCollapse: (groupId: string) => void;
+  onDissolve: (groupId: string) => void;
+}
+
+/**
+ * 分组弹出网格 - 类似手机桌面打开文件夹的效果
+ */
+export default function WebsiteGroupPopover({
+  group,
+  websites,
+  renderCard,
+  onClose,
+  onRename,
+  onToggleCollapse,
+  onDissolve,
+}: WebsiteGroupPopoverProps) {
+  const { getGridClasses } = useResponsiveLayout();
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [draftName, setDraftName] = useState(group.name);
+
+  // ESC键关闭
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isEditingName) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose, isEditingName]);
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (name && name !== group.name) {
+      onRename(group.id, name);
+    } else {
+      setDraftName(group.name);
+    }
+    setIsEditingName(false);
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 backdrop-blur-md"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      data-interactive="true"
+    >
+      <motion.div
+        className="w-full max-w-4xl mx-4 max-h-[80vh] overflow-y-auto rounded-3xl bg-white/10 border border-white/20 shadow-2xl py-6"
+        initial={{ scale: 0.6, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.6, opacity: 0 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-center gap-3 mb-6 px-6 select-none">
+          {isEditingName ? (
+            <input
+              autoFocus
+              value={draftName}
+              maxLength={20}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') {
+                  setDraftName(group.name);
+                  setIsEditingName(false);
+                }
+              }}
+              className="bg-white/20 text-white text-xl font-semibold text-center rounded-lg px-3 py-1 outline-none focus:ring-2 focus:ring-white/50"
+            />
+          ) : (
+            <h2
+              className="text-xl font-semibold text-white cursor-text"
+              onClick={() => setIsEditingName(true)}
+              title="点击重命名"
+            >
+              {group.name}
+            </h2>
+          )}
+        </div>
+
+        {websites.length > 0 ? (
+          <div className={getGridClasses()}>{websites.map((website) => renderCard(website))}</div>
+        ) : (
+          <p className="text-center text-white/60 text-sm py-8 select-none">
+            分组为空，将卡片拖到文件夹上即可加入
+          </p>
+        )}
+
+        <div className="flex items-center justify-center gap-3 mt-6 px-6 select-none">
+          <button
+            onClick={() => {
+              onToggleCollapse(group.id);
+              onClose();
+            }}
+            className="px-4 py-1.5 rounded-full bg-white/15 hover:bg-white/25 text-white text-xs transition-colors"
+          >
+            <i className={`fa-solid ${group.collapsed ? 'fa-up-right-and-down-left-from-center' : 'fa-folder'} mr-1.5`}></i>
+            {group.collapsed ? '在主页展开' : '收起为文件夹'}
+          </button>
+          <button
+            onClick={() => {
+              if (confirm(`确定要解散分组「${group.name}」吗？其中的卡片会移回主页。`)) {
+                onDissolve(group.id);
+                onClose();
+              }
+            }}
+            className="px-4 py-1.5 rounded-full bg-red-500/30 hover:bg-red-500/50 text-white text-xs transition-colors"
+          >
+            <i className="fa-solid fa-folder-minus mr-1.5"></i>
+            解散分组
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useTransparency } from '@/contexts/TransparencyContext';
+import { credentialVault } from '@/lib/credentialVault';
+import ConfirmModal from '../ConfirmModal';
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 120];
+const CLIPBOARD_CLEAR_OPTIONS = [0, 10, 30, 60, 120];
+
+const STATUS_LABELS = {
+  none: { text: '未启用，登录信息以明文保存在本地', icon: 'fa-lock-open', color: 'text-gray-400' },
+  locked: { text: '已锁定', icon: 'fa-lock', color: 'text-amber-500' },
+  unlocked: { text: '已解锁', icon: 'fa-unlock', color: 'text-emerald-500' },
+};
+
+const selectClassName =
+  'px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-600 bg-white/70 dark:bg-gray-700/60 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 凭据保险库设置 - 创建、解锁、锁定、重置保险库，以及自动锁定和剪贴板清除时间
+ */
+export default function CredentialVaultSection() {
+  const { vaultStatus, requestVaultSetup, requestVaultUnlock, resetVault } = useWorkspace();
+  const { vaultAutoLockMinutes, setVaultAutoLockMinutes, clipboardClearSeconds, setClipboardClearSeconds } =
+    useTransparency();
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  const status = STATUS_LABELS[vaultStatus];
+
+  const handleReset = () => {
+    resetVault().catch((error) => console.error('重置凭据保险库失败:', error));
+  };
+
+  return (
+    <div className="relative bg-gradient-to-br from-white/80 to-white/60 dark:from-gray-800/80 dark:to-gray-800/60 backdrop-blur-xl border border-white/60 dark:border-gray-600/40 rounded-2xl p-6 shadow-[0_20px_50px_-12px_rgba(0,0,0,0.25)] dark:shadow-[0_20px_50px_-12px_rgba(0,0,0,0.5)] animate-fadeIn">
+      <div className="mb-5">
+        <h4 className="font-semibold text-gray-900 dark:text-white flex items-center text-lg">
+          <span className="w-9 h-9 rounded-xl bg-gradient-to-br from-amber-400 to-orange-500 text-white flex items-center justify-center mr-3 shadow-lg shadow-amber-500/30">
+            <i className="fa-solid fa-vault"></i>
+          </span>
+          凭据保险库
+        </h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 ml-12">
+          使用主密码在本地加密账号、密码和两步验证密钥，查看或复制时解锁
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-gray-700 dark:text-gray-200">
+          <i className={`fa-solid ${status.icon} ${status.color} mr-2`}></i>
+          {status.text}
+        </span>
+        <div className="flex items-center space-x-2">
+          {vaultStatus === 'none' && (
+            <button
+              onClick={() => void requestVaultSetup()}
+              className="px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+            >
+              启用
+            </button>
+          )}
+          {vaultStatus === 'locked' && (
+            <button
+              onClick={() => void requestVaultUnlock()}
+              className="px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+            >
+              解锁
+            </button>
+          )}
+          {vaultStatus === 'unlocked' && (
+            <button
+              onClick={() => credentialVault.lock()}
+              className="px-3 py-1.5 text-sm bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            >
+              立即锁定
+            </button>
+          )}
+          {vaultStatus !== 'none' && (
+            <button
+              onClick={() => setShowResetConfirm(true)}
+              className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+            >
+              重置
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-gray-700 dark:text-gray-200">无操作自动锁定</label>
+          <select
+            value={vaultAutoLockMinutes}
+            onChange={(e) => setVaultAutoLockMinutes(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {AUTO_LOCK_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} 分钟
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-gray-700 dark:text-gray-200">复制后清除剪贴板</label>
+          <select
+            value={clipboardClearSeconds}
+            onChange={(e) => setClipboardClearSeconds(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {CLIPBOARD_CLEAR_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? '不清除' : `${seconds} 秒`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={showResetConfirm}
+        onClose={() => setShowResetConfirm(false)}
+        onConfirm={handleReset}
+        title="重置凭据保险库"
+        message="重置后已加密的登录信息将无法解密，会从数据源重新同步。确定要重置吗？"
+        confirmText="重置"
+        type="danger"
+      />
+    </div>
+  );
+}
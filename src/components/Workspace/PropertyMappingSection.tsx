@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { useWorkspace, PropertyMapping, DatabaseProperty } from '@/contexts/WorkspaceContext';
+import { MappableField, READABLE_PROPERTY_TYPES } from '@/lib/notionClient';
+
+// 下拉框中"自动匹配"选项的值（映射中不保存该字段）
+const AUTO_OPTION = '__auto__';
+
+const MAPPING_FIELDS: { field: MappableField; label: string; hint: string }[] = [
+  { field: 'title', label: '名称', hint: '项目显示的名称' },
+  { field: 'url', label: '网址', hint: '点击项目时打开的链接' },
+  { field: 'category', label: '分类', hint: '多值属性取第一个值' },
+  { field: 'tags', label: '标签', hint: '多选、人员、关联显示全部值' },
+  { field: 'description', label: '描述', hint: '显示在名称下方' },
+  { field: 'username', label: '账号', hint: '可一键复制' },
+  { field: 'password', label: '密码', hint: '可一键复制' },
+  { field: 'totpSecret', label: '两步验证', hint: '显示动态验证码' },
+];
+
+const PROPERTY_TYPE_LABELS: Record<string, string> = {
+  title: '标题',
+  rich_text: '文本',
+  url: '网址',
+  email: '邮箱',
+  phone_number: '电话',
+  number: '数字',
+  checkbox: '复选框',
+  select: '单选',
+  status: '状态',
+  multi_select: '多选',
+  people: '人员',
+  relation: '关联',
+  date: '日期',
+  formula: '公式',
+  created_time: '创建时间',
+  last_edited_time: '编辑时间',
+};
+
+/**
+ * 属性映射设置 - 指定工作空间各字段读取 Notion 数据库的哪一列
+ * 未指定的字段按默认列名自动匹配，保存后该数据库完整同步一次；合并了多个数据库时分别设置
+ */
+export default function PropertyMappingSection() {
+  const { getDatabaseProperties, getPropertyMapping, savePropertyMapping, notionDatabases } = useWorkspace();
+
+  const [databaseId, setDatabaseId] = useState(() => notionDatabases[0]?.id || '');
+  const [properties, setProperties] = useState<DatabaseProperty[]>([]);
+  const [mapping, setMapping] = useState<PropertyMapping>(() => getPropertyMapping(databaseId));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 读取数据库的属性列表
+  useEffect(() => {
+    let cancelled = false;
+
+    getDatabaseProperties(databaseId || undefined)
+      .then((result) => {
+        if (!cancelled) {
+          setProperties(result.filter((prop) => READABLE_PROPERTY_TYPES.includes(prop.type)));
+        }
+      })
+      .catch((error) => {
+        console.error('读取数据库属性失败:', error);
+        if (!cancelled) {
+          setMessage({ type: 'error', text: error instanceof Error ? error.message : '读取数据库属性失败' });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // 打开设置或切换数据库时读取一次
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [databaseId]);
+
+  // 切换要设置的数据库，未保存的修改会被丢弃
+  const handleDatabaseChange = (id: string) => {
+    setDatabaseId(id);
+    setMapping(getPropertyMapping(id));
+    setProperties([]);
+    setIsLoading(true);
+    setIsDirty(false);
+    setMessage(null);
+  };
+
+  const handleChange = (field: MappableField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === AUTO_OPTION) {
+        delete next[field];
+      } else {
+        next[field] = value;
+      }
+      return next;
+    });
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await savePropertyMapping(mapping, databaseId || undefined);
+      setIsDirty(false);
+      setMessage({ type: 'success', text: '属性映射已保存，已按新映射重新同步' });
+    } catch (error) {
+      console.error('保存属性映射失败:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : '保存属性映射失败' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative bg-gradient-to-br from-white/80 to-white/60 dark:from-gray-800/80 dark:to-gray-800/60 backdrop-blur-xl border border-white/60 dark:border-gray-600/40 rounded-2xl p-6 shadow-[0_20px_50px_-12px_rgba(0,0,0,0.25)] dark:shadow-[0_20px_50px_-12px_rgba(0,0,0,0.5)] animate-fadeIn">
+      <div className="mb-5">
+        <h4 className="font-semibold text-gray-900 dark:text-white flex items-center text-lg">
+          <span className="w-9 h-9 rounded-xl bg-gradient-to-br from-indigo-400 to-purple-500 text-white flex items-center justify-center mr-3 shadow-lg shadow-indigo-500/30">
+            <i className="fa-solid fa-table-columns"></i>
+          </span>
+          属性映射
+        </h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 ml-12">
+          选择各字段对应的数据库列，自动匹配时按常用列名（如「名称」「网址」「分类」）查找
+        </p>
+      </div>
+
+      {notionDatabases.length > 1 && (
+        <div className="flex items-center gap-4 mb-4">
+          <div className="w-24 flex-shrink-0 text-sm font-medium text-gray-700 dark:text-gray-200">数据库</div>
+          <select
+            value={databaseId}
+            onChange={(e) => handleDatabaseChange(e.target.value)}
+            disabled={isSaving}
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 dark:border-gray-600 bg-white/70 dark:bg-gray-700/60 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {notionDatabases.map((database, index) => (
+              <option key={database.id} value={database.id}>
+                {database.label || database.id}
+                {index === 0 ? '（主数据库）' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-8 text-center text-gray-500">
+          <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mx-auto mb-3"></div>
+          <p className="text-sm">正在读取数据库属性...</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {MAPPING_FIELDS.map(({ field, label, hint }) => (
+            <div key={field} className="flex items-center gap-4">
+              <div className="w-24 flex-shrink-0">
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-200">{label}</div>
+                <div className="text-[11px] text-gray-400 dark:text-gray-500 truncate" title={hint}>
+                  {hint}
+                </div>
+              </div>
+              <select
+                value={mapping[field] ?? AUTO_OPTION}
+                onChange={(e) => handleChange(field, e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 dark:border-gray-600 bg-white/70 dark:bg-gray-700/60 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={AUTO_OPTION}>自动匹配</option>
+                <option value="">不使用</option>
+                {properties.map((prop) => (
+                  <option key={prop.name} value={prop.name}>
+                    {prop.name}（{PROPERTY_TYPE_LABELS[prop.type] || prop.type}）
+                  </option>
+                ))}
+                {/* 映射的列已在 Notion 中删除或改名 */}
+                {mapping[field] && !properties.some((prop) => prop.name === mapping[field]) && (
+                  <option value={mapping[field]}>{mapping[field]}（已不存在）</option>
+                )}
+              </select>
+            </div>
+          ))}
+
+          {message && (
+            <div
+              className={`text-sm ${
+                message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+              }`}
+            >
+              <i
+                className={`fa-solid ${message.type === 'success' ? 'fa-circle-check' : 'fa-circle-exclamation'} mr-1.5`}
+              ></i>
+              {message.text}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <p className="text-xs text-gray-400 dark:text-gray-500">编辑项目时只会写入文本、网址、单选等可写类型的列</p>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="px-5 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? (
+                <>
+                  <i className="fa-solid fa-circle-notch fa-spin mr-1.5"></i>
+                  保存中...
+                </>
+              ) : (
+                '保存映射'
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { z } from 'zod';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { credentialVault } from '@/lib/credentialVault';
+
+const setupSchema = z
+  .object({
+    password: z.string().min(8, '主密码至少 8 位'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: '两次输入的主密码不一致',
+    path: ['confirmPassword'],
+  });
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 凭据保险库主密码输入框 - 创建保险库或解锁，由 requestVaultSetup / requestVaultUnlock 打开
+ */
+export default function VaultUnlockModal() {
+  const { vaultPrompt, closeVaultPrompt, setupVault } = useWorkspace();
+  const isSetup = vaultPrompt === 'setup';
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // ESC 关闭输入框，在捕获阶段处理，避免同时关闭下层的编辑器或工作空间
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        closeVaultPrompt(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [closeVaultPrompt]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (isSetup) {
+      const result = setupSchema.safeParse({ password, confirmPassword });
+      if (!result.success) {
+        setErrorMessage(result.error.errors[0].message);
+        return;
+      }
+    }
+
+    setIsProcessing(true);
+    try {
+      if (isSetup) {
+        await setupVault(password);
+      } else if (!(await credentialVault.unlock(password))) {
+        setErrorMessage('主密码错误');
+        setPassword('');
+        return;
+      }
+      closeVaultPrompt(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : '操作失败');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/50 p-4 select-none"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => closeVaultPrompt(false)}
+    >
+      <motion.div
+        className="w-full max-w-sm bg-white dark:bg-gray-900 rounded-xl shadow-xl p-6"
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 400 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 rounded-xl bg-amber-100 dark:bg-amber-900/50 flex items-center justify-center">
+            <i className={`fa-solid ${isSetup ? 'fa-vault' : 'fa-lock'} text-amber-600 dark:text-amber-400`}></i>
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {isSetup ? '创建凭据保险库' : '解锁凭据保险库'}
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {isSetup ? '登录信息将使用主密码在本地加密' : '输入主密码以查看登录信息'}
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClassName}
+            placeholder="主密码"
+            autoComplete={isSetup ? 'new-password' : 'current-password'}
+            autoFocus
+          />
+          {isSetup && (
+            <>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClassName}
+                placeholder="再次输入主密码"
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                主密码无法找回，忘记后只能重置保险库并重新同步
+              </p>
+            </>
+          )}
+
+          {errorMessage && <p className="text-sm text-red-500">{errorMessage}</p>}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={() => closeVaultPrompt(false)}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-md transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || !password}
+              className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProcessing && <i className="fa-solid fa-circle-notch fa-spin mr-1"></i>}
+              {isSetup ? '创建' : '解锁'}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useWorkspace, isPendingItem } from '@/contexts/WorkspaceContext';
+import { SealedCredentials } from '@/lib/workspaceSources';
+import { useItemCredentials } from '../hooks/useItemCredentials';
+import TotpCode from './TotpCode';
 
 interface WorkspaceItem {
   id: string;
@@ -9,11 +12,15 @@ interface WorkspaceItem {
   description?: string;
   icon?: string;
   category: string;
+  tags?: string[];
   isActive: boolean;
   lastSync: string;
   notionId: string;
+  databaseId?: string;
   username?: string;
   password?: string;
+  totpSecret?: string;
+  sealedCredentials?: SealedCredentials;
 }
 
 interface ListItemProps {
@@ -24,8 +31,18 @@ interface ListItemProps {
 }
 
 export default function ListItem({ item, index, isFocused, searchQuery = '' }: ListItemProps) {
-  const { openItem, copyItemUrl, copyItemCredentials, setFocusedItemIndex } = useWorkspace();
+  const {
+    openItem,
+    copyItemUrl,
+    copyItemCredentials,
+    setFocusedItemIndex,
+    openItemEditor,
+    canEditItems,
+    requestVaultUnlock,
+    getDatabaseLabel,
+  } = useWorkspace();
   const [showCredentials, setShowCredentials] = useState(false);
+  const { fields: credentialFields, credentials, isLocked } = useItemCredentials(item, showCredentials);
   const [copyFeedback, setCopyFeedback] = useState<string | null>(null);
   const itemRef = useRef<HTMLDivElement>(null);
 
@@ -64,8 +81,22 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
     );
   };
 
-  // 检查是否有登录信息
-  const hasCredentials = item.username || item.password;
+  // 检查是否有登录信息（加密的登录信息展开时才解密）
+  const hasCredentials = credentialFields.length > 0;
+  const databaseLabel = getDatabaseLabel(item.databaseId);
+
+  // 展开已加密的登录信息时按需解锁保险库
+  const toggleCredentials = () => {
+    const next = !showCredentials;
+    setShowCredentials(next);
+    if (next && isLocked) {
+      void requestVaultUnlock();
+    }
+  };
+
+  // 新建的项目写入数据源前暂不可编辑；只读数据源不显示编辑入口
+  const isPending = isPendingItem(item);
+  const canEdit = canEditItems && !isPending;
 
   // 处理点击
   const handleClick = () => {
@@ -90,11 +121,18 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
       case 'd':
       case 'D':
         e.preventDefault();
-        setShowCredentials(!showCredentials);
+        toggleCredentials();
+        break;
+      case 'e':
+      case 'E':
+        if (!e.ctrlKey && !e.metaKey && canEdit) {
+          e.preventDefault();
+          openItemEditor(item);
+        }
         break;
       case ' ':
         e.preventDefault();
-        setShowCredentials(!showCredentials);
+        toggleCredentials();
         break;
     }
   };
@@ -106,8 +144,9 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
   };
 
   const handleCopyCredentials = async (type: 'username' | 'password') => {
-    await copyItemCredentials(item, type);
-    showCopyFeedback(`${type === 'username' ? '账号' : '密码'}已复制`);
+    if (await copyItemCredentials(item, type)) {
+      showCopyFeedback(`${type === 'username' ? '账号' : '密码'}已复制`);
+    }
   };
 
   const showCopyFeedback = (message: string) => {
@@ -123,6 +162,7 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
         bg-white dark:bg-gray-800 rounded-xl p-4
         transition-all duration-200
         border border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600
+        ${isPending ? 'opacity-60' : ''}
       `}
       style={{ userSelect: 'none' }}
       onClick={handleClick}
@@ -170,11 +210,31 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
                 `}>
                   {item.category === '工作链接' ? '🏢' : '🛠️'} {item.category}
                 </span>
+                {databaseLabel && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 truncate max-w-[8rem]" title={`来自数据库：${databaseLabel}`}>
+                    <i className="fa-solid fa-database mr-1 text-[10px]"></i>
+                    {highlightText(databaseLabel, searchQuery)}
+                  </span>
+                )}
                 {hasCredentials && (
                   <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300">
                     🔐 有登录信息
                   </span>
                 )}
+                {item.tags?.slice(0, 3).map(tag => (
+                  <span
+                    key={tag}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 truncate max-w-[8rem]"
+                    title={tag}
+                  >
+                    #{highlightText(tag, searchQuery)}
+                  </span>
+                ))}
+                {item.tags && item.tags.length > 3 && (
+                  <span className="text-xs text-gray-400 dark:text-gray-500" title={item.tags.slice(3).join(', ')}>
+                    +{item.tags.length - 3}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -195,7 +255,7 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    setShowCredentials(!showCredentials);
+                    toggleCredentials();
                   }}
                   className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg transition-colors"
                   title="显示登录信息 (D)"
@@ -204,6 +264,19 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
                 </button>
               )}
 
+              {canEdit && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openItemEditor(item);
+                  }}
+                  className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg transition-colors"
+                  title="编辑 (E)"
+                >
+                  <i className="fa-solid fa-pen text-xs"></i>
+                </button>
+              )}
+
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -247,51 +320,79 @@ export default function ListItem({ item, index, isFocused, searchQuery = '' }: L
               exit={{ opacity: 0, height: 0 }}
               transition={{ duration: 0.2 }}
             >
-              <div className="space-y-2">
-                {item.username && (
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <i className="fa-solid fa-user text-blue-600 dark:text-blue-400 text-sm"></i>
-                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">账号:</span>
-                      <code className="text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800 px-2 py-1 rounded border dark:border-gray-600 select-text" style={{ userSelect: 'text' }}>
-                        {item.username}
-                      </code>
-                    </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleCopyCredentials('username');
-                      }}
-                      className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors"
-                      title="复制账号"
-                    >
-                      <i className="fa-solid fa-copy text-xs"></i>
-                    </button>
+              {isLocked ? (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+                    <i className="fa-solid fa-lock text-amber-600 dark:text-amber-400"></i>
+                    <span>登录信息已加密</span>
                   </div>
-                )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void requestVaultUnlock();
+                    }}
+                    className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                  >
+                    解锁查看
+                  </button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {credentials?.username && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <i className="fa-solid fa-user text-blue-600 dark:text-blue-400 text-sm"></i>
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">账号:</span>
+                        <code className="text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800 px-2 py-1 rounded border dark:border-gray-600 select-text" style={{ userSelect: 'text' }}>
+                          {credentials.username}
+                        </code>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleCopyCredentials('username');
+                        }}
+                        className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors"
+                        title="复制账号"
+                      >
+                        <i className="fa-solid fa-copy text-xs"></i>
+                      </button>
+                    </div>
+                  )}
 
-                {item.password && (
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <i className="fa-solid fa-key text-amber-600 dark:text-amber-400 text-sm"></i>
-                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">密码:</span>
-                      <code className="text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800 px-2 py-1 rounded border dark:border-gray-600 select-text" style={{ userSelect: 'text' }}>
-                        {'●'.repeat(Math.min(item.password.length, 12))}
-                      </code>
+                  {credentials?.password && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <i className="fa-solid fa-key text-amber-600 dark:text-amber-400 text-sm"></i>
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">密码:</span>
+                        <code className="text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800 px-2 py-1 rounded border dark:border-gray-600 select-text" style={{ userSelect: 'text' }}>
+                          {'●'.repeat(Math.min(credentials.password.length, 12))}
+                        </code>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleCopyCredentials('password');
+                        }}
+                        className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors"
+                        title="复制密码"
+                      >
+                        <i className="fa-solid fa-copy text-xs"></i>
+                      </button>
                     </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleCopyCredentials('password');
-                      }}
-                      className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors"
-                      title="复制密码"
-                    >
-                      <i className="fa-solid fa-copy text-xs"></i>
-                    </button>
-                  </div>
-                )}
-              </div>
+                  )}
+
+                  {credentials?.totpSecret && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <i className="fa-solid fa-shield-halved text-emerald-600 dark:text-emerald-400 text-sm"></i>
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">验证码:</span>
+                      </div>
+                      <TotpCode secret={credentials.totpSecret} onCopied={showCopyFeedback} />
+                    </div>
+                  )}
+                </div>
+              )}
             </motion.div>
           )}
         </div>
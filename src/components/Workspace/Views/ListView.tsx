@@ -15,7 +15,10 @@ export default function ListView({ className = '' }: ListViewProps) {
     error,
     focusedItemIndex,
     searchQuery,
-    setSearchQuery
+    setSearchQuery,
+    openItemEditor,
+    canEditItems,
+    sourceLabel
   } = useWorkspace();
 
   const [focusPosition, setFocusPosition] = useState({ y: 0, height: 0 });
@@ -81,10 +84,10 @@ export default function ListView({ className = '' }: ListViewProps) {
           <p className="text-gray-500 dark:text-gray-400 text-sm text-center max-w-md">
             {searchQuery
               ? `没有找到包含 "${searchQuery}" 的项目，尝试使用其他关键词搜索`
-              : '还没有任何工作空间项目，请先从 Notion 同步数据'
+              : `还没有任何工作空间项目，请先从${sourceLabel}同步数据`
             }
           </p>
-          {searchQuery && (
+          {searchQuery ? (
             <button
               onClick={() => {
                 setSearchQuery('');
@@ -93,6 +96,14 @@ export default function ListView({ className = '' }: ListViewProps) {
             >
               清除搜索条件
             </button>
+          ) : canEditItems && (
+            <button
+              onClick={() => openItemEditor()}
+              className="mt-4 px-4 py-2 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm font-medium"
+            >
+              <i className="fa-solid fa-plus mr-1"></i>
+              新建项目
+            </button>
           )}
         </div>
       </div>
@@ -164,8 +175,17 @@ export default function ListView({ className = '' }: ListViewProps) {
           {/* 加载更多指示器（如果需要分页） */}
           {filteredItems.length > 0 && (
             <div className="mt-8 pt-4 border-t border-gray-100 dark:border-gray-700">
-              <div className="text-center text-sm text-gray-500 dark:text-gray-400">
-                共 {filteredItems.length} 个项目
+              <div className="flex items-center justify-center space-x-3 text-sm text-gray-500 dark:text-gray-400">
+                <span>共 {filteredItems.length} 个项目</span>
+                {canEditItems && (
+                  <button
+                    onClick={() => openItemEditor()}
+                    className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+                  >
+                    <i className="fa-solid fa-plus mr-1"></i>
+                    新建项目
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,63 @@
+import { useTotpCode } from '../hooks/useTotpCode';
+import { copySecretToClipboard } from '@/lib/credentialVault';
+
+interface TotpCodeProps {
+  secret: string;
+  onCopied?: (message: string) => void;
+  compact?: boolean;
+}
+
+/**
+ * 两步验证动态码 - 每秒刷新，显示剩余有效时间
+ */
+export default function TotpCode({ secret, onCopied, compact = false }: TotpCodeProps) {
+  const { isValid, totp } = useTotpCode(secret);
+
+  if (!isValid) {
+    return <span className="text-xs text-red-500">两步验证密钥无效</span>;
+  }
+
+  // 6 位动态码按 3 位分组显示
+  const displayCode = totp ? totp.code.replace(/^(\d{3})(\d+)$/, '$1 $2') : '--- ---';
+  const isExpiring = !!totp && totp.remaining <= 5;
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!totp) return;
+    try {
+      await copySecretToClipboard(totp.code);
+      onCopied?.('验证码已复制');
+    } catch (error) {
+      console.error('复制验证码失败:', error);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <code
+        className={`${compact ? 'text-xs' : 'text-sm'} font-mono font-semibold tracking-wider ${
+          isExpiring ? 'text-red-500' : 'text-gray-900 dark:text-gray-100'
+        }`}
+      >
+        {displayCode}
+      </code>
+      {totp && (
+        <div className="relative w-10 h-1 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden" title={`${totp.remaining} 秒后刷新`}>
+          <div
+            className={`absolute inset-y-0 left-0 rounded-full transition-[width] duration-1000 ease-linear ${
+              isExpiring ? 'bg-red-500' : 'bg-emerald-500'
+            }`}
+            style={{ width: `${(totp.remaining / totp.period) * 100}%` }}
+          />
+        </div>
+      )}
+      <button
+        onClick={handleCopy}
+        className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors"
+        title="复制验证码"
+      >
+        <i className="fa-solid fa-copy text-xs"></i>
+      </button>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useWorkspace, isPendingItem } from '@/contexts/WorkspaceContext';
 import { useResponsiveLayout } from '@/hooks/useResponsiveLayout';
+import { SealedCredentials } from '@/lib/workspaceSources';
+import { useItemCredentials } from '../hooks/useItemCredentials';
+import TotpCode from './TotpCode';
 
 interface WorkspaceItem {
   id: string;
@@ -10,11 +13,15 @@ interface WorkspaceItem {
   description?: string;
   icon?: string;
   category: string;
+  tags?: string[];
   isActive: boolean;
   lastSync: string;
   notionId: string;
+  databaseId?: string;
   username?: string;
   password?: string;
+  totpSecret?: string;
+  sealedCredentials?: SealedCredentials;
 }
 
 interface WorkspaceCardProps {
@@ -25,9 +32,19 @@ interface WorkspaceCardProps {
 }
 
 export default function WorkspaceCard({ item, index, isFocused, searchQuery = '' }: WorkspaceCardProps) {
-  const { openItem, copyItemUrl, copyItemCredentials, setFocusedItemIndex } = useWorkspace();
+  const {
+    openItem,
+    copyItemUrl,
+    copyItemCredentials,
+    setFocusedItemIndex,
+    openItemEditor,
+    canEditItems,
+    requestVaultUnlock,
+    getDatabaseLabel,
+  } = useWorkspace();
   const { isMobile } = useResponsiveLayout();
   const [showCredentials, setShowCredentials] = useState(false);
+  const { fields: credentialFields, credentials, isLocked } = useItemCredentials(item, showCredentials);
   const [copyFeedback, setCopyFeedback] = useState<string | null>(null);
   const cardRef = useRef<HTMLDivElement>(null);
 
@@ -66,8 +83,22 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
     );
   };
 
-  // 检查是否有登录信息
-  const hasCredentials = item.username || item.password;
+  // 检查是否有登录信息（加密的登录信息翻转到背面时才解密）
+  const hasCredentials = credentialFields.length > 0;
+  const databaseLabel = getDatabaseLabel(item.databaseId);
+
+  // 查看已加密的登录信息时按需解锁保险库
+  const toggleCredentials = () => {
+    const next = !showCredentials;
+    setShowCredentials(next);
+    if (next && isLocked) {
+      void requestVaultUnlock();
+    }
+  };
+
+  // 新建的项目写入数据源前暂不可编辑；只读数据源不显示编辑入口
+  const isPending = isPendingItem(item);
+  const canEdit = canEditItems && !isPending;
 
   // 处理点击
   const handleClick = () => {
@@ -93,11 +124,18 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
       case 'd':
       case 'D':
         e.preventDefault();
-        setShowCredentials(!showCredentials);
+        toggleCredentials();
+        break;
+      case 'e':
+      case 'E':
+        if (!e.ctrlKey && !e.metaKey && canEdit) {
+          e.preventDefault();
+          openItemEditor(item);
+        }
         break;
       case ' ':
         e.preventDefault();
-        setShowCredentials(!showCredentials);
+        toggleCredentials();
         break;
     }
   };
@@ -109,8 +147,9 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
   };
 
   const handleCopyCredentials = async (type: 'username' | 'password') => {
-    await copyItemCredentials(item, type);
-    showCopyFeedback(`${type === 'username' ? '账号' : '密码'}已复制`);
+    if (await copyItemCredentials(item, type)) {
+      showCopyFeedback(`${type === 'username' ? '账号' : '密码'}已复制`);
+    }
   };
 
   const showCopyFeedback = (message: string) => {
@@ -121,7 +160,7 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
   return (
     <motion.div
       ref={cardRef}
-      className="workspace-card group cursor-pointer select-none relative"
+      className={`workspace-card group cursor-pointer select-none relative ${isPending ? 'opacity-60' : ''}`}
       style={{ userSelect: 'none' }}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
@@ -189,6 +228,15 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
                     {item.category === '工作链接' ? '🏢' : '🛠️'}
                   </span>
 
+                  {databaseLabel && (
+                    <span
+                      className={`inline-flex items-center ${isMobile ? 'px-1.5 py-0.5 text-[10px]' : 'px-2 py-1 text-xs'} rounded-full font-medium bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 truncate max-w-[5rem]`}
+                      title={`来自数据库：${databaseLabel}`}
+                    >
+                      {databaseLabel}
+                    </span>
+                  )}
+
                   {hasCredentials && (
                     <div className={`${isMobile ? 'w-1.5 h-1.5' : 'w-2 h-2'} rounded-full bg-green-500 shadow-sm`} title="有登录信息"></div>
                   )}
@@ -200,7 +248,7 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        setShowCredentials(!showCredentials);
+                        toggleCredentials();
                       }}
                       className={`${isMobile ? 'p-1' : 'p-1.5'} text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg transition-colors`}
                       title="显示登录信息"
@@ -209,6 +257,22 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
                     </button>
                   )}
 
+                  {canEdit && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openItemEditor(item);
+                      }}
+                      className={`
+                        ${isMobile ? 'p-1' : 'p-1.5'} text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg transition-all
+                        ${isFocused ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
+                      `}
+                      title="编辑"
+                    >
+                      <i className={`fa-solid fa-pen ${isMobile ? 'text-[10px]' : 'text-xs'}`}></i>
+                    </button>
+                  )}
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -241,14 +305,29 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
             <div className={`absolute inset-0 w-full h-full [backface-visibility:hidden] [transform:rotateY(180deg)] bg-white dark:bg-gray-800 ${isMobile ? 'rounded-xl' : 'rounded-2xl'} border border-gray-200 dark:border-gray-700 flex flex-col justify-center shadow-sm`}>
               <div className={`${isMobile ? 'px-3 py-2 space-y-3' : 'px-6 py-4 space-y-6'}`}>
                 {/* 账号信息 */}
-                {item.username && (
+                {isLocked && (
+                  <div className="flex flex-col items-center space-y-2">
+                    <i className={`fa-solid fa-lock text-amber-600 dark:text-amber-400 ${isMobile ? 'text-base' : 'text-xl'}`}></i>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void requestVaultUnlock();
+                      }}
+                      className={`${isMobile ? 'text-xs' : 'text-sm'} text-blue-600 dark:text-blue-400 hover:underline`}
+                    >
+                      解锁查看登录信息
+                    </button>
+                  </div>
+                )}
+
+                {credentials?.username && (
                   <div className="flex items-center justify-between">
                     <div className={`flex items-center ${isMobile ? 'space-x-2' : 'space-x-3'} flex-1 min-w-0`}>
                       <div className={`${isMobile ? 'w-6 h-6' : 'w-8 h-8'} bg-blue-100 dark:bg-blue-900/50 rounded-lg flex items-center justify-center flex-shrink-0`}>
                         <i className={`fa-solid fa-user text-blue-600 dark:text-blue-400 ${isMobile ? 'text-xs' : 'text-sm'}`}></i>
                       </div>
                       <code className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-900 dark:text-gray-100 truncate font-mono select-text`} style={{ userSelect: 'text' }}>
-                        {item.username}
+                        {credentials.username}
                       </code>
                     </div>
                     <button
@@ -265,14 +344,14 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
                 )}
 
                 {/* 密码信息 */}
-                {item.password && (
+                {credentials?.password && (
                   <div className="flex items-center justify-between">
                     <div className={`flex items-center ${isMobile ? 'space-x-2' : 'space-x-3'} flex-1 min-w-0`}>
                       <div className={`${isMobile ? 'w-6 h-6' : 'w-8 h-8'} bg-amber-100 dark:bg-amber-900/50 rounded-lg flex items-center justify-center flex-shrink-0`}>
                         <i className={`fa-solid fa-key text-amber-600 dark:text-amber-400 ${isMobile ? 'text-xs' : 'text-sm'}`}></i>
                       </div>
                       <code className={`${isMobile ? 'text-xs' : 'text-sm'} text-gray-900 dark:text-gray-100 font-mono select-text`} style={{ userSelect: 'text' }}>
-                        {'●'.repeat(Math.min(item.password.length, 12))}
+                        {'●'.repeat(Math.min(credentials.password.length, 12))}
                       </code>
                     </div>
                     <button
@@ -288,6 +367,16 @@ export default function WorkspaceCard({ item, index, isFocused, searchQuery = ''
                   </div>
                 )}
 
+                {/* 两步验证动态码 */}
+                {credentials?.totpSecret && (
+                  <div className="flex items-center justify-between">
+                    <div className={`${isMobile ? 'w-6 h-6' : 'w-8 h-8'} bg-emerald-100 dark:bg-emerald-900/50 rounded-lg flex items-center justify-center flex-shrink-0`}>
+                      <i className={`fa-solid fa-shield-halved text-emerald-600 dark:text-emerald-400 ${isMobile ? 'text-xs' : 'text-sm'}`}></i>
+                    </div>
+                    <TotpCode secret={credentials.totpSecret} onCopied={showCopyFeedback} compact={isMobile} />
+                  </div>
+                )}
+
                 {/* 返回提示 */}
                 <div className={`text-center ${isMobile ? 'pt-1' : 'pt-2'} border-t border-gray-100 dark:border-gray-700`}>
                   <span className={`${isMobile ? 'text-[10px]' : 'text-xs'} text-gray-500 dark:text-gray-400`}>点击返回</span>
@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { z } from 'zod';
+import { useWorkspace, WorkspaceItemDraft, Credentials } from '@/contexts/WorkspaceContext';
+import { parseTotpSecret } from '@/lib/totp';
+import ConfirmModal from '../ConfirmModal';
+
+// 分类下拉框中"新建分类"选项的值
+const NEW_CATEGORY_OPTION = '__new__';
+
+const CREDENTIAL_FIELDS = ['username', 'password', 'totpSecret'] as const;
+
+const itemSchema = z.object({
+  title: z.string().trim().min(1, '名称不能为空'),
+  url: z.string().trim().url('请输入有效的网址'),
+  category: z.string().trim().min(1, '请选择或输入分类'),
+});
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 工作空间项目编辑器 - 新建、编辑、修改分类和归档，保存后写回 Notion
+ * 保存时立即关闭，界面先行更新，写回失败由 WorkspaceContext 回滚并提示
+ */
+export default function WorkspaceItemEditor() {
+  const {
+    editingItem,
+    categories,
+    selectedCategory,
+    closeItemEditor,
+    createItem,
+    updateItem,
+    archiveItem,
+    revealCredentials,
+    notionDatabases,
+    getDatabaseLabel,
+  } = useWorkspace();
+
+  // 新建的项目保存到主数据库，编辑时写回项目所属的数据库
+  const targetDatabaseLabel = editingItem
+    ? getDatabaseLabel(editingItem.databaseId)
+    : getDatabaseLabel(notionDatabases[0]?.id);
+
+  const categoryNames = categories.filter((category) => category.name !== 'all').map((category) => category.name);
+  const initialCategory =
+    editingItem?.category ||
+    (selectedCategory !== 'all' ? selectedCategory : categoryNames[0]) ||
+    '';
+
+  const [formData, setFormData] = useState({
+    title: editingItem?.title || '',
+    url: editingItem?.url || '',
+    description: editingItem?.description || '',
+    username: editingItem?.username || '',
+    password: editingItem?.password || '',
+    totpSecret: editingItem?.totpSecret || '',
+  });
+  // 已加密的登录信息解锁后才能编辑，编辑前的值用于比较是否有修改
+  const [originalCredentials, setOriginalCredentials] = useState<Credentials | null>(() =>
+    editingItem?.sealedCredentials ? null : {}
+  );
+  const credentialsLocked = originalCredentials === null;
+  const [categoryOption, setCategoryOption] = useState(
+    categoryNames.includes(initialCategory) ? initialCategory : NEW_CATEGORY_OPTION
+  );
+  const [newCategory, setNewCategory] = useState(
+    categoryNames.includes(initialCategory) ? '' : initialCategory
+  );
+  const [showPassword, setShowPassword] = useState(false);
+  const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // ESC键关闭编辑器（确认框打开时由确认框处理）
+  useEffect(() => {
+    if (showArchiveConfirm) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        closeItemEditor();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [closeItemEditor, showArchiveConfirm]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+
+    // 清除错误
+    if (errors[name]) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  const handleUnlockCredentials = async () => {
+    if (!editingItem) return;
+    try {
+      const credentials = await revealCredentials(editingItem);
+      if (!credentials) return;
+      setOriginalCredentials(credentials);
+      setFormData((prev) => ({
+        ...prev,
+        username: credentials.username || '',
+        password: credentials.password || '',
+        totpSecret: credentials.totpSecret || '',
+      }));
+    } catch (error) {
+      setErrors((prev) => ({ ...prev, credentials: error instanceof Error ? error.message : '解密登录信息失败' }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const category = categoryOption === NEW_CATEGORY_OPTION ? newCategory : categoryOption;
+    const result = itemSchema.safeParse({ ...formData, category });
+    if (!result.success) {
+      const newErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        newErrors[err.path[0]] = err.message;
+      });
+      setErrors(newErrors);
+      return;
+    }
+    if (formData.totpSecret.trim() && !parseTotpSecret(formData.totpSecret)) {
+      setErrors({ totpSecret: '两步验证密钥无效' });
+      return;
+    }
+
+    const draft: WorkspaceItemDraft = {
+      title: result.data.title,
+      url: result.data.url,
+      category: result.data.category,
+      description: formData.description.trim(),
+      username: formData.username.trim(),
+      password: formData.password,
+      totpSecret: formData.totpSecret.trim(),
+    };
+
+    if (editingItem) {
+      // 只写回有变化的字段，避免覆盖 Notion 中其他属性值（如多选的其余选项）
+      // 未解锁的登录信息不写回；已加密的登录信息与解密后的值比较
+      const original = { ...editingItem, ...originalCredentials };
+      const changes = (Object.keys(draft) as (keyof WorkspaceItemDraft)[])
+        .filter((field) => !(credentialsLocked && (CREDENTIAL_FIELDS as readonly string[]).includes(field)))
+        .reduce<Partial<WorkspaceItemDraft>>(
+          (changed, field) =>
+            (draft[field] || '') !== (original[field] || '') ? { ...changed, [field]: draft[field] } : changed,
+          {}
+        );
+      if (Object.keys(changes).length > 0) {
+        void updateItem(editingItem, changes);
+      }
+    } else {
+      void createItem(draft);
+    }
+
+    closeItemEditor();
+  };
+
+  const handleArchive = () => {
+    if (editingItem) {
+      void archiveItem(editingItem);
+    }
+    closeItemEditor();
+  };
+
+  return (
+    <>
+      <motion.div
+        className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 select-none"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={closeItemEditor}
+      >
+        <motion.div
+          className="w-full max-w-md max-h-full overflow-y-auto bg-white dark:bg-gray-900 rounded-xl shadow-xl p-6"
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          transition={{ type: 'spring', damping: 25, stiffness: 400 }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              {editingItem ? '编辑项目' : '新建项目'}
+            </h2>
+            <motion.button
+              type="button"
+              onClick={closeItemEditor}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              whileHover={{ scale: 1.1, rotate: 90 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              <i className="fa-solid fa-xmark"></i>
+            </motion.button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">名称</label>
+              <input
+                type="text"
+                name="title"
+                value={formData.title}
+                onChange={handleChange}
+                className={inputClassName}
+                placeholder="项目名称"
+                autoFocus
+              />
+              {errors.title && <p className="mt-1 text-sm text-red-500">{errors.title}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">网址</label>
+              <input
+                type="url"
+                name="url"
+                value={formData.url}
+                onChange={handleChange}
+                className={inputClassName}
+                placeholder="https://example.com"
+              />
+              {errors.url && <p className="mt-1 text-sm text-red-500">{errors.url}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">分类</label>
+              <select
+                value={categoryOption}
+                onChange={(e) => {
+                  setCategoryOption(e.target.value);
+                  setErrors((prev) => ({ ...prev, category: '' }));
+                }}
+                className={inputClassName}
+              >
+                {categoryNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+                <option value={NEW_CATEGORY_OPTION}>+ 新建分类</option>
+              </select>
+              {categoryOption === NEW_CATEGORY_OPTION && (
+                <input
+                  type="text"
+                  value={newCategory}
+                  onChange={(e) => {
+                    setNewCategory(e.target.value);
+                    setErrors((prev) => ({ ...prev, category: '' }));
+                  }}
+                  className={`${inputClassName} mt-2`}
+                  placeholder="新分类名称"
+                />
+              )}
+              {errors.category && <p className="mt-1 text-sm text-red-500">{errors.category}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">描述</label>
+              <textarea
+                name="description"
+                value={formData.description}
+                onChange={handleChange}
+                rows={2}
+                className={`${inputClassName} resize-none`}
+                placeholder="可选"
+              />
+            </div>
+
+            {credentialsLocked ? (
+              <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md">
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  <i className="fa-solid fa-lock text-amber-600 dark:text-amber-400 mr-2"></i>
+                  登录信息已加密
+                </span>
+                <button
+                  type="button"
+                  onClick={handleUnlockCredentials}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  解锁以编辑
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">账号</label>
+                    <input
+                      type="text"
+                      name="username"
+                      value={formData.username}
+                      onChange={handleChange}
+                      className={inputClassName}
+                      placeholder="可选"
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">密码</label>
+                    <div className="relative">
+                      <input
+                        type={showPassword ? 'text' : 'password'}
+                        name="password"
+                        value={formData.password}
+                        onChange={handleChange}
+                        className={`${inputClassName} pr-8`}
+                        placeholder="可选"
+                        autoComplete="new-password"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        title={showPassword ? '隐藏密码' : '显示密码'}
+                      >
+                        <i className={`fa-solid ${showPassword ? 'fa-eye-slash' : 'fa-eye'} text-xs`}></i>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">两步验证密钥</label>
+                  <input
+                    type="password"
+                    name="totpSecret"
+                    value={formData.totpSecret}
+                    onChange={handleChange}
+                    className={inputClassName}
+                    placeholder="可选，Base32 密钥或 otpauth:// 链接"
+                    autoComplete="off"
+                  />
+                  {errors.totpSecret && <p className="mt-1 text-sm text-red-500">{errors.totpSecret}</p>}
+                </div>
+              </>
+            )}
+            {errors.credentials && <p className="text-sm text-red-500">{errors.credentials}</p>}
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              <i className="fa-brands fa-notion mr-1"></i>
+              {targetDatabaseLabel ? `保存后将同步写入 Notion 数据库「${targetDatabaseLabel}」` : '保存后将同步写入 Notion 数据库'}
+            </p>
+
+            <div className="flex items-center justify-between pt-2">
+              {editingItem ? (
+                <button
+                  type="button"
+                  onClick={() => setShowArchiveConfirm(true)}
+                  className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors"
+                >
+                  <i className="fa-solid fa-box-archive mr-1"></i>
+                  归档
+                </button>
+              ) : (
+                <span />
+              )}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={closeItemEditor}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                >
+                  取消
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+                >
+                  保存
+                </button>
+              </div>
+            </div>
+          </form>
+        </motion.div>
+      </motion.div>
+
+      <ConfirmModal
+        isOpen={showArchiveConfirm}
+        onClose={() => setShowArchiveConfirm(false)}
+        onConfirm={handleArchive}
+        title="归档项目"
+        message={`确定要归档「${editingItem?.title || ''}」吗？\n归档后可在 Notion 的回收站中恢复。`}
+        confirmText="归档"
+        type="danger"
+      />
+    </>
+  );
+}
@@ -15,6 +15,8 @@ import CardView from './Views/CardView';
 
 // 其他组件
 import WorkspaceSettings from './WorkspaceSettings';
+import WorkspaceItemEditor from './WorkspaceItemEditor';
+import VaultUnlockModal from './VaultUnlockModal';
 
 interface WorkspaceModalProps {
   isOpen: boolean;
@@ -25,13 +27,22 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
   const {
     workspaceItems,
     isLoading,
+    isRefreshing,
     error,
     isConfigured,
     lastSync,
+    isOffline,
+    isStale,
     viewType,
     selectedCategory,
     filteredItems,
-    refreshItems
+    refreshItems,
+    isItemEditorOpen,
+    writeError,
+    clearWriteError,
+    sourceLabel,
+    canEditItems,
+    vaultPrompt
   } = useWorkspace();
 
   const { isMobile } = useResponsiveLayout();
@@ -39,7 +50,7 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
 
   // 键盘导航
   useKeyboardNavigation({
-    isEnabled: isOpen && !showSettings,
+    isEnabled: isOpen && !showSettings && !isItemEditorOpen && !vaultPrompt,
     onEscape: onClose
   });
 
@@ -114,15 +125,27 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
                       <i className={`fa-solid fa-briefcase text-blue-600 dark:text-blue-400 ${isMobile ? 'text-sm' : 'text-lg'}`}></i>
                     </div>
                     <div>
-                      <h1 className={`${isMobile ? 'text-base' : 'text-xl'} font-bold text-gray-900 dark:text-gray-100`}>工作空间</h1>
+                      <div className="flex items-center space-x-2">
+                        <h1 className={`${isMobile ? 'text-base' : 'text-xl'} font-bold text-gray-900 dark:text-gray-100`}>工作空间</h1>
+                        {/* 离线或缓存数据提示 */}
+                        {isConfigured && (isOffline || isStale) && (
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300"
+                            title={`显示的是${formatSyncTime(lastSync)}的缓存数据`}
+                          >
+                            <i className={`fa-solid ${isOffline ? 'fa-wifi-slash' : 'fa-clock-rotate-left'} mr-1`}></i>
+                            {isOffline ? '离线' : '缓存'}
+                          </span>
+                        )}
+                      </div>
                       {!isMobile && (
                         <p className="text-sm text-gray-600 dark:text-gray-400">
                           {isConfigured ? (
                             <>
-                              {workspaceItems.length} 个项目 • {formatSyncTime(lastSync)}
+                              {workspaceItems.length} 个项目 • {sourceLabel} • {formatSyncTime(lastSync)}
                             </>
                           ) : (
-                            '请先配置 Notion 数据库连接'
+                            '请先配置工作空间数据源'
                           )}
                         </p>
                       )}
@@ -135,13 +158,13 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
                         {/* 刷新按钮 */}
                         <motion.button
                           onClick={refreshItems}
-                          disabled={isLoading}
+                          disabled={isLoading || isRefreshing || isOffline}
                           className="p-2.5 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors disabled:opacity-50"
-                          title="刷新数据"
+                          title={isOffline ? '离线时无法刷新' : '刷新数据'}
                           whileHover={{ scale: 1.05 }}
                           whileTap={{ scale: 0.95 }}
                         >
-                          <i className={`fa-solid fa-refresh text-sm ${isLoading ? 'animate-spin' : ''}`}></i>
+                          <i className={`fa-solid fa-refresh text-sm ${isLoading || isRefreshing ? 'animate-spin' : ''}`}></i>
                         </motion.button>
 
                         {/* 设置按钮 */}
@@ -252,6 +275,26 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
                         </div>
                       )}
 
+                      {/* 写回失败提示 */}
+                      {writeError && (
+                        <div className="flex-shrink-0 mx-6 mt-4 mb-2 p-4 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-xl">
+                          <div className="flex items-center space-x-3">
+                            <i className="fa-solid fa-rotate-left text-amber-500 dark:text-amber-400"></i>
+                            <div className="flex-1">
+                              <h3 className="text-sm font-medium text-amber-800 dark:text-amber-300">保存到 Notion 失败，修改已撤销</h3>
+                              <p className="text-sm text-amber-700 dark:text-amber-400 mt-1">{writeError}</p>
+                            </div>
+                            <button
+                              onClick={clearWriteError}
+                              className="p-1.5 text-amber-500 hover:text-amber-700 dark:hover:text-amber-300 rounded-lg transition-colors"
+                              title="关闭"
+                            >
+                              <i className="fa-solid fa-times text-sm"></i>
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
                       {/* 内容视图 - 这里是滚动的关键 */}
                       <div style={{
                         flex: '1 1 0',
@@ -300,7 +343,7 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
                       </div>
                       <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">欢迎使用工作空间</h2>
                       <p className="text-gray-600 dark:text-gray-400 text-center mb-8 max-w-md">
-                        连接您的 Notion 数据库，让工作链接触手可及。支持智能搜索、分类管理和键盘快捷操作。
+                        连接 Notion 数据库，或导入 JSON/CSV 文件、REST 接口、Markdown 链接列表，让工作链接触手可及。支持智能搜索、分类管理和键盘快捷操作。
                       </p>
                       <motion.button
                         onClick={() => setShowSettings(true)}
@@ -320,7 +363,7 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
                 <div className="flex-shrink-0 px-6 py-3 bg-gray-50/80 dark:bg-gray-800/80 border-t border-gray-200 dark:border-gray-700 backdrop-blur-sm">
                   <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
                     <div className="flex items-center space-x-6">
-                      <span>💡 快捷键: Space-搜索 • ↑↓←→-导航 • Enter-打开 • C-复制 • D-密码</span>
+                      <span>💡 快捷键: Space-搜索 • ↑↓←→-导航 • Enter-打开 • C-复制 • D-密码{canEditItems && ' • E-编辑'}</span>
                       {!isMobile && (
                         <span>0-9-分类切换 • Esc-关闭</span>
                       )}
@@ -337,6 +380,16 @@ function WorkspaceModalComponent({ isOpen, onClose }: WorkspaceModalProps) {
               )}
             </motion.div>
           </div>
+
+          {/* 项目编辑器 */}
+          <AnimatePresence>
+            {isItemEditorOpen && <WorkspaceItemEditor key="item-editor" />}
+          </AnimatePresence>
+
+          {/* 凭据保险库主密码输入框 */}
+          <AnimatePresence>
+            {vaultPrompt && <VaultUnlockModal key={vaultPrompt} />}
+          </AnimatePresence>
         </>
       )}
     </AnimatePresence>
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
-import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useWorkspace, NotionDatabaseEntry } from '@/contexts/WorkspaceContext';
 import { useAuth } from '@/contexts/SupabaseAuthContext';
 import NotionGuide from './NotionGuide';
+import PropertyMappingSection from './PropertyMappingSection';
+import CredentialVaultSection from './CredentialVaultSection';
+import WorkspaceSourceSettings from './WorkspaceSourceSettings';
+import { WORKSPACE_SOURCE_OPTIONS, WorkspaceSourceType } from '@/lib/workspaceSources';
 
 interface WorkspaceSettingsProps {
   onClose: () => void;
@@ -23,14 +27,20 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
     isConfigured,
     getConfiguration,
     hasNotionOAuth,
-    searchDatabases
+    searchDatabases,
+    sourceType,
+    notionDatabases
   } = useWorkspace();
 
   const { linkWithNotion } = useAuth();
 
+  // 数据源类型（未确认连接前只切换设置表单）
+  const [selectedSourceType, setSelectedSourceType] = useState<WorkspaceSourceType>(sourceType);
+
   // 状态
   const [databases, setDatabases] = useState<DatabaseOption[]>([]);
-  const [selectedDatabaseId, setSelectedDatabaseId] = useState('');
+  // 已选择的数据库（可多选），第一个为主数据库
+  const [selectedDatabases, setSelectedDatabases] = useState<NotionDatabaseEntry[]>([]);
   const [isLoadingDatabases, setIsLoadingDatabases] = useState(false);
   const [isNotionConnected, setIsNotionConnected] = useState(false);
 
@@ -46,7 +56,7 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
     // 加载已有配置
     const config = getConfiguration();
     if (config && config.mode !== 'api_key') {
-      setSelectedDatabaseId(config.databaseId || '');
+      setSelectedDatabases(notionDatabases);
     }
   }, []);
 
@@ -73,8 +83,8 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
       setDatabases(dbs);
 
       // 如果只有一个数据库且未选中，自动选中
-      if (dbs.length === 1 && !selectedDatabaseId) {
-        setSelectedDatabaseId(dbs[0].id);
+      if (dbs.length === 1) {
+        setSelectedDatabases(prev => prev.length > 0 ? prev : [{ id: dbs[0].id, label: dbs[0].title }]);
       }
     } catch (error) {
       console.error('加载数据库失败:', error);
@@ -92,10 +102,30 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
     }
   };
 
+  // 选择或取消选择数据库，默认使用数据库标题作为名称
+  const toggleDatabase = (db: DatabaseOption) => {
+    setSelectedDatabases(prev => prev.some(entry => entry.id === db.id)
+      ? prev.filter(entry => entry.id !== db.id)
+      : [...prev, { id: db.id, label: db.title }]);
+  };
+
+  // 修改数据库在工作空间中显示的名称
+  const updateDatabaseLabel = (id: string, label: string) => {
+    setSelectedDatabases(prev => prev.map(entry => entry.id === id ? { ...entry, label } : entry));
+  };
+
+  // 设为主数据库（新建的项目保存到这里）
+  const setPrimaryDatabase = (id: string) => {
+    setSelectedDatabases(prev => [
+      ...prev.filter(entry => entry.id === id),
+      ...prev.filter(entry => entry.id !== id),
+    ]);
+  };
+
   // 处理自动保存 (OAuth)
   const handleAutoSave = async () => {
-    if (!selectedDatabaseId) {
-      setErrorMessage('请选择一个数据库');
+    if (selectedDatabases.length === 0) {
+      setErrorMessage('请至少选择一个数据库');
       return;
     }
 
@@ -103,7 +133,11 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
     setErrorMessage('');
 
     try {
-      await configureWithOAuth(selectedDatabaseId);
+      // 未填写名称时使用数据库标题
+      await configureWithOAuth(selectedDatabases.map(entry => ({
+        id: entry.id,
+        label: entry.label.trim() || databases.find(db => db.id === entry.id)?.title || '',
+      })));
 
       // 测试连接
       const success = await testConnection();
@@ -120,10 +154,10 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
   };
 
   // 清除配置
-  const handleClear = () => {
+  const handleClear = async () => {
     if (confirm('确定要清除所有配置吗？')) {
-      clearConfiguration();
-      setSelectedDatabaseId('');
+      await clearConfiguration();
+      setSelectedDatabases([]);
       window.location.reload();
     }
   };
@@ -179,8 +213,38 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
             </div>
           )}
 
-          {/* 1. 引导卡片 / 连接状态 */}
-          {!isNotionConnected ? (
+          {/* 数据源选择 */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {WORKSPACE_SOURCE_OPTIONS.map(option => (
+              <button
+                key={option.type}
+                onClick={() => setSelectedSourceType(option.type)}
+                className={`p-3 rounded-xl border text-left transition-all ${selectedSourceType === option.type
+                  ? 'bg-blue-50/80 dark:bg-blue-900/30 border-blue-400/60 dark:border-blue-500/40 shadow-sm'
+                  : 'bg-white/50 dark:bg-gray-800/40 border-transparent hover:bg-white/80 dark:hover:bg-gray-700/40'
+                  }`}
+                title={option.description}
+              >
+                <div className={`text-sm font-medium flex items-center ${selectedSourceType === option.type ? 'text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-200'}`}>
+                  <i className={`${option.icon} mr-2`}></i>
+                  {option.label}
+                  {sourceType === option.type && isConfigured && (
+                    <span className="ml-auto w-2 h-2 rounded-full bg-green-500" title="当前使用"></span>
+                  )}
+                </div>
+                <div className="text-[11px] text-gray-400 dark:text-gray-500 mt-1 truncate">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {selectedSourceType !== 'notion' ? (
+            <WorkspaceSourceSettings
+              key={selectedSourceType}
+              type={selectedSourceType}
+              onConfigured={onConfigured}
+            />
+          ) : !isNotionConnected ? (
+            /* 1. 引导卡片 / 连接状态 */
             <div className="relative bg-gradient-to-br from-white/80 to-white/60 dark:from-gray-800/80 dark:to-gray-800/60 backdrop-blur-xl border border-white/60 dark:border-gray-600/40 rounded-2xl p-8 shadow-[0_20px_50px_-12px_rgba(0,0,0,0.25)] dark:shadow-[0_20px_50px_-12px_rgba(0,0,0,0.5)] text-center overflow-hidden group transition-all duration-300 hover:shadow-[0_25px_60px_-12px_rgba(0,0,0,0.3)] dark:hover:shadow-[0_25px_60px_-12px_rgba(0,0,0,0.6)]">
               {/* 背景装饰光效 */}
               <div className="absolute -top-20 -right-20 w-40 h-40 bg-gradient-to-br from-blue-400/20 to-indigo-400/20 dark:from-blue-500/10 dark:to-indigo-500/10 rounded-full blur-3xl opacity-60 group-hover:opacity-80 transition-opacity"></div>
@@ -235,7 +299,7 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
                   <span className="w-9 h-9 rounded-xl bg-gradient-to-br from-green-400 to-emerald-500 text-white flex items-center justify-center mr-3 shadow-lg shadow-green-500/30">
                     <i className="fa-solid fa-check"></i>
                   </span>
-                  选择作为数据源的页面
+                  选择作为数据源的数据库
                 </h4>
                 <button
                   onClick={handleConnectNotion}
@@ -254,60 +318,89 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
               ) : databases.length > 0 ? (
                 <div className="space-y-6">
                   <div className="space-y-2 max-h-60 overflow-y-auto custom-scrollbar p-1">
-                    {databases.map(db => (
-                      <label
-                        key={db.id}
-                        className={`group flex items-center p-4 rounded-xl border-2 cursor-pointer transition-all duration-200 ${selectedDatabaseId === db.id
-                          ? 'bg-gradient-to-r from-blue-50/80 to-indigo-50/80 dark:from-blue-900/30 dark:to-indigo-900/30 border-blue-400/60 dark:border-blue-500/40 shadow-md shadow-blue-500/10 ring-1 ring-blue-400/20'
-                          : 'border-transparent hover:bg-white/70 dark:hover:bg-gray-700/40 hover:shadow-md hover:border-gray-200/50 dark:hover:border-gray-600/50'
-                          }`}
-                      >
-                        <input
-                          type="radio"
-                          name="database"
-                          className="hidden"
-                          checked={selectedDatabaseId === db.id}
-                          onChange={() => setSelectedDatabaseId(db.id)}
-                        />
-                        <div className={`w-11 h-11 rounded-xl flex-shrink-0 mr-4 flex items-center justify-center transition-all duration-200 ${selectedDatabaseId === db.id
-                          ? 'bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-lg shadow-blue-500/30'
-                          : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 group-hover:bg-gradient-to-br group-hover:from-blue-400 group-hover:to-indigo-500 group-hover:text-white group-hover:shadow-md'
-                          }`}>
-                          <i className={`fa-solid ${db.type === 'page' ? 'fa-file-lines' : 'fa-database'} text-lg`}></i>
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <div className={`font-semibold truncate transition-colors ${selectedDatabaseId === db.id ? 'text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-200'
-                              }`}>{db.title}</div>
-                            <span className={`text-[10px] px-1.5 py-0.5 rounded-md font-medium ${db.type === 'page'
-                              ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400'
-                              : 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
-                              }`}>
-                              {db.type === 'page' ? 'Page' : 'Database'}
-                            </span>
+                    {databases.map(db => {
+                      const selectedIndex = selectedDatabases.findIndex(entry => entry.id === db.id);
+                      const isSelected = selectedIndex >= 0;
+                      return (
+                        <label
+                          key={db.id}
+                          className={`group flex items-center p-4 rounded-xl border-2 cursor-pointer transition-all duration-200 ${isSelected
+                            ? 'bg-gradient-to-r from-blue-50/80 to-indigo-50/80 dark:from-blue-900/30 dark:to-indigo-900/30 border-blue-400/60 dark:border-blue-500/40 shadow-md shadow-blue-500/10 ring-1 ring-blue-400/20'
+                            : 'border-transparent hover:bg-white/70 dark:hover:bg-gray-700/40 hover:shadow-md hover:border-gray-200/50 dark:hover:border-gray-600/50'
+                            }`}
+                        >
+                          <input
+                            type="checkbox"
+                            className="hidden"
+                            checked={isSelected}
+                            onChange={() => toggleDatabase(db)}
+                          />
+                          <div className={`w-11 h-11 rounded-xl flex-shrink-0 mr-4 flex items-center justify-center transition-all duration-200 ${isSelected
+                            ? 'bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-lg shadow-blue-500/30'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 group-hover:bg-gradient-to-br group-hover:from-blue-400 group-hover:to-indigo-500 group-hover:text-white group-hover:shadow-md'
+                            }`}>
+                            <i className={`fa-solid ${db.type === 'page' ? 'fa-file-lines' : 'fa-database'} text-lg`}></i>
                           </div>
-                          <div className="text-xs text-gray-400 dark:text-gray-500 truncate font-mono mt-1 opacity-60 group-hover:opacity-100 transition-opacity">
-                            ID: {db.id}
-                            {db.type === 'page' && <span className="ml-2 text-orange-500"><i className="fa-solid fa-triangle-exclamation mr-1"></i>注意：这是页面，可能不包含数据</span>}
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <div className={`font-semibold truncate transition-colors ${isSelected ? 'text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-200'
+                                }`}>{db.title}</div>
+                              <span className={`text-[10px] px-1.5 py-0.5 rounded-md font-medium ${db.type === 'page'
+                                ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400'
+                                : 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
+                                }`}>
+                                {db.type === 'page' ? 'Page' : 'Database'}
+                              </span>
+                              {selectedIndex === 0 && selectedDatabases.length > 1 && (
+                                <span className="text-[10px] px-1.5 py-0.5 rounded-md font-medium bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400" title="新建的项目保存到主数据库">
+                                  主数据库
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-400 dark:text-gray-500 truncate font-mono mt-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                              ID: {db.id}
+                              {db.type === 'page' && <span className="ml-2 text-orange-500"><i className="fa-solid fa-triangle-exclamation mr-1"></i>注意：这是页面，可能不包含数据</span>}
+                            </div>
+                            {isSelected && selectedDatabases.length > 1 && (
+                              <div className="flex items-center gap-2 mt-2" onClick={e => e.preventDefault()}>
+                                <input
+                                  type="text"
+                                  value={selectedDatabases[selectedIndex].label}
+                                  onChange={e => updateDatabaseLabel(db.id, e.target.value)}
+                                  placeholder={db.title}
+                                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 bg-white/70 dark:bg-gray-700/60 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  title="显示在项目上的来源名称"
+                                />
+                                {selectedIndex > 0 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setPrimaryDatabase(db.id)}
+                                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                                  >
+                                    设为主数据库
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </div>
-                        </div>
-                        <a
-                          href={db.url}
-                          target="_blank"
-                          rel="noreferrer"
-                          className="ml-3 p-2.5 text-gray-300 hover:text-blue-500 dark:text-gray-600 dark:hover:text-blue-400 transition-all rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:shadow-sm"
-                          onClick={e => e.stopPropagation()}
-                          title="在 Notion 中打开"
-                        >
-                          <i className="fa-solid fa-external-link-alt"></i>
-                        </a>
-                      </label>
-                    ))}
+                          <a
+                            href={db.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="ml-3 p-2.5 text-gray-300 hover:text-blue-500 dark:text-gray-600 dark:hover:text-blue-400 transition-all rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:shadow-sm"
+                            onClick={e => e.stopPropagation()}
+                            title="在 Notion 中打开"
+                          >
+                            <i className="fa-solid fa-external-link-alt"></i>
+                          </a>
+                        </label>
+                      );
+                    })}
                   </div>
 
                   <button
                     onClick={handleAutoSave}
-                    disabled={isProcessing || !selectedDatabaseId}
+                    disabled={isProcessing || selectedDatabases.length === 0}
                     className="w-full py-4 bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600 hover:from-blue-600 hover:via-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold transition-all duration-300 shadow-lg shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none transform hover:-translate-y-0.5 active:translate-y-0 active:scale-[0.99]"
                   >
                     {isProcessing ? (
@@ -318,7 +411,7 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
                     ) : (
                       <>
                         <i className="fa-solid fa-check mr-2"></i>
-                        <span>确认连接</span>
+                        <span>{selectedDatabases.length > 1 ? `确认连接 ${selectedDatabases.length} 个数据库` : '确认连接'}</span>
                       </>
                     )}
                   </button>
@@ -341,6 +434,14 @@ export default function WorkspaceSettings({ onClose, onConfigured }: WorkspaceSe
               )}
             </div>
           )}
+
+          {/* 3. 属性映射 - 已配置 Notion 数据库时显示 */}
+          {selectedSourceType === 'notion' && sourceType === 'notion' && isNotionConnected && isConfigured && (
+            <PropertyMappingSection />
+          )}
+
+          {/* 4. 凭据保险库 - 已配置数据源时显示 */}
+          {isConfigured && <CredentialVaultSection />}
         </div>
       </div>
     </div>
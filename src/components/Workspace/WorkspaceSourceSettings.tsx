@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { z } from 'zod';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { FileWorkspaceSource, WorkspaceSourceConfig, WorkspaceSourceType } from '@/lib/workspaceSources';
+
+interface WorkspaceSourceSettingsProps {
+  type: Exclude<WorkspaceSourceType, 'notion'>;
+  onConfigured: () => void;
+}
+
+const urlSchema = z.string().trim().url('请输入有效的网址');
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-600 bg-white/70 dark:bg-gray-700/60 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1';
+
+// 每行一个请求头，格式为 名称: 值
+const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map((line) => line.split(':'))
+      .filter(([name, ...value]) => name.trim() && value.join(':').trim())
+      .map(([name, ...value]) => [name.trim(), value.join(':').trim()])
+  );
+
+const formatHeaders = (headers?: Record<string, string>): string =>
+  Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+/**
+ * Notion 以外的数据源设置 - 导入本地文件，或填写 REST 接口、Markdown 列表地址
+ */
+export default function WorkspaceSourceSettings({ type, onConfigured }: WorkspaceSourceSettingsProps) {
+  const { configureSource, getSourceConfig, testConnection } = useWorkspace();
+
+  const currentConfig = getSourceConfig();
+  const [url, setUrl] = useState(
+    currentConfig.type === type && 'url' in currentConfig ? currentConfig.url : ''
+  );
+  const [headersText, setHeadersText] = useState(
+    currentConfig.type === 'rest' ? formatHeaders(currentConfig.headers) : ''
+  );
+  const [itemsPath, setItemsPath] = useState(currentConfig.type === 'rest' ? currentConfig.itemsPath || '' : '');
+  const [searchParam, setSearchParam] = useState(
+    currentConfig.type === 'rest' ? currentConfig.searchParam || '' : ''
+  );
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // 保存配置并测试能否读取到项目
+  const applyConfig = async (config: WorkspaceSourceConfig) => {
+    configureSource(config);
+    const success = await testConnection();
+    if (success) {
+      onConfigured();
+    } else {
+      setErrorMessage('无法读取数据源，请检查地址和格式');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsProcessing(true);
+    setErrorMessage('');
+    try {
+      const { fileName, format } = await FileWorkspaceSource.importFile(file);
+      await applyConfig({ type: 'file', fileName, format });
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : '导入文件失败');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = urlSchema.safeParse(url);
+    if (!result.success) {
+      setErrorMessage(result.error.errors[0].message);
+      return;
+    }
+
+    setIsProcessing(true);
+    setErrorMessage('');
+    try {
+      if (type === 'rest') {
+        const headers = parseHeaders(headersText);
+        await applyConfig({
+          type: 'rest',
+          url: result.data,
+          headers: Object.keys(headers).length > 0 ? headers : undefined,
+          itemsPath: itemsPath.trim() || undefined,
+          searchParam: searchParam.trim() || undefined,
+        });
+      } else {
+        await applyConfig({ type: 'markdown', url: result.data });
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : '配置失败');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="relative bg-gradient-to-br from-white/80 to-white/60 dark:from-gray-800/80 dark:to-gray-800/60 backdrop-blur-xl border border-white/60 dark:border-gray-600/40 rounded-2xl p-6 shadow-[0_20px_50px_-12px_rgba(0,0,0,0.25)] dark:shadow-[0_20px_50px_-12px_rgba(0,0,0,0.5)] animate-fadeIn">
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-50/80 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl flex items-start space-x-2">
+          <i className="fa-solid fa-circle-exclamation text-red-500 mt-0.5"></i>
+          <span className="text-sm text-red-800 dark:text-red-200">{errorMessage}</span>
+        </div>
+      )}
+
+      {type === 'file' ? (
+        <div className="space-y-4">
+          {currentConfig.type === 'file' && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              <i className="fa-solid fa-file-lines mr-1.5 text-gray-400"></i>
+              当前文件：{currentConfig.fileName}
+            </p>
+          )}
+          <label
+            className={`flex flex-col items-center justify-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-600 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 dark:hover:bg-blue-900/10 transition-colors ${
+              isProcessing ? 'pointer-events-none opacity-60' : ''
+            }`}
+          >
+            <i
+              className={`fa-solid ${isProcessing ? 'fa-circle-notch fa-spin' : 'fa-file-import'} text-3xl text-gray-400 mb-3`}
+            ></i>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-200">
+              {isProcessing ? '正在导入...' : '选择 JSON 或 CSV 文件'}
+            </span>
+            <input type="file" accept=".json,.csv" className="hidden" onChange={handleFileChange} />
+          </label>
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+            <p>JSON：项目数组，如 {'[{ "title": "文档", "url": "https://...", "category": "工具" }]'}</p>
+            <p>CSV：第一行为列名，支持 title、url、category、description、tags、username、password、totp</p>
+            <p>文件内容保存在本地浏览器中，修改文件后需要重新导入</p>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className={labelClassName}>{type === 'rest' ? '接口地址' : 'Markdown 文件地址'}</label>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className={inputClassName}
+              placeholder={
+                type === 'rest' ? 'https://example.com/api/links' : 'https://github.com/sindresorhus/awesome'
+              }
+              autoFocus
+            />
+            {type === 'markdown' && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                支持 GitHub 仓库或文件地址，二级以下标题作为分类，列表中的链接作为项目
+              </p>
+            )}
+          </div>
+
+          {type === 'rest' && (
+            <>
+              <div>
+                <label className={labelClassName}>请求头（可选）</label>
+                <textarea
+                  value={headersText}
+                  onChange={(e) => setHeadersText(e.target.value)}
+                  rows={2}
+                  className={`${inputClassName} resize-none font-mono`}
+                  placeholder="Authorization: Bearer xxx"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClassName}>项目列表路径（可选）</label>
+                  <input
+                    type="text"
+                    value={itemsPath}
+                    onChange={(e) => setItemsPath(e.target.value)}
+                    className={inputClassName}
+                    placeholder="data.items"
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>搜索参数（可选）</label>
+                  <input
+                    type="text"
+                    value={searchParam}
+                    onChange={(e) => setSearchParam(e.target.value)}
+                    className={inputClassName}
+                    placeholder="q"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                接口需要允许跨域访问，返回项目数组或包含 items 数组的对象
+              </p>
+            </>
+          )}
+
+          <button
+            type="submit"
+            disabled={isProcessing || !url.trim()}
+            className="w-full py-3 bg-gradient-to-r from-blue-500 via-blue-600 to-indigo-600 hover:from-blue-600 hover:via-blue-700 hover:to-indigo-700 text-white rounded-xl font-semibold transition-all duration-300 shadow-lg shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            {isProcessing ? (
+              <>
+                <i className="fa-solid fa-circle-notch fa-spin mr-2"></i>
+                <span>连接中...</span>
+              </>
+            ) : (
+              <>
+                <i className="fa-solid fa-check mr-2"></i>
+                <span>确认连接</span>
+              </>
+            )}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
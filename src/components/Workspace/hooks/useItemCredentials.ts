@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { useWorkspace, WorkspaceItem, Credentials } from '@/contexts/WorkspaceContext';
+import { VAULT_CHANGED_EVENT, credentialVault, getCredentialFields, openItemCredentials } from '@/lib/credentialVault';
+
+/**
+ * 读取项目的登录信息：明文直接返回，已加密的在 enabled 且保险库解锁后解密
+ * isLocked 表示登录信息已加密且尚未解密
+ */
+export function useItemCredentials(item: WorkspaceItem, enabled: boolean) {
+  const { vaultStatus } = useWorkspace();
+  const [opened, setOpened] = useState<{ item: WorkspaceItem; credentials: Credentials } | null>(null);
+  const isSealed = !!item.sealedCredentials;
+  const isUnlocked = vaultStatus === 'unlocked';
+
+  useEffect(() => {
+    if (!enabled || !isSealed || !isUnlocked) return;
+
+    let cancelled = false;
+    openItemCredentials(item)
+      .then(credentials => {
+        if (!cancelled) setOpened({ item, credentials });
+      })
+      .catch(error => console.warn('解密登录信息失败:', error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, isSealed, isUnlocked, item]);
+
+  // 锁定后丢弃已解密的内容
+  useEffect(() => {
+    const handleVaultChanged = () => {
+      if (!credentialVault.isUnlocked()) setOpened(null);
+    };
+    window.addEventListener(VAULT_CHANGED_EVENT, handleVaultChanged);
+    return () => window.removeEventListener(VAULT_CHANGED_EVENT, handleVaultChanged);
+  }, []);
+
+  const credentials: Credentials | null = !isSealed
+    ? { username: item.username, password: item.password, totpSecret: item.totpSecret }
+    : isUnlocked && opened?.item === item
+      ? opened.credentials
+      : null;
+
+  return {
+    fields: getCredentialFields(item),
+    credentials,
+    isLocked: isSealed && !credentials,
+  };
+}
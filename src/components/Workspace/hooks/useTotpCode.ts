@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { TotpCode, TotpConfig, generateTotp, parseTotpSecret } from '@/lib/totp';
+
+/**
+ * 根据两步验证密钥每秒刷新动态码，密钥无效时 isValid 为 false
+ */
+export function useTotpCode(secret?: string) {
+  const config = useMemo(() => (secret ? parseTotpSecret(secret) : null), [secret]);
+  const [current, setCurrent] = useState<{ config: TotpConfig; totp: TotpCode } | null>(null);
+
+  useEffect(() => {
+    if (!config) return;
+
+    let cancelled = false;
+    const update = () => {
+      generateTotp(config)
+        .then(totp => {
+          if (!cancelled) setCurrent({ config, totp });
+        })
+        .catch(error => console.warn('生成动态码失败:', error));
+    };
+
+    update();
+    const timer = setInterval(update, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [config]);
+
+  return {
+    isValid: !!config,
+    totp: config && current?.config === config ? current.totp : null,
+  };
+}
@@ -1,7 +1,37 @@
-import { createContext, useContext, useState, useEffect, ReactNode, useMemo } from 'react';
-import { workspaceManager } from '@/lib/notionClient';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useMemo } from 'react';
+import {
+  workspaceManager,
+  WorkspaceItemDraft,
+  PropertyMapping,
+  DatabaseProperty,
+  NotionDatabaseEntry,
+} from '@/lib/notionClient';
 import { getNotionOAuthToken, hasNotionAuth } from '@/lib/notionOAuthHelper';
 import { supabase } from '@/lib/supabase';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import {
+  Credentials,
+  VAULT_CHANGED_EVENT,
+  VaultStatus,
+  copySecretToClipboard,
+  credentialVault,
+  getCredentialFields,
+  openItemCredentials,
+  sealWorkspaceItems,
+} from '@/lib/credentialVault';
+import {
+  FileWorkspaceSource,
+  SealedCredentials,
+  WorkspaceSourceConfig,
+  WorkspaceSourceType,
+  WritableWorkspaceSource,
+  createWorkspaceSource,
+  isWorkspaceSourceConfigured,
+  isWritableSource,
+  loadWorkspaceSourceConfig,
+  matchesWorkspaceQuery,
+  saveWorkspaceSourceConfig,
+} from '@/lib/workspaceSources';
 
 interface WorkspaceItem {
   id: string;
@@ -10,21 +40,37 @@ interface WorkspaceItem {
   description?: string;
   icon?: string;
   category: string;
+  tags?: string[];
   isActive: boolean;
   lastSync: string;
   notionId: string;
+  databaseId?: string;
   username?: string;
   password?: string;
+  totpSecret?: string;
+  sealedCredentials?: SealedCredentials;
 }
 
 interface WorkspaceConfig {
   mode: 'api_key' | 'oauth';
   apiKey?: string;
-  databaseId: string;
-  corsProxy?: string;
+  databaseId: string; // 主数据库，新建的项目保存到这里
+  databases?: NotionDatabaseEntry[]; // 合并到工作空间的全部数据库，第一个为主数据库
+  propertyMappings?: Record<string, PropertyMapping>; // 数据库 ID -> 属性映射
   lastConfigured: string;
 }
 
+// 乐观插入、尚未写入数据源的项目 ID 前缀
+const PENDING_ITEM_PREFIX = 'pending-';
+
+export const isPendingItem = (item: WorkspaceItem) => item.id.startsWith(PENDING_ITEM_PREFIX);
+
+// 每次读取保存的配置创建数据源，避免配置后立即同步时使用旧的数据源
+const getActiveSource = () => createWorkspaceSource(loadWorkspaceSourceConfig());
+
+// 主密码输入框：创建保险库或解锁
+export type VaultPromptMode = 'setup' | 'unlock';
+
 // 视图类型
 export type ViewType = 'list' | 'card';
 
@@ -52,10 +98,18 @@ interface WorkspaceContextType {
   // 基础状态
   isWorkspaceOpen: boolean;
   workspaceItems: WorkspaceItem[];
-  isLoading: boolean;
+  isLoading: boolean; // 没有可显示的数据时正在加载
+  isRefreshing: boolean; // 已显示缓存数据，正在后台刷新
   error: string | null;
   isConfigured: boolean;
   lastSync: string | null;
+  isOffline: boolean;
+  isStale: boolean; // 显示的是缓存数据，本次打开后尚未成功刷新
+
+  // 数据源
+  sourceType: WorkspaceSourceType;
+  sourceLabel: string;
+  canEditItems: boolean; // 当前数据源是否支持写回
 
   // 视图状态
   viewType: ViewType;
@@ -72,17 +126,33 @@ interface WorkspaceContextType {
   // 键盘导航状态
   focusedItemIndex: number;
 
+  // 编辑状态
+  isItemEditorOpen: boolean;
+  editingItem: WorkspaceItem | null; // null 表示新建
+  writeError: string | null; // 最近一次写回失败的原因（修改已回滚）
+
   // 基础操作
   setIsWorkspaceOpen: (open: boolean) => void;
-  syncWorkspaceData: () => Promise<void>;
-  configureNotion: (apiKey: string, databaseId: string, corsProxy?: string) => void;
-  configureWithOAuth: (databaseId: string, corsProxy?: string) => Promise<void>;
+  syncWorkspaceData: (options?: { full?: boolean }) => Promise<void>;
+  configureNotion: (apiKey: string, databaseId: string) => void;
+  configureWithOAuth: (databases: NotionDatabaseEntry[]) => Promise<void>; // 第一个为主数据库
   testConnection: () => Promise<boolean>;
   clearConfiguration: () => Promise<void>;
   refreshItems: () => Promise<void>;
   getConfiguration: () => WorkspaceConfig | null;
   hasNotionOAuth: () => Promise<boolean>;
   searchDatabases: () => Promise<Array<{ id: string; title: string; url: string }>>;
+  configureSource: (config: WorkspaceSourceConfig) => void; // 切换到 Notion 以外的数据源
+  getSourceConfig: () => WorkspaceSourceConfig;
+
+  // 多个 Notion 数据库
+  notionDatabases: NotionDatabaseEntry[];
+  getDatabaseLabel: (databaseId?: string) => string | null; // 合并了多个数据库时返回项目来源的名称
+
+  // 属性映射（未指定数据库时为主数据库）
+  getDatabaseProperties: (databaseId?: string) => Promise<DatabaseProperty[]>;
+  getPropertyMapping: (databaseId?: string) => PropertyMapping;
+  savePropertyMapping: (mapping: PropertyMapping, databaseId?: string) => Promise<void>;
 
   // 视图操作
   setViewType: (type: ViewType) => void;
@@ -97,10 +167,28 @@ interface WorkspaceContextType {
   moveFocusUp: () => void;
   moveFocusDown: () => void;
 
+  // 编辑操作（写回数据源，先更新界面，失败时回滚并记录 writeError）
+  openItemEditor: (item?: WorkspaceItem) => void;
+  closeItemEditor: () => void;
+  clearWriteError: () => void;
+  createItem: (draft: WorkspaceItemDraft) => Promise<void>;
+  updateItem: (item: WorkspaceItem, changes: Partial<WorkspaceItemDraft>) => Promise<void>;
+  archiveItem: (item: WorkspaceItem) => Promise<void>;
+
+  // 凭据保险库（登录信息使用主密码加密，查看和复制时按需解锁）
+  vaultStatus: VaultStatus;
+  vaultPrompt: VaultPromptMode | null; // 当前显示的主密码输入框
+  requestVaultSetup: () => Promise<boolean>;
+  requestVaultUnlock: () => Promise<boolean>; // 已解锁时直接返回 true，取消时返回 false
+  closeVaultPrompt: (success: boolean) => void;
+  setupVault: (password: string) => Promise<void>;
+  resetVault: () => Promise<void>;
+  revealCredentials: (item: WorkspaceItem) => Promise<Credentials | null>; // 取消解锁时返回 null
+
   // 工具方法
   openItem: (item: WorkspaceItem) => void;
   copyItemUrl: (item: WorkspaceItem) => Promise<void>;
-  copyItemCredentials: (item: WorkspaceItem, type: 'username' | 'password') => Promise<void>;
+  copyItemCredentials: (item: WorkspaceItem, type: 'username' | 'password') => Promise<boolean>; // 是否已复制
 }
 
 const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
@@ -110,9 +198,31 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
   const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
   const [workspaceItems, setWorkspaceItems] = useState<WorkspaceItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isConfigured, setIsConfigured] = useState(false);
+  // 支持两种 Notion 模式：API Key 模式需要 apiKey + databaseId，OAuth 模式只需要 mode=oauth + databaseId
+  const [isConfigured, setIsConfigured] = useState(() => isWorkspaceSourceConfigured(loadWorkspaceSourceConfig()));
   const [lastSync, setLastSync] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const isOnline = useOnlineStatus();
+
+  // 数据源
+  const [sourceConfig, setSourceConfig] = useState<WorkspaceSourceConfig>(loadWorkspaceSourceConfig);
+  const source = useMemo(() => createWorkspaceSource(sourceConfig), [sourceConfig]);
+  const [notionDatabases, setNotionDatabases] = useState<NotionDatabaseEntry[]>(() => workspaceManager.getDatabases());
+
+  // 合并了多个数据库时，项目显示并可按所属数据库的名称搜索
+  const databaseLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    if (sourceConfig.type === 'notion' && notionDatabases.length > 1) {
+      notionDatabases.forEach((database) => labels.set(database.id, database.label || '未命名数据库'));
+    }
+    return labels;
+  }, [sourceConfig, notionDatabases]);
+  const getDatabaseLabel = (databaseId?: string) => (databaseId && databaseLabels.get(databaseId)) || null;
+  const matchesItemQuery = (item: WorkspaceItem, query: string) =>
+    matchesWorkspaceQuery(item, query) ||
+    !!getDatabaseLabel(item.databaseId)?.toLowerCase().includes(query.toLowerCase().trim());
 
   // 视图状态 - 从 localStorage 读取上次保存的视图类型
   const [viewType, setViewType] = useState<ViewType>(() => {
@@ -132,6 +242,22 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
   // 键盘导航状态
   const [focusedItemIndex, setFocusedItemIndex] = useState<number>(-1);
 
+  // 编辑状态
+  const [isItemEditorOpen, setIsItemEditorOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<WorkspaceItem | null>(null);
+  const [writeError, setWriteError] = useState<string | null>(null);
+
+  // 凭据保险库状态
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => credentialVault.getStatus());
+  const [vaultPrompt, setVaultPrompt] = useState<VaultPromptMode | null>(null);
+  const vaultPromptResolver = useRef<((success: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    const handleVaultChanged = () => setVaultStatus(credentialVault.getStatus());
+    window.addEventListener(VAULT_CHANGED_EVENT, handleVaultChanged);
+    return () => window.removeEventListener(VAULT_CHANGED_EVENT, handleVaultChanged);
+  }, []);
+
   // 生成分类信息
   const categories: CategoryInfo[] = useMemo(() => {
     const categoryMap = new Map<string, number>();
@@ -161,8 +287,26 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
   }, [workspaceItems]);
 
   // 过滤后的数据（移除排序）
+  // 由数据源搜索（如配置了搜索参数的 REST 接口），结果只在关键词一致时使用
+  const [remoteSearch, setRemoteSearch] = useState<{ query: string; items: WorkspaceItem[] } | null>(null);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !source.searchesRemotely || !isOnline) return;
+
+    const timer = setTimeout(() => {
+      source
+        .search(query)
+        .then(items => setRemoteSearch({ query, items }))
+        .catch(error => console.warn('数据源搜索失败，使用本地搜索:', error));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, source, isOnline]);
+
   const filteredItems = useMemo(() => {
-    let filtered = workspaceItems;
+    const query = searchQuery.trim();
+    const useRemoteResults = !!query && remoteSearch?.query === query;
+    let filtered = useRemoteResults && remoteSearch ? remoteSearch.items : workspaceItems;
 
     // 分类过滤
     if (selectedCategory !== 'all') {
@@ -170,28 +314,19 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
 
     // 搜索过滤
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter(item =>
-        item.title.toLowerCase().includes(query) ||
-        item.description?.toLowerCase().includes(query) ||
-        item.url.toLowerCase().includes(query)
-      );
+    if (query && !useRemoteResults) {
+      filtered = filtered.filter(item => matchesItemQuery(item, query));
     }
 
     return filtered;
-  }, [workspaceItems, selectedCategory, searchQuery]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceItems, selectedCategory, searchQuery, remoteSearch, databaseLabels]);
 
   // 更新搜索建议
   useEffect(() => {
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
       const matchedItems = workspaceItems
-        .filter(item =>
-          item.title.toLowerCase().includes(query) ||
-          item.description?.toLowerCase().includes(query) ||
-          item.url.toLowerCase().includes(query)
-        )
+        .filter(item => matchesItemQuery(item, searchQuery))
         .slice(0, 8) // 最多显示8个建议
         .map(item => ({
           id: item.id,
@@ -199,13 +334,14 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
           description: item.description,
           category: item.category,
           url: item.url,
-          hasCredentials: !!(item.username || item.password)
+          hasCredentials: getCredentialFields(item).length > 0
         }));
       setSearchSuggestions(matchedItems);
     } else {
       setSearchSuggestions([]);
     }
-  }, [searchQuery, workspaceItems]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery, workspaceItems, databaseLabels]);
 
   // 重置焦点当筛选结果变化时
   useEffect(() => {
@@ -221,29 +357,49 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   }, [viewType]);
 
-  // 初始化时检查配置状态
+  // 初始化时加载数据源缓存的项目（IndexedDB），先显示缓存再后台刷新
   useEffect(() => {
-    const config = workspaceManager.getConfig();
-    // 支持两种模式：API Key 模式需要 apiKey + databaseId，OAuth 模式只需要 mode=oauth + databaseId
-    const isApiKeyConfigured = !!config?.apiKey && !!config?.databaseId;
-    const isOAuthConfigured = config?.mode === 'oauth' && !!config?.databaseId;
-    setIsConfigured(isApiKeyConfigured || isOAuthConfigured);
+    const activeSource = getActiveSource();
+    Promise.all([activeSource.getCachedItems(), activeSource.getCacheInfo()])
+      .then(([cachedItems, cacheInfo]) => {
+        if (cachedItems.length > 0) {
+          // 缓存读取完成前已同步到新数据时不覆盖
+          setWorkspaceItems(prev => (prev.length > 0 ? prev : cachedItems));
+          setIsStale(true);
+        }
+        setLastSync(prev => prev || cacheInfo?.lastSync || null);
+      })
+      .catch(error => {
+        console.warn('读取工作空间缓存失败:', error);
+      });
+  }, []);
 
-    // 加载Notion缓存的项目
-    const cachedItems = workspaceManager.getCachedWorkspaceItems();
-    if (cachedItems.length > 0) {
-      setWorkspaceItems(cachedItems);
-    }
+  // 切换数据源，清空上一个数据源的项目
+  const switchSource = (config: WorkspaceSourceConfig) => {
+    saveWorkspaceSourceConfig(config);
+    setSourceConfig(config);
+    setWorkspaceItems([]);
+    setSelectedCategory('all');
+    setLastSync(null);
+    setIsStale(false);
+    setWriteError(null);
+  };
 
-    // 获取缓存信息
-    const cacheInfo = workspaceManager.getCacheInfo();
-    setLastSync(cacheInfo?.lastSync || null);
-  }, []);
+  // 配置 Notion 以外的数据源
+  const configureSource = (config: WorkspaceSourceConfig) => {
+    switchSource(config);
+    setIsConfigured(isWorkspaceSourceConfigured(config));
+    setError(null);
+  };
 
   // 配置Notion连接
-  const configureNotion = (apiKey: string, databaseId: string, corsProxy?: string) => {
+  const configureNotion = (apiKey: string, databaseId: string) => {
     try {
-      workspaceManager.configureNotion(apiKey, databaseId, corsProxy);
+      if (sourceConfig.type !== 'notion') {
+        switchSource({ type: 'notion' });
+      }
+      workspaceManager.configureNotion(apiKey, databaseId);
+      setNotionDatabases(workspaceManager.getDatabases());
       setIsConfigured(true);
       setError(null);
     } catch (error) {
@@ -252,14 +408,19 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // 配置 Notion 连接 (OAuth 模式)
-  const configureWithOAuth = async (databaseId: string, corsProxy?: string) => {
+  // 配置 Notion 连接 (OAuth 模式)，可以合并多个数据库
+  const configureWithOAuth = async (databases: NotionDatabaseEntry[]) => {
     try {
       const hasOAuth = await hasNotionAuth();
       if (!hasOAuth) {
         throw new Error('请先使用 Notion 登录');
       }
-      workspaceManager.configureWithOAuth(getNotionOAuthToken, databaseId, corsProxy);
+      if (sourceConfig.type !== 'notion') {
+        switchSource({ type: 'notion' });
+      }
+      workspaceManager.configureWithOAuth(getNotionOAuthToken, databases[0]?.id || '');
+      await workspaceManager.saveDatabases(databases);
+      setNotionDatabases(workspaceManager.getDatabases());
       setIsConfigured(true);
       setError(null);
     } catch (error) {
@@ -281,8 +442,8 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       // 当用户通过 OAuth 登录后首次调用时，workspaceManager.notionClient 可能为空
       const hasOAuth = await hasNotionAuth();
       if (hasOAuth) {
-        // 临时初始化客户端用于搜索（使用空的 databaseId，因为我们只是要搜索数据库列表）
-        workspaceManager.configureWithOAuth(getNotionOAuthToken, '', undefined);
+        // 临时初始化客户端用于搜索（使用空的 databaseId，不会修改已选择的数据库）
+        workspaceManager.configureWithOAuth(getNotionOAuthToken, '');
       }
       return await workspaceManager.searchDatabases();
     } catch (error) {
@@ -291,19 +452,34 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // 同步工作空间数据
-  const syncWorkspaceData = async () => {
-    // 检查配置状态，同时支持 API Key 和 OAuth 两种模式
-    const config = workspaceManager.getConfig();
-    const hasValidConfig = config && config.databaseId && (config.apiKey || config.mode === 'oauth');
+  // 同步工作空间数据（Notion 默认增量同步）
+  const syncWorkspaceData = async (options: { full?: boolean } = {}) => {
+    const activeSource = getActiveSource();
 
-    if (!hasValidConfig) {
-      setError('请先配置Notion连接或选择数据库');
+    // 检查配置状态，Notion 同时支持 API Key 和 OAuth 两种模式
+    if (!isWorkspaceSourceConfigured(loadWorkspaceSourceConfig())) {
+      setError(activeSource.type === 'notion' ? '请先配置Notion连接或选择数据库' : '请先配置工作空间数据源');
       return;
     }
 
-    // 如果是 OAuth 模式，确保客户端已初始化
-    if (config.mode === 'oauth') {
+    // 离线时继续显示缓存数据
+    // 项目 ID 以数据源类型开头，刚切换数据源时不把上一个数据源的项目当作缓存
+    const currentItems = workspaceItems.filter(
+      item => item.id.startsWith(`${activeSource.type}-`) || isPendingItem(item)
+    );
+    const hasItems = currentItems.length > 0;
+    if (!isOnline) {
+      if (hasItems) {
+        setIsStale(true);
+      } else {
+        setError('当前处于离线状态，且没有缓存的工作空间数据');
+      }
+      return;
+    }
+
+    // 如果是 Notion OAuth 模式，确保客户端已初始化
+    const config = workspaceManager.getConfig();
+    if (activeSource.type === 'notion' && config?.mode === 'oauth') {
       const hasOAuth = await hasNotionAuth();
       if (!hasOAuth) {
         console.log('⚠️ syncWorkspaceData: hasNotionAuth 返回 false');
@@ -311,44 +487,72 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
         return;
       }
       // 确保 OAuth 客户端已配置
-      workspaceManager.configureWithOAuth(getNotionOAuthToken, config.databaseId, config.corsProxy);
+      workspaceManager.configureWithOAuth(getNotionOAuthToken, config.databaseId);
     }
 
-    setIsLoading(true);
+    // 已有数据时在后台刷新，不遮挡列表
+    if (hasItems) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
     setError(null);
 
     try {
-      const items = await workspaceManager.syncWorkspaceData();
+      const items = await activeSource.list(options);
       setWorkspaceItems(items);
       setLastSync(new Date().toISOString());
+      setIsStale(false);
       console.log('✅ 工作空间数据同步成功');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '同步失败';
+      console.error('❌ 工作空间数据同步失败:', errorMessage);
 
       // 检查是否是认证错误
-      if (errorMessage.includes('401') || errorMessage.includes('无效') || errorMessage.includes('过期')) {
-        setError('Notion 授权已失效，请在设置中重新绑定 Notion 账号');
-      } else {
-        setError(errorMessage);
-      }
-      console.error('❌ 工作空间数据同步失败:', errorMessage);
+      const isAuthError = errorMessage.includes('401') || errorMessage.includes('无效') || errorMessage.includes('过期');
 
       // 尝试使用缓存数据
-      const cachedItems = workspaceManager.getCachedWorkspaceItems();
+      const cachedItems = hasItems ? currentItems : await activeSource.getCachedItems();
       if (cachedItems.length > 0) {
         setWorkspaceItems(cachedItems);
+        setIsStale(true);
         console.warn('使用缓存的工作空间数据');
       }
+
+      if (isAuthError) {
+        setError('Notion 授权已失效，请在设置中重新绑定 Notion 账号');
+      } else if (cachedItems.length === 0) {
+        setError(errorMessage);
+      }
     } finally {
       setIsLoading(false);
+      setIsRefreshing(false);
     }
   };
 
+  // 打开工作空间或网络恢复时增量刷新
+  useEffect(() => {
+    if (isWorkspaceOpen && isOnline && isConfigured) {
+      void syncWorkspaceData();
+    }
+    // 只在打开工作空间或网络恢复时触发，配置完成后由设置页主动刷新
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isWorkspaceOpen, isOnline]);
+
   // 测试连接
   const testConnection = async (): Promise<boolean> => {
     // 直接检查 workspaceManager 的配置状态，而不是依赖 React 状态
     // 因为 React 状态更新是异步的，configureNotion 后立即调用 testConnection
     // 此时 isConfigured 状态可能还未更新
+    const activeSource = getActiveSource();
+    if (activeSource.type !== 'notion') {
+      const isConnected = await activeSource.testConnection();
+      if (!isConnected) {
+        setError(`无法读取${activeSource.label}，请检查配置是否正确`);
+      }
+      return isConnected;
+    }
+
     const config = workspaceManager.getConfig();
     if (!config) return false;
 
@@ -362,7 +566,7 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
           return false;
         }
         // 确保 OAuth 客户端已配置
-        workspaceManager.configureWithOAuth(getNotionOAuthToken, config.databaseId || '', config.corsProxy);
+        workspaceManager.configureWithOAuth(getNotionOAuthToken, config.databaseId || '');
       }
 
       const isConnected = await workspaceManager.testConnection();
@@ -381,8 +585,18 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // 清除配置（包括删除数据库中的 token）
+  // 清除配置（Notion 包括删除数据库中的 token），其他数据源断开后恢复为 Notion
   const clearConfiguration = async () => {
+    const activeSource = getActiveSource();
+    if (activeSource.type !== 'notion') {
+      await activeSource.clearCache();
+      if (activeSource.type === 'file') {
+        await FileWorkspaceSource.removeFile();
+      }
+      configureSource({ type: 'notion' });
+      return;
+    }
+
     // 删除数据库中的 Notion token
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -404,15 +618,18 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
 
     // 清除本地配置
     workspaceManager.clearAll();
+    setNotionDatabases([]);
     setIsConfigured(false);
     setWorkspaceItems([]);
     setError(null);
+    setWriteError(null);
     setLastSync(null);
+    setIsStale(false);
   };
 
-  // 刷新项目（重新同步）
+  // 刷新项目（手动刷新时完整同步，以便移除 Notion 中已删除的页面）
   const refreshItems = async () => {
-    await syncWorkspaceData();
+    await syncWorkspaceData({ full: true });
   };
 
   // 筛选操作
@@ -431,6 +648,130 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     setFocusedItemIndex(prev => Math.min(filteredItems.length - 1, prev + 1));
   };
 
+  // 编辑操作
+  const openItemEditor = (item?: WorkspaceItem) => {
+    setEditingItem(item || null);
+    setIsItemEditorOpen(true);
+  };
+
+  const closeItemEditor = () => {
+    setIsItemEditorOpen(false);
+    setEditingItem(null);
+  };
+
+  // 请求 Notion 前确保客户端可用（OAuth 模式需要重新配置）
+  const prepareClient = async () => {
+    if (!isOnline) {
+      throw new Error('当前处于离线状态，无法连接 Notion');
+    }
+    if (getActiveSource().type !== 'notion') return;
+
+    const config = workspaceManager.getConfig();
+    if (!config?.databaseId || !(config.apiKey || config.mode === 'oauth')) {
+      throw new Error('请先配置Notion连接或选择数据库');
+    }
+
+    if (config.mode === 'oauth') {
+      if (!(await hasNotionAuth())) {
+        throw new Error('Notion 授权已失效，请在设置中重新绑定 Notion 账号');
+      }
+      workspaceManager.configureWithOAuth(getNotionOAuthToken, config.databaseId);
+    }
+  };
+
+  // 写回前确认当前数据源支持编辑
+  const prepareWrite = async (): Promise<WritableWorkspaceSource> => {
+    const activeSource = getActiveSource();
+    if (!isWritableSource(activeSource)) {
+      throw new Error(`${activeSource.label}不支持编辑`);
+    }
+    await prepareClient();
+    return activeSource;
+  };
+
+  // 获取数据库属性（属性映射设置使用）
+  const getDatabaseProperties = async (databaseId?: string) => {
+    await prepareClient();
+    return await workspaceManager.getDatabaseProperties(databaseId);
+  };
+
+  // 保存属性映射后同步，该数据库按新映射重新解析全部项目
+  const savePropertyMapping = async (mapping: PropertyMapping, databaseId?: string) => {
+    await workspaceManager.savePropertyMapping(mapping, databaseId);
+    await syncWorkspaceData();
+  };
+
+
+  // 记录写回错误信息
+  const reportWriteError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : '保存到 Notion 失败';
+    if (message.includes('401') || message.includes('无效') || message.includes('过期')) {
+      setWriteError('Notion 授权已失效，请在设置中重新绑定 Notion 账号');
+    } else {
+      setWriteError(message);
+    }
+  };
+
+  const createItem = async (draft: WorkspaceItemDraft) => {
+    // 乐观插入临时项目，写入成功后替换为数据源返回的项目
+    const pendingItem: WorkspaceItem = {
+      ...draft,
+      id: `${PENDING_ITEM_PREFIX}${Date.now()}`,
+      category: draft.category || 'Default',
+      isActive: true,
+      lastSync: new Date().toISOString(),
+      notionId: '',
+    };
+    setWorkspaceItems(prev => [...prev, pendingItem]);
+    setWriteError(null);
+
+    try {
+      const writableSource = await prepareWrite();
+      const created = await writableSource.createItem(draft);
+      setWorkspaceItems(prev => prev.map(item => (item.id === pendingItem.id ? created : item)));
+    } catch (error) {
+      console.error('❌ 创建工作空间项目失败:', error);
+      setWorkspaceItems(prev => prev.filter(item => item.id !== pendingItem.id));
+      reportWriteError(error);
+    }
+  };
+
+  const updateItem = async (item: WorkspaceItem, changes: Partial<WorkspaceItemDraft>) => {
+    setWorkspaceItems(prev => prev.map(current => (current.id === item.id ? { ...current, ...changes } : current)));
+    setWriteError(null);
+
+    try {
+      const writableSource = await prepareWrite();
+      const updated = await writableSource.updateItem(item, changes);
+      setWorkspaceItems(prev => prev.map(current => (current.id === item.id ? updated : current)));
+    } catch (error) {
+      console.error('❌ 更新工作空间项目失败:', error);
+      setWorkspaceItems(prev => prev.map(current => (current.id === item.id ? item : current)));
+      reportWriteError(error);
+    }
+  };
+
+  const archiveItem = async (item: WorkspaceItem) => {
+    const index = workspaceItems.findIndex(current => current.id === item.id);
+    setWorkspaceItems(prev => prev.filter(current => current.id !== item.id));
+    setWriteError(null);
+
+    try {
+      const writableSource = await prepareWrite();
+      await writableSource.archiveItem(item);
+    } catch (error) {
+      console.error('❌ 归档工作空间项目失败:', error);
+      // 放回原来的位置
+      setWorkspaceItems(prev => {
+        if (prev.some(current => current.id === item.id)) return prev;
+        const next = [...prev];
+        next.splice(index >= 0 ? index : next.length, 0, item);
+        return next;
+      });
+      reportWriteError(error);
+    }
+  };
+
   // 工具方法
   const openItem = (item: WorkspaceItem) => {
     window.open(item.url, '_blank', 'noopener,noreferrer');
@@ -445,15 +786,78 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // 显示主密码输入框，输入框关闭时返回是否成功
+  const showVaultPrompt = (mode: VaultPromptMode) =>
+    new Promise<boolean>(resolve => {
+      vaultPromptResolver.current?.(false);
+      vaultPromptResolver.current = resolve;
+      setVaultPrompt(mode);
+    });
+
+  const closeVaultPrompt = (success: boolean) => {
+    vaultPromptResolver.current?.(success);
+    vaultPromptResolver.current = null;
+    setVaultPrompt(null);
+  };
+
+  const requestVaultSetup = () => showVaultPrompt('setup');
+
+  // 关闭工作空间时取消等待中的主密码输入
+  const handleSetWorkspaceOpen = (open: boolean) => {
+    if (!open && vaultPromptResolver.current) {
+      closeVaultPrompt(false);
+    }
+    setIsWorkspaceOpen(open);
+  };
+
+  const requestVaultUnlock = async () => {
+    if (credentialVault.isUnlocked()) return true;
+    return showVaultPrompt(credentialVault.isSetUp() ? 'unlock' : 'setup');
+  };
+
+  // 创建保险库后立即加密已加载的项目，再同步以加密数据源的缓存
+  const setupVault = async (password: string) => {
+    await credentialVault.setup(password);
+    setWorkspaceItems(await sealWorkspaceItems(workspaceItems));
+    if (isOnline && isConfigured) {
+      void syncWorkspaceData();
+    }
+  };
+
+  // 重置后原有密文无法解密，清除缓存并重新拉取明文
+  const resetVault = async () => {
+    credentialVault.reset();
+    try {
+      await getActiveSource().clearCache();
+    } catch (error) {
+      console.warn('清除工作空间缓存失败:', error);
+    }
+    setWorkspaceItems(prev => prev.map(item => (item.sealedCredentials ? { ...item, sealedCredentials: undefined } : item)));
+    if (isOnline && isConfigured) {
+      await syncWorkspaceData({ full: true });
+    }
+  };
+
+  const revealCredentials = async (item: WorkspaceItem): Promise<Credentials | null> => {
+    if (item.sealedCredentials && !(await requestVaultUnlock())) {
+      return null;
+    }
+    return openItemCredentials(item);
+  };
+
   const copyItemCredentials = async (item: WorkspaceItem, type: 'username' | 'password') => {
+    const label = type === 'username' ? '账号' : '密码';
     try {
-      const value = type === 'username' ? item.username : item.password;
-      if (value) {
-        await navigator.clipboard.writeText(value);
-        console.log(`${type === 'username' ? '账号' : '密码'} 已复制到剪贴板`);
-      }
+      const credentials = await revealCredentials(item);
+      const value = credentials?.[type];
+      if (!value) return false;
+
+      await copySecretToClipboard(value);
+      console.log(`${label} 已复制到剪贴板`);
+      return true;
     } catch (error) {
-      console.error(`复制${type === 'username' ? '账号' : '密码'}失败:`, error);
+      console.error(`复制${label}失败:`, error);
+      return false;
     }
   };
 
@@ -462,9 +866,17 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     isWorkspaceOpen,
     workspaceItems,
     isLoading,
+    isRefreshing,
     error,
     isConfigured,
     lastSync,
+    isOffline: !isOnline,
+    isStale,
+
+    // 数据源
+    sourceType: source.type,
+    sourceLabel: source.label,
+    canEditItems: source.writable,
 
     // 视图状态
     viewType,
@@ -481,8 +893,13 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     // 键盘导航状态
     focusedItemIndex,
 
+    // 编辑状态
+    isItemEditorOpen,
+    editingItem,
+    writeError,
+
     // 基础操作
-    setIsWorkspaceOpen,
+    setIsWorkspaceOpen: handleSetWorkspaceOpen,
     syncWorkspaceData,
     configureNotion,
     configureWithOAuth,
@@ -492,6 +909,17 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     getConfiguration: () => workspaceManager.getConfig(),
     hasNotionOAuth: checkHasNotionOAuth,
     searchDatabases,
+    configureSource,
+    getSourceConfig: () => sourceConfig,
+
+    // 多个 Notion 数据库
+    notionDatabases,
+    getDatabaseLabel,
+
+    // 属性映射
+    getDatabaseProperties,
+    getPropertyMapping: (databaseId?: string) => workspaceManager.getPropertyMapping(databaseId),
+    savePropertyMapping,
 
     // 视图操作
     setViewType,
@@ -506,6 +934,24 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     moveFocusUp,
     moveFocusDown,
 
+    // 编辑操作
+    openItemEditor,
+    closeItemEditor,
+    clearWriteError: () => setWriteError(null),
+    createItem,
+    updateItem,
+    archiveItem,
+
+    // 凭据保险库
+    vaultStatus,
+    vaultPrompt,
+    requestVaultSetup,
+    requestVaultUnlock,
+    closeVaultPrompt,
+    setupVault,
+    resetVault,
+    revealCredentials,
+
     // 工具方法
     openItem,
     copyItemUrl,
@@ -524,4 +970,13 @@ export function useWorkspace() {
 }
 
 // 导出类型
-export type { WorkspaceItem, WorkspaceConfig };
+export type {
+  WorkspaceItem,
+  WorkspaceConfig,
+  WorkspaceItemDraft,
+  PropertyMapping,
+  DatabaseProperty,
+  NotionDatabaseEntry,
+  Credentials,
+  VaultStatus,
+};
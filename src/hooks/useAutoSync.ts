@@ -1,35 +1,59 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/SupabaseAuthContext';
 import { useSyncStatus } from '@/contexts/SyncContext';
 import { useTransparency } from '@/contexts/TransparencyContext';
-import { autoSync, UserSettings, WebsiteData } from '@/lib/supabaseSync';
+import { CUSTOM_WALLPAPERS_UPDATED_EVENT, WallpaperUpdateSource } from '@/lib/customWallpaperManager';
+import {
+  autoSync,
+  getUserTodos,
+  mergeTodoData,
+  saveUserTodos,
+  TodoItem,
+  UserSettings,
+  WebsiteData,
+  WebsiteLayout,
+} from '@/lib/supabaseSync';
+import { pickSettings } from '@/lib/settingsSchema';
+import {
+  loadTodos,
+  pruneSyncedTombstones,
+  saveTodos,
+  TODOS_UPDATED_EVENT,
+  TodoUpdateSource,
+} from '@/lib/todoStorage';
+import { wallpaperCloudBackup } from '@/lib/wallpaperCloudBackup';
 
-export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean = true) {
+// 未传入布局时使用稳定的空布局，避免每次渲染都触发依赖变化
+const EMPTY_LAYOUT: WebsiteLayout = { groups: [], pages: [] };
+
+// 待办数据指纹：只关心记录及其修改时间
+const getTodosFingerprint = (todos: TodoItem[]) =>
+  JSON.stringify(todos.map((todo) => `${todo.id}:${todo.updatedAt}`).sort());
+
+export function useAutoSync(
+  websites: WebsiteData[],
+  dataInitialized: boolean = true,
+  layout: WebsiteLayout = EMPTY_LAYOUT
+) {
   const { currentUser } = useAuth();
   const { updateSyncStatus } = useSyncStatus();
   const {
-    cardOpacity,
-    searchBarOpacity,
-    parallaxEnabled,
-    wallpaperResolution,
+    settings: localSettings,
     autoSyncEnabled,
     autoSyncInterval,
-    searchInNewTab,
-    searchBarBorderRadius,
-    autoSortEnabled,
-    timeComponentEnabled,
-    showFullDate,
-    showSeconds,
-    showWeekday,
-    showYear,
-    showMonth,
-    showDay,
+    wallpaperCloudBackupEnabled,
   } = useTransparency();
+  // 同步到云端的设置，由设置注册表决定
+  const cloudSettings = useMemo(() => pickSettings(localSettings, 'cloud'), [localSettings]);
 
   // 用于存储上次同步的数据指纹，避免重复同步
   const lastSyncDataRef = useRef<string>('');
   const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const initialSyncDoneRef = useRef<boolean>(false);
+  const todoSyncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const todoInitialSyncUserRef = useRef<string | null>(null);
+  const wallpaperSyncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const wallpaperInitialSyncUserRef = useRef<string | null>(null);
 
   // 同步函数
   const performSync = useCallback(
@@ -93,25 +117,8 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
       }
 
       const settings: UserSettings = {
-        cardOpacity,
-        searchBarOpacity,
-        parallaxEnabled,
-        wallpaperResolution,
+        ...cloudSettings,
         theme: localStorage.getItem('theme') || 'light',
-        cardColor: localStorage.getItem('cardColor') || '255, 255, 255',
-        searchBarColor: localStorage.getItem('searchBarColor') || '255, 255, 255',
-        autoSyncEnabled,
-        autoSyncInterval,
-        searchInNewTab,
-        searchBarBorderRadius,
-        autoSortEnabled,
-        timeComponentEnabled,
-        showFullDate,
-        showSeconds,
-        showWeekday,
-        showYear,
-        showMonth,
-        showDay,
         lastSync: new Date().toISOString(),
       };
 
@@ -138,26 +145,12 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
               name: w.name,
               url: w.url,
               visitCount: w.visitCount,
+              groupId: w.groupId,
+              pageId: w.pageId,
             })),
-            settings: {
-              cardOpacity,
-              searchBarOpacity,
-              parallaxEnabled,
-              wallpaperResolution,
-              theme: settings.theme,
-              autoSyncEnabled,
-              autoSyncInterval,
-              searchInNewTab,
-              searchBarBorderRadius,
-              autoSortEnabled,
-              timeComponentEnabled,
-              showFullDate,
-              showSeconds,
-              showWeekday,
-              showYear,
-              showMonth,
-              showDay,
-            },
+            groups: layout.groups.map((g) => ({ id: g.id, updatedAt: g.updatedAt })),
+            pages: layout.pages.map((p) => ({ id: p.id, updatedAt: p.updatedAt })),
+            settings: { ...cloudSettings, theme: settings.theme },
           });
           lastSyncDataRef.current = currentDataFingerprint;
 
@@ -177,15 +170,13 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
           });
           console.error('❌ 同步失败:', error);
         },
-      });
+      }, layout);
     },
     [
       currentUser,
       websites,
-      cardOpacity,
-      searchBarOpacity,
-      parallaxEnabled,
-      wallpaperResolution,
+      layout,
+      cloudSettings,
       updateSyncStatus,
     ]
   );
@@ -219,26 +210,13 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
         name: w.name,
         url: w.url,
         visitCount: w.visitCount,
+        groupId: w.groupId,
+        pageId: w.pageId,
+        deleted: w.deleted,
       })),
-      settings: {
-        cardOpacity,
-        searchBarOpacity,
-        parallaxEnabled,
-        wallpaperResolution,
-        theme: localStorage.getItem('theme') || 'light',
-        autoSyncEnabled,
-        autoSyncInterval,
-        searchInNewTab,
-        searchBarBorderRadius,
-        autoSortEnabled,
-        timeComponentEnabled,
-        showFullDate,
-        showSeconds,
-        showWeekday,
-        showYear,
-        showMonth,
-        showDay,
-      },
+      groups: layout.groups.map((g) => ({ id: g.id, updatedAt: g.updatedAt })),
+      pages: layout.pages.map((p) => ({ id: p.id, updatedAt: p.updatedAt })),
+      settings: { ...cloudSettings, theme: localStorage.getItem('theme') || 'light' },
     });
 
     // 如果数据没有变化，不重置计时器，让现有的同步继续执行
@@ -246,11 +224,12 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
       return;
     }
 
-    // 检测是否是删除操作（数据量减少）
+    // 检测是否是删除操作（未删除的卡片数量减少，删除的卡片作为墓碑保留在列表中）
     const previousData = lastSyncDataRef.current ? JSON.parse(lastSyncDataRef.current) : null;
+    const countActive = (list: { deleted?: boolean }[]) => list.filter((w) => !w.deleted).length;
     const isDeleteOperation = previousData && 
       previousData.websites && 
-      validWebsitesForFingerprint.length < previousData.websites.length;
+      countActive(validWebsitesForFingerprint) < countActive(previousData.websites);
 
     // 首次初始化时，设置指纹但不触发同步（避免用户刚登录时立即同步）
     if (!initialSyncDoneRef.current && lastSyncDataRef.current === '') {
@@ -295,32 +274,188 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
   }, [
     currentUser,
     websites,
-    cardOpacity,
-    searchBarOpacity,
-    parallaxEnabled,
-    wallpaperResolution,
+    layout,
+    cloudSettings,
     autoSyncEnabled,
     autoSyncInterval,
-    searchInNewTab,
-    searchBarBorderRadius,
-    autoSortEnabled,
-    timeComponentEnabled,
-    showFullDate,
-    showSeconds,
-    showWeekday,
-    showYear,
-    showMonth,
-    showDay,
     performSync,
     dataInitialized,
   ]);
 
+  // 待办同步：拉取云端合并后写回本地，本地有更新时再上传
+  // 传入 Realtime 推送的云端待办时直接合并，不再重新拉取
+  const syncTodos = useCallback(async (pushedTodos?: TodoItem[]) => {
+    if (!navigator.onLine || !currentUser || !currentUser.email_confirmed_at) {
+      return;
+    }
+
+    const cloudTodos = pushedTodos ?? (await getUserTodos(currentUser));
+    const localTodos = loadTodos();
+    const mergedTodos = cloudTodos
+      ? pruneSyncedTombstones(mergeTodoData(localTodos, cloudTodos), cloudTodos)
+      : localTodos;
+    const mergedFingerprint = getTodosFingerprint(mergedTodos);
+
+    if (mergedFingerprint !== getTodosFingerprint(localTodos)) {
+      console.log('📥 云端待办已合并到本地');
+      saveTodos(mergedTodos, 'cloud');
+    }
+
+    if (!cloudTodos || mergedFingerprint !== getTodosFingerprint(cloudTodos)) {
+      await saveUserTodos(currentUser, mergedTodos, {
+        onSyncError: (error) => {
+          updateSyncStatus({
+            syncInProgress: false,
+            syncError: error,
+            pendingChanges: 1,
+          });
+        },
+      });
+    }
+  }, [currentUser, updateSyncStatus]);
+
+  // 登录后先合并一次云端待办，保证跨设备一致
+  useEffect(() => {
+    if (!dataInitialized || !currentUser?.email_confirmed_at) {
+      return;
+    }
+    if (todoInitialSyncUserRef.current === currentUser.id) {
+      return;
+    }
+
+    todoInitialSyncUserRef.current = currentUser.id;
+    syncTodos();
+  }, [dataInitialized, currentUser, syncTodos]);
+
+  // 本地待办变化后延迟同步，云端合并触发的变化不再回传
+  useEffect(() => {
+    if (!dataInitialized || !autoSyncEnabled) {
+      return;
+    }
+
+    const handleTodosUpdated = (event: Event) => {
+      const source = (event as CustomEvent<{ source: TodoUpdateSource }>).detail?.source;
+      if (source === 'cloud') return;
+
+      if (todoSyncTimeoutRef.current) {
+        clearTimeout(todoSyncTimeoutRef.current);
+      }
+
+      const clampedInterval = Math.max(3, Math.min(60, autoSyncInterval));
+      todoSyncTimeoutRef.current = setTimeout(() => {
+        todoSyncTimeoutRef.current = null;
+        syncTodos();
+      }, clampedInterval * 1000);
+    };
+
+    window.addEventListener(TODOS_UPDATED_EVENT, handleTodosUpdated);
+    return () => {
+      window.removeEventListener(TODOS_UPDATED_EVENT, handleTodosUpdated);
+    };
+  }, [dataInitialized, autoSyncEnabled, autoSyncInterval, syncTodos]);
+
+  // 其他设备修改待办后由 Realtime 推送，合并到本地
+  useEffect(() => {
+    if (!dataInitialized) {
+      return;
+    }
+
+    const handleCloudTodos = (event: Event) => {
+      const todos = (event as CustomEvent<{ todos: TodoItem[] }>).detail?.todos;
+      if (Array.isArray(todos)) {
+        syncTodos(todos);
+      }
+    };
+
+    window.addEventListener('cloudTodosUpdated', handleCloudTodos);
+    return () => {
+      window.removeEventListener('cloudTodosUpdated', handleCloudTodos);
+    };
+  }, [dataInitialized, syncTodos]);
+
+  // 自定义壁纸备份：上传本设备的新壁纸，其他设备的壁纸先同步列表和缩略图
+  const syncWallpapers = useCallback(async () => {
+    if (!wallpaperCloudBackupEnabled || !navigator.onLine || !currentUser || !currentUser.email_confirmed_at) {
+      return;
+    }
+
+    try {
+      const result = await wallpaperCloudBackup.sync(currentUser);
+      if (!result) {
+        updateSyncStatus({
+          syncInProgress: false,
+          syncError: '读取云端壁纸失败',
+          pendingChanges: 1,
+        });
+      } else if (result.skipped > 0) {
+        console.warn(`☁️ 云端壁纸空间不足，${result.skipped} 张壁纸未备份`);
+      }
+    } catch (error) {
+      console.error('❌ 壁纸云端备份失败:', error);
+      updateSyncStatus({
+        syncInProgress: false,
+        syncError: error instanceof Error ? error.message : '壁纸云端备份失败',
+        pendingChanges: 1,
+      });
+    }
+  }, [wallpaperCloudBackupEnabled, currentUser, updateSyncStatus]);
+
+  // 登录或开启备份后同步一次壁纸
+  useEffect(() => {
+    if (!wallpaperCloudBackupEnabled) {
+      wallpaperInitialSyncUserRef.current = null;
+      return;
+    }
+    if (!dataInitialized || !currentUser?.email_confirmed_at) {
+      return;
+    }
+    if (wallpaperInitialSyncUserRef.current === currentUser.id) {
+      return;
+    }
+
+    wallpaperInitialSyncUserRef.current = currentUser.id;
+    syncWallpapers();
+  }, [dataInitialized, currentUser, wallpaperCloudBackupEnabled, syncWallpapers]);
+
+  // 本地壁纸变化后延迟备份，云端同步触发的变化不再回传
+  useEffect(() => {
+    if (!dataInitialized || !autoSyncEnabled || !wallpaperCloudBackupEnabled) {
+      return;
+    }
+
+    const handleWallpapersUpdated = (event: Event) => {
+      const source = (event as CustomEvent<{ source: WallpaperUpdateSource }>).detail?.source;
+      if (source === 'cloud') return;
+
+      if (wallpaperSyncTimeoutRef.current) {
+        clearTimeout(wallpaperSyncTimeoutRef.current);
+      }
+
+      const clampedInterval = Math.max(3, Math.min(60, autoSyncInterval));
+      wallpaperSyncTimeoutRef.current = setTimeout(() => {
+        wallpaperSyncTimeoutRef.current = null;
+        syncWallpapers();
+      }, clampedInterval * 1000);
+    };
+
+    window.addEventListener(CUSTOM_WALLPAPERS_UPDATED_EVENT, handleWallpapersUpdated);
+    return () => {
+      window.removeEventListener(CUSTOM_WALLPAPERS_UPDATED_EVENT, handleWallpapersUpdated);
+    };
+  }, [dataInitialized, autoSyncEnabled, wallpaperCloudBackupEnabled, autoSyncInterval, syncWallpapers]);
+
   // 组件卸载时清理计时器
   useEffect(() => {
     return () => {
       if (syncTimeoutRef.current) {
         clearTimeout(syncTimeoutRef.current);
       }
+      if (todoSyncTimeoutRef.current) {
+        clearTimeout(todoSyncTimeoutRef.current);
+      }
+      if (wallpaperSyncTimeoutRef.current) {
+        clearTimeout(wallpaperSyncTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -342,5 +477,16 @@ export function useAutoSync(websites: WebsiteData[], dataInitialized: boolean =
     performSync(true); // 强制执行同步
   }, [autoSyncEnabled, currentUser, performSync]);
 
-  return { triggerSync };
+  // 立即同步（命令面板等显式操作），不受自动同步开关限制；未登录时返回 false
+  const syncNow = useCallback((): boolean => {
+    if (!currentUser || !currentUser.email_confirmed_at) {
+      return false;
+    }
+
+    console.log('👆 立即同步');
+    performSync(true);
+    return true;
+  }, [currentUser, performSync]);
+
+  return { triggerSync, syncNow };
 }
@@ -1,17 +1,63 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { useAuth } from '@/contexts/SupabaseAuthContext';
 import {
   getUserWebsites,
+  getUserWebsiteLayout,
   getUserSettings,
   mergeWebsiteData,
+  mergeWebsiteGroups,
+  mergeWebsitePages,
   WebsiteData,
+  WebsiteGroup,
+  WebsitePage,
   UserSettings,
+  parseUserSettingsRow,
   supabase,
 } from '@/lib/supabaseSync';
+import { TABLES } from '@/lib/supabase';
+import {
+  WebsiteRecordRow,
+  acknowledgeWebsiteRecords,
+  getWebsiteRecordVersion,
+  parseWebsiteRecordRows,
+} from '@/lib/websiteRecordSync';
+import { isLocalEcho, toTimestampVersion } from '@/lib/syncEcho';
+import { sanitizeTodoArray } from '@/lib/dataValidator';
 import { logger } from '@/lib/logger';
 
+// Realtime 推送的行，只列出客户端读取的字段
+interface UserWebsitesRow {
+  id: string;
+  last_sync: string;
+  websites?: unknown;
+  website_order?: unknown;
+  groups?: unknown;
+  pages?: unknown;
+}
+
+interface WebsiteRecordChangeRow extends WebsiteRecordRow {
+  user_id: string;
+  website_id: string;
+  client_updated_at: number;
+}
+
+interface UserSettingsRow {
+  id: string;
+  last_sync: string;
+  [column: string]: unknown;
+}
+
+interface UserTodosRow {
+  id: string;
+  last_sync: string;
+  todos: unknown;
+}
+
 interface CloudDataState {
   cloudWebsites: WebsiteData[] | null;
+  cloudGroups: WebsiteGroup[] | null;
+  cloudPages: WebsitePage[] | null;
   cloudSettings: UserSettings | null;
   loading: boolean;
   error: string | null;
@@ -20,6 +66,8 @@ interface CloudDataState {
 interface UseCloudDataResult extends CloudDataState {
   loadCloudData: () => Promise<void>;
   mergeWithLocalData: (localWebsites: WebsiteData[]) => WebsiteData[];
+  mergeWithLocalGroups: (localGroups: WebsiteGroup[]) => WebsiteGroup[];
+  mergeWithLocalPages: (localPages: WebsitePage[]) => WebsitePage[];
   hasCloudData: boolean;
 }
 
@@ -27,6 +75,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
   const { currentUser } = useAuth();
   const [state, setState] = useState<CloudDataState>({
     cloudWebsites: null,
+    cloudGroups: null,
+    cloudPages: null,
     cloudSettings: null,
     loading: false,
     error: null,
@@ -76,13 +126,15 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
 
     try {
       // 使用 Promise.allSettled 避免一个失败影响另一个
-      const [websitesResult, settingsResult] = await Promise.allSettled([
+      const [websitesResult, settingsResult, layoutResult] = await Promise.allSettled([
         getUserWebsites(currentUser),
         getUserSettings(currentUser),
+        getUserWebsiteLayout(currentUser),
       ]);
 
       const websites = websitesResult.status === 'fulfilled' ? websitesResult.value : null;
       const settings = settingsResult.status === 'fulfilled' ? settingsResult.value : null;
+      const layout = layoutResult.status === 'fulfilled' ? layoutResult.value : null;
 
       logger.debug('云端数据获取结果:', {
         websitesCount: websites?.length || 0,
@@ -99,6 +151,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
 
       setState({
         cloudWebsites: websites,
+        cloudGroups: layout?.groups ?? null,
+        cloudPages: layout?.pages ?? null,
         cloudSettings: settings,
         loading: false,
         error: null,
@@ -135,11 +189,32 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
       if (!state.cloudWebsites) {
         return localWebsites;
       }
+      // 云端删除墓碑覆盖本地旧记录后保留在卡片列表中，用于回收站恢复
       return mergeWebsiteData(localWebsites, state.cloudWebsites);
     },
     [state.cloudWebsites]
   );
 
+  const mergeWithLocalGroups = useCallback(
+    (localGroups: WebsiteGroup[]): WebsiteGroup[] => {
+      if (!state.cloudGroups) {
+        return localGroups;
+      }
+      return mergeWebsiteGroups(localGroups, state.cloudGroups);
+    },
+    [state.cloudGroups]
+  );
+
+  const mergeWithLocalPages = useCallback(
+    (localPages: WebsitePage[]): WebsitePage[] => {
+      if (!state.cloudPages) {
+        return localPages;
+      }
+      return mergeWebsitePages(localPages, state.cloudPages);
+    },
+    [state.cloudPages]
+  );
+
   // 当用户登录状态变化时，自动加载云端数据（仅在启用时）
   useEffect(() => {
     const currentUserId = currentUser?.id;
@@ -165,6 +240,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
         // 重置状态
         setState({
           cloudWebsites: null,
+          cloudGroups: null,
+          cloudPages: null,
           cloudSettings: null,
           loading: false,
           error: null,
@@ -183,6 +260,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
       logger.debug('👤 用户已登出或未登录，清除云端数据缓存');
       setState({
         cloudWebsites: null,
+        cloudGroups: null,
+        cloudPages: null,
         cloudSettings: null,
         loading: false,
         error: null,
@@ -244,13 +323,15 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
               createdAt: user.created_at,
             });
 
-            const [websitesResult, settingsResult] = await Promise.allSettled([
+            const [websitesResult, settingsResult, layoutResult] = await Promise.allSettled([
               getUserWebsites(user),
               getUserSettings(user),
+              getUserWebsiteLayout(user),
             ]);
 
             const websites = websitesResult.status === 'fulfilled' ? websitesResult.value : null;
             const settings = settingsResult.status === 'fulfilled' ? settingsResult.value : null;
+            const layout = layoutResult.status === 'fulfilled' ? layoutResult.value : null;
 
             logger.debug('📊 云端数据获取结果:', {
               websitesStatus: websitesResult.status,
@@ -263,6 +344,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
 
             setState({
               cloudWebsites: websites,
+              cloudGroups: layout?.groups ?? null,
+              cloudPages: layout?.pages ?? null,
               cloudSettings: settings,
               loading: false,
               error: null,
@@ -308,53 +391,172 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
     }
 
     logger.debug('🔌 初始化 Realtime 订阅...');
+    const userId = currentUser.id;
 
-    // 订阅 user_websites 表的变更
-    const channelCallback = (payload: any) => {
+    // user_websites：包含全部网站、分组和页面，逐条同步模式下另有卡片顺序
+    const handleWebsitesChange = (payload: RealtimePostgresChangesPayload<UserWebsitesRow>) => {
       logger.debug('⚡ 收到 Realtime 更新:', payload);
+      const row = payload.new;
+      if (!('id' in row) || row.id !== userId) return;
 
-      if (payload.eventType === 'UPDATE' && payload.new && payload.new.websites) {
-        if (payload.new.id === currentUser.id) {
-          logger.sync.debug('🔄 收到新的网站数据 (Realtime)，准备合并...', {
-            newCount: payload.new.websites?.length
-          });
+      if (isLocalEcho(TABLES.USER_WEBSITES, toTimestampVersion(row.last_sync))) {
+        logger.sync.debug('忽略本设备写入的网站数据 (Realtime)');
+        return;
+      }
 
-          // 验证并清理数据，防止非法数据导致应用崩溃
-          const rawWebsites = payload.new.websites;
-          if (!Array.isArray(rawWebsites)) {
-            logger.sync.warn('Realtime 收到无效的 websites 数据格式', rawWebsites);
-            return;
+      // 逐条同步模式下 websites 字段只供旧版本客户端读取，网站变更由记录表推送
+      const recordMode = Array.isArray(row.website_order);
+      if (!recordMode && row.websites !== undefined && !Array.isArray(row.websites)) {
+        logger.sync.warn('Realtime 收到无效的 websites 数据格式', row.websites);
+        return;
+      }
+
+      // 这里我们简单转换，让 mergeWebsiteData 处理更细致的校验
+      const newCloudWebsites =
+        !recordMode && Array.isArray(row.websites) ? (row.websites as WebsiteData[]) : undefined;
+      const newCloudGroups = Array.isArray(row.groups) ? (row.groups as WebsiteGroup[]) : undefined;
+      const newCloudPages = Array.isArray(row.pages) ? (row.pages as WebsitePage[]) : undefined;
+
+      logger.sync.debug('🔄 收到新的网站数据 (Realtime)，准备合并...', {
+        newCount: newCloudWebsites?.length,
+        groups: newCloudGroups?.length,
+        pages: newCloudPages?.length,
+      });
+
+      setState((prev) => ({
+        ...prev,
+        cloudWebsites: newCloudWebsites ?? prev.cloudWebsites,
+        cloudGroups: newCloudGroups ?? prev.cloudGroups,
+        cloudPages: newCloudPages ?? prev.cloudPages,
+      }));
+
+      // 发送自定义事件通知上层组件
+      window.dispatchEvent(
+        new CustomEvent('cloudDataUpdated', {
+          detail: {
+            websites: newCloudWebsites,
+            groups: newCloudGroups,
+            pages: newCloudPages,
+            source: 'realtime',
           }
+        })
+      );
+    };
+
+    // user_website_records：单条网站记录变更（含删除墓碑）
+    const handleRecordChange = (payload: RealtimePostgresChangesPayload<WebsiteRecordChangeRow>) => {
+      const row = payload.new;
+      if (!('user_id' in row) || row.user_id !== userId || !row.data) return;
+
+      if (
+        isLocalEcho(
+          TABLES.USER_WEBSITE_RECORDS,
+          getWebsiteRecordVersion(row.website_id, row.client_updated_at)
+        )
+      ) {
+        return;
+      }
 
-          // 这里我们简单转换，让 mergeWebsiteData 处理更细致的校验
-          const newCloudWebsites = rawWebsites as WebsiteData[];
-
-          setState((prev) => ({
-            ...prev,
-            cloudWebsites: newCloudWebsites,
-          }));
-
-          // 发送自定义事件通知上层组件
-          window.dispatchEvent(
-            new CustomEvent('cloudDataUpdated', {
-              detail: { websites: newCloudWebsites, source: 'realtime' }
-            })
-          );
-        }
+      const records = parseWebsiteRecordRows([row]);
+      if (records.length === 0) {
+        logger.sync.warn('Realtime 收到无效的网站记录', row.website_id);
+        return;
       }
+
+      logger.sync.debug('🔄 收到网站记录变更 (Realtime)', {
+        id: row.website_id,
+        deleted: row.deleted,
+      });
+      // 本地合并后与云端一致，下次同步无需再上传
+      acknowledgeWebsiteRecords(userId, records);
+
+      window.dispatchEvent(
+        new CustomEvent('cloudDataUpdated', {
+          detail: { websites: records, source: 'realtime' },
+        })
+      );
+    };
+
+    // user_settings：设置变更由 TransparencyContext 应用
+    const handleSettingsChange = (payload: RealtimePostgresChangesPayload<UserSettingsRow>) => {
+      const row = payload.new;
+      if (!('id' in row) || row.id !== userId) return;
+
+      if (isLocalEcho(TABLES.USER_SETTINGS, toTimestampVersion(row.last_sync))) {
+        logger.sync.debug('忽略本设备写入的设置 (Realtime)');
+        return;
+      }
+
+      const settings = parseUserSettingsRow(row);
+      logger.sync.debug('🔄 收到新的设置 (Realtime)');
+      setState((prev) => ({ ...prev, cloudSettings: settings }));
+      window.dispatchEvent(
+        new CustomEvent('cloudSettingsUpdated', {
+          detail: { settings, source: 'realtime' },
+        })
+      );
+    };
+
+    // user_todos：待办变更由 useAutoSync 合并到本地
+    const handleTodosChange = (payload: RealtimePostgresChangesPayload<UserTodosRow>) => {
+      const row = payload.new;
+      if (!('id' in row) || row.id !== userId || !Array.isArray(row.todos)) return;
+
+      if (isLocalEcho(TABLES.USER_TODOS, toTimestampVersion(row.last_sync))) {
+        logger.sync.debug('忽略本设备写入的待办 (Realtime)');
+        return;
+      }
+
+      const todos = sanitizeTodoArray(row.todos);
+      logger.sync.debug('🔄 收到新的待办 (Realtime)', { count: todos.length });
+      window.dispatchEvent(
+        new CustomEvent('cloudTodosUpdated', {
+          detail: { todos, source: 'realtime' },
+        })
+      );
     };
 
     const channel = supabase
-      .channel('public:user_websites')
+      .channel(`user-sync:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: TABLES.USER_WEBSITES,
+          filter: `id=eq.${userId}`,
+        },
+        handleWebsitesChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: TABLES.USER_WEBSITE_RECORDS,
+          filter: `user_id=eq.${userId}`,
+        },
+        handleRecordChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: TABLES.USER_SETTINGS,
+          filter: `id=eq.${userId}`,
+        },
+        handleSettingsChange
+      )
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'user_websites',
-          filter: `id=eq.${currentUser.id}`,
+          table: TABLES.USER_TODOS,
+          filter: `id=eq.${userId}`,
         },
-        channelCallback
+        handleTodosChange
       )
       .subscribe((status) => {
         logger.debug('📡 Realtime 订阅状态:', status);
@@ -370,6 +572,8 @@ export function useCloudData(enabled: boolean = true): UseCloudDataResult {
     ...state,
     loadCloudData,
     mergeWithLocalData,
+    mergeWithLocalGroups,
+    mergeWithLocalPages,
     hasCloudData: !!state.cloudWebsites || !!state.cloudSettings,
   };
 }
@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { commandRegistry, PaletteCommand } from '@/lib/commandRegistry';
+
+/**
+ * 注册搜索框命令，组件卸载或命令变化时自动注销
+ * 传入的数组需保持引用稳定（useMemo），否则每次渲染都会重新注册
+ */
+export function useRegisterCommands(commands: PaletteCommand[]) {
+  useEffect(() => commandRegistry.register(commands), [commands]);
+}
+
+/**
+ * 订阅当前已注册的全部命令
+ */
+export function useCommands(): PaletteCommand[] {
+  return useSyncExternalStore(commandRegistry.subscribe, commandRegistry.getCommands);
+}
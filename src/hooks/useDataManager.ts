@@ -1,6 +1,12 @@
 import { useState, useCallback } from 'react';
 import { useWebsiteData } from './useWebsiteData';
 import { useSettingsManager } from './useSettingsManager';
+import {
+  ImportedBookmark,
+  isNetscapeBookmarkFile,
+  parseNetscapeBookmarks,
+} from '@/lib/bookmarkImport';
+import { BookmarkExportFormat, buildBookmarkExport } from '@/lib/bookmarkExport';
 
 interface ExportOptions {
   includeSettings?: boolean;
@@ -19,12 +25,58 @@ interface ImportResult {
 
 interface UseDataManagerReturn {
   exportAllData: (options?: ExportOptions) => Promise<void>;
+  exportBookmarks: (format: BookmarkExportFormat) => Promise<void>;
   importAllData: (file: File) => Promise<ImportResult>;
+  readBookmarkFile: (file: File) => Promise<ImportedBookmark[]>;
   isExporting: boolean;
   isImporting: boolean;
   error: string | null;
 }
 
+/**
+ * 保存文件：优先使用文件保存对话框，不支持时回退到下载链接
+ * 用户取消保存时返回 false
+ */
+const saveFile = async (
+  blob: Blob,
+  fileName: string,
+  description: string,
+  accept: Record<string, string[]>
+): Promise<boolean> => {
+  // 优先使用现代文件API
+  if ('showSaveFilePicker' in window) {
+    try {
+      // @ts-ignore - 新API可能没有类型定义
+      const fileHandle = await window.showSaveFilePicker({
+        suggestedName: fileName,
+        types: [{ description, accept }],
+      });
+      const writable = await fileHandle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+      return true;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        return false; // 用户取消了
+      }
+      console.warn('现代下载API失败，使用传统方式:', error);
+    }
+  }
+
+  // 传统下载方式
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return true;
+};
+
 /**
  * 统一的数据导入导出管理Hook
  * 整合网站数据和设置的导入导出功能
@@ -51,8 +103,11 @@ export function useDataManager(
       setError(null);
 
       try {
+        // 回收站中的卡片不导出
+        const activeWebsites = (websites || []).filter((site) => !site.deleted);
+
         // 验证数据完整性
-        if (includeWebsites && (!websites || websites.length === 0)) {
+        if (includeWebsites && activeWebsites.length === 0) {
           const shouldExport = confirm('当前没有网站数据，是否仍要导出设置？');
           if (!shouldExport) return;
         }
@@ -63,7 +118,7 @@ export function useDataManager(
         };
 
         if (includeWebsites) {
-          exportData.websites = websites || [];
+          exportData.websites = activeWebsites;
         }
 
         if (includeSettings) {
@@ -81,49 +136,13 @@ export function useDataManager(
         const dataBlob = new Blob([dataStr], { type: 'application/json' });
         const fileName = `西红柿标签页_导出数据_${new Date().toISOString().split('T')[0]}.json`;
 
-        // 优先使用现代文件API
-        if ('showSaveFilePicker' in window) {
-          try {
-            // @ts-ignore - 新API可能没有类型定义
-            const fileHandle = await window.showSaveFilePicker({
-              suggestedName: fileName,
-              types: [
-                {
-                  description: 'JSON文件',
-                  accept: { 'application/json': ['.json'] },
-                },
-              ],
-            });
-            const writable = await fileHandle.createWritable();
-            await writable.write(dataBlob);
-            await writable.close();
-
-            alert(
-              `数据导出成功！${includeWebsites ? `包含 ${websites.length} 个网站` : ''}${includeSettings ? '和设置' : ''}。`
-            );
-            return;
-          } catch (error) {
-            if ((error as Error).name === 'AbortError') {
-              return; // 用户取消了
-            }
-            console.warn('现代下载API失败，使用传统方式:', error);
-          }
-        }
-
-        // 传统下载方式
-        const url = URL.createObjectURL(dataBlob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = fileName;
-        link.style.display = 'none';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-
-        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        const saved = await saveFile(dataBlob, fileName, 'JSON文件', {
+          'application/json': ['.json'],
+        });
+        if (!saved) return;
 
         alert(
-          `数据导出成功！${includeWebsites ? `包含 ${websites.length} 个网站` : ''}${includeSettings ? '和设置' : ''}。`
+          `数据导出成功！${includeWebsites ? `包含 ${activeWebsites.length} 个网站` : ''}${includeSettings ? '和设置' : ''}。`
         );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : '未知错误';
@@ -136,6 +155,42 @@ export function useDataManager(
     [isExporting, websites, exportSettings]
   );
 
+  // 导出书签：浏览器书签文件、CSV 或 Markdown，仅包含网站卡片
+  const exportBookmarks = useCallback(
+    async (format: BookmarkExportFormat) => {
+      if (isExporting) return;
+
+      const activeWebsites = (websites || []).filter((site) => !site.deleted);
+      if (activeWebsites.length === 0) {
+        alert('当前没有可导出的网站');
+        return;
+      }
+
+      setIsExporting(true);
+      setError(null);
+
+      try {
+        const file = buildBookmarkExport(activeWebsites, format);
+        const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+        const fileName = `西红柿标签页_书签_${new Date().toISOString().split('T')[0]}.${file.extension}`;
+
+        const saved = await saveFile(blob, fileName, file.description, {
+          [file.mimeType]: [`.${file.extension}`],
+        });
+        if (saved) {
+          alert(`书签导出成功！包含 ${activeWebsites.length} 个网站。`);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : '未知错误';
+        setError(`导出失败: ${errorMessage}`);
+        alert(`导出书签失败：${errorMessage}`);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [isExporting, websites]
+  );
+
   // 导入所有数据
   const importAllData = useCallback(
     async (file: File): Promise<ImportResult> => {
@@ -220,9 +275,41 @@ export function useDataManager(
     [isImporting, importWebsites, importSettings, setWebsites]
   );
 
+  // 读取浏览器导出的书签文件，返回解析出的书签供预览选择
+  const readBookmarkFile = useCallback(
+    (file: File): Promise<ImportedBookmark[]> =>
+      new Promise((resolve, reject) => {
+        const reader = new FileReader();
+
+        reader.onload = (e) => {
+          const content = (e.target?.result as string) || '';
+          if (!isNetscapeBookmarkFile(content)) {
+            reject(new Error('不是有效的浏览器书签文件'));
+            return;
+          }
+
+          const bookmarks = parseNetscapeBookmarks(content);
+          if (bookmarks.length === 0) {
+            reject(new Error('书签文件中没有可导入的网址'));
+            return;
+          }
+          resolve(bookmarks);
+        };
+
+        reader.onerror = () => {
+          reject(new Error('文件读取失败'));
+        };
+
+        reader.readAsText(file);
+      }),
+    []
+  );
+
   return {
     exportAllData,
+    exportBookmarks,
     importAllData,
+    readBookmarkFile,
     isExporting,
     isImporting,
     error,
@@ -5,7 +5,17 @@ interface DragItem {
   index: number;
 }
 
-export function useDragAndDrop(items: any[], setItems: (items: any[]) => void, itemIndex: number) {
+/**
+ * 通用的列表拖拽排序 Hook
+ * type 用于区分不同的拖拽列表（如卡片与分组），避免互相接收
+ */
+export function useDragAndDrop<T extends { id: string }>(
+  items: T[],
+  setItems: (items: T[]) => void,
+  itemIndex: number,
+  type: string = 'WEBSITE_CARD',
+  canDrag: boolean = true
+) {
   const moveItem = (dragIndex: number, hoverIndex: number) => {
     const draggedItem = items[dragIndex];
     const newItems = [...items];
@@ -15,22 +25,22 @@ export function useDragAndDrop(items: any[], setItems: (items: any[]) => void, i
   };
 
   const [, drop] = useDrop({
-    accept: 'WEBSITE_CARD',
+    accept: type,
     hover(item: DragItem, monitor) {
       if (!monitor.isOver({ shallow: true })) return;
 
       const dragIndex = item.index;
-      const hoverIndex = items.findIndex((i) => i.id === item.id);
+      const hoverIndex = itemIndex;
 
       if (dragIndex === hoverIndex) return;
       moveItem(dragIndex, hoverIndex);
       item.index = hoverIndex;
     },
-    drop: () => ({ name: 'WEBSITE_CARD' }),
+    drop: () => ({ name: type }),
   });
 
   const [{ isDragging }, drag] = useDrag({
-    type: 'WEBSITE_CARD',
+    type,
     item: () => {
       const item = items[itemIndex];
       return {
@@ -38,6 +48,7 @@ export function useDragAndDrop(items: any[], setItems: (items: any[]) => void, i
         index: itemIndex,
       };
     },
+    canDrag: () => canDrag,
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { LINK_HEALTH_UPDATED_EVENT, LinkHealthRecord, linkHealthChecker } from '@/lib/linkHealth';
+import { WebsiteData } from '@/lib/supabaseSync';
+
+const START_DELAY = 60 * 1000; // 启动 1 分钟后再开始，避免影响首屏加载
+const RUN_INTERVAL = 60 * 60 * 1000; // 页面保持打开时每小时检查一轮
+const BATCH_SIZE = 20; // 每轮最多检查的卡片数，分摊到多轮完成
+
+/**
+ * 订阅链接检查记录（卡片 ID -> 记录）
+ */
+export function useLinkHealthRecords(): Record<string, LinkHealthRecord> {
+  const [records, setRecords] = useState(() => linkHealthChecker.getRecords());
+
+  useEffect(() => {
+    const handleUpdated = () => setRecords(linkHealthChecker.getRecords());
+    window.addEventListener(LINK_HEALTH_UPDATED_EVENT, handleUpdated);
+    return () => window.removeEventListener(LINK_HEALTH_UPDATED_EVENT, handleUpdated);
+  }, []);
+
+  return records;
+}
+
+/**
+ * 后台定期检查卡片链接，只在页面可见且在线时运行
+ * @param websites 全部卡片
+ * @param enabled 是否启用（设置开关且数据已加载）
+ */
+export function useLinkHealthCheck(websites: WebsiteData[], enabled: boolean) {
+  // 使用 ref 保存最新卡片，卡片变化时不重置定时器
+  const websitesRef = useRef(websites);
+  useEffect(() => {
+    websitesRef.current = websites;
+  }, [websites]);
+
+  useEffect(() => {
+    if (!enabled || !linkHealthChecker.isAvailable()) {
+      return;
+    }
+
+    const run = () => {
+      if (document.visibilityState !== 'visible' || !navigator.onLine) return;
+      linkHealthChecker.checkWebsites(websitesRef.current, { limit: BATCH_SIZE }).catch((error) => {
+        console.warn('链接检查失败:', error);
+      });
+    };
+
+    const startTimer = setTimeout(run, START_DELAY);
+    const interval = setInterval(run, RUN_INTERVAL);
+
+    return () => {
+      clearTimeout(startTimer);
+      clearInterval(interval);
+    };
+  }, [enabled]);
+}
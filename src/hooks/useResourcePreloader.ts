@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { resourcePreloader } from '@/lib/resourcePreloader';
+import { getPreferredProxyOrigins } from '@/lib/proxy';
 
 /**
  * 资源预加载 Hook
@@ -14,9 +15,9 @@ export function useResourcePreloader(enabled: boolean = true) {
 
     // 延迟预加载，避免阻塞首屏渲染
     const delayedPreload = setTimeout(() => {
-      // 预连接到第三方域名
+      // 预连接到第三方域名（包括优先使用的代理服务）
       const preconnectDomains = [
-        'https://api.allorigins.win',
+        ...getPreferredProxyOrigins(),
         'https://www.bing.com',
         'https://source.unsplash.com',
         'https://www.google.com',
@@ -0,0 +1,50 @@
+import { useCallback, useRef } from 'react';
+
+// 触发翻页的最小水平滑动距离（px）
+const SWIPE_THRESHOLD = 60;
+// 水平位移需明显大于垂直位移，避免与页面滚动冲突
+const SWIPE_DIRECTION_RATIO = 1.5;
+
+/**
+ * 移动端左右滑动切换 Hook
+ * 返回的触摸事件处理器需绑定到可滑动区域上
+ */
+export function useSwipeNavigation(onSwipeLeft: () => void, onSwipeRight: () => void, enabled = true) {
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const onTouchStart = useCallback(
+    (e: React.TouchEvent) => {
+      if (!enabled || e.touches.length !== 1) {
+        startRef.current = null;
+        return;
+      }
+      startRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+    },
+    [enabled]
+  );
+
+  const onTouchEnd = useCallback(
+    (e: React.TouchEvent) => {
+      const start = startRef.current;
+      startRef.current = null;
+      if (!enabled || !start) return;
+
+      const touch = e.changedTouches[0];
+      const dx = touch.clientX - start.x;
+      const dy = touch.clientY - start.y;
+
+      if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy) * SWIPE_DIRECTION_RATIO) {
+        return;
+      }
+
+      if (dx < 0) {
+        onSwipeLeft();
+      } else {
+        onSwipeRight();
+      }
+    },
+    [enabled, onSwipeLeft, onSwipeRight]
+  );
+
+  return { onTouchStart, onTouchEnd };
+}
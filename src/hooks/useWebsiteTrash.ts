@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/SupabaseAuthContext';
+import { logger } from '@/lib/logger';
+import { WebsiteData } from '@/lib/supabaseSync';
+import { purgeWebsiteRecords } from '@/lib/websiteRecordSync';
+import { getExpiredTrash, getTrashedWebsites, restoreWebsite } from '@/lib/websiteTrash';
+
+/**
+ * 回收站：列出已删除的卡片，恢复或彻底删除（同时删除云端的删除墓碑）
+ * @param websites 全部卡片（含删除墓碑）
+ * @param autoPurge 是否自动彻底删除超过保留期限的卡片（数据加载完成后由主页开启）
+ */
+export function useWebsiteTrash(
+  websites: WebsiteData[],
+  setWebsites: (websites: WebsiteData[]) => void,
+  autoPurge = false
+) {
+  const { currentUser } = useAuth();
+  const items = useMemo(() => getTrashedWebsites(websites), [websites]);
+
+  const restore = useCallback((id: string) => setWebsites(restoreWebsite(websites, id)), [websites, setWebsites]);
+
+  const purge = useCallback(
+    (ids: string[]) => {
+      if (ids.length === 0) return;
+      const purged = new Set(ids);
+      setWebsites(websites.filter((website) => !(website.deleted && purged.has(website.id))));
+
+      if (currentUser) {
+        purgeWebsiteRecords(currentUser, ids).catch((error) => {
+          logger.sync.warn('删除云端回收站记录失败，下次同步时重试', error);
+        });
+      }
+    },
+    [websites, setWebsites, currentUser]
+  );
+
+  useEffect(() => {
+    if (!autoPurge) return;
+    const expired = getExpiredTrash(websites);
+    if (expired.length > 0) {
+      logger.sync.info(`回收站自动清除了 ${expired.length} 张过期卡片`);
+      purge(expired.map((website) => website.id));
+    }
+  }, [autoPurge, websites, purge]);
+
+  return { items, restore, purge };
+}
@@ -1,4 +1,5 @@
 import { ApiClient } from './ApiClient';
+import { corsProxyService } from '../proxy';
 
 /**
  * Interface for Notion page objects
@@ -82,50 +83,28 @@ export class NotionApiClient {
     };
 
     try {
-      // 尝试多个公共CORS代理服务
-      const proxyServices = [
-        `https://corsproxy.io/?${encodeURIComponent(targetUrl)}`,
-        `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`,
-      ];
+      // 通过统一的代理服务发送请求，失败时自动切换代理
+      const response = await corsProxyService.request(targetUrl, { ...requestOptions, binary: false });
 
-      let lastError: Error | null = null;
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Notion API错误详情:');
+        console.error('状态码:', response.status);
+        console.error('响应内容:', errorText);
 
-      for (const proxyUrl of proxyServices) {
-        try {
-          const response = await fetch(proxyUrl, requestOptions);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Notion API错误详情:');
-            console.error('状态码:', response.status);
-            console.error('响应内容:', errorText);
-
-            // 提供更具体的错误信息
-            if (response.status === 400) {
-              throw new Error('请求格式错误。可能是API密钥格式不正确或数据库ID无效');
-            } else if (response.status === 401) {
-              throw new Error('API密钥无效或已过期，请检查配置');
-            } else if (response.status === 404) {
-              throw new Error('数据库不存在或Integration未被添加到数据库');
-            } else {
-              throw new Error(`Notion API error: ${response.status} ${response.statusText}`);
-            }
-          }
-
-          const data = await response.json();
-          return data;
-        } catch (error) {
-          console.warn(
-            `❌ 代理服务失败: ${proxyUrl.split('?')[0]}`,
-            error instanceof Error ? error.message : error
-          );
-          lastError = error instanceof Error ? error : new Error(String(error));
-          continue;
+        // 提供更具体的错误信息
+        if (response.status === 400) {
+          throw new Error('请求格式错误。可能是API密钥格式不正确或数据库ID无效');
+        } else if (response.status === 401) {
+          throw new Error('API密钥无效或已过期，请检查配置');
+        } else if (response.status === 404) {
+          throw new Error('数据库不存在或Integration未被添加到数据库');
+        } else {
+          throw new Error(`Notion API error: ${response.status} ${response.statusText}`);
         }
       }
 
-      // 所有代理都失败了
-      throw lastError || new Error('所有CORS代理服务都不可用');
+      return await response.json();
     } catch (error) {
       console.error('❌ Notion API 请求失败:', error);
 
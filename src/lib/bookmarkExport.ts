@@ -0,0 +1,163 @@
+// 书签导出 - 生成浏览器可导入的 Netscape 书签文件、CSV 表格与 Markdown 链接列表
+import { WebsiteData } from './supabaseSync';
+
+export type BookmarkExportFormat = 'html' | 'csv' | 'markdown';
+
+export interface BookmarkExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+  description: string; // 保存对话框中的文件类型说明
+}
+
+const APP_NAME = '西红柿标签页';
+const UNTAGGED_LABEL = '未分类';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 以 = + - @ 开头的单元格会被表格软件当作公式，加单引号避免执行
+const escapeCsvCell = (value: string | number): string => {
+  let text = String(value ?? '');
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeMarkdownText = (text: string): string => text.replace(/([\\[\]])/g, '\\$1');
+
+const getExportableWebsites = (websites: WebsiteData[]): WebsiteData[] =>
+  websites.filter((site) => !site.deleted);
+
+const toUnixSeconds = (site: WebsiteData): number => {
+  const time = site.updatedAt || Date.parse(site.lastVisit) || Date.now();
+  return Math.floor(time / 1000);
+};
+
+// 按标签分组，保持标签首次出现的顺序，无标签的卡片归入“未分类”
+const groupByTag = (
+  websites: WebsiteData[],
+  allTags: boolean
+): { tag: string | null; sites: WebsiteData[] }[] => {
+  const groups = new Map<string | null, WebsiteData[]>();
+  websites.forEach((site) => {
+    const tags = site.tags.length > 0 ? (allTags ? site.tags : site.tags.slice(0, 1)) : [null];
+    tags.forEach((tag) => {
+      groups.set(tag, [...(groups.get(tag) || []), site]);
+    });
+  });
+
+  // 未分类放在最后
+  const untagged = groups.get(null);
+  groups.delete(null);
+  const result = Array.from(groups, ([tag, sites]) => ({ tag, sites }));
+  return untagged ? [...result, { tag: null, sites: untagged }] : result;
+};
+
+/**
+ * Netscape 书签文件：第一个标签作为文件夹，全部标签写入 TAGS 属性（Firefox 可识别）
+ */
+export const exportNetscapeHtml = (websites: WebsiteData[]): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const renderLink = (site: WebsiteData, indent: string) => {
+    const tags = site.tags.length > 0 ? ` TAGS="${escapeHtml(site.tags.join(','))}"` : '';
+    const note = site.note ? `\n${indent}<DD>${escapeHtml(site.note)}` : '';
+    return `${indent}<DT><A HREF="${escapeHtml(site.url)}" ADD_DATE="${toUnixSeconds(site)}"${tags}>${escapeHtml(site.name)}</A>${note}`;
+  };
+
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    `    <DT><H3 ADD_DATE="${now}" LAST_MODIFIED="${now}">${APP_NAME}</H3>`,
+    '    <DL><p>',
+  ];
+
+  groupByTag(getExportableWebsites(websites), false).forEach(({ tag, sites }) => {
+    if (tag === null) {
+      sites.forEach((site) => lines.push(renderLink(site, '        ')));
+      return;
+    }
+    lines.push(`        <DT><H3 ADD_DATE="${now}" LAST_MODIFIED="${now}">${escapeHtml(tag)}</H3>`);
+    lines.push('        <DL><p>');
+    sites.forEach((site) => lines.push(renderLink(site, '            ')));
+    lines.push('        </DL><p>');
+  });
+
+  lines.push('    </DL><p>', '</DL><p>');
+  return lines.join('\n');
+};
+
+/**
+ * CSV 表格：名称、网址、标签（分号分隔）、备注、访问次数、最后访问
+ */
+export const exportCsv = (websites: WebsiteData[]): string => {
+  const header = ['name', 'url', 'tags', 'note', 'visitCount', 'lastVisit'];
+  const rows = getExportableWebsites(websites).map((site) =>
+    [site.name, site.url, site.tags.join(';'), site.note || '', site.visitCount, site.lastVisit]
+      .map(escapeCsvCell)
+      .join(',')
+  );
+  // 带 BOM，避免 Excel 打开中文乱码
+  return `\uFEFF${[header.join(','), ...rows].join('\r\n')}`;
+};
+
+/**
+ * Markdown 链接列表：按标签分节，多个标签的卡片会出现在每个标签下
+ */
+export const exportMarkdown = (websites: WebsiteData[]): string => {
+  const lines = [`# ${APP_NAME}书签`, ''];
+
+  groupByTag(getExportableWebsites(websites), true).forEach(({ tag, sites }) => {
+    lines.push(`## ${tag ?? UNTAGGED_LABEL}`, '');
+    sites.forEach((site) => {
+      const note = site.note ? ` - ${site.note.replace(/\s*\n\s*/g, ' ')}` : '';
+      lines.push(`- [${escapeMarkdownText(site.name)}](<${site.url}>)${note}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * 按格式生成导出文件
+ */
+export const buildBookmarkExport = (
+  websites: WebsiteData[],
+  format: BookmarkExportFormat
+): BookmarkExportFile => {
+  switch (format) {
+    case 'html':
+      return {
+        content: exportNetscapeHtml(websites),
+        mimeType: 'text/html',
+        extension: 'html',
+        description: '浏览器书签文件',
+      };
+    case 'csv':
+      return {
+        content: exportCsv(websites),
+        mimeType: 'text/csv',
+        extension: 'csv',
+        description: 'CSV表格',
+      };
+    case 'markdown':
+      return {
+        content: exportMarkdown(websites),
+        mimeType: 'text/markdown',
+        extension: 'md',
+        description: 'Markdown文档',
+      };
+  }
+};
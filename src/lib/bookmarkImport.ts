@@ -0,0 +1,163 @@
+// 浏览器书签导入 - 解析 Chrome / Edge / Firefox 导出的 Netscape 书签文件（bookmarks.html）
+import { WebsiteData, WebsiteGroup } from './supabaseSync';
+import { sanitizeWebsiteArray } from './dataValidator';
+import { extractDomain } from './faviconUtils';
+import { normalizeWebsiteUrl } from './websiteDuplicates';
+
+export interface ImportedBookmark {
+  name: string;
+  url: string;
+  folders: string[]; // 所在文件夹路径，由外到内
+  addedAt?: number; // 浏览器记录的添加时间（毫秒）
+}
+
+// 文件夹映射方式：作为标签、作为分组，或忽略文件夹
+export type BookmarkFolderMapping = 'tags' | 'groups' | 'none';
+
+export interface BookmarkCandidate {
+  key: string; // 标准化后的网址，用于去重和勾选
+  bookmark: ImportedBookmark;
+  duplicate: boolean; // 与现有卡片或文件中靠前的书签重复
+}
+
+export interface BookmarkImportResult {
+  websites: WebsiteData[];
+  groups: WebsiteGroup[]; // 需要新建的分组
+}
+
+// 浏览器的根文件夹（书签栏、其他书签）不作为标签或分组
+const ROOT_FOLDER_ATTRIBUTES = ['personal_toolbar_folder', 'unfiled_bookmarks_folder'];
+const FOLDER_PATH_SEPARATOR = ' / ';
+const MAX_NAME_LENGTH = 100;
+
+const isImportableUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// 书签所在的文件夹路径：逐级向上查找 <DL> 前面的 <H3> 标题
+const getFolderPath = (anchor: Element): string[] => {
+  const folders: string[] = [];
+  let list = anchor.closest('dl');
+
+  while (list) {
+    let header = list.previousElementSibling;
+    while (header && header.tagName === 'P') {
+      header = header.previousElementSibling;
+    }
+
+    if (header && header.tagName === 'H3') {
+      const isRoot = ROOT_FOLDER_ATTRIBUTES.some((attribute) => header?.hasAttribute(attribute));
+      const name = header.textContent?.trim();
+      if (!isRoot && name) {
+        folders.unshift(name);
+      }
+    }
+    list = list.parentElement?.closest('dl') || null;
+  }
+
+  return folders;
+};
+
+/**
+ * 解析 Netscape 书签文件，只保留 http(s) 链接
+ */
+export const parseNetscapeBookmarks = (html: string): ImportedBookmark[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const bookmarks: ImportedBookmark[] = [];
+
+  doc.querySelectorAll('a[href]').forEach((anchor) => {
+    const url = anchor.getAttribute('href')?.trim() || '';
+    if (!isImportableUrl(url)) return;
+
+    const addDate = Number(anchor.getAttribute('add_date'));
+    bookmarks.push({
+      name: (anchor.textContent?.trim() || extractDomain(url)).slice(0, MAX_NAME_LENGTH),
+      url,
+      folders: getFolderPath(anchor),
+      addedAt: addDate > 0 ? addDate * 1000 : undefined,
+    });
+  });
+
+  return bookmarks;
+};
+
+export const isNetscapeBookmarkFile = (content: string): boolean =>
+  /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(content) || /<dt>\s*<a\s[^>]*href=/i.test(content);
+
+/**
+ * 标记重复书签：与现有卡片网址相同，或在文件中已出现过
+ */
+export const prepareBookmarkCandidates = (
+  bookmarks: ImportedBookmark[],
+  existing: WebsiteData[]
+): BookmarkCandidate[] => {
+  const seen = new Set(
+    existing.filter((site) => !site.deleted).map((site) => normalizeWebsiteUrl(site.url))
+  );
+
+  return bookmarks.map((bookmark) => {
+    const key = normalizeWebsiteUrl(bookmark.url);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { key, bookmark, duplicate };
+  });
+};
+
+export const getFolderLabel = (folders: string[]): string => folders.join(FOLDER_PATH_SEPARATOR);
+
+/**
+ * 将选中的书签转换为卡片，文件夹按映射方式转换为标签或分组
+ * 同名分组（首个页面）直接复用，结果经过 sanitizeWebsiteArray 校验
+ */
+export const buildBookmarkImport = (
+  bookmarks: ImportedBookmark[],
+  mapping: BookmarkFolderMapping,
+  existingGroups: WebsiteGroup[]
+): BookmarkImportResult => {
+  const now = Date.now();
+  const groupIds = new Map<string, string>();
+  existingGroups
+    .filter((group) => !group.deleted && !group.pageId)
+    .forEach((group) => groupIds.set(group.name, group.id));
+
+  const newGroups: WebsiteGroup[] = [];
+  let nextOrder = existingGroups.reduce((max, group) => Math.max(max, group.order), -1) + 1;
+
+  const resolveGroupId = (folders: string[]): string | undefined => {
+    if (folders.length === 0) return undefined;
+    const name = getFolderLabel(folders);
+    const existingId = groupIds.get(name);
+    if (existingId) return existingId;
+
+    const group: WebsiteGroup = {
+      id: `group-${now}-${newGroups.length}`,
+      name,
+      order: nextOrder++,
+      collapsed: true,
+      updatedAt: now,
+      deleted: false,
+    };
+    newGroups.push(group);
+    groupIds.set(name, group.id);
+    return group.id;
+  };
+
+  const websites = bookmarks.map((bookmark, index) => ({
+    id: `card-${now}-${index}`,
+    name: bookmark.name,
+    url: bookmark.url,
+    favicon: `https://favicon.im/${extractDomain(bookmark.url)}?larger=true`,
+    tags: mapping === 'tags' ? Array.from(new Set(bookmark.folders)) : [],
+    visitCount: 0,
+    lastVisit: new Date(bookmark.addedAt || now).toISOString().split('T')[0],
+    groupId: mapping === 'groups' ? resolveGroupId(bookmark.folders) : undefined,
+    updatedAt: now,
+  }));
+
+  return { websites: sanitizeWebsiteArray(websites), groups: newGroups };
+};
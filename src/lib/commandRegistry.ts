@@ -0,0 +1,193 @@
+// 命令面板注册表 - 各功能模块注册搜索框命令，搜索框统一负责匹配、展示与执行
+
+// 建议项配色，对应搜索框中预设的样式
+export type CommandColor = 'blue' | 'green' | 'purple' | 'teal' | 'indigo' | 'orange' | 'gray';
+
+// 参数写法：colon 仅接受 `命令:参数`，any 同时接受空格分隔；不设置表示命令不带参数
+export type CommandArgsMode = 'colon' | 'any';
+
+export interface CommandPresentation {
+  title: string; // 建议项标题
+  icon: string; // Font Awesome 类名
+  badge: string; // 建议项左侧标签
+  color: CommandColor;
+}
+
+export interface PaletteCommand extends CommandPresentation {
+  id: string;
+  aliases: string[]; // 中英文触发词，不区分大小写
+  args?: CommandArgsMode;
+  argHint?: string; // 已输入分隔符但参数为空时的提示
+  acceptArgs?: (args: string) => boolean; // 参数校验，不通过时不视为该命令
+  acceptsUrl?: boolean; // 输入网址时也作为候选，网址作为参数
+  describe?: (args: string) => Partial<CommandPresentation>; // 根据参数调整建议项展示
+  run: (args: string) => void | string | Promise<void | string>; // 返回字符串时作为执行结果提示
+}
+
+export interface CommandMatch {
+  command: PaletteCommand;
+  args: string;
+  exact: boolean; // 触发词完全命中（回车直接执行），否则为拼音/模糊候选
+  needsArgs: boolean; // 已输入分隔符但还没有参数，仅作提示
+  score: number;
+}
+
+type TextMatcher = (query: string, text: string) => { matched: boolean; score: number };
+
+const EXACT_SCORE = 200;
+// 拼音/模糊匹配的最低分数，只保留开头、首字母、全拼完全匹配这类较可靠的结果
+const FUZZY_MIN_SCORE = 110;
+const MAX_FUZZY_MATCHES = 3;
+
+const COLON_ARGS_PATTERN = /^\s*[:：]\s*([\s\S]*)$/;
+const SPACE_ARGS_PATTERN = /^\s+(\S[\s\S]*)$/;
+
+class CommandRegistry {
+  private static instance: CommandRegistry;
+  // 同一 id 允许多处注册，后注册的生效，注销后恢复之前的注册
+  private registrations = new Map<string, PaletteCommand[]>();
+  private listeners = new Set<() => void>();
+  private snapshot: PaletteCommand[] = [];
+
+  static getInstance(): CommandRegistry {
+    if (!CommandRegistry.instance) {
+      CommandRegistry.instance = new CommandRegistry();
+    }
+    return CommandRegistry.instance;
+  }
+
+  /**
+   * 注册一组命令，返回注销函数
+   */
+  register(commands: PaletteCommand[]): () => void {
+    commands.forEach((command) => {
+      const stack = this.registrations.get(command.id) || [];
+      this.registrations.set(command.id, [...stack, command]);
+    });
+    this.emit();
+
+    return () => {
+      commands.forEach((command) => {
+        const stack = (this.registrations.get(command.id) || []).filter((item) => item !== command);
+        if (stack.length > 0) {
+          this.registrations.set(command.id, stack);
+        } else {
+          this.registrations.delete(command.id);
+        }
+      });
+      this.emit();
+    };
+  }
+
+  getCommands = (): PaletteCommand[] => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private emit() {
+    this.snapshot = Array.from(this.registrations.values(), (stack) => stack[stack.length - 1]);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const commandRegistry = CommandRegistry.getInstance();
+
+// 按触发词解析输入，返回参数；不匹配时返回 null
+const parseWithAlias = (
+  command: PaletteCommand,
+  query: string,
+  alias: string
+): { args: string; needsArgs: boolean } | null => {
+  const lower = query.toLowerCase();
+  if (lower === alias) {
+    return { args: '', needsArgs: false };
+  }
+  if (!command.args || !lower.startsWith(alias)) {
+    return null;
+  }
+
+  const rest = query.slice(alias.length);
+  const colonMatch = rest.match(COLON_ARGS_PATTERN);
+  if (colonMatch) {
+    const args = colonMatch[1].trim();
+    return { args, needsArgs: !args };
+  }
+
+  const spaceMatch = command.args === 'any' ? rest.match(SPACE_ARGS_PATTERN) : null;
+  return spaceMatch ? { args: spaceMatch[1].trim(), needsArgs: false } : null;
+};
+
+/**
+ * 匹配输入对应的命令
+ * 触发词完全命中（可带参数）时只返回这些命令；否则用 matcher（如拼音匹配）给出模糊候选
+ */
+export const matchCommands = (
+  input: string,
+  commands: PaletteCommand[],
+  matcher?: TextMatcher
+): CommandMatch[] => {
+  const query = input.trim();
+  if (!query) return [];
+
+  const exactMatches: CommandMatch[] = [];
+  commands.forEach((command) => {
+    // 长触发词优先，避免 `add card x` 被 `add` 截断
+    const aliases = command.aliases
+      .map((alias) => alias.toLowerCase())
+      .sort((a, b) => b.length - a.length);
+
+    for (const alias of aliases) {
+      const parsed = parseWithAlias(command, query, alias);
+      if (!parsed) continue;
+      if (parsed.args && command.acceptArgs && !command.acceptArgs(parsed.args)) continue;
+
+      exactMatches.push({ command, ...parsed, exact: true, score: EXACT_SCORE });
+      return;
+    }
+  });
+
+  if (exactMatches.length > 0 || !matcher || query.length < 2) {
+    return exactMatches;
+  }
+
+  return commands
+    .map((command) => {
+      const score = Math.max(
+        0,
+        ...[command.title, ...command.aliases].map((text) => {
+          const result = matcher(query, text);
+          return result.matched ? result.score : 0;
+        })
+      );
+      return { command, args: '', exact: false, needsArgs: false, score };
+    })
+    .filter((match) => match.score >= FUZZY_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_FUZZY_MATCHES);
+};
+
+/**
+ * 输入为网址时可用的命令（如添加为卡片）
+ */
+export const matchUrlCommands = (url: string, commands: PaletteCommand[]): CommandMatch[] =>
+  commands
+    .filter((command) => command.acceptsUrl && (!command.acceptArgs || command.acceptArgs(url)))
+    .map((command) => ({ command, args: url, exact: false, needsArgs: false, score: 0 }));
+
+/**
+ * 命令在建议列表中的展示信息
+ */
+export const presentCommand = (match: CommandMatch): CommandPresentation => {
+  const { command } = match;
+  const base: CommandPresentation = {
+    title: match.needsArgs && command.argHint ? command.argHint : command.title,
+    icon: command.icon,
+    badge: command.badge,
+    color: match.needsArgs ? 'gray' : command.color,
+  };
+  return match.needsArgs || !command.describe ? base : { ...base, ...command.describe(match.args) };
+};
@@ -0,0 +1,329 @@
+// 凭据保险库 - 使用主密码加密工作空间项目的登录信息（PBKDF2 派生密钥 + AES-GCM）
+// 保险库保存一对 ECDH 密钥，私钥用主密码加密保存；加密只需要公钥，同步时即使已锁定也能立即加密，查看时才需要解锁
+import { logger } from './logger';
+import { loadStoredSetting } from './settingsSchema';
+import type { CredentialField, SealedCredentials, WorkspaceItem } from './workspaceSources/types';
+
+// 保险库状态变化（创建、解锁、锁定、重置）时触发
+export const VAULT_CHANGED_EVENT = 'credentialVaultChanged';
+
+const VAULT_STORAGE_KEY = 'credential-vault';
+const PBKDF2_ITERATIONS = 600000;
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const CREDENTIAL_FIELDS: CredentialField[] = ['username', 'password', 'totpSecret'];
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+export type Credentials = Partial<Record<CredentialField, string>>;
+
+interface VaultRecord {
+  version: 1;
+  salt: string;
+  iterations: number;
+  publicKey: string; // raw 格式
+  encryptedPrivateKey: { iv: string; data: string }; // pkcs8 格式，用主密码派生的密钥加密
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// 项目中的明文登录信息
+const getPlainCredentials = (item: WorkspaceItem): Credentials =>
+  Object.fromEntries(CREDENTIAL_FIELDS.filter((field) => item[field]).map((field) => [field, item[field]]));
+
+/**
+ * 项目包含哪些登录信息字段（无论是否已加密）
+ */
+export const getCredentialFields = (item: WorkspaceItem): CredentialField[] =>
+  item.sealedCredentials?.fields ?? CREDENTIAL_FIELDS.filter((field) => !!item[field]);
+
+class CredentialVault {
+  private static instance: CredentialVault;
+  private privateKey: CryptoKey | null = null;
+  private openedKeys = new Map<string, CryptoKey>(); // 临时公钥 -> 解密密钥
+  private openedCredentials = new Map<string, Credentials>(); // 密文 -> 解密结果
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  private loadRecord(): VaultRecord | null {
+    try {
+      const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+      return saved ? (JSON.parse(saved) as VaultRecord) : null;
+    } catch (error) {
+      logger.warn('读取凭据保险库失败', error);
+      return null;
+    }
+  }
+
+  isSetUp(): boolean {
+    return this.loadRecord() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.privateKey !== null;
+  }
+
+  getStatus(): VaultStatus {
+    if (!this.isSetUp()) return 'none';
+    return this.isUnlocked() ? 'unlocked' : 'locked';
+  }
+
+  private notifyChange() {
+    window.dispatchEvent(new CustomEvent(VAULT_CHANGED_EVENT, { detail: this.getStatus() }));
+  }
+
+  // 重新计时，超过设置的时间没有使用保险库时自动锁定
+  private touch() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    const minutes = loadStoredSetting('vaultAutoLockMinutes');
+    this.lockTimer = setTimeout(() => this.lock(), minutes * 60 * 1000);
+  }
+
+  private async deriveMasterKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async importPrivateKey(pkcs8: ArrayBuffer): Promise<CryptoKey> {
+    return crypto.subtle.importKey('pkcs8', pkcs8, ECDH_PARAMS, false, ['deriveKey']);
+  }
+
+  // 创建保险库并保持解锁状态
+  async setup(password: string): Promise<void> {
+    if (this.isSetUp()) {
+      throw new Error('凭据保险库已存在');
+    }
+
+    const salt = randomBytes(16);
+    const masterKey = await this.deriveMasterKey(password, salt, PBKDF2_ITERATIONS);
+    const keyPair = (await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey'])) as CryptoKeyPair;
+    const pkcs8 = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+    const iv = randomBytes(12);
+    const encryptedPrivateKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, masterKey, pkcs8);
+
+    const record: VaultRecord = {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      publicKey: toBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+      encryptedPrivateKey: { iv: toBase64(iv), data: toBase64(encryptedPrivateKey) },
+    };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(record));
+
+    this.privateKey = await this.importPrivateKey(pkcs8);
+    this.touch();
+    this.notifyChange();
+    logger.debug('🔐 凭据保险库已创建');
+  }
+
+  // 使用主密码解锁，密码错误时返回 false
+  async unlock(password: string): Promise<boolean> {
+    const record = this.loadRecord();
+    if (!record) {
+      throw new Error('尚未创建凭据保险库');
+    }
+
+    const masterKey = await this.deriveMasterKey(password, fromBase64(record.salt), record.iterations);
+    let pkcs8: ArrayBuffer;
+    try {
+      pkcs8 = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(record.encryptedPrivateKey.iv) },
+        masterKey,
+        fromBase64(record.encryptedPrivateKey.data)
+      );
+    } catch {
+      // AES-GCM 校验失败即主密码错误
+      return false;
+    }
+
+    this.privateKey = await this.importPrivateKey(pkcs8);
+    this.touch();
+    this.notifyChange();
+    return true;
+  }
+
+  // 锁定并清除内存中已解密的登录信息
+  lock() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+    const wasUnlocked = this.isUnlocked();
+    this.privateKey = null;
+    this.openedKeys.clear();
+    this.openedCredentials.clear();
+    if (wasUnlocked) {
+      this.notifyChange();
+      logger.debug('🔒 凭据保险库已锁定');
+    }
+  }
+
+  // 删除保险库，已加密的登录信息将无法解密，需要重新从数据源同步
+  reset() {
+    this.lock();
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.notifyChange();
+  }
+
+  // 加密一批登录信息，同一批共用一个临时密钥
+  async seal(credentialsList: Credentials[]): Promise<SealedCredentials[]> {
+    const record = this.loadRecord();
+    if (!record) {
+      throw new Error('尚未创建凭据保险库');
+    }
+
+    const publicKey = await crypto.subtle.importKey('raw', fromBase64(record.publicKey), ECDH_PARAMS, false, []);
+    const ephemeral = (await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey'])) as CryptoKeyPair;
+    const key = await crypto.subtle.deriveKey(
+      { name: 'ECDH', public: publicKey },
+      ephemeral.privateKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt']
+    );
+    const ephemeralKey = toBase64(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+    return Promise.all(
+      credentialsList.map(async (credentials) => {
+        const iv = randomBytes(12);
+        const data = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv },
+          key,
+          encoder.encode(JSON.stringify(credentials))
+        );
+        return {
+          fields: CREDENTIAL_FIELDS.filter((field) => !!credentials[field]),
+          ephemeralKey,
+          iv: toBase64(iv),
+          data: toBase64(data),
+        };
+      })
+    );
+  }
+
+  // 解密登录信息，需要先解锁
+  async open(sealed: SealedCredentials): Promise<Credentials> {
+    if (!this.privateKey) {
+      throw new Error('凭据保险库已锁定');
+    }
+    this.touch();
+
+    const cached = this.openedCredentials.get(sealed.data);
+    if (cached) return cached;
+
+    let key = this.openedKeys.get(sealed.ephemeralKey);
+    if (!key) {
+      const ephemeralKey = await crypto.subtle.importKey(
+        'raw',
+        fromBase64(sealed.ephemeralKey),
+        ECDH_PARAMS,
+        false,
+        []
+      );
+      key = await crypto.subtle.deriveKey(
+        { name: 'ECDH', public: ephemeralKey },
+        this.privateKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+      );
+      this.openedKeys.set(sealed.ephemeralKey, key);
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    } catch {
+      throw new Error('无法解密登录信息，保险库可能已重置，请重新同步');
+    }
+    const credentials = JSON.parse(decoder.decode(plaintext)) as Credentials;
+    this.openedCredentials.set(sealed.data, credentials);
+    return credentials;
+  }
+}
+
+export const credentialVault = CredentialVault.getInstance();
+
+/**
+ * 加密项目中的明文登录信息，未创建保险库时原样返回
+ */
+export const sealWorkspaceItems = async (items: WorkspaceItem[]): Promise<WorkspaceItem[]> => {
+  if (!credentialVault.isSetUp()) return items;
+
+  const targets = items.filter((item) => !item.sealedCredentials && getCredentialFields(item).length > 0);
+  if (targets.length === 0) return items;
+
+  const sealed = await credentialVault.seal(targets.map(getPlainCredentials));
+  const sealedById = new Map(targets.map((item, index) => [item.id, sealed[index]]));
+  return items.map((item) => {
+    const sealedCredentials = sealedById.get(item.id);
+    if (!sealedCredentials) return item;
+
+    const sealedItem: WorkspaceItem = { ...item, sealedCredentials };
+    CREDENTIAL_FIELDS.forEach((field) => delete sealedItem[field]);
+    return sealedItem;
+  });
+};
+
+/**
+ * 读取项目的登录信息，已加密时需要先解锁保险库
+ */
+export const openItemCredentials = async (item: WorkspaceItem): Promise<Credentials> =>
+  item.sealedCredentials ? credentialVault.open(item.sealedCredentials) : getPlainCredentials(item);
+
+let clipboardTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 复制敏感内容，在设置的时间后清除剪贴板（剪贴板已被替换为其他内容时不清除）
+ */
+export const copySecretToClipboard = async (value: string) => {
+  await navigator.clipboard.writeText(value);
+
+  if (clipboardTimer) {
+    clearTimeout(clipboardTimer);
+    clipboardTimer = null;
+  }
+  const seconds = loadStoredSetting('clipboardClearSeconds');
+  if (seconds <= 0) return;
+
+  clipboardTimer = setTimeout(async () => {
+    clipboardTimer = null;
+    try {
+      // 没有读取剪贴板的权限时直接清除
+      const current = await navigator.clipboard.readText().catch(() => value);
+      if (current === value) {
+        await navigator.clipboard.writeText('');
+        logger.debug('🧹 已清除剪贴板中的登录信息');
+      }
+    } catch (error) {
+      logger.warn('清除剪贴板失败', error);
+    }
+  }, seconds * 1000);
+};
@@ -3,6 +3,7 @@ import { indexedDBCache } from './indexedDBCache';
 import { memoryManager } from './memoryManager';
 import { logger } from './logger';
 import { clearCustomWallpaperColorCache, clearAllColorCache } from '@/utils/imageColorAnalyzer';
+import { downloadWallpaperFile } from './wallpaperStorage';
 
 // 壁纸元数据接口
 export interface WallpaperMetadata {
@@ -13,8 +14,21 @@ export interface WallpaperMetadata {
   width: number;
   height: number;
   sourceUrl?: string; // 原始URL（用于收藏功能判重）
+  updatedAt?: number; // 最后修改时间（云端同步合并使用）
+  storagePath?: string; // 云端备份的原图路径，其他设备按需下载
+  thumbnailPath?: string; // 云端备份的缩略图路径
 }
 
+// 已删除壁纸的记录，同步到云端后清除
+export interface DeletedWallpaper {
+  id: string;
+  deletedAt: number;
+}
+
+// 壁纸列表变化事件：local 为本设备操作，cloud 为云端同步写入（不再回传）
+export type WallpaperUpdateSource = 'local' | 'cloud';
+export const CUSTOM_WALLPAPERS_UPDATED_EVENT = 'customWallpapersUpdated';
+
 // 壁纸数据接口（包含原图和缩略图）
 export interface WallpaperData {
   metadata: WallpaperMetadata;
@@ -28,6 +42,8 @@ class CustomWallpaperManager {
   private readonly WALLPAPER_LIST_KEY = 'custom-wallpaper-list';
   private readonly CURRENT_WALLPAPER_KEY = 'current-custom-wallpaper-id';
   private readonly THUMBNAIL_PREFIX = 'custom-wallpaper-thumb-';
+  private readonly DELETED_LIST_KEY = 'custom-wallpaper-deleted';
+  private readonly STORAGE_TTL = 365 * 24 * 60 * 60 * 1000; // 1年有效期
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
   private readonly ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
   private readonly THUMBNAIL_SIZE = 300; // 缩略图宽度
@@ -148,15 +164,109 @@ class CustomWallpaperManager {
   }
 
   // 保存壁纸列表（存储在 localStorage 中，因为是小型 JSON 数据）
-  private async saveWallpaperList(list: WallpaperMetadata[]): Promise<void> {
+  private async saveWallpaperList(list: WallpaperMetadata[], source: WallpaperUpdateSource = 'local'): Promise<void> {
     try {
       localStorage.setItem(this.WALLPAPER_LIST_KEY, JSON.stringify(list));
+      window.dispatchEvent(new CustomEvent(CUSTOM_WALLPAPERS_UPDATED_EVENT, { detail: { source } }));
     } catch (error) {
       logger.wallpaper.error('保存壁纸列表失败', error);
       throw error;
     }
   }
 
+  // 获取已删除但尚未同步到云端的壁纸
+  getDeletedWallpapers(): DeletedWallpaper[] {
+    try {
+      const data = localStorage.getItem(this.DELETED_LIST_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // 删除记录同步到云端后清除
+  clearDeletedWallpapers(ids: string[]): void {
+    const remaining = this.getDeletedWallpapers().filter((item) => !ids.includes(item.id));
+    if (remaining.length > 0) {
+      localStorage.setItem(this.DELETED_LIST_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(this.DELETED_LIST_KEY);
+    }
+  }
+
+  private recordDeletedWallpapers(ids: string[]): void {
+    const deletedAt = Date.now();
+    const list = this.getDeletedWallpapers().filter((item) => !ids.includes(item.id));
+    list.push(...ids.map((id) => ({ id, deletedAt })));
+    localStorage.setItem(this.DELETED_LIST_KEY, JSON.stringify(list));
+  }
+
+  // 获取壁纸原图，本地没有时从云端备份下载并缓存到 IndexedDB
+  async getWallpaperBlob(id: string): Promise<Blob | null> {
+    const cached = (await indexedDBCache.get(`${this.WALLPAPER_PREFIX}${id}`)) as Blob | null;
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = (await this.getWallpaperList()).find((item) => item.id === id);
+    if (!metadata?.storagePath) {
+      return null;
+    }
+
+    logger.wallpaper.info('本地没有壁纸原图，从云端下载', { id });
+    const blob = await downloadWallpaperFile(metadata.storagePath);
+    await indexedDBCache.set(`${this.WALLPAPER_PREFIX}${id}`, blob, this.STORAGE_TTL);
+    return blob;
+  }
+
+  // 获取本地保存的缩略图
+  async getWallpaperThumbnail(id: string): Promise<Blob | null> {
+    return ((await indexedDBCache.get(`${this.THUMBNAIL_PREFIX}${id}`)) as Blob | null) || null;
+  }
+
+  // 获取缩略图，本地没有时从云端备份下载
+  private async getThumbnailBlob(metadata: WallpaperMetadata): Promise<Blob | null> {
+    const cached = (await indexedDBCache.get(`${this.THUMBNAIL_PREFIX}${metadata.id}`)) as Blob | null;
+    if (cached || !metadata.thumbnailPath) {
+      return cached;
+    }
+
+    try {
+      const blob = await downloadWallpaperFile(metadata.thumbnailPath);
+      await indexedDBCache.set(`${this.THUMBNAIL_PREFIX}${metadata.id}`, blob, this.STORAGE_TTL);
+      return blob;
+    } catch (error) {
+      logger.wallpaper.warn('下载云端缩略图失败', error);
+      return null;
+    }
+  }
+
+  // 添加其他设备备份的壁纸（只保存元数据和缩略图，原图在使用时再下载）
+  async addRemoteWallpaper(metadata: WallpaperMetadata, thumbnail: Blob | null): Promise<void> {
+    if (thumbnail) {
+      await indexedDBCache.set(`${this.THUMBNAIL_PREFIX}${metadata.id}`, thumbnail, this.STORAGE_TTL);
+    }
+
+    const list = await this.getWallpaperList();
+    if (!list.some((item) => item.id === metadata.id)) {
+      list.push(metadata);
+      await this.saveWallpaperList(list, 'cloud');
+    }
+  }
+
+  // 更新壁纸元数据（云端备份完成后记录存储路径）
+  async updateWallpaperMetadata(
+    id: string,
+    patch: Partial<WallpaperMetadata>,
+    source: WallpaperUpdateSource = 'local'
+  ): Promise<void> {
+    const list = await this.getWallpaperList();
+    await this.saveWallpaperList(
+      list.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+      source
+    );
+  }
+
   // 上传并保存自定义壁纸（保存原图）
   async uploadWallpaper(file: File): Promise<{ success: boolean; id?: string; error?: string }> {
     try {
@@ -192,21 +302,14 @@ class CustomWallpaperManager {
         uploadTime: Date.now(),
         width,
         height,
+        updatedAt: Date.now(),
       };
 
       // 保存原图到 IndexedDB
-      await indexedDBCache.set(
-        `${this.WALLPAPER_PREFIX}${id}`,
-        originalBlob,
-        365 * 24 * 60 * 60 * 1000 // 1年有效期
-      );
+      await indexedDBCache.set(`${this.WALLPAPER_PREFIX}${id}`, originalBlob, this.STORAGE_TTL);
 
       // 保存缩略图到 IndexedDB
-      await indexedDBCache.set(
-        `${this.THUMBNAIL_PREFIX}${id}`,
-        thumbnail,
-        365 * 24 * 60 * 60 * 1000
-      );
+      await indexedDBCache.set(`${this.THUMBNAIL_PREFIX}${id}`, thumbnail, this.STORAGE_TTL);
 
       // 更新壁纸列表
       const list = await this.getWallpaperList();
@@ -233,6 +336,11 @@ class CustomWallpaperManager {
     }
   }
 
+  // 获取壁纸列表（仅元数据，不生成缩略图）
+  async listWallpapers(): Promise<WallpaperMetadata[]> {
+    return this.getWallpaperList();
+  }
+
   // 获取所有壁纸（带缩略图）
   async getAllWallpapers(): Promise<
     Array<{ metadata: WallpaperMetadata; thumbnailUrl: string; isActive: boolean }>
@@ -243,9 +351,7 @@ class CustomWallpaperManager {
 
       const wallpapers = await Promise.all(
         list.map(async (metadata) => {
-          const thumbnail = (await indexedDBCache.get(
-            `${this.THUMBNAIL_PREFIX}${metadata.id}`
-          )) as Blob;
+          const thumbnail = await this.getThumbnailBlob(metadata);
           const thumbnailUrl = thumbnail
             ? await memoryManager.createBlobUrl(thumbnail, 'custom-wallpaper-thumb')
             : '';
@@ -295,7 +401,7 @@ class CustomWallpaperManager {
         return null;
       }
 
-      const blob = (await indexedDBCache.get(`${this.WALLPAPER_PREFIX}${currentId}`)) as Blob;
+      const blob = await this.getWallpaperBlob(currentId);
 
       if (blob) {
         logger.wallpaper.info('获取当前自定义壁纸成功（原图）', { id: currentId });
@@ -313,7 +419,7 @@ class CustomWallpaperManager {
   // 获取指定壁纸的原图URL（用于预览）
   async getWallpaperFullImage(id: string): Promise<string | null> {
     try {
-      const blob = (await indexedDBCache.get(`${this.WALLPAPER_PREFIX}${id}`)) as Blob;
+      const blob = await this.getWallpaperBlob(id);
 
       if (blob) {
         logger.wallpaper.info('获取壁纸原图成功', { id });
@@ -327,8 +433,8 @@ class CustomWallpaperManager {
     }
   }
 
-  // 删除指定壁纸
-  async deleteWallpaper(id: string): Promise<boolean> {
+  // 删除指定壁纸（cloud 为其他设备删除后同步过来，不再记录删除）
+  async deleteWallpaper(id: string, source: WallpaperUpdateSource = 'local'): Promise<boolean> {
     try {
       // 从 IndexedDB 删除原图和缩略图
       await indexedDBCache.delete(`${this.WALLPAPER_PREFIX}${id}`);
@@ -337,7 +443,10 @@ class CustomWallpaperManager {
       // 从列表中移除
       const list = await this.getWallpaperList();
       const newList = list.filter((item) => item.id !== id);
-      await this.saveWallpaperList(newList);
+      if (source === 'local') {
+        this.recordDeletedWallpapers([id]);
+      }
+      await this.saveWallpaperList(newList, source);
 
       // 如果删除的是当前壁纸，清除当前壁纸设置
       const currentId = await this.getCurrentWallpaperId();
@@ -370,7 +479,8 @@ class CustomWallpaperManager {
         await indexedDBCache.delete(`${this.THUMBNAIL_PREFIX}${metadata.id}`);
       }
 
-      await indexedDBCache.delete(this.WALLPAPER_LIST_KEY);
+      this.recordDeletedWallpapers(list.map((metadata) => metadata.id));
+      await this.saveWallpaperList([]);
       localStorage.removeItem(this.CURRENT_WALLPAPER_KEY);
 
       // 清理内存中的 Blob URL
@@ -411,7 +521,7 @@ class CustomWallpaperManager {
   // 下载壁纸
   async downloadWallpaper(id: string): Promise<boolean> {
     try {
-      const blob = (await indexedDBCache.get(`${this.WALLPAPER_PREFIX}${id}`)) as Blob;
+      const blob = await this.getWallpaperBlob(id);
       const list = await this.getWallpaperList();
       const metadata = list.find((item) => item.id === id);
 
@@ -649,21 +759,14 @@ class CustomWallpaperManager {
         width,
         height,
         sourceUrl: url, // 保存原始URL
+        updatedAt: Date.now(),
       };
 
       // 保存原图到 IndexedDB
-      await indexedDBCache.set(
-        `${this.WALLPAPER_PREFIX}${id}`,
-        originalBlob,
-        365 * 24 * 60 * 60 * 1000
-      );
+      await indexedDBCache.set(`${this.WALLPAPER_PREFIX}${id}`, originalBlob, this.STORAGE_TTL);
 
       // 保存缩略图到 IndexedDB
-      await indexedDBCache.set(
-        `${this.THUMBNAIL_PREFIX}${id}`,
-        thumbnail,
-        365 * 24 * 60 * 60 * 1000
-      );
+      await indexedDBCache.set(`${this.THUMBNAIL_PREFIX}${id}`, thumbnail, this.STORAGE_TTL);
 
       // 更新壁纸列表
       const list = await this.getWallpaperList();
@@ -1,6 +1,16 @@
 // 数据验证工具 - 确保同步数据的完整性和有效性
-import { WebsiteData, UserSettings } from './supabaseSync';
+import {
+  WebsiteData,
+  WebsiteGroup,
+  WebsitePage,
+  TodoItem,
+  TodoPriority,
+  UserSettings,
+  CloudWallpaperRecord,
+} from './supabaseSync';
 import { WallpaperResolution } from '@/contexts/TransparencyContext';
+import { SearchEngine, isValidUrlTemplate, normalizeBang } from './searchEngines';
+import { sanitizeSettings } from './settingsSchema';
 
 /**
  * 验证网站数据的有效性
@@ -51,6 +61,18 @@ export const validateWebsiteData = (website: any): website is WebsiteData => {
     return false;
   }
 
+  if (website.groupId !== undefined && typeof website.groupId !== 'string') {
+    return false;
+  }
+
+  if (website.pageId !== undefined && typeof website.pageId !== 'string') {
+    return false;
+  }
+
+  if (website.archived !== undefined && typeof website.archived !== 'boolean') {
+    return false;
+  }
+
   return true;
 };
 
@@ -115,6 +137,9 @@ export const sanitizeWebsiteData = (website: any): WebsiteData | null => {
     visitCount: typeof website.visitCount === 'number' ? Math.max(0, website.visitCount) : 0,
     lastVisit: website.lastVisit || new Date().toISOString(),
     note: typeof website.note === 'string' ? website.note : undefined,
+    groupId: typeof website.groupId === 'string' && website.groupId ? website.groupId : undefined,
+    pageId: typeof website.pageId === 'string' && website.pageId ? website.pageId : undefined,
+    archived: website.archived === true ? true : undefined,
     updatedAt: typeof website.updatedAt === 'number' ? website.updatedAt : Date.now(),
     deleted: typeof website.deleted === 'boolean' ? website.deleted : false,
   };
@@ -125,44 +150,9 @@ export const sanitizeWebsiteData = (website: any): WebsiteData | null => {
  */
 export const sanitizeUserSettings = (settings: any): UserSettings => {
   return {
-    cardOpacity:
-      typeof settings.cardOpacity === 'number'
-        ? Math.max(0.05, Math.min(1, settings.cardOpacity))
-        : 0.1,
-    searchBarOpacity:
-      typeof settings.searchBarOpacity === 'number'
-        ? Math.max(0.05, Math.min(1, settings.searchBarOpacity))
-        : 0.1,
-    parallaxEnabled:
-      typeof settings.parallaxEnabled === 'boolean' ? settings.parallaxEnabled : true,
-    wallpaperResolution: (['4k', '1080p', '720p', 'mobile'] as WallpaperResolution[]).includes(
-      settings.wallpaperResolution
-    )
-      ? settings.wallpaperResolution
-      : '1080p',
-    theme: typeof settings.theme === 'string' ? settings.theme : 'light',
-    cardColor: typeof settings.cardColor === 'string' ? settings.cardColor : '255, 255, 255',
-    searchBarColor:
-      typeof settings.searchBarColor === 'string' ? settings.searchBarColor : '255, 255, 255',
-    autoSyncEnabled:
-      typeof settings.autoSyncEnabled === 'boolean' ? settings.autoSyncEnabled : true,
-    autoSyncInterval:
-      typeof settings.autoSyncInterval === 'number' &&
-        settings.autoSyncInterval >= 3 &&
-        settings.autoSyncInterval <= 300
-        ? settings.autoSyncInterval
-        : 30,
-    autoSortEnabled:
-      typeof settings.autoSortEnabled === 'boolean' ? settings.autoSortEnabled : false,
-    timeComponentEnabled:
-      typeof settings.timeComponentEnabled === 'boolean' ? settings.timeComponentEnabled : true,
-    showFullDate: typeof settings.showFullDate === 'boolean' ? settings.showFullDate : true,
-    showSeconds: typeof settings.showSeconds === 'boolean' ? settings.showSeconds : true,
-    showWeekday: typeof settings.showWeekday === 'boolean' ? settings.showWeekday : true,
-    showYear: typeof settings.showYear === 'boolean' ? settings.showYear : true,
-    showMonth: typeof settings.showMonth === 'boolean' ? settings.showMonth : true,
-    showDay: typeof settings.showDay === 'boolean' ? settings.showDay : true,
-    lastSync: typeof settings.lastSync === 'string' ? settings.lastSync : new Date().toISOString(),
+    ...sanitizeSettings(settings, 'cloud'),
+    theme: typeof settings?.theme === 'string' ? settings.theme : undefined,
+    lastSync: typeof settings?.lastSync === 'string' ? settings.lastSync : new Date().toISOString(),
   };
 };
 
@@ -179,6 +169,250 @@ export const sanitizeWebsiteArray = (websites: any[]): WebsiteData[] => {
     .filter((website): website is WebsiteData => website !== null);
 };
 
+// 未知输入按普通对象读取字段，不是对象时返回 null
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+/**
+ * 清理和标准化网站分组数据
+ */
+export const sanitizeWebsiteGroup = (value: unknown): WebsiteGroup | null => {
+  const group = asRecord(value);
+  if (!group) {
+    return null;
+  }
+
+  if (!group.id || typeof group.id !== 'string' || group.id.trim().length === 0) {
+    return null;
+  }
+
+  if (typeof group.name !== 'string') {
+    return null;
+  }
+
+  return {
+    id: group.id.trim(),
+    name: group.name.trim().slice(0, 20) || '未命名分组',
+    order: typeof group.order === 'number' ? group.order : 0,
+    collapsed: typeof group.collapsed === 'boolean' ? group.collapsed : true,
+    pageId: typeof group.pageId === 'string' && group.pageId ? group.pageId : undefined,
+    updatedAt: typeof group.updatedAt === 'number' ? group.updatedAt : Date.now(),
+    deleted: typeof group.deleted === 'boolean' ? group.deleted : false,
+  };
+};
+
+/**
+ * 批量验证和清理分组数据
+ */
+export const sanitizeWebsiteGroupArray = (groups: unknown): WebsiteGroup[] => {
+  if (!Array.isArray(groups)) {
+    return [];
+  }
+
+  return groups
+    .map(sanitizeWebsiteGroup)
+    .filter((group): group is WebsiteGroup => group !== null);
+};
+
+/**
+ * 清理和标准化页面数据
+ */
+export const sanitizeWebsitePage = (value: unknown): WebsitePage | null => {
+  const page = asRecord(value);
+  if (!page) {
+    return null;
+  }
+
+  if (!page.id || typeof page.id !== 'string' || page.id.trim().length === 0) {
+    return null;
+  }
+
+  if (typeof page.name !== 'string') {
+    return null;
+  }
+
+  return {
+    id: page.id.trim(),
+    name: page.name.trim().slice(0, 12) || '未命名页面',
+    order: typeof page.order === 'number' ? page.order : 0,
+    updatedAt: typeof page.updatedAt === 'number' ? page.updatedAt : Date.now(),
+    deleted: typeof page.deleted === 'boolean' ? page.deleted : false,
+  };
+};
+
+/**
+ * 批量验证和清理页面数据
+ */
+export const sanitizeWebsitePageArray = (pages: unknown): WebsitePage[] => {
+  if (!Array.isArray(pages)) {
+    return [];
+  }
+
+  return pages
+    .map(sanitizeWebsitePage)
+    .filter((page): page is WebsitePage => page !== null);
+};
+
+const isTodoPriority = (value: unknown): value is TodoPriority =>
+  value === 'high' || value === 'medium' || value === 'low';
+
+/**
+ * 清理和标准化待办事项，旧数据缺少 updatedAt 时使用创建时间
+ */
+export const sanitizeTodoItem = (value: unknown): TodoItem | null => {
+  const todo = asRecord(value);
+  if (!todo) {
+    return null;
+  }
+
+  if (!todo.id || typeof todo.id !== 'string' || todo.id.trim().length === 0) {
+    return null;
+  }
+
+  if (typeof todo.text !== 'string') {
+    return null;
+  }
+
+  const createdAt = typeof todo.createdAt === 'number' ? todo.createdAt : Date.now();
+
+  return {
+    id: todo.id.trim(),
+    text: todo.text,
+    completed: !!todo.completed,
+    createdAt,
+    order: typeof todo.order === 'number' ? todo.order : 0,
+    dueAt: typeof todo.dueAt === 'number' ? todo.dueAt : undefined,
+    priority: isTodoPriority(todo.priority) ? todo.priority : undefined,
+    remindedAt: typeof todo.remindedAt === 'number' ? todo.remindedAt : undefined,
+    updatedAt: typeof todo.updatedAt === 'number' ? todo.updatedAt : createdAt,
+    deleted: typeof todo.deleted === 'boolean' ? todo.deleted : false,
+  };
+};
+
+/**
+ * 批量验证和清理待办事项
+ */
+export const sanitizeTodoArray = (todos: unknown): TodoItem[] => {
+  if (!Array.isArray(todos)) {
+    return [];
+  }
+
+  return todos
+    .map(sanitizeTodoItem)
+    .filter((todo): todo is TodoItem => todo !== null);
+};
+
+/**
+ * 清理和标准化云端壁纸记录，存储路径只接受私有存储桶 user-wallpapers 中 <用户ID>/ 目录下的文件
+ */
+export const sanitizeWallpaperRecord = (value: unknown): CloudWallpaperRecord | null => {
+  const record = asRecord(value);
+  if (!record) {
+    return null;
+  }
+
+  if (!record.id || typeof record.id !== 'string' || record.id.trim().length === 0) {
+    return null;
+  }
+
+  const uploadTime = typeof record.uploadTime === 'number' ? record.uploadTime : Date.now();
+  // 存储路径为 <用户ID>/<壁纸ID>，不允许跳出用户目录
+  const isStoragePath = (value: unknown): value is string =>
+    typeof value === 'string' && /^[\w-]+\/[\w.-]+$/.test(value) && !value.includes('..');
+
+  return {
+    id: record.id.trim(),
+    name: typeof record.name === 'string' ? record.name : '',
+    size: typeof record.size === 'number' ? record.size : 0,
+    uploadTime,
+    width: typeof record.width === 'number' ? record.width : 0,
+    height: typeof record.height === 'number' ? record.height : 0,
+    sourceUrl: typeof record.sourceUrl === 'string' ? record.sourceUrl : undefined,
+    storagePath: isStoragePath(record.storagePath) ? record.storagePath : undefined,
+    thumbnailPath: isStoragePath(record.thumbnailPath) ? record.thumbnailPath : undefined,
+    updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : uploadTime,
+    deleted: typeof record.deleted === 'boolean' ? record.deleted : false,
+  };
+};
+
+/**
+ * 批量验证和清理云端壁纸记录
+ */
+export const sanitizeWallpaperRecordArray = (records: unknown): CloudWallpaperRecord[] => {
+  if (!Array.isArray(records)) {
+    return [];
+  }
+
+  return records
+    .map(sanitizeWallpaperRecord)
+    .filter((record): record is CloudWallpaperRecord => record !== null);
+};
+
+/**
+ * 清理和标准化搜索引擎，地址模板必须是包含 %s 的 http(s) 地址
+ */
+export const sanitizeSearchEngine = (value: unknown): SearchEngine | null => {
+  const engine = asRecord(value);
+  if (!engine) {
+    return null;
+  }
+
+  if (!engine.id || typeof engine.id !== 'string' || engine.id.trim().length === 0) {
+    return null;
+  }
+
+  if (typeof engine.name !== 'string' || engine.name.trim().length === 0) {
+    return null;
+  }
+
+  if (typeof engine.urlTemplate !== 'string' || !isValidUrlTemplate(engine.urlTemplate.trim())) {
+    return null;
+  }
+
+  const bang = typeof engine.bang === 'string' ? normalizeBang(engine.bang) : '';
+
+  return {
+    id: engine.id.trim(),
+    name: engine.name.trim().slice(0, 30),
+    icon: typeof engine.icon === 'string' ? engine.icon.trim() : '',
+    urlTemplate: engine.urlTemplate.trim(),
+    suggestUrl:
+      typeof engine.suggestUrl === 'string' && engine.suggestUrl.includes('%s')
+        ? engine.suggestUrl.trim()
+        : undefined,
+    bang: /^[a-z0-9]+$/.test(bang) ? bang : undefined,
+    bangOnly: !!engine.bangOnly,
+    builtin: !!engine.builtin,
+  };
+};
+
+/**
+ * 批量验证和清理搜索引擎，重复的 id 和 bang 只保留第一个
+ */
+export const sanitizeSearchEngineArray = (engines: unknown): SearchEngine[] => {
+  if (!Array.isArray(engines)) {
+    return [];
+  }
+
+  const ids = new Set<string>();
+  const bangs = new Set<string>();
+  const result: SearchEngine[] = [];
+
+  engines.map(sanitizeSearchEngine).forEach((engine) => {
+    if (!engine || ids.has(engine.id)) return;
+    ids.add(engine.id);
+
+    if (engine.bang && bangs.has(engine.bang)) {
+      result.push({ ...engine, bang: undefined });
+      return;
+    }
+    if (engine.bang) bangs.add(engine.bang);
+    result.push(engine);
+  });
+
+  return result;
+};
+
 /**
  * 检查数据是否足够有效以进行同步
  */
@@ -61,3 +61,26 @@ export function getMsUntilNextDay(): number {
     tomorrow.setUTCHours(0, 0, 0, 0);
     return tomorrow.getTime() - now.getTime();
 }
+
+/**
+ * 将 HH:mm 转换为一天中的分钟数
+ */
+export function parseTimeToMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+}
+
+/**
+ * 判断本地时间是否在 HH:mm 时间段内（夜间模式定时、播放列表早晚时段）
+ * 支持跨天的时间段，如 22:00 - 06:00
+ */
+export function isTimeInRange(start: string, end: string, date: Date = new Date()): boolean {
+    const currentMinutes = date.getHours() * 60 + date.getMinutes();
+    const startMinutes = parseTimeToMinutes(start);
+    const endMinutes = parseTimeToMinutes(end);
+
+    if (startMinutes > endMinutes) {
+        return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+    }
+    return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+}
@@ -5,6 +5,8 @@
 
 import { indexedDBCache } from './indexedDBCache';
 import { createManagedBlobUrl, releaseManagedBlobUrl } from './memoryManager';
+import { createTimeoutSignal } from './abortUtils';
+import { corsProxyService } from './proxy';
 
 interface FaviconMetadata {
   domain: string;
@@ -150,17 +152,12 @@ class FaviconCacheManager {
   }
 
   /**
-   * 获取 favicon 的备用 URL 列表（使用favicon.im通过CORS代理）
+   * 获取 favicon 的备用 URL 列表（favicon.im 通过 CORS 代理访问）
    */
   private getFaviconUrls(originalUrl: string, domain: string): string[] {
     return [
-      // 优先使用 allorigins 代理访问 favicon.im（稳定可靠）
-      `https://api.allorigins.win/raw?url=${encodeURIComponent(`https://favicon.im/${domain}?larger=true&size=64`)}`,
-      `https://api.allorigins.win/raw?url=${encodeURIComponent(`https://favicon.im/${domain}?larger=true&size=32`)}`,
-
-      // 备用：使用 corsproxy.io
-      `https://corsproxy.io/?${encodeURIComponent(`https://favicon.im/${domain}?larger=true&size=64`)}`,
-      `https://corsproxy.io/?${encodeURIComponent(`https://favicon.im/${domain}?larger=true&size=32`)}`,
+      `https://favicon.im/${domain}?larger=true&size=64`,
+      `https://favicon.im/${domain}?larger=true&size=32`,
 
       // 最后使用原始 URL（如果提供）
       ...(originalUrl && !originalUrl.includes('favicon.im') ? [originalUrl] : []),
@@ -175,21 +172,19 @@ class FaviconCacheManager {
       try {
         console.log(`🔄 尝试下载 favicon: ${domain} -> ${url}`);
 
-        // 添加超时控制
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5秒超时
-
-        const response = await fetch(url, {
+        const init: RequestInit = {
           mode: 'cors',
           credentials: 'omit',
           headers: {
             Accept: 'image/*,*/*;q=0.8',
             'User-Agent': 'Mozilla/5.0 (compatible; FaviconBot/1.0)',
           },
-          signal: controller.signal,
-        });
+        };
 
-        clearTimeout(timeoutId);
+        // favicon.im 通过代理服务访问，原始地址直接请求（5秒超时）
+        const response = url.includes('favicon.im')
+          ? await corsProxyService.request(url, { ...init, binary: true, timeoutMs: 5000 })
+          : await fetch(url, { ...init, signal: createTimeoutSignal(5000) });
 
         if (!response.ok) throw new Error(`HTTP ${response.status}`);
 
@@ -237,11 +232,6 @@ class FaviconCacheManager {
         return blobUrl;
       } catch (error) {
         console.log(`❌ Favicon 下载失败: ${domain} -> ${url} (${error})`);
-
-        // 如果是代理URL失败，记录并继续尝试直接URL
-        if (url.includes('api.allorigins.win')) {
-          console.log(`🔄 代理服务失败，将尝试直接访问`);
-        }
         continue;
       }
     }
@@ -4,6 +4,7 @@
  */
 
 import { faviconCache } from './faviconCache';
+import { corsProxyService } from './proxy';
 
 /**
  * 提取域名的辅助函数
@@ -29,8 +30,6 @@ export const processFaviconUrl = (url: string, originalUrl: string, faviconUrl:
     return faviconUrl; // 返回原始的 faviconUrl 而不是默认图标
   }
 
-  const proxyPrefix = 'https://api.allorigins.win/raw?url=';
-
   // 1. 如果是 HTTP 协议，尝试升级或代理
   if (url.startsWith('http://')) {
     // 开发环境本地调试不处理
@@ -44,11 +43,11 @@ export const processFaviconUrl = (url: string, originalUrl: string, faviconUrl:
     }
 
     // 其他 HTTP 链接使用代理，避免混合内容警告
-    return proxyPrefix + encodeURIComponent(url);
+    return corsProxyService.getProxiedUrl(url, true) ?? url;
   }
 
-  // 2. 检查是否是需要代理的URL
-  if (url.includes('favicon.im') && !url.includes('api.allorigins.win')) {
+  // 2. 检查是否是需要代理的URL（已经过代理的地址只在参数中包含 favicon.im）
+  if (/^https:\/\/favicon\.im\//.test(url)) {
     // 先检查是否已有缓存，如果有缓存则不需要代理
     const cached = faviconCache.getCachedFavicon(originalUrl);
 
@@ -56,7 +55,7 @@ export const processFaviconUrl = (url: string, originalUrl: string, faviconUrl:
       return url; // 直接返回原URL，不使用代理
     }
 
-    return proxyPrefix + encodeURIComponent(url);
+    return corsProxyService.getProxiedUrl(url, true) ?? url;
   }
 
   return url;
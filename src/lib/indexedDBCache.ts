@@ -1,10 +1,11 @@
-// IndexedDB 缓存管理器 - 专门用于持久化存储图片等大文件
+// IndexedDB 缓存管理器 - 持久化存储图片等大文件，以及工作空间数据等结构化数据
 class IndexedDBCache {
   private static instance: IndexedDBCache;
   private db: IDBDatabase | null = null;
   private dbName = 'WallpaperCache';
-  private version = 1;
+  private version = 2;
   private storeName = 'images';
+  private recordStoreName = 'records'; // 结构化数据，不过期
 
   static getInstance(): IndexedDBCache {
     if (!IndexedDBCache.instance) {
@@ -25,10 +26,19 @@ class IndexedDBCache {
 
       request.onsuccess = () => {
         this.db = request.result;
+        // 其他标签页升级数据库版本时关闭连接，下次使用时重新打开
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         console.log('✅ IndexedDB 初始化成功');
         resolve();
       };
 
+      request.onblocked = () => {
+        console.warn('IndexedDB 升级被其他标签页阻塞，请关闭旧的标签页');
+      };
+
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
 
@@ -38,6 +48,11 @@ class IndexedDBCache {
           store.createIndex('timestamp', 'timestamp', { unique: false });
           console.log('📦 创建 IndexedDB 存储空间');
         }
+
+        if (!db.objectStoreNames.contains(this.recordStoreName)) {
+          db.createObjectStore(this.recordStoreName, { keyPath: 'key' });
+          console.log('📦 创建 IndexedDB 数据存储空间');
+        }
       };
     });
   }
@@ -198,6 +213,59 @@ class IndexedDBCache {
     }
   }
 
+  // 保存结构化数据（可被结构化克隆的对象）
+  async setRecord<T>(key: string, value: T): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction([this.recordStoreName], 'readwrite');
+    const store = transaction.objectStore(this.recordStoreName);
+    const request = store.put({ key, value, timestamp: Date.now() });
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.error('IndexedDB 保存数据失败:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  // 读取结构化数据，不存在或读取失败时返回 null
+  async getRecord<T>(key: string): Promise<T | null> {
+    try {
+      const db = await this.ensureDB();
+      const transaction = db.transaction([this.recordStoreName], 'readonly');
+      const store = transaction.objectStore(this.recordStoreName);
+      const request = store.get(key);
+
+      return new Promise((resolve) => {
+        request.onsuccess = () => resolve(request.result ? (request.result.value as T) : null);
+        request.onerror = () => {
+          console.error('IndexedDB 读取数据失败:', request.error);
+          resolve(null);
+        };
+      });
+    } catch (error) {
+      console.error('IndexedDB 读取数据异常:', error);
+      return null;
+    }
+  }
+
+  // 删除结构化数据
+  async deleteRecord(key: string): Promise<void> {
+    try {
+      const db = await this.ensureDB();
+      const transaction = db.transaction([this.recordStoreName], 'readwrite');
+      transaction.objectStore(this.recordStoreName).delete(key);
+
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error('IndexedDB 删除数据异常:', error);
+    }
+  }
+
   // 清理过期缓存
   async cleanup(): Promise<void> {
     try {
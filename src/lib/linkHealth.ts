@@ -0,0 +1,249 @@
+// 链接健康检查 - 通过 proxy-fetch 边缘函数定期检查卡片地址，记录状态码、最终地址和检查时间
+// 检查结果只保存在本机（不同网络环境的结果可能不同），变化时派发 LINK_HEALTH_UPDATED_EVENT
+import { logger } from './logger';
+import { createTimeoutSignal } from './abortUtils';
+import { EDGE_PROXY_ID, mergeHeaders, proxyConfigs, transformUrl } from './proxy';
+import type { WebsiteData } from './supabaseSync';
+
+/**
+ * 链接状态
+ * - ok: 可以访问
+ * - redirected: 可以访问，但跳转到了其他地址（换域名、升级 HTTPS 等）
+ * - broken: 页面不存在（404/410）或重定向死循环
+ * - unreachable: 无法连接、超时或服务器错误
+ */
+export type LinkStatus = 'ok' | 'redirected' | 'broken' | 'unreachable';
+
+export interface LinkHealthRecord {
+  url: string; // 检查时的卡片地址，卡片地址修改后记录失效
+  status: LinkStatus;
+  httpStatus?: number;
+  finalUrl?: string;
+  checkedAt: number;
+  failures: number; // 连续无法访问的次数
+  error?: string;
+}
+
+export const LINK_HEALTH_UPDATED_EVENT = 'linkHealthUpdated';
+
+const STORAGE_KEY = 'link-health';
+const CHECK_INTERVAL = 7 * 24 * 60 * 60 * 1000; // 每张卡片 7 天检查一次
+const REQUEST_TIMEOUT = 20000; // 略长于边缘函数自身的 15 秒超时
+// 偶发的网络问题不算失效，连续两次无法访问才提示
+const UNREACHABLE_THRESHOLD = 2;
+
+// 比较地址时忽略 hash 和末尾的斜杠
+const normalizeForCompare = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * 记录是否需要提示用户（失效、跳转或多次无法访问）
+ */
+export const isLinkProblem = (record?: LinkHealthRecord): boolean =>
+  !!record &&
+  (record.status === 'broken' ||
+    record.status === 'redirected' ||
+    (record.status === 'unreachable' && record.failures >= UNREACHABLE_THRESHOLD));
+
+/**
+ * 获取卡片当前地址对应的检查记录，地址修改过的旧记录不返回
+ */
+export const getLinkHealth = (
+  records: Record<string, LinkHealthRecord>,
+  website: Pick<WebsiteData, 'id' | 'url'>
+): LinkHealthRecord | undefined => {
+  const record = records[website.id];
+  return record && record.url === website.url ? record : undefined;
+};
+
+type CheckResult = Pick<LinkHealthRecord, 'status' | 'httpStatus' | 'finalUrl' | 'error'>;
+
+class LinkHealthChecker {
+  private records: Record<string, LinkHealthRecord> = {};
+  private running = false;
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * 检查依赖 proxy-fetch 边缘函数（需要配置 Supabase）
+   */
+  isAvailable(): boolean {
+    return proxyConfigs.some((config) => config.id === EDGE_PROXY_ID);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getRecords(): Record<string, LinkHealthRecord> {
+    return { ...this.records };
+  }
+
+  /**
+   * 检查到期的卡片（从未检查、地址已修改或超过检查间隔）
+   * @param websites 全部卡片，已删除和已归档的卡片不检查
+   * @param options.force 忽略检查间隔，检查全部卡片
+   * @param options.limit 本次最多检查的卡片数
+   * @param options.onProgress 每检查完一张卡片回调一次
+   * @returns 本次检查的卡片数
+   */
+  async checkWebsites(
+    websites: WebsiteData[],
+    options: { force?: boolean; limit?: number; onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<number> {
+    if (!this.isAvailable() || this.running) return 0;
+
+    const now = Date.now();
+    const activeWebsites = websites.filter((site) => !site.deleted && !site.archived);
+    this.prune(activeWebsites);
+
+    const due = activeWebsites
+      .filter((site) => {
+        const record = getLinkHealth(this.records, site);
+        return options.force || !record || now - record.checkedAt >= CHECK_INTERVAL;
+      })
+      // 最久未检查的优先
+      .sort((a, b) => (getLinkHealth(this.records, a)?.checkedAt || 0) - (getLinkHealth(this.records, b)?.checkedAt || 0))
+      .slice(0, options.limit ?? Infinity);
+
+    if (due.length === 0) return 0;
+
+    this.running = true;
+    let checked = 0;
+    try {
+      for (const website of due) {
+        const result = await this.checkUrl(website.url);
+        const previous = getLinkHealth(this.records, website);
+        this.records[website.id] = {
+          ...result,
+          url: website.url,
+          checkedAt: Date.now(),
+          failures: result.status === 'unreachable' ? (previous?.failures || 0) + 1 : 0,
+        };
+        checked++;
+        this.save();
+        options.onProgress?.(checked, due.length);
+      }
+    } catch (error) {
+      // 检查服务本身不可用（未部署、网络断开等），停止本轮检查，不记录为链接失效
+      logger.warn('链接检查服务不可用，停止本轮检查', error);
+    } finally {
+      this.running = false;
+    }
+
+    logger.debug('链接检查完成', { checked, total: due.length });
+    return checked;
+  }
+
+  /**
+   * 卡片地址已更新为跳转后的地址，直接记为正常，避免重复检查
+   */
+  acceptRedirect(id: string, finalUrl: string): void {
+    const record = this.records[id];
+    if (!record) return;
+    this.records[id] = { ...record, url: finalUrl, status: 'ok', finalUrl, failures: 0, error: undefined };
+    this.save();
+  }
+
+  remove(id: string): void {
+    if (!this.records[id]) return;
+    delete this.records[id];
+    this.save();
+  }
+
+  private async request(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+    const proxy = proxyConfigs.find((config) => config.id === EDGE_PROXY_ID);
+    if (!proxy) {
+      throw new Error('未配置 Supabase，无法检查链接');
+    }
+    // 直接请求边缘函数而不经过代理服务，失效的网站不应该拉低代理的健康评分
+    return fetch(transformUrl(proxy, url), {
+      method,
+      headers: mergeHeaders(proxy, { Accept: 'text/html,application/xhtml+xml,*/*' }),
+      signal: createTimeoutSignal(REQUEST_TIMEOUT),
+    });
+  }
+
+  /**
+   * 检查单个地址。边缘函数返回的目标站点响应带有 X-Final-Url，没有时说明是边缘函数自身的错误
+   * 边缘函数本身不可用时抛出异常
+   */
+  private async checkUrl(url: string): Promise<CheckResult> {
+    let response = await this.request(url, 'HEAD');
+    // 部分站点不支持 HEAD 请求，改用 GET 重试
+    if ([403, 405, 501].includes(response.status) && response.headers.get('X-Final-Url')) {
+      response = await this.request(url, 'GET');
+    }
+
+    const finalUrl = response.headers.get('X-Final-Url');
+    if (!finalUrl) {
+      const body = await response.json().catch(() => null);
+      const error = typeof body?.error === 'string' ? body.error : `HTTP ${response.status}`;
+      switch (response.status) {
+        case 400: // 地址不允许访问（内网地址等）
+        case 502: // 无法连接目标站点
+        case 504: // 目标站点超时
+          return { status: 'unreachable', error };
+        case 508:
+          return { status: 'broken', httpStatus: 508, error };
+        case 413: // 内容过大说明站点可以访问
+          return { status: 'ok' };
+        default:
+          throw new Error(`proxy-fetch 返回 ${response.status}: ${error}`);
+      }
+    }
+
+    await response.body?.cancel();
+    const httpStatus = response.status;
+
+    if (httpStatus === 404 || httpStatus === 410) {
+      return { status: 'broken', httpStatus, finalUrl };
+    }
+    if (httpStatus >= 500) {
+      return { status: 'unreachable', httpStatus, finalUrl, error: `HTTP ${httpStatus}` };
+    }
+
+    // 401/403/429 等说明站点仍然存在（需要登录或拒绝了机器访问），按可以访问处理
+    const redirected = normalizeForCompare(finalUrl) !== normalizeForCompare(url);
+    return { status: redirected ? 'redirected' : 'ok', httpStatus, finalUrl };
+  }
+
+  // 删除已不存在的卡片的记录
+  private prune(websites: WebsiteData[]) {
+    const ids = new Set(websites.map((site) => site.id));
+    const stale = Object.keys(this.records).filter((id) => !ids.has(id));
+    if (stale.length === 0) return;
+    stale.forEach((id) => delete this.records[id]);
+    this.save();
+  }
+
+  private load() {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      this.records = saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      logger.warn('读取链接检查记录失败', error);
+      this.records = {};
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      logger.warn('保存链接检查记录失败', error);
+    }
+    window.dispatchEvent(new CustomEvent(LINK_HEALTH_UPDATED_EVENT));
+  }
+}
+
+export const linkHealthChecker = new LinkHealthChecker();
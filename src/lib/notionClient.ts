@@ -1,4 +1,8 @@
 // Notion API 客户端
+import { indexedDBCache } from './indexedDBCache';
+import { sealWorkspaceItems } from './credentialVault';
+import type { WorkspaceItem, WorkspaceItemDraft } from './workspaceSources/types';
+import { corsProxyService } from './proxy';
 
 interface NotionPage {
   id: string;
@@ -22,31 +26,287 @@ interface NotionDatabase {
   };
 }
 
-interface WorkspaceItem {
-  id: string;
-  title: string;
-  url: string;
-  description?: string;
-  icon?: string;
-  category: string;
-  isActive: boolean;
+// 单个数据库的增量同步状态，cursor 为已同步页面中最新的 last_edited_time
+interface DatabaseSyncState {
+  cursor?: string;
+  lastFullSync?: string;
+}
+
+// 工作空间缓存（IndexedDB），包含所有数据库合并后的项目
+interface WorkspaceCache {
+  items: WorkspaceItem[];
+  databases?: Record<string, DatabaseSyncState>; // 数据库 ID -> 同步状态
   lastSync: string;
-  notionId: string;
-  username?: string;
-  password?: string;
+  version: string;
+  // 2.0 版本只支持一个数据库，读取时迁移到 databases
+  databaseId?: string;
+  cursor?: string;
+  lastFullSync?: string;
+}
+
+// 增量同步无法发现已删除的页面，超过该时间后重新完整同步
+const FULL_SYNC_INTERVAL = 24 * 60 * 60 * 1000;
+
+export type { WorkspaceItemDraft };
+
+type WorkspaceItemField = keyof WorkspaceItemDraft;
+
+// 可映射到 Notion 属性的字段
+export type MappableField = WorkspaceItemField | 'tags';
+
+/**
+ * 属性映射：字段 -> Notion 属性名
+ * 未设置的字段按默认属性名自动匹配，设置为空字符串表示不使用该字段
+ */
+export type PropertyMapping = Partial<Record<MappableField, string>>;
+
+export interface DatabaseProperty {
+  name: string;
+  type: string;
+}
+
+// 合并到工作空间的 Notion 数据库，第一个为主数据库（新建的项目保存到这里）
+export interface NotionDatabaseEntry {
+  id: string;
+  label: string; // 项目上显示的来源名称
+}
+
+type DatabaseProperties = NotionDatabase['properties'];
+
+// 页面属性值，只列出读取时用到的字段
+interface NotionOption {
+  name: string;
+}
+
+interface NotionDateValue {
+  start?: string;
+  end?: string | null;
+}
+
+interface NotionPropertyValue {
+  type?: string;
+  title?: { plain_text?: string }[];
+  rich_text?: { plain_text?: string }[];
+  url?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+  created_time?: string;
+  last_edited_time?: string;
+  number?: number | null;
+  checkbox?: boolean;
+  select?: NotionOption | null;
+  status?: NotionOption | null;
+  multi_select?: NotionOption[];
+  people?: { name?: string; person?: { email?: string } }[];
+  relation?: { id: string }[];
+  date?: NotionDateValue | null;
+  formula?: { type?: string; date?: NotionDateValue | null } & Record<string, unknown>;
 }
 
+// 写入页面的属性值，结构随属性类型变化
+type NotionPropertyWrite = Record<string, unknown>;
+
+// 各字段默认对应的 Notion 属性名（按优先级），解析和写回使用同一份映射
+const WORKSPACE_PROPERTY_NAMES: Record<MappableField, string[]> = {
+  title: ['名称', 'Name', 'Title', '标题'],
+  url: ['网址', 'URL', 'Link', '链接'],
+  description: ['描述', 'Description', '说明', 'Notes'],
+  category: ['Select', 'Category', '分类', '类别', 'Type'],
+  tags: ['标签', 'Tags', 'Labels'],
+  username: ['账号', 'Username', '用户名', 'Account'],
+  password: ['密码', 'Password', 'Pass', 'Pwd'],
+  totpSecret: ['两步验证', 'TOTP', '2FA', 'OTP', '验证器'],
+};
+
+// 关联页面标题每次最多解析的数量和并发数
+const RELATION_RESOLVE_LIMIT = 100;
+const RELATION_RESOLVE_CONCURRENCY = 5;
+
+// 支持读取的属性类型
+export const READABLE_PROPERTY_TYPES = [
+  'title',
+  'rich_text',
+  'url',
+  'email',
+  'phone_number',
+  'number',
+  'checkbox',
+  'select',
+  'status',
+  'multi_select',
+  'people',
+  'relation',
+  'date',
+  'formula',
+  'created_time',
+  'last_edited_time',
+];
+
+/**
+ * 确定字段对应的属性名：优先使用映射，未映射时按默认属性名匹配
+ * 标题字段找不到默认属性名时使用数据库的标题属性
+ */
+const resolvePropertyName = (
+  field: MappableField,
+  properties: Record<string, { type: string }>,
+  mapping: PropertyMapping = {}
+): string | undefined => {
+  const mapped = mapping[field];
+  if (mapped !== undefined) {
+    return mapped && properties[mapped] ? mapped : undefined;
+  }
+
+  const name = WORKSPACE_PROPERTY_NAMES[field].find((candidate) => properties[candidate]?.type);
+  if (!name && field === 'title') {
+    return Object.keys(properties).find((key) => properties[key]?.type === 'title');
+  }
+  return name;
+};
+
+// 日期属性显示为 开始 ~ 结束
+const formatDateValue = (date?: NotionDateValue | null): string =>
+  date?.start ? (date.end ? `${date.start} ~ ${date.end}` : date.start) : '';
+
+/**
+ * 读取属性的全部取值（多选、人员、关联可能有多个值）
+ * 关联属性只包含页面 ID，需要传入已解析的页面标题
+ */
+const getPropertyValues = (prop: NotionPropertyValue | undefined, relationTitles?: Map<string, string>): string[] => {
+  const values: unknown[] = (() => {
+    switch (prop?.type) {
+      case 'title':
+        return [(prop.title || []).map((text) => text.plain_text || '').join('')];
+      case 'rich_text':
+        return [(prop.rich_text || []).map((text) => text.plain_text || '').join('')];
+      case 'url':
+        return [prop.url];
+      case 'email':
+        return [prop.email];
+      case 'phone_number':
+        return [prop.phone_number];
+      case 'created_time':
+        return [prop.created_time];
+      case 'last_edited_time':
+        return [prop.last_edited_time];
+      case 'number':
+        return [prop.number ?? ''];
+      case 'checkbox':
+        return [String(!!prop.checkbox)];
+      case 'select':
+        return [prop.select?.name];
+      case 'status':
+        return [prop.status?.name];
+      case 'multi_select':
+        return (prop.multi_select || []).map((option) => option.name);
+      case 'people':
+        return (prop.people || []).map((person) => person.name || person.person?.email);
+      case 'relation':
+        // 未解析到标题的关联页面不显示
+        return (prop.relation || []).map((relation) => relationTitles?.get(relation.id));
+      case 'date':
+        return [formatDateValue(prop.date)];
+      case 'formula': {
+        const formula = prop.formula;
+        if (!formula?.type) return [''];
+        return [formula.type === 'date' ? formatDateValue(formula.date) : formula[formula.type] ?? ''];
+      }
+      default:
+        return [];
+    }
+  })();
+
+  return values
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => String(value).trim())
+    .filter(Boolean);
+};
+
+// 页面标题（用于显示关联页面）
+const getPageTitle = (page: NotionPage): string => {
+  const titleProperty = Object.values<NotionPropertyValue>(page.properties || {}).find((prop) => prop?.type === 'title');
+  return getPropertyValues(titleProperty)[0] || '';
+};
+
+// Notion 选项名不允许包含逗号，多选属性按逗号拆分为多个选项
+const toOptionNames = (text: string): string[] => [
+  ...new Set(text.split(/[,，]/).map((name) => name.trim()).filter(Boolean)),
+];
+
+/**
+ * 按属性类型生成写入值，不支持的类型返回 undefined
+ * 多选属性用作分类时只读取第一个选项，传入当前值时只替换第一个选项，保留其余选项
+ */
+const toPropertyValue = (
+  type: string,
+  value: string,
+  current?: NotionPropertyValue
+): NotionPropertyWrite | undefined => {
+  const text = value.trim();
+  switch (type) {
+    case 'title':
+      return { title: text ? [{ text: { content: text } }] : [] };
+    case 'rich_text':
+      return { rich_text: text ? [{ text: { content: text } }] : [] };
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return { [type]: text || null };
+    case 'select':
+    case 'status':
+      // Notion 选项名不允许包含逗号
+      return { [type]: text ? { name: text.replace(/,/g, ' ') } : null };
+    case 'multi_select': {
+      const others = (current?.multi_select || []).slice(1).map((option) => option.name);
+      const names = [...new Set([...toOptionNames(text), ...others])];
+      return { multi_select: names.map((name) => ({ name })) };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * 将工作空间项目字段映射回数据库中实际存在的属性
+ * 属性名与 parseWorkspaceItems 读取的一致
+ */
+const buildPageProperties = (
+  changes: Partial<WorkspaceItemDraft>,
+  databaseProperties: DatabaseProperties,
+  mapping?: PropertyMapping,
+  currentProperties?: NotionPage['properties']
+): Record<string, NotionPropertyWrite> => {
+  const properties: Record<string, NotionPropertyWrite> = {};
+
+  (Object.keys(changes) as WorkspaceItemField[]).forEach((field) => {
+    const value = changes[field];
+    if (value === undefined) return;
+
+    const name = resolvePropertyName(field, databaseProperties, mapping);
+    if (!name) {
+      console.warn(`数据库中没有与字段 ${field} 对应的属性，已跳过`);
+      return;
+    }
+
+    const propertyValue = toPropertyValue(databaseProperties[name].type, value, currentProperties?.[name]);
+    if (propertyValue === undefined) {
+      console.warn(`属性 ${name} 的类型 ${databaseProperties[name].type} 不支持写入，已跳过`);
+      return;
+    }
+    properties[name] = propertyValue;
+  });
+
+  return properties;
+};
+
 export class NotionClient {
   private apiKey?: string;
   private baseUrl = 'https://api.notion.com/v1';
-  private corsProxy: string;
   private useOAuth: boolean;
   private getOAuthToken?: () => Promise<string | null>;
 
   constructor(
     config: string | {
       apiKey?: string;
-      corsProxy?: string;
       useOAuth?: boolean;
       getOAuthToken?: () => Promise<string | null>;
     }
@@ -55,22 +315,11 @@ export class NotionClient {
     if (typeof config === 'string') {
       this.apiKey = config;
       this.useOAuth = false;
-      this.corsProxy = this.getDefaultSupabaseProxy();
     } else {
       this.apiKey = config.apiKey;
       this.useOAuth = config.useOAuth || false;
       this.getOAuthToken = config.getOAuthToken;
-      this.corsProxy = config.corsProxy || this.getDefaultSupabaseProxy();
-    }
-  }
-
-  // 获取默认的 Supabase 代理 URL
-  private getDefaultSupabaseProxy(): string {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    if (supabaseUrl) {
-      return `${supabaseUrl.replace(/\/$/, '')}/functions/v1/notion-proxy`;
     }
-    return ''; // 如果没有配置 Supabase URL，则使用公共代理
   }
 
   // 获取认证 Token（优先使用 OAuth，降级到 API Key）
@@ -106,173 +355,56 @@ export class NotionClient {
     console.log('- Token前缀:', authToken.substring(0, 15) + '...');
     console.log('- 请求方法:', options.method || 'GET');
 
-    // 优先使用 Supabase Edge Functions 代理
-    if (this.corsProxy) {
-      try {
-        // 检查是否为 Supabase 代理
-        if (this.corsProxy.includes('supabase.co') || this.corsProxy.includes('localhost:54321')) {
-          const proxyUrl = this.corsProxy + endpoint;
-          console.log('🚀 使用 Supabase Edge Functions 代理:', options.method || 'GET', proxyUrl);
-          console.log('🔑 认证头:', authToken.substring(0, 20) + '...');
-
-          const response = await fetch(proxyUrl, {
-            method: options.method || 'GET',
-            headers: {
-              Authorization: authToken.startsWith('Bearer ')
-                ? authToken
-                : `Bearer ${authToken}`,
-              'Content-Type': 'application/json',
-              'Notion-Version': '2022-06-28',
-            },
-            ...(options.body && { body: options.body }),
-          });
-
-          console.log('📡 Supabase 代理响应状态:', response.status, response.statusText);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Supabase 代理请求失败:', errorText);
-
-            // 提供更具体的错误信息
-            if (response.status === 401) {
-              throw new Error('API密钥无效或已过期，请检查配置');
-            } else if (response.status === 404) {
-              throw new Error('数据库不存在或Integration未被添加到数据库');
-            } else {
-              throw new Error(`Supabase 代理请求失败: ${response.status} ${response.statusText}`);
-            }
-          }
-
-          const data = await response.json();
-          console.log('✅ Supabase 代理请求成功');
-          console.log('📋 返回数据:', data);
-          return data;
-        }
-
-        // 使用公共CORS代理服务
-        const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(targetUrl)}`;
-        console.log('- 公共代理请求URL:', proxyUrl);
-
-        const response = await fetch(proxyUrl, {
-          method: options.method || 'GET',
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-            'Notion-Version': '2022-06-28',
-          },
-          ...(options.body && { body: options.body }),
-        });
-        console.log('📡 Vercel代理响应状态:', response.status, response.statusText);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('❌ Vercel代理请求失败:', errorText);
-
-          // 提供更具体的错误信息
-          if (response.status === 400) {
-            throw new Error('请求格式错误。可能是API密钥格式不正确或数据库ID无效');
-          } else if (response.status === 401) {
-            throw new Error('API密钥无效或已过期，请检查配置');
-          } else if (response.status === 404) {
-            throw new Error('数据库不存在或Integration未被添加到数据库');
-          } else {
-            throw new Error(`Vercel代理请求失败: ${response.status} ${response.statusText}`);
-          }
-        }
-
-        // 检查响应内容类型
-        const contentType = response.headers.get('content-type') || '';
-        console.log('响应内容类型:', contentType);
-
-        if (!contentType.includes('application/json')) {
-          const text = await response.text();
-          console.error('收到非JSON响应:', text.substring(0, 200));
-          throw new Error('服务器返回了非JSON响应，可能是认证失败或配置错误');
-        }
-
-        const data = await response.json();
-        console.log('✅ Vercel代理请求成功');
-        return data;
-      } catch (error) {
-        console.error('❌ 代理请求失败:', error);
+    try {
+      // 带认证头的请求只经过可信代理（Supabase 代理或用户信任的自建代理），失败时自动切换
+      const response = await corsProxyService.request(targetUrl, {
+        method: options.method || 'GET',
+        headers: {
+          Authorization: authToken.startsWith('Bearer ') ? authToken : `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+          'Notion-Version': '2022-06-28',
+        },
+        ...(options.body && { body: options.body }),
+        binary: false,
+      });
 
-        if (error instanceof Error && error.message.includes('Failed to fetch')) {
-          throw new Error(
-            '无法连接到代理服务器。建议：\n1. 检查网络连接\n2. 尝试关闭代理直连\n3. 使用浏览器CORS插件'
-          );
+      console.log('📡 响应状态:', response.status, response.statusText);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Notion API错误详情:');
+        console.error('状态码:', response.status);
+        console.error('响应内容:', errorText);
+
+        // 提供更具体的错误信息
+        if (response.status === 400) {
+          throw new Error('请求格式错误。可能是API密钥格式不正确或数据库ID无效');
+        } else if (response.status === 401) {
+          throw new Error('API密钥无效或已过期，请检查配置');
+        } else if (response.status === 404) {
+          throw new Error('数据库不存在或Integration未被添加到数据库');
+        } else {
+          throw new Error(`Notion API error: ${response.status} ${response.statusText}`);
         }
-
-        throw error instanceof Error ? error : new Error(String(error));
       }
-    }
-
-    // 使用公共CORS代理服务作为默认方案
-    console.log('- 使用公共CORS代理请求URL:', targetUrl);
-
-    try {
-      // 尝试多个公共CORS代理服务
-      const proxyServices = [
-        `https://corsproxy.io/?${encodeURIComponent(targetUrl)}`,
-        `https://api.allorigins.win/raw?url=${encodeURIComponent(targetUrl)}`,
-      ];
-
-      let lastError: Error | null = null;
 
-      for (const proxyUrl of proxyServices) {
-        try {
-          console.log('🔄 尝试代理服务:', proxyUrl.split('?')[0]);
-
-          const response = await fetch(proxyUrl, {
-            method: options.method || 'GET',
-            headers: {
-              Authorization: `Bearer ${authToken}`,
-              'Content-Type': 'application/json',
-              'Notion-Version': '2022-06-28',
-            },
-            ...(options.body && { body: options.body }),
-          });
-
-          console.log('📡 响应状态:', response.status, response.statusText);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Notion API错误详情:');
-            console.error('状态码:', response.status);
-            console.error('响应内容:', errorText);
-
-            // 提供更具体的错误信息
-            if (response.status === 400) {
-              throw new Error('请求格式错误。可能是API密钥格式不正确或数据库ID无效');
-            } else if (response.status === 401) {
-              throw new Error('API密钥无效或已过期，请检查配置');
-            } else if (response.status === 404) {
-              throw new Error('数据库不存在或Integration未被添加到数据库');
-            } else {
-              throw new Error(`Notion API error: ${response.status} ${response.statusText}`);
-            }
-          }
-
-          const data = await response.json();
-          console.log('✅ 公共代理请求成功');
-          return data;
-        } catch (error) {
-          console.warn(
-            `❌ 代理服务失败: ${proxyUrl.split('?')[0]}`,
-            error instanceof Error ? error.message : String(error)
-          );
-          lastError = error instanceof Error ? error : new Error(String(error));
-          continue;
-        }
+      // 检查响应内容类型
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('application/json')) {
+        const text = await response.text();
+        console.error('收到非JSON响应:', text.substring(0, 200));
+        throw new Error('服务器返回了非JSON响应，可能是认证失败或配置错误');
       }
 
-      // 所有代理都失败了
-      throw lastError || new Error('所有CORS代理服务都不可用');
+      const data = await response.json();
+      console.log('✅ Notion API 请求成功');
+      return data;
     } catch (error) {
-      console.error('❌ 公共代理请求失败:', error);
+      console.error('❌ 代理请求失败:', error);
 
       if (error instanceof Error && error.message.includes('Failed to fetch')) {
         throw new Error(
-          '无法连接到代理服务器。建议：\n1. 检查网络连接\n2. 尝试使用浏览器CORS插件\n3. 稍后重试'
+          '无法连接到代理服务器。建议：\n1. 检查网络连接\n2. 在设置中检查代理服务或配置自建代理\n3. 稍后重试'
         );
       }
 
@@ -317,46 +449,61 @@ export class NotionClient {
     return allResults;
   }
 
+  // 在数据库中创建页面
+  async createPage(databaseId: string, properties: Record<string, NotionPropertyWrite>): Promise<NotionPage> {
+    const cleanId = databaseId.split('?')[0].split('#')[0].trim();
+    return await this.makeRequest('/pages', {
+      method: 'POST',
+      body: JSON.stringify({ parent: { database_id: cleanId }, properties }),
+    });
+  }
+
+  // 更新页面属性
+  async updatePage(pageId: string, properties: Record<string, NotionPropertyWrite>): Promise<NotionPage> {
+    return await this.makeRequest(`/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ properties }),
+    });
+  }
+
+  // 归档页面（Notion 中移入回收站，可在 Notion 中恢复）
+  async archivePage(pageId: string): Promise<NotionPage> {
+    return await this.makeRequest(`/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ archived: true }),
+    });
+  }
+
+  // 获取单个页面（用于解析关联属性的页面标题）
+  async getPage(pageId: string): Promise<NotionPage> {
+    return await this.makeRequest(`/pages/${pageId}`);
+  }
+
   // 将Notion页面转换为工作空间项目
-  parseWorkspaceItems(pages: NotionPage[], _databaseProperties?: any): WorkspaceItem[] {
+  // mapping 指定各字段对应的属性，relationTitles 为关联页面 ID 到标题的映射
+  parseWorkspaceItems(
+    pages: NotionPage[],
+    mapping?: PropertyMapping,
+    relationTitles?: Map<string, string>
+  ): WorkspaceItem[] {
     return pages
       .filter((page) => page && page.properties)
       .map((page) => {
         const properties = page.properties;
 
-        // 尝试从不同属性中提取信息
-        const getPropertyValue = (propName: string, fallbackNames: string[] = []) => {
-          const allNames = [propName, ...fallbackNames];
-          for (const name of allNames) {
-            const prop = properties[name];
-            if (prop && prop.type) {
-              try {
-                switch (prop.type) {
-                  case 'title':
-                    return prop.title?.[0]?.plain_text || '';
-                  case 'rich_text':
-                    return prop.rich_text?.[0]?.plain_text || '';
-                  case 'url':
-                    return prop.url || '';
-                  case 'select':
-                    return prop.select?.name || '';
-                  case 'checkbox':
-                    return prop.checkbox !== undefined ? prop.checkbox : false;
-                  case 'multi_select':
-                    return prop.multi_select?.[0]?.name || '';
-                  default:
-                    return prop.plain_text || prop.name || '';
-                }
-              } catch (error) {
-                console.warn(
-                  `解析属性 ${name} 失败:`,
-                  error instanceof Error ? error.message : String(error)
-                );
-                continue;
-              }
-            }
+        // 读取字段对应属性的全部取值
+        const getFieldValues = (field: MappableField): string[] => {
+          const name = resolvePropertyName(field, properties, mapping);
+          if (!name) return [];
+          try {
+            return getPropertyValues(properties[name], relationTitles);
+          } catch (error) {
+            console.warn(
+              `解析属性 ${name} 失败:`,
+              error instanceof Error ? error.message : String(error)
+            );
+            return [];
           }
-          return '';
         };
 
         // 数据清理函数 - 过滤无效值
@@ -372,13 +519,16 @@ export class NotionClient {
           return cleanedValue;
         };
 
-        // 根据新数据库结构映射字段
-        const title = getPropertyValue('名称', ['Name', 'Title', '标题']);
-        const url = getPropertyValue('网址', ['URL', 'Link', '链接']);
-        const description = getPropertyValue('描述', ['Description', '说明', 'Notes']);
-        const category = getPropertyValue('Select', ['Category', '分类', '类别', 'Type']);
-        const username = cleanValue(getPropertyValue('账号', ['Username', '用户名', 'Account']));
-        const password = cleanValue(getPropertyValue('密码', ['Password', 'Pass', 'Pwd']));
+        // 多值属性（多选、人员、关联）用于分类时取第一个值，用于标签时取全部值
+        const getFieldValue = (field: MappableField) => getFieldValues(field)[0] || '';
+        const title = getFieldValue('title');
+        const url = getFieldValue('url');
+        const description = getFieldValues('description').join(', ');
+        const category = getFieldValue('category');
+        const tags = getFieldValues('tags');
+        const username = cleanValue(getFieldValue('username'));
+        const password = cleanValue(getFieldValue('password'));
+        const totpSecret = cleanValue(getFieldValue('totpSecret'));
 
         // 调试：输出解析结果
         console.log('🔍 页面解析结果:', {
@@ -387,8 +537,8 @@ export class NotionClient {
           url,
           description: cleanValue(description),
           category,
-          username,
-          password: password ? '***' : undefined,
+          tags,
+          hasCredentials: !!(username || password || totpSecret),
           availableProperties: Object.keys(properties),
         });
 
@@ -398,12 +548,14 @@ export class NotionClient {
           url: url || page.url,
           description: cleanValue(description),
           category: category || 'Default',
+          tags: tags.length > 0 ? tags : undefined,
           isActive: true, // 新数据库中所有项目都是激活的
           lastSync: new Date().toISOString(),
           notionId: page.id,
           icon: this.extractIcon(url),
           username: username || undefined,
           password: password || undefined,
+          totpSecret: totpSecret || undefined,
         };
       });
   }
@@ -473,92 +625,79 @@ export class WorkspaceManager {
   private notionClient: NotionClient | null = null;
   private cacheKey = 'workspace-items';
   private configKey = 'workspace-config';
+  // 各数据库的属性结构（数据库 ID -> 属性），写回时用于确定属性名和类型
+  private databaseSchemas = new Map<string, DatabaseProperties>();
+  // 已解析的关联页面标题（页面 ID -> 标题）
+  private relationTitles = new Map<string, string>();
 
   constructor() {
     this.loadConfig();
   }
 
   // 配置 Notion 连接 (API Key 模式)
-  configureNotion(apiKey: string, databaseId: string, corsProxy?: string) {
-    // 如果没有指定代理，使用默认的 Supabase 代理
-    const finalProxy = corsProxy || this.getDefaultSupabaseProxy();
+  configureNotion(apiKey: string, databaseId: string) {
     this.notionClient = new NotionClient({
       apiKey,
-      corsProxy: finalProxy,
       useOAuth: false,
     });
 
     // 保存配置
+    const databases = this.withPrimaryDatabase(databaseId);
     const config = {
       mode: 'api_key' as const,
       apiKey,
-      databaseId,
-      corsProxy: finalProxy,
+      databaseId: databases[0]?.id || '',
+      databases,
+      propertyMappings: this.getConfig()?.propertyMappings,
       lastConfigured: new Date().toISOString(),
     };
     localStorage.setItem(this.configKey, JSON.stringify(config));
   }
 
   // 配置 Notion 连接 (OAuth 模式)
-  configureWithOAuth(
-    getOAuthToken: () => Promise<string | null>,
-    databaseId: string,
-    corsProxy?: string
-  ) {
-    const finalProxy = corsProxy || this.getDefaultSupabaseProxy();
+  configureWithOAuth(getOAuthToken: () => Promise<string | null>, databaseId: string) {
     this.notionClient = new NotionClient({
       useOAuth: true,
       getOAuthToken,
-      corsProxy: finalProxy,
     });
 
     // 保存配置（不保存 OAuth token，每次从 session 获取）
+    const databases = this.withPrimaryDatabase(databaseId);
     const config = {
       mode: 'oauth' as const,
-      databaseId,
-      corsProxy: finalProxy,
+      databaseId: databases[0]?.id || '',
+      databases,
+      propertyMappings: this.getConfig()?.propertyMappings,
       lastConfigured: new Date().toISOString(),
     };
     localStorage.setItem(this.configKey, JSON.stringify(config));
   }
 
-  // 获取默认的 Supabase 代理 URL
-  private getDefaultSupabaseProxy(): string {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    if (supabaseUrl) {
-      return `${supabaseUrl.replace(/\/$/, '')}/functions/v1/notion-proxy`;
-    }
-    return ''; // 如果没有配置 Supabase URL，则使用公共代理
-  }
-
   // 加载配置
   private loadConfig() {
     try {
       const config = localStorage.getItem(this.configKey);
       if (config) {
         const parsedConfig = JSON.parse(config);
-        const { mode, apiKey, databaseId, corsProxy } = parsedConfig;
+        const { mode, apiKey, databaseId } = parsedConfig;
 
         if (!databaseId) {
           return null;
         }
 
         // 根据模式初始化 NotionClient
-        const finalProxy = corsProxy || this.getDefaultSupabaseProxy();
-
         if (mode === 'oauth') {
           // OAuth 模式：需要在使用时动态获取 token
           // 暂时不初始化 client，在需要时通过 configureWithOAuth 配置
           console.log('检测到 OAuth 配置，需要在使用时重新配置');
-          return { mode, databaseId, corsProxy: finalProxy };
+          return { mode, databaseId };
         } else if (apiKey) {
           // API Key 模式
           this.notionClient = new NotionClient({
             apiKey,
-            corsProxy: finalProxy,
             useOAuth: false,
           });
-          return { mode: 'api_key', apiKey, databaseId, corsProxy: finalProxy };
+          return { mode: 'api_key', apiKey, databaseId };
         }
       }
     } catch (error) {
@@ -577,57 +716,303 @@ export class WorkspaceManager {
     }
   }
 
-  // 同步工作空间数据
-  async syncWorkspaceData(): Promise<WorkspaceItem[]> {
-    if (!this.notionClient) {
-      throw new Error('Notion未配置，请先设置API密钥和数据库ID');
+  // 获取合并到工作空间的数据库，兼容只保存了 databaseId 的旧配置
+  getDatabases(): NotionDatabaseEntry[] {
+    const config = this.getConfig();
+    if (Array.isArray(config?.databases) && config.databases.length > 0) {
+      return config.databases;
+    }
+    return config?.databaseId ? [{ id: config.databaseId, label: '' }] : [];
+  }
+
+  // 替换主数据库，其余数据库保持不变；databaseId 为空时不修改（如只是搜索数据库列表）
+  private withPrimaryDatabase(databaseId: string): NotionDatabaseEntry[] {
+    const databases = this.getDatabases();
+    if (!databaseId || databases[0]?.id === databaseId) {
+      return databases;
+    }
+    const existing = databases.find((database) => database.id === databaseId);
+    return [
+      existing || { id: databaseId, label: '' },
+      ...databases.slice(1).filter((database) => database.id !== databaseId),
+    ];
+  }
+
+  // 保存数据库列表（第一个为主数据库），移除的数据库不再保留缓存的项目
+  async saveDatabases(databases: NotionDatabaseEntry[]) {
+    const config = this.getConfig();
+    if (!config || databases.length === 0) {
+      throw new Error('请至少选择一个数据库');
     }
 
+    localStorage.setItem(this.configKey, JSON.stringify({ ...config, databaseId: databases[0].id, databases }));
+
+    const ids = new Set(databases.map((database) => database.id));
+    await this.updateCache((cache) => ({
+      ...cache,
+      items: cache.items.filter((item) => !item.databaseId || ids.has(item.databaseId)),
+      databases: Object.fromEntries(Object.entries(cache.databases || {}).filter(([id]) => ids.has(id))),
+    }));
+  }
+
+  // 获取数据库的属性映射，默认为主数据库
+  getPropertyMapping(databaseId?: string): PropertyMapping {
+    const config = this.getConfig();
+    const targetId = databaseId || config?.databaseId;
+    return targetId ? config?.propertyMappings?.[targetId] || {} : {};
+  }
+
+  // 保存数据库的属性映射（按数据库 ID 保存在工作空间配置中）
+  // 映射变化后该数据库缓存的项目不再准确，清除增量同步起点使下次同步完整拉取
+  async savePropertyMapping(mapping: PropertyMapping, databaseId?: string) {
     const config = this.getConfig();
-    if (!config?.databaseId) {
+    const targetId = databaseId || config?.databaseId;
+    if (!targetId) {
       throw new Error('未找到数据库ID配置');
     }
 
-    try {
-      console.log('🔄 开始同步工作空间数据...');
-
-      // 获取数据库结构
-      const database = await this.notionClient.getDatabase(config.databaseId);
-      console.log('📊 数据库信息获取成功:', database.title?.[0]?.plain_text || '未知数据库');
-
-      // 查询所有页面
-      const pages = await this.notionClient.queryDatabase(config.databaseId);
-      console.log(`📄 获取到 ${pages.length} 个页面`);
-
-      // 调试：检查页面数据结构
-      if (pages.length > 0) {
-        console.log('🔍 第一个页面数据示例:', {
-          id: pages[0]?.id,
-          hasProperties: !!pages[0]?.properties,
-          propertyKeys: pages[0]?.properties ? Object.keys(pages[0].properties) : '无属性',
-        });
-      }
+    const propertyMappings = { ...config.propertyMappings, [targetId]: mapping };
+    localStorage.setItem(this.configKey, JSON.stringify({ ...config, propertyMappings }));
+
+    await this.updateCache((cache) => ({ ...cache, databases: { ...cache.databases, [targetId]: {} } }));
+  }
 
-      // 转换为工作空间项目
-      const workspaceItems = this.notionClient.parseWorkspaceItems(pages, database.properties);
+  // 获取数据库的属性列表（属性映射设置使用），默认为主数据库
+  async getDatabaseProperties(databaseId?: string): Promise<DatabaseProperty[]> {
+    const { properties } = await this.getWriteTarget({ refresh: true, databaseId });
+    return Object.entries(properties).map(([name, prop]) => ({ name, type: prop.type }));
+  }
 
-      // 缓存数据
-      this.cacheWorkspaceItems(workspaceItems);
+  // 解析映射字段中关联属性引用的页面标题，已解析过的页面不再重复请求
+  private async resolveRelationTitles(
+    client: NotionClient,
+    pages: NotionPage[],
+    properties: DatabaseProperties,
+    mapping: PropertyMapping
+  ) {
+    const relationNames = (Object.keys(WORKSPACE_PROPERTY_NAMES) as MappableField[])
+      .map((field) => resolvePropertyName(field, properties, mapping))
+      .filter((name): name is string => !!name && properties[name].type === 'relation');
+    if (relationNames.length === 0) return;
+
+    const pendingIds = new Set<string>();
+    pages.forEach((page) =>
+      relationNames.forEach((name) =>
+        (page.properties[name]?.relation || []).forEach((relation: { id: string }) => {
+          if (!this.relationTitles.has(relation.id)) pendingIds.add(relation.id);
+        })
+      )
+    );
+
+    const ids = Array.from(pendingIds).slice(0, RELATION_RESOLVE_LIMIT);
+    if (pendingIds.size > ids.length) {
+      console.warn(`关联页面过多，本次只解析前 ${RELATION_RESOLVE_LIMIT} 个`);
+    }
 
-      console.log(`✅ 同步完成，获取到 ${workspaceItems.length} 个工作空间项目`);
-      return workspaceItems;
-    } catch (error) {
-      console.error('❌ 同步工作空间数据失败:', error);
+    for (let start = 0; start < ids.length; start += RELATION_RESOLVE_CONCURRENCY) {
+      const batch = ids.slice(start, start + RELATION_RESOLVE_CONCURRENCY);
+      const results = await Promise.allSettled(batch.map((id) => client.getPage(id)));
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          this.relationTitles.set(batch[index], getPageTitle(result.value));
+        } else {
+          console.warn('解析关联页面失败:', batch[index], result.reason);
+        }
+      });
+    }
+  }
+
+  // 解析页面并记录所属的数据库
+  private parseDatabaseItems(
+    client: NotionClient,
+    pages: NotionPage[],
+    databaseId: string,
+    mapping: PropertyMapping
+  ): WorkspaceItem[] {
+    return client.parseWorkspaceItems(pages, mapping, this.relationTitles).map((item) => ({ ...item, databaseId }));
+  }
+
+  // 同步单个数据库，返回该数据库的全部项目和新的同步状态
+  private async syncDatabase(
+    client: NotionClient,
+    databaseId: string,
+    cache: WorkspaceCache | null,
+    full: boolean
+  ): Promise<{ items: WorkspaceItem[]; state: DatabaseSyncState }> {
+    // 获取数据库结构
+    const database = await client.getDatabase(databaseId);
+    console.log('📊 数据库信息获取成功:', database.title?.[0]?.plain_text || '未知数据库');
+    this.databaseSchemas.set(databaseId, database.properties);
+
+    // 可以增量同步时使用上次的缓存作为基础
+    const cachedState = cache?.databases?.[databaseId];
+    const baseState =
+      !full && cachedState?.cursor && Date.now() - Date.parse(cachedState.lastFullSync || '') < FULL_SYNC_INTERVAL
+        ? cachedState
+        : null;
+
+    // 增量同步：Notion 的 last_edited_time 精确到分钟，使用 on_or_after 避免漏掉同一分钟内的修改
+    const pages = baseState
+      ? await client.queryDatabase(databaseId, {
+          timestamp: 'last_edited_time',
+          last_edited_time: { on_or_after: baseState.cursor },
+        })
+      : await client.queryDatabase(databaseId);
+    console.log(`📄 ${baseState ? '增量' : '完整'}同步获取到 ${pages.length} 个页面`);
+
+    // 转换为工作空间项目，增量同步时合并到缓存的项目中
+    const mapping = this.getPropertyMapping(databaseId);
+    await this.resolveRelationTitles(client, pages, database.properties, mapping);
+    const changedItems = this.parseDatabaseItems(client, pages, databaseId, mapping);
+    let items = changedItems;
+    if (baseState) {
+      const cachedItems = cache?.items.filter((item) => item.databaseId === databaseId) || [];
+      const changedById = new Map(changedItems.map((item) => [item.id, item]));
+      const cachedIds = new Set(cachedItems.map((item) => item.id));
+      items = [
+        ...cachedItems.map((item) => changedById.get(item.id) || item),
+        ...changedItems.filter((item) => !cachedIds.has(item.id)),
+      ];
+    }
+
+    // 记录最新的编辑时间作为下次增量同步的起点
+    const cursor = pages.reduce(
+      (latest, page) => (page.last_edited_time > latest ? page.last_edited_time : latest),
+      baseState?.cursor || ''
+    );
+
+    return {
+      items,
+      state: {
+        cursor: cursor || undefined,
+        lastFullSync: baseState ? baseState.lastFullSync : new Date().toISOString(),
+      },
+    };
+  }
+
+  // 同步工作空间数据，多个数据库并行拉取后按配置顺序合并
+  // 默认只拉取上次同步后编辑过的页面；full 为 true 或距上次完整同步超过一天时重新拉取全部页面（用于发现已删除的页面）
+  async syncWorkspaceData(options: { full?: boolean } = {}): Promise<WorkspaceItem[]> {
+    const client = this.notionClient;
+    if (!client) {
+      throw new Error('Notion未配置，请先设置API密钥和数据库ID');
+    }
+
+    const databases = this.getDatabases();
+    if (databases.length === 0) {
+      throw new Error('未找到数据库ID配置');
+    }
 
-      // 返回缓存数据作为备用
-      const cachedItems = this.getCachedWorkspaceItems();
-      if (cachedItems.length > 0) {
-        console.warn('⚠️ 使用缓存数据，共 ' + cachedItems.length + ' 个项目');
-        return cachedItems;
+    console.log(`🔄 开始同步工作空间数据（${databases.length} 个数据库）...`);
+
+    const cache = await this.loadCache();
+    const results = await Promise.allSettled(
+      databases.map((database) => this.syncDatabase(client, database.id, cache, !!options.full))
+    );
+
+    // 全部失败时报错；部分失败时保留失败数据库缓存的项目
+    const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (firstFailure && results.every((result) => result.status === 'rejected')) {
+      throw firstFailure.reason;
+    }
+
+    let workspaceItems: WorkspaceItem[] = [];
+    const syncStates: Record<string, DatabaseSyncState> = {};
+    results.forEach((result, index) => {
+      const database = databases[index];
+      if (result.status === 'fulfilled') {
+        workspaceItems.push(...result.value.items);
+        syncStates[database.id] = result.value.state;
+        return;
       }
 
-      throw error;
+      console.warn(`同步数据库 ${database.label || database.id} 失败，使用缓存的项目:`, result.reason);
+      workspaceItems.push(...(cache?.items.filter((item) => item.databaseId === database.id) || []));
+      if (cache?.databases?.[database.id]) {
+        syncStates[database.id] = cache.databases[database.id];
+      }
+    });
+
+    // 启用保险库后登录信息只以密文保存（包括创建保险库前缓存的项目）
+    workspaceItems = await sealWorkspaceItems(workspaceItems);
+
+    await this.saveCache({
+      items: workspaceItems,
+      databases: syncStates,
+      lastSync: new Date().toISOString(),
+      version: '3.0',
+    });
+
+    console.log(`✅ 同步完成，共 ${workspaceItems.length} 个工作空间项目`);
+    return workspaceItems;
+  }
+
+  // 获取写回所需的客户端、数据库 ID、属性结构和属性映射，默认为主数据库，refresh 时重新获取属性结构
+  private async getWriteTarget(options: { refresh?: boolean; databaseId?: string } = {}) {
+    if (!this.notionClient) {
+      throw new Error('Notion未配置，请先设置API密钥和数据库ID');
+    }
+
+    const databaseId: string | undefined = options.databaseId || this.getConfig()?.databaseId;
+    if (!databaseId) {
+      throw new Error('未找到数据库ID配置');
     }
+
+    let properties = this.databaseSchemas.get(databaseId);
+    if (options.refresh || !properties) {
+      const database = await this.notionClient.getDatabase(databaseId);
+      properties = database.properties;
+      this.databaseSchemas.set(databaseId, properties);
+    }
+
+    return {
+      client: this.notionClient,
+      databaseId,
+      properties,
+      mapping: this.getPropertyMapping(databaseId),
+    };
+  }
+
+  // 新建工作空间项目
+  async createItem(draft: WorkspaceItemDraft): Promise<WorkspaceItem> {
+    const { client, databaseId, properties, mapping } = await this.getWriteTarget();
+    const page = await client.createPage(databaseId, buildPageProperties(draft, properties, mapping));
+    await this.resolveRelationTitles(client, [page], properties, mapping);
+    const [item] = await sealWorkspaceItems(this.parseDatabaseItems(client, [page], databaseId, mapping));
+
+    await this.updateCachedItems((items) => [...items, item]);
+    console.log('✅ 已在 Notion 中创建项目:', item.title);
+    return item;
+  }
+
+  // 更新工作空间项目（包括修改分类）
+  async updateItem(item: WorkspaceItem, changes: Partial<WorkspaceItemDraft>): Promise<WorkspaceItem> {
+    const { client, databaseId, properties, mapping } = await this.getWriteTarget({ databaseId: item.databaseId });
+    // 分类属性为多选时需要读取当前选项，修改分类时保留其余选项
+    const categoryProperty = resolvePropertyName('category', properties, mapping);
+    const current =
+      changes.category !== undefined && categoryProperty && properties[categoryProperty].type === 'multi_select'
+        ? await client.getPage(item.notionId)
+        : undefined;
+    const page = await client.updatePage(
+      item.notionId,
+      buildPageProperties(changes, properties, mapping, current?.properties)
+    );
+    await this.resolveRelationTitles(client, [page], properties, mapping);
+    const [updated] = await sealWorkspaceItems(this.parseDatabaseItems(client, [page], databaseId, mapping));
+
+    await this.updateCachedItems((items) => items.map((cached) => (cached.id === item.id ? updated : cached)));
+    console.log('✅ 已在 Notion 中更新项目:', updated.title);
+    return updated;
+  }
+
+  // 归档工作空间项目
+  async archiveItem(item: WorkspaceItem): Promise<void> {
+    const { client } = await this.getWriteTarget();
+    await client.archivePage(item.notionId);
+
+    await this.updateCachedItems((items) => items.filter((cached) => cached.id !== item.id));
+    console.log('✅ 已在 Notion 中归档项目:', item.title);
   }
 
   // 搜索数据库
@@ -639,56 +1024,86 @@ export class WorkspaceManager {
   }
 
 
-  // 缓存工作空间项目
-  private cacheWorkspaceItems(items: WorkspaceItem[]) {
-    try {
-      const cacheData = {
-        items,
-        lastSync: new Date().toISOString(),
-        version: '1.0',
-      };
-      localStorage.setItem(this.cacheKey, JSON.stringify(cacheData));
-    } catch (error) {
-      console.warn('缓存工作空间数据失败:', error instanceof Error ? error.message : String(error));
-    }
+  // 2.0 版本的缓存只对应一个数据库，转换为按数据库记录同步状态
+  private migrateCache(cache: WorkspaceCache): WorkspaceCache {
+    if (cache.databases || !cache.databaseId) return cache;
+
+    const { databaseId, cursor, lastFullSync, items, lastSync } = cache;
+    return {
+      items: items.map((item) => ({ ...item, databaseId: item.databaseId || databaseId })),
+      databases: { [databaseId]: { cursor, lastFullSync } },
+      lastSync,
+      version: '3.0',
+    };
   }
 
-  // 获取缓存的工作空间项目
-  getCachedWorkspaceItems(): WorkspaceItem[] {
+  // 读取缓存，首次使用时迁移旧版本保存在 localStorage 中的缓存
+  private async loadCache(): Promise<WorkspaceCache | null> {
+    const cache = await indexedDBCache.getRecord<WorkspaceCache>(this.cacheKey);
+    if (cache) return this.migrateCache(cache);
+
     try {
-      const cached = localStorage.getItem(this.cacheKey);
-      if (cached) {
-        const { items } = JSON.parse(cached);
-        return items || [];
+      const legacy = localStorage.getItem(this.cacheKey);
+      if (legacy) {
+        const { items, lastSync } = JSON.parse(legacy);
+        // 旧缓存没有增量同步起点，下次同步时完整拉取
+        const migrated: WorkspaceCache = { items: items || [], lastSync, version: '2.0' };
+        await this.saveCache(migrated);
+        localStorage.removeItem(this.cacheKey);
+        return migrated;
       }
     } catch (error) {
-      console.warn(
-        '读取缓存工作空间数据失败:',
-        error instanceof Error ? error.message : String(error)
-      );
+      console.warn('迁移工作空间缓存失败:', error instanceof Error ? error.message : String(error));
     }
-    return [];
+    return null;
   }
 
-  // 获取缓存信息
-  getCacheInfo() {
+  // 缓存工作空间数据
+  private async saveCache(cache: WorkspaceCache) {
     try {
-      const cached = localStorage.getItem(this.cacheKey);
-      if (cached) {
-        const { lastSync, version } = JSON.parse(cached);
-        return { lastSync, version };
-      }
+      await indexedDBCache.setRecord(this.cacheKey, cache);
     } catch (error) {
-      console.warn('读取缓存信息失败:', error instanceof Error ? error.message : String(error));
+      console.warn('缓存工作空间数据失败:', error instanceof Error ? error.message : String(error));
     }
-    return null;
+  }
+
+  // 更新已有的缓存
+  private async updateCache(update: (cache: WorkspaceCache) => WorkspaceCache) {
+    const cache = await this.loadCache();
+    if (!cache) return;
+    await this.saveCache(update(cache));
+  }
+
+  // 写回成功后更新缓存的项目，保留上次同步的时间和增量同步起点
+  private async updateCachedItems(update: (items: WorkspaceItem[]) => WorkspaceItem[]) {
+    await this.updateCache((cache) => ({ ...cache, items: update(cache.items) }));
+  }
+
+  // 获取缓存的工作空间项目
+  async getCachedWorkspaceItems(): Promise<WorkspaceItem[]> {
+    const cache = await this.loadCache();
+    return cache?.items || [];
+  }
+
+  // 获取缓存信息
+  async getCacheInfo() {
+    const cache = await this.loadCache();
+    return cache ? { lastSync: cache.lastSync, version: cache.version } : null;
+  }
+
+  // 清除缓存的工作空间项目
+  async clearCache() {
+    localStorage.removeItem(this.cacheKey);
+    await indexedDBCache.deleteRecord(this.cacheKey);
   }
 
   // 清除配置和缓存
   clearAll() {
     localStorage.removeItem(this.configKey);
-    localStorage.removeItem(this.cacheKey);
+    void this.clearCache();
     this.notionClient = null;
+    this.databaseSchemas.clear();
+    this.relationTitles.clear();
   }
 
   // 测试连接
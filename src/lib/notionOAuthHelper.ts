@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { corsProxyService } from '@/lib/proxy';
 
 /**
  * Token 数据结构
@@ -185,22 +186,15 @@ export async function validateNotionOAuthToken(): Promise<boolean> {
             return false;
         }
 
-        // 使用 Supabase Edge Function 代理测试连接
-        const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-        if (!supabaseUrl) {
-            console.error('未配置 VITE_SUPABASE_URL');
-            return false;
-        }
-
-        const proxyUrl = `${supabaseUrl.replace(/\/$/, '')}/functions/v1/notion-proxy/users/me`;
-
-        const response = await fetch(proxyUrl, {
+        // 通过统一的代理服务测试连接
+        const response = await corsProxyService.request('https://api.notion.com/v1/users/me', {
             method: 'GET',
             headers: {
                 'Authorization': `Bearer ${token}`,
                 'Content-Type': 'application/json',
                 'Notion-Version': '2022-06-28',
             },
+            binary: false,
         });
 
         if (response.ok) {
@@ -6,8 +6,11 @@ import { errorHandler } from './errorHandler';
 import { memoryManager } from './memoryManager';
 import { createWallpaperRequest } from './requestManager';
 import { createTimeoutSignal } from './abortUtils';
+import { corsProxyService } from './proxy';
 import { customWallpaperManager } from './customWallpaperManager';
-import { getLocalDateString } from './dateUtils';
+import { getLocalDateString, isTimeInRange } from './dateUtils';
+import { loadStoredSetting } from './settingsSchema';
+import { createWallpaperProvider, PlaylistProvider, WallpaperProvider } from './wallpaperProviders';
 
 // 重试相关配置 - 指数退避策略
 const RETRY_DELAYS_MS = [30 * 1000, 60 * 1000, 120 * 1000, 240 * 1000]; // 30s, 60s, 120s, 240s
@@ -22,6 +25,8 @@ class OptimizedWallpaperService {
       isFromCache: boolean;
       isToday: boolean;
       needsUpdate: boolean;
+      originalUrl?: string;
+      colorCacheId?: string;
     }>
   >();
   private fallbackImage = '/icon/favicon.png'; // 本地备用图片
@@ -79,8 +84,55 @@ class OptimizedWallpaperService {
     }
   }
 
+  // 当前设置的壁纸来源，每日必应返回 null（频繁调用，只读取需要的设置）
+  private getActiveProvider(): WallpaperProvider | null {
+    const wallpaperProvider = loadStoredSetting('wallpaperProvider');
+    if (wallpaperProvider === 'bing') return null;
+
+    return createWallpaperProvider({
+      wallpaperProvider,
+      bingArchiveIndex: loadStoredSetting('bingArchiveIndex'),
+      wallpaperUrlList: loadStoredSetting('wallpaperUrlList'),
+      wallpaperRotationMinutes: loadStoredSetting('wallpaperRotationMinutes'),
+      generatedBackground: loadStoredSetting('generatedBackground'),
+    });
+  }
+
+  // 自定义壁纸模式下启用的播放列表
+  private getActivePlaylist(): PlaylistProvider | null {
+    const activeId = loadStoredSetting('activeWallpaperPlaylistId');
+    const playlist = loadStoredSetting('wallpaperPlaylists').find((item) => item.id === activeId);
+    return playlist ? new PlaylistProvider(playlist, this.isDarkModeActive()) : null;
+  }
+
+  // 与 TransparencyContext 中的夜间模式计算保持一致
+  private isDarkModeActive(): boolean {
+    switch (loadStoredSetting('darkModePreference')) {
+      case 'on':
+        return true;
+      case 'off':
+        return false;
+      case 'scheduled':
+        return isTimeInRange(loadStoredSetting('darkModeScheduleStart'), loadStoredSetting('darkModeScheduleEnd'));
+      case 'system':
+      default:
+        return window.matchMedia('(prefers-color-scheme: dark)').matches;
+    }
+  }
+
+  // 距离当前壁纸来源或播放列表下次轮换的毫秒数，不轮换时返回 null
+  getNextRotationDelay(resolution: string): number | null {
+    const provider = resolution === 'custom' ? this.getActivePlaylist() : this.getActiveProvider();
+    return provider?.getNextRotationDelay() ?? null;
+  }
+
   // 页面变为可见时的处理
   private onPageVisible(): void {
+    // 使用其他壁纸来源时不需要更新每日必应壁纸
+    if (this.getActiveProvider()) {
+      return;
+    }
+
     // 检查今天是否有成功的壁纸更新记录
     const resolutions = ['1080p', '720p', '4k', 'mobile'];
     for (const resolution of resolutions) {
@@ -202,8 +254,8 @@ class OptimizedWallpaperService {
       // 标记今天已检查
       localStorage.setItem(lastCheckKey, today);
 
-      // 检查所有分辨率是否需要更新
-      const resolutions = ['1080p', '720p', '4k', 'mobile'];
+      // 检查所有分辨率是否需要更新（使用其他壁纸来源时跳过）
+      const resolutions = this.getActiveProvider() ? [] : ['1080p', '720p', '4k', 'mobile'];
 
       for (const resolution of resolutions) {
         const todayKey = this.getTodayCacheKey(resolution);
@@ -353,11 +405,8 @@ class OptimizedWallpaperService {
     try {
       logger.wallpaper.info('开始下载壁纸', { url: url.substring(0, 50) });
 
-      // 使用代理处理CORS
-      const proxyUrl =
-        url.includes('bing.com') || url.includes('unsplash.com')
-          ? `https://corsproxy.io/?${encodeURIComponent(url)}`
-          : url;
+      // 必应和 Unsplash 图片通过代理处理 CORS
+      const needsProxy = url.includes('bing.com') || url.includes('unsplash.com');
 
       // 准备请求头
       const headers: Record<string, string> = { Accept: 'image/*' };
@@ -371,12 +420,18 @@ class OptimizedWallpaperService {
         }
       }
 
-      // 使用请求管理器下载
-      const response = await createWallpaperRequest(proxyUrl, {
-        mode: 'cors',
-        headers,
-        signal: createTimeoutSignal(12000), // 12秒超时
-      });
+      // 使用请求管理器下载，代理请求由代理服务选择可用的代理
+      const response = needsProxy
+        ? await corsProxyService.request(url, { mode: 'cors', headers, binary: true, timeoutMs: 12000 })
+        : await createWallpaperRequest(url, {
+          mode: 'cors',
+          headers,
+          signal: createTimeoutSignal(12000), // 12秒超时
+        });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
 
       // 检查响应Content-Type
       const contentType = response.headers.get('Content-Type') || '';
@@ -479,8 +534,9 @@ class OptimizedWallpaperService {
     isToday: boolean;
     needsUpdate: boolean;
     originalUrl?: string; // 原始 URL（非 Blob URL）
+    colorCacheId?: string; // 其他壁纸来源的颜色分析缓存标识
   }> {
-    const cacheKey = `loading-${resolution}`;
+    const cacheKey = `loading-${resolution}-${this.getActiveProvider()?.type || 'bing'}`;
 
     // 防止重复加载
     if (this.loadingPromises.has(cacheKey)) {
@@ -509,10 +565,29 @@ class OptimizedWallpaperService {
     isToday: boolean;
     needsUpdate: boolean;
     originalUrl?: string;
+    colorCacheId?: string;
   }> {
     try {
       // 0. 如果是自定义壁纸，直接返回（每次从 IndexedDB 生成新的 Blob URL）
       if (resolution === 'custom') {
+        // 启用播放列表时按播放列表的规则选择壁纸
+        const playlist = this.getActivePlaylist();
+        if (playlist) {
+          try {
+            const wallpaper = await playlist.getWallpaper();
+            logger.wallpaper.info('使用播放列表壁纸', { id: wallpaper.colorCacheId });
+            return {
+              url: wallpaper.url,
+              isFromCache: true,
+              isToday: true,
+              needsUpdate: false,
+              colorCacheId: wallpaper.colorCacheId,
+            };
+          } catch (error) {
+            logger.wallpaper.warn('播放列表壁纸加载失败，使用当前自定义壁纸', error);
+          }
+        }
+
         const customUrl = await customWallpaperManager.getCurrentWallpaper();
         if (customUrl) {
           logger.wallpaper.info('使用自定义壁纸（从 IndexedDB 重新生成 Blob URL）');
@@ -534,7 +609,22 @@ class OptimizedWallpaperService {
         }
       }
 
-      // 0.1 检查是否需要强制刷新（跨天检查）
+      // 0.1 其他壁纸来源（必应往期、图片链接、本地轮播、生成背景），缓存由各来源处理
+      const provider = this.getActiveProvider();
+      if (provider) {
+        const wallpaper = await provider.getWallpaper(resolution);
+        logger.wallpaper.info('使用壁纸来源', { type: provider.type, isFromCache: wallpaper.isFromCache });
+        return {
+          url: wallpaper.url,
+          isFromCache: wallpaper.isFromCache,
+          isToday: true,
+          needsUpdate: false,
+          originalUrl: wallpaper.originalUrl,
+          colorCacheId: wallpaper.colorCacheId,
+        };
+      }
+
+      // 0.2 检查是否需要强制刷新（跨天检查）
       const shouldRefresh = this.shouldForceRefresh(resolution);
 
       // 🔧 修复: 先获取旧缓存作为降级备用，不要立即删除
@@ -730,6 +820,9 @@ class OptimizedWallpaperService {
     if (!('requestIdleCallback' in window)) {
       return; // 不支持空闲回调的浏览器跳过预加载
     }
+    if (this.getActiveProvider()) {
+      return; // 其他壁纸来源按需加载
+    }
 
     const resolutions = ['1080p', '720p', '4k', 'mobile'];
 
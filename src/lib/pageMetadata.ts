@@ -0,0 +1,274 @@
+/**
+ * 网页信息抓取（标题、描述、图标、Open Graph 图片），用于新建卡片时自动填写
+ * 优先调用 page-metadata 边缘函数；未配置 Supabase 或边缘函数不可用时通过代理下载网页在本地解析
+ */
+
+import { logger } from './logger';
+import { createTimeoutSignal } from './abortUtils';
+import { corsProxyService } from './proxy';
+
+export interface PageIcon {
+  url: string;
+  size: number; // 最大边长，未声明尺寸时为 0
+  type?: string;
+  source: 'apple-touch-icon' | 'manifest' | 'icon';
+}
+
+export interface PageMetadata {
+  url: string;
+  finalUrl: string;
+  title: string;
+  description: string;
+  siteName: string;
+  image: string | null; // og:image
+  icons: PageIcon[];
+}
+
+interface CachedMetadata {
+  metadata: PageMetadata;
+  expiry: number;
+}
+
+const CACHE_KEY = 'page-metadata-cache';
+const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7天
+const MAX_CACHE_ENTRIES = 100;
+const REQUEST_TIMEOUT = 12000;
+
+// "180x180" / "16x16 32x32" / "any" 取最大边长，矢量图标按 512 计（与边缘函数一致）
+const parseIconSize = (sizes: string | null | undefined, type: string | null | undefined): number => {
+  if (sizes?.toLowerCase().includes('any') || type === 'image/svg+xml') return 512;
+  const values = (sizes || '').match(/\d+x\d+/gi) || [];
+  return Math.max(0, ...values.map((value) => Math.max(...value.split(/x/i).map(Number))));
+};
+
+const resolveUrl = (href: string | null | undefined, base: string): string | null => {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// 缓存键：去掉 hash，其余部分保持原样
+const getCacheKey = (url: string) => {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * 解析网页 HTML（边缘函数不可用时的本地解析）
+ */
+const parsePageHtml = (html: string, pageUrl: string, finalUrl: string): { metadata: PageMetadata; manifestUrl: string | null } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const base = resolveUrl(doc.querySelector('base[href]')?.getAttribute('href'), finalUrl) || finalUrl;
+
+  const getMeta = (...keys: string[]) => {
+    for (const key of keys) {
+      const content = doc
+        .querySelector(`meta[property="${key}" i], meta[name="${key}" i]`)
+        ?.getAttribute('content')
+        ?.trim();
+      if (content) return content;
+    }
+    return '';
+  };
+
+  const icons: PageIcon[] = [];
+  doc.querySelectorAll('link[rel][href]').forEach((link) => {
+    const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+    const url = resolveUrl(link.getAttribute('href'), base);
+    if (!url || icons.some((icon) => icon.url === url)) return;
+
+    const type = link.getAttribute('type') || undefined;
+    if (rel.includes('apple-touch-icon') || rel.includes('apple-touch-icon-precomposed')) {
+      // 未声明尺寸的 apple-touch-icon 按 iOS 默认的 180 计
+      icons.push({ url, size: parseIconSize(link.getAttribute('sizes'), type) || 180, type, source: 'apple-touch-icon' });
+    } else if (rel.includes('icon')) {
+      icons.push({ url, size: parseIconSize(link.getAttribute('sizes'), type), type, source: 'icon' });
+    }
+  });
+
+  return {
+    metadata: {
+      url: pageUrl,
+      finalUrl,
+      title: (doc.querySelector('title')?.textContent || getMeta('og:title')).replace(/\s+/g, ' ').trim(),
+      description: getMeta('description', 'og:description', 'twitter:description').replace(/\s+/g, ' '),
+      siteName: getMeta('og:site_name', 'application-name', 'apple-mobile-web-app-title'),
+      image: resolveUrl(getMeta('og:image', 'og:image:url', 'twitter:image'), base),
+      icons,
+    },
+    manifestUrl: resolveUrl(doc.querySelector('link[rel~="manifest" i][href]')?.getAttribute('href'), base),
+  };
+};
+
+class PageMetadataService {
+  private cache: Record<string, CachedMetadata> = {};
+  private pending = new Map<string, Promise<PageMetadata>>();
+
+  constructor() {
+    this.loadCache();
+  }
+
+  /**
+   * 获取网页信息，同一地址的结果会缓存 7 天
+   * @param url 网页地址
+   * @param force 忽略缓存重新抓取
+   */
+  async fetch(url: string, force = false): Promise<PageMetadata> {
+    const key = getCacheKey(url);
+    const cached = this.cache[key];
+    if (!force && cached && cached.expiry > Date.now()) {
+      return cached.metadata;
+    }
+
+    // 合并同一地址的并发请求
+    const pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const request = this.load(key)
+      .then((metadata) => {
+        this.cache[key] = { metadata, expiry: Date.now() + CACHE_TTL };
+        this.saveCache();
+        return metadata;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * 清除缓存的网页信息
+   */
+  clearCache(url?: string): void {
+    if (url) {
+      delete this.cache[getCacheKey(url)];
+    } else {
+      this.cache = {};
+    }
+    this.saveCache();
+  }
+
+  private async load(url: string): Promise<PageMetadata> {
+    try {
+      const metadata = await this.fetchFromEdgeFunction(url);
+      if (metadata) return metadata;
+    } catch (error) {
+      logger.debug('网页信息边缘函数不可用，改为本地解析', error);
+    }
+
+    return this.fetchViaProxy(url);
+  }
+
+  private async fetchFromEdgeFunction(url: string): Promise<PageMetadata | null> {
+    const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '');
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !anonKey) return null;
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/page-metadata?url=${encodeURIComponent(url)}`, {
+      headers: { Authorization: `Bearer ${anonKey}`, apikey: anonKey },
+      signal: createTimeoutSignal(REQUEST_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`page-metadata 返回 ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private async fetchViaProxy(url: string): Promise<PageMetadata> {
+    const response = await corsProxyService.request(url, {
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+      binary: false,
+      timeoutMs: REQUEST_TIMEOUT,
+    });
+    if (!response.ok) {
+      throw new Error(`无法获取网页信息（HTTP ${response.status}）`);
+    }
+
+    const finalUrl = response.headers.get('X-Final-Url') || url;
+    const { metadata, manifestUrl } = parsePageHtml(await response.text(), url, finalUrl);
+
+    if (manifestUrl) {
+      try {
+        const manifestResponse = await corsProxyService.request(manifestUrl, { binary: false, timeoutMs: 5000 });
+        const manifest = manifestResponse.ok ? await manifestResponse.json() : null;
+        const manifestIcons: Array<{ src?: string; sizes?: string; type?: string; purpose?: string }> =
+          Array.isArray(manifest?.icons) ? manifest.icons : [];
+
+        for (const icon of manifestIcons) {
+          const iconUrl = resolveUrl(icon.src, manifestUrl);
+          // 单色图标只有轮廓，不适合作为卡片图标
+          if (!iconUrl || /^monochrome$/i.test(icon.purpose?.trim() || '')) continue;
+          if (metadata.icons.some((existing) => existing.url === iconUrl)) continue;
+          metadata.icons.push({ url: iconUrl, size: parseIconSize(icon.sizes, icon.type), type: icon.type, source: 'manifest' });
+        }
+      } catch (error) {
+        logger.debug('读取 manifest 失败', error);
+      }
+    }
+
+    return metadata;
+  }
+
+  private loadCache(): void {
+    try {
+      const cached = localStorage.getItem(CACHE_KEY);
+      if (!cached) return;
+
+      const now = Date.now();
+      const entries = Object.entries(JSON.parse(cached) as Record<string, CachedMetadata>);
+      this.cache = Object.fromEntries(entries.filter(([, entry]) => entry?.expiry > now && entry.metadata));
+    } catch (error) {
+      logger.warn('加载网页信息缓存失败', error);
+      this.cache = {};
+    }
+  }
+
+  private saveCache(): void {
+    // 超出上限时丢弃最早过期的记录
+    const entries = Object.entries(this.cache);
+    if (entries.length > MAX_CACHE_ENTRIES) {
+      entries.sort(([, a], [, b]) => b.expiry - a.expiry);
+      this.cache = Object.fromEntries(entries.slice(0, MAX_CACHE_ENTRIES));
+    }
+
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(this.cache));
+    } catch (error) {
+      logger.warn('保存网页信息缓存失败', error);
+    }
+  }
+}
+
+export const pageMetadataService = new PageMetadataService();
+
+/**
+ * 从网页信息推断网站名：优先 og:site_name，其次标题中分隔符前的部分（"GitHub - Build software" → "GitHub"）
+ */
+export const getSuggestedName = (metadata: PageMetadata): string => {
+  if (metadata.siteName && metadata.siteName.length <= 30) {
+    return metadata.siteName;
+  }
+
+  const [firstPart] = metadata.title
+    .split(/\s+[-|–—·:]\s+|\s*[|｜_]\s*/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return (firstPart || '').slice(0, 30);
+};
+
+/**
+ * 网页声明的图标，按清晰度从高到低排序，同尺寸时 apple-touch-icon 和 manifest 图标优先
+ */
+export const getSortedPageIcons = (metadata: PageMetadata): PageIcon[] => {
+  const sourceOrder: Record<PageIcon['source'], number> = { 'apple-touch-icon': 0, manifest: 1, icon: 2 };
+  return [...metadata.icons].sort((a, b) => b.size - a.size || sourceOrder[a.source] - sourceOrder[b.source]);
+};
@@ -1,185 +1,233 @@
-import { ProxyConfig, ProxyResponse } from './types';
-import { getSortedProxyConfigs } from './config';
-import { canProxyHandleBinary, mergeHeaders, transformUrl } from './utils';
+import { combineAbortSignals, createTimeoutSignal } from '../abortUtils';
+import { logger } from '../logger';
+import type { ProxyEndpointPreference } from '@/types/settings';
+import { getConfiguredProxies, getSortedProxyConfigs } from './config';
+import { ProxyHealthTracker } from './health';
+import { ProxyConfig, ProxyEndpointStatus, ProxyRequestOptions, ProxyResponse } from './types';
+import { canProxyHandleBinary, hasCredentialHeaders, isBinaryUrl, mergeHeaders, transformUrl } from './utils';
+
+const DEFAULT_TIMEOUT = 15000;
+const TEST_URL = 'https://www.bing.com/robots.txt';
+
+// 代理本身出错的状态码（超时、限流、网关错误），其他状态码是目标站点的正常响应
+const isProxyFailureStatus = (status: number) => status === 408 || status === 429 || status >= 500;
 
 /**
- * Service for handling CORS proxy requests with fallback mechanism
+ * Service for handling CORS proxy requests with health scoring, circuit breaking and fallback
+ * 所有跨域请求（图标、壁纸、Notion 等）都通过这里按同一策略选择代理
  */
 export class CorsProxyService {
-  private proxyConfigs: ProxyConfig[];
-  private workingProxies: Set<string>;
-  private failedProxies: Map<string, number>; // proxy name -> timestamp of failure
-  private readonly RETRY_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+  private fixedConfigs: ProxyConfig[] | null;
+  private health: ProxyHealthTracker;
 
   /**
    * Create a new CorsProxyService
-   * @param configs Optional proxy configurations (uses default if not provided)
+   * @param configs Optional proxy configurations (uses the user's proxy settings if not provided)
    */
   constructor(configs?: ProxyConfig[]) {
-    this.proxyConfigs = configs || getSortedProxyConfigs();
-    this.workingProxies = new Set(this.proxyConfigs.map((config) => config.name));
-    this.failedProxies = new Map();
+    this.fixedConfigs = configs || null;
+    this.health = new ProxyHealthTracker();
   }
 
   /**
-   * Fetch data through a CORS proxy
+   * Send a request through the best available proxy, falling back to the next one when a proxy fails
+   * @param url The target URL
+   * @param options Fetch options plus proxy options
+   * @returns The response of the first proxy that relayed the request
+   */
+  async request(url: string, options: ProxyRequestOptions = {}): Promise<Response> {
+    const { response } = await this.send(url, options);
+    return response;
+  }
+
+  /**
+   * Fetch data through a CORS proxy and parse it by content type
    * @param url The target URL to fetch
    * @param options Fetch options
    * @returns The response data and metadata
    */
-  async fetch<T>(url: string, options?: RequestInit): Promise<ProxyResponse<T>> {
-    // Reset failed proxies that have exceeded the retry timeout
-    this.resetFailedProxies();
+  async fetch<T>(url: string, options?: ProxyRequestOptions): Promise<ProxyResponse<T>> {
+    const { response, proxy } = await this.send(url, options);
 
-    // Get available proxies sorted by priority
-    const availableProxies = this.getAvailableProxies(url);
+    if (!response.ok) {
+      throw new Error(`Proxy ${proxy.name} returned status ${response.status}`);
+    }
 
-    if (availableProxies.length === 0) {
-      throw new Error('No suitable proxy services available');
+    // Parse response based on content type
+    const contentType = response.headers.get('content-type') || '';
+    let data: T;
+
+    if (contentType.includes('application/json')) {
+      data = await response.json();
+    } else if (contentType.startsWith('image/')) {
+      // For binary data like images
+      data = (await response.blob()) as unknown as T;
+    } else {
+      // Default to text
+      data = (await response.text()) as unknown as T;
     }
 
-    // Try each proxy in order
-    return this.tryNextProxy<T>(url, availableProxies, options);
+    return {
+      data,
+      error: null,
+      source: proxy.name,
+    };
   }
 
   /**
-   * Try to fetch using the next available proxy
+   * Get a proxied URL for places that can't send headers (e.g. `<img src>`), or null if no proxy fits
    */
-  private async tryNextProxy<T>(
-    url: string,
-    proxies: ProxyConfig[],
-    options?: RequestInit,
-    attempts = 0
-  ): Promise<ProxyResponse<T>> {
-    if (attempts >= proxies.length) {
-      // All proxies failed
-      throw new Error('All proxy services failed');
-    }
+  getProxiedUrl(url: string, binary = isBinaryUrl(url)): string | null {
+    const proxy = this.getCandidates(url, binary).find((config) => !config.isSupabaseProxy && !config.headers);
+    return proxy ? transformUrl(proxy, url) : null;
+  }
 
-    const proxy = proxies[attempts];
+  /**
+   * Send a test request through one proxy and record the result in its health
+   */
+  async testProxy(id: string): Promise<{ ok: boolean; latency: number; error?: string }> {
+    const proxy = this.getAllConfigs().find((config) => config.id === id);
+    if (!proxy) {
+      return { ok: false, latency: 0, error: '代理不存在' };
+    }
 
+    const start = Date.now();
     try {
-      // Log retained for debugging proxy services
-
-      // Transform URL for this proxy
-      const proxyUrl = transformUrl(proxy, url);
-
-      // Merge headers
-      const headers = mergeHeaders(proxy, options?.headers);
-
-      // Create fetch options
-      const fetchOptions: RequestInit = {
-        ...options,
-        headers,
-      };
-
-      // Make the request
-      const response = await fetch(proxyUrl, fetchOptions);
-
+      const response = await fetch(transformUrl(proxy, TEST_URL), {
+        headers: mergeHeaders(proxy),
+        signal: createTimeoutSignal(8000),
+      });
+      const latency = Date.now() - start;
       if (!response.ok) {
-        throw new Error(`Proxy ${proxy.name} returned status ${response.status}`);
+        throw new Error(`HTTP ${response.status}`);
       }
-
-      // Parse response based on content type
-      const contentType = response.headers.get('content-type') || '';
-      let data: T;
-
-      if (contentType.includes('application/json')) {
-        data = await response.json();
-      } else if (contentType.startsWith('image/')) {
-        // For binary data like images
-        const blob = await response.blob();
-        data = blob as unknown as T;
-      } else {
-        // Default to text
-        const text = await response.text();
-        data = text as unknown as T;
-      }
-
-      // Mark this proxy as working
-      this.workingProxies.add(proxy.name);
-      this.failedProxies.delete(proxy.name);
-
-      return {
-        data,
-        error: null,
-        source: proxy.name,
-      };
+      this.health.recordSuccess(id, latency);
+      return { ok: true, latency };
     } catch (error) {
-      // Log retained for debugging proxy services
-
-      // Mark this proxy as failed
-      this.workingProxies.delete(proxy.name);
-      this.failedProxies.set(proxy.name, Date.now());
-
-      // Try the next proxy
-      return this.tryNextProxy<T>(url, proxies, options, attempts + 1);
+      const message = error instanceof Error ? error.message : String(error);
+      this.health.recordFailure(id, message);
+      return { ok: false, latency: Date.now() - start, error: message };
     }
   }
 
   /**
-   * Get available proxies that can handle the given URL
+   * Get every configured proxy with its enabled state and health
+   * @param preferences The user's proxy order, for settings that are not persisted yet
+   * @param selfHostedUrl The self-hosted proxy URL, for settings that are not persisted yet
+   * @param selfHostedTrusted Whether the self-hosted proxy is trusted, for settings that are not persisted yet
    */
-  private getAvailableProxies(url: string): ProxyConfig[] {
-    return this.proxyConfigs
-      .filter((proxy) => this.workingProxies.has(proxy.name))
-      .filter((proxy) => canProxyHandleBinary(proxy, url))
-      .sort((a, b) => a.priority - b.priority);
+  getEndpointStatuses(
+    preferences?: ProxyEndpointPreference[],
+    selfHostedUrl?: string,
+    selfHostedTrusted?: boolean
+  ): ProxyEndpointStatus[] {
+    const configs = this.fixedConfigs
+      ? this.fixedConfigs.map((config) => ({ ...config, enabled: true }))
+      : getConfiguredProxies(preferences, selfHostedUrl, selfHostedTrusted);
+    return configs.map((config) => ({ ...config, health: this.health.get(config.id) }));
   }
 
   /**
-   * Reset failed proxies that have exceeded the retry timeout
+   * Clear the health records, e.g. after the network changed
    */
-  private resetFailedProxies(): void {
-    const now = Date.now();
-
-    for (const [proxyName, failureTime] of this.failedProxies.entries()) {
-      if (now - failureTime > this.RETRY_TIMEOUT) {
-        // Reset this proxy
-        this.failedProxies.delete(proxyName);
-        this.workingProxies.add(proxyName);
-        // Log retained for debugging proxy services
-      }
-    }
+  resetHealth(id?: string): void {
+    this.health.reset(id);
   }
 
   /**
-   * Check if a proxy is currently working
+   * Get the current status of all proxy services
    */
-  async isProxyWorking(proxyName: string): Promise<boolean> {
-    const proxy = this.proxyConfigs.find((p) => p.name === proxyName);
+  getProxyStatus(): Record<string, 'working' | 'failed'> {
+    const status: Record<string, 'working' | 'failed'> = {};
 
-    if (!proxy) {
-      return false;
+    for (const proxy of this.getProxyConfigs()) {
+      status[proxy.name] = this.health.get(proxy.id).circuit === 'open' ? 'failed' : 'working';
     }
 
-    try {
-      // Use a simple test URL
-      const testUrl = 'https://httpbin.org/status/200';
-      const proxyUrl = transformUrl(proxy, testUrl);
+    return status;
+  }
 
-      const response = await fetch(proxyUrl, {
-        method: 'HEAD',
-        headers: mergeHeaders(proxy),
-      });
+  private getProxyConfigs(): ProxyConfig[] {
+    return this.fixedConfigs || getSortedProxyConfigs();
+  }
 
-      return response.ok;
-    } catch (error) {
-      // Log retained for debugging proxy services
-      return false;
-    }
+  private getAllConfigs(): ProxyConfig[] {
+    return this.fixedConfigs || getConfiguredProxies();
   }
 
   /**
-   * Get the current status of all proxy services
+   * Get proxies that can handle the URL: healthy ones first, then by priority;
+   * proxies with an open circuit are skipped unless every proxy is open.
+   * Requests carrying credentials only go through trusted proxies
    */
-  getProxyStatus(): Record<string, 'working' | 'failed'> {
-    const status: Record<string, 'working' | 'failed'> = {};
+  private getCandidates(url: string, binary: boolean, credentialed = false): ProxyConfig[] {
+    const configs = this.getProxyConfigs().filter(
+      (proxy) => canProxyHandleBinary(proxy, url, binary) && (!credentialed || proxy.trusted)
+    );
+    const available = configs.filter((proxy) => this.health.canRequest(proxy.id));
+    // 全部熔断时仍按顺序尝试，避免所有跨域请求直接失败
+    const candidates = available.length > 0 ? available : configs;
+
+    return [...candidates].sort((a, b) => {
+      const healthOrder = Number(this.health.isHealthy(b.id)) - Number(this.health.isHealthy(a.id));
+      return healthOrder || a.priority - b.priority;
+    });
+  }
 
-    for (const proxy of this.proxyConfigs) {
-      status[proxy.name] = this.workingProxies.has(proxy.name) ? 'working' : 'failed';
+  private async send(url: string, options: ProxyRequestOptions = {}): Promise<{ response: Response; proxy: ProxyConfig }> {
+    const { binary = isBinaryUrl(url), timeoutMs = DEFAULT_TIMEOUT, ...init } = options;
+    const credentialed = hasCredentialHeaders(init.headers);
+    const proxies = this.getCandidates(url, binary, credentialed);
+
+    if (proxies.length === 0) {
+      throw new Error(
+        credentialed
+          ? '没有可信任的代理服务转发认证请求，请启用 Supabase 代理或在设置中信任自建代理'
+          : '没有可用的代理服务，请在设置中启用至少一个代理'
+      );
     }
 
-    return status;
+    let lastError: Error | null = null;
+    let lastFailure: { response: Response; proxy: ProxyConfig } | null = null;
+
+    // Try each proxy in order
+    for (const proxy of proxies) {
+      this.health.begin(proxy.id);
+      const start = Date.now();
+
+      try {
+        const response = await fetch(transformUrl(proxy, url), {
+          ...init,
+          headers: mergeHeaders(proxy, init.headers),
+          signal: combineAbortSignals(init.signal ?? undefined, createTimeoutSignal(timeoutMs)),
+        });
+
+        if (isProxyFailureStatus(response.status)) {
+          lastFailure = { response, proxy };
+          throw new Error(`Proxy ${proxy.name} returned status ${response.status}`);
+        }
+
+        this.health.recordSuccess(proxy.id, Date.now() - start);
+        return { response, proxy };
+      } catch (error) {
+        // 调用方取消的请求不影响代理评分
+        if (init.signal?.aborted) {
+          this.health.release(proxy.id);
+          throw error;
+        }
+
+        lastError = error instanceof Error ? error : new Error(String(error));
+        this.health.recordFailure(proxy.id, lastError.message);
+        logger.debug(`代理 ${proxy.name} 请求失败，尝试下一个`, lastError.message);
+      }
+    }
+
+    // 所有代理都失败时返回最后一个代理的错误响应，让调用方看到目标站点的状态码
+    if (lastFailure) {
+      return lastFailure;
+    }
+    throw lastError || new Error('All proxy services failed');
   }
 }
+
+export const corsProxyService = new CorsProxyService();
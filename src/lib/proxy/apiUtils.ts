@@ -1,65 +1,3 @@
-import { ProxyConfig } from './types';
-import { mergeHeaders, transformUrl } from './utils';
-
-/**
- * Special handling for Notion API requests
- */
-export function prepareNotionRequest(
-  proxyConfig: ProxyConfig,
-  url: string,
-  options?: RequestInit
-): { url: string; options: RequestInit } {
-  const headers = new Headers(options?.headers || {});
-
-  // Ensure Notion API version is set
-  if (!headers.has('Notion-Version')) {
-    headers.set('Notion-Version', '2022-06-28');
-  }
-
-  // Ensure content type is set for Notion API
-  if (!headers.has('Content-Type')) {
-    headers.set('Content-Type', 'application/json');
-  }
-
-  // Create new options with merged headers
-  const newOptions: RequestInit = {
-    ...options,
-    headers: mergeHeaders(proxyConfig, headers),
-  };
-
-  return {
-    url: transformUrl(proxyConfig, url),
-    options: newOptions,
-  };
-}
-
-/**
- * Special handling for image requests
- */
-export function prepareImageRequest(
-  proxyConfig: ProxyConfig,
-  url: string,
-  options?: RequestInit
-): { url: string; options: RequestInit } {
-  const headers = new Headers(options?.headers || {});
-
-  // Set accept header for images
-  if (!headers.has('Accept')) {
-    headers.set('Accept', 'image/*');
-  }
-
-  // Create new options with merged headers
-  const newOptions: RequestInit = {
-    ...options,
-    headers: mergeHeaders(proxyConfig, headers),
-  };
-
-  return {
-    url: transformUrl(proxyConfig, url),
-    options: newOptions,
-  };
-}
-
 /**
  * Create a cache key for a request
  */
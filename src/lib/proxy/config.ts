@@ -1,78 +1,130 @@
+import { loadStoredSetting } from '../settingsSchema';
+import type { ProxyEndpointPreference } from '@/types/settings';
 import { ProxyConfig } from './types';
+import { transformUrl } from './utils';
+
+export const EDGE_PROXY_ID = 'proxy-fetch';
+export const SELF_HOSTED_PROXY_ID = 'self-hosted';
+
+/**
+ * 获取 Supabase proxy-fetch 边缘函数地址，未配置 Supabase 时返回空字符串
+ */
+function getEdgeProxyUrl(): string {
+  const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '');
+  return supabaseUrl ? `${supabaseUrl}/functions/v1/proxy-fetch?url={url}` : '';
+}
 
 /**
- * Configuration for proxy services including Supabase Edge Functions
- * These are ordered by priority (lower number = higher priority)
+ * Built-in proxy services, ordered by default priority (lower number = higher priority)
  */
 export const proxyConfigs: ProxyConfig[] = [
-  // Supabase代理服务（最高优先级）
+  // Supabase 通用代理（最高优先级）
   {
-    name: 'supabase-notion',
-    url: getSupabaseNotionProxyUrl(),
-    transformRequest: (url) => {
-      // 专门处理Notion API的代理
-      if (url.includes('api.notion.com')) {
-        const supabaseUrl = getSupabaseNotionProxyUrl();
-        const notionPath = url.replace('https://api.notion.com/v1', '');
-        return `${supabaseUrl}${notionPath}`;
-      }
-      return url; // 非Notion API直接返回原URL
-    },
+    id: EDGE_PROXY_ID,
+    name: 'Supabase 代理',
+    url: getEdgeProxyUrl(),
     supportsBinary: true,
-    priority: 0, // 最高优先级
+    priority: 0,
     isSupabaseProxy: true,
+    trusted: true,
   },
   {
+    id: 'corsproxy.io',
     name: 'corsproxy.io',
-    url: 'https://corsproxy.io/',
-    transformRequest: (url) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
+    url: 'https://corsproxy.io/?{url}',
     supportsBinary: true,
     priority: 1,
   },
   {
+    id: 'allorigins',
     name: 'allorigins',
-    url: 'https://api.allorigins.win/',
-    transformRequest: (url) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
+    url: 'https://api.allorigins.win/raw?url={url}',
     supportsBinary: true,
     priority: 2,
   },
   {
+    id: 'thingproxy',
     name: 'thingproxy',
-    url: 'https://thingproxy.freeboard.io/fetch/',
-    transformRequest: (url) => `https://thingproxy.freeboard.io/fetch/${url}`,
+    url: 'https://thingproxy.freeboard.io/fetch/{rawUrl}',
     supportsBinary: false,
     priority: 3,
   },
-  {
-    name: 'cors-anywhere',
-    url: 'https://cors-anywhere.herokuapp.com/',
-    transformRequest: (url) => `https://cors-anywhere.herokuapp.com/${url}`,
+].filter((config) => config.url);
+
+/**
+ * Build the config of the user's self-hosted proxy
+ */
+function getSelfHostedProxyConfig(selfHostedUrl: string, trusted: boolean): ProxyConfig | null {
+  const url = selfHostedUrl.trim();
+  if (!url) return null;
+
+  return {
+    id: SELF_HOSTED_PROXY_ID,
+    name: '自建代理',
+    url,
     supportsBinary: true,
-    priority: 4, // Lower priority as it requires demo access
-    headers: {
-      'X-Requested-With': 'XMLHttpRequest',
-    },
-  },
-];
+    priority: -1, // 默认排在内置代理前面
+    isSelfHosted: true,
+    trusted,
+  };
+}
 
 /**
- * 获取Supabase Notion代理URL
+ * Get all proxy configurations with the user's order and enabled state applied
+ * @param preferences The user's proxy order (defaults to the stored setting)
+ * @param selfHostedUrl The self-hosted proxy URL (defaults to the stored setting)
+ * @param selfHostedTrusted Whether the self-hosted proxy may relay credentials (defaults to the stored setting)
  */
-function getSupabaseNotionProxyUrl(): string {
-  const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '');
-  return supabaseUrl ? `${supabaseUrl}/functions/v1/notion-proxy` : '';
+export function getConfiguredProxies(
+  preferences: ProxyEndpointPreference[] = loadStoredSetting('proxyEndpoints'),
+  selfHostedUrl: string = loadStoredSetting('selfHostedProxyUrl'),
+  selfHostedTrusted: boolean = loadStoredSetting('selfHostedProxyTrusted')
+): Array<ProxyConfig & { enabled: boolean }> {
+  const selfHosted = getSelfHostedProxyConfig(selfHostedUrl, selfHostedTrusted);
+  const available = [...(selfHosted ? [selfHosted] : []), ...proxyConfigs].sort((a, b) => a.priority - b.priority);
+
+  // 用户排过序的代理在前，新加入的代理按默认顺序排在后面
+  const ordered = [
+    ...preferences
+      .map((preference) => available.find((config) => config.id === preference.id))
+      .filter((config): config is ProxyConfig => !!config),
+    ...available.filter((config) => !preferences.some((preference) => preference.id === config.id)),
+  ];
+
+  return ordered.map((config, index) => ({
+    ...config,
+    priority: index,
+    enabled: preferences.find((preference) => preference.id === config.id)?.enabled ?? true,
+  }));
 }
 
 /**
- * Get proxy configurations sorted by priority
+ * Get the enabled proxy configurations sorted by priority
  */
 export function getSortedProxyConfigs(): ProxyConfig[] {
-  return [...proxyConfigs].sort((a, b) => a.priority - b.priority);
+  return getConfiguredProxies().filter((config) => config.enabled);
+}
+
+/**
+ * Get a proxy configuration by id
+ */
+export function getProxyConfigById(id: string): ProxyConfig | undefined {
+  return getConfiguredProxies().find((config) => config.id === id);
 }
 
 /**
- * Get a proxy configuration by name
+ * Get the origins of the first enabled proxies, e.g. for preconnect hints
  */
-export function getProxyConfigByName(name: string): ProxyConfig | undefined {
-  return proxyConfigs.find((config) => config.name === name);
+export function getPreferredProxyOrigins(count = 2): string[] {
+  const origins: string[] = [];
+  for (const config of getSortedProxyConfigs()) {
+    try {
+      const { origin } = new URL(transformUrl(config, 'https://example.com/'));
+      if (!origins.includes(origin)) origins.push(origin);
+    } catch {
+      // 自建代理地址无效时跳过
+    }
+    if (origins.length >= count) break;
+  }
+  return origins;
 }
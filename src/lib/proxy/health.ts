@@ -0,0 +1,162 @@
+import { logger } from '../logger';
+import { ProxyHealth } from './types';
+
+const STORAGE_KEY = 'proxy-health';
+const FAILURE_THRESHOLD = 3; // 连续失败次数达到后熔断
+const BASE_COOLDOWN = 30 * 1000;
+const MAX_COOLDOWN = 10 * 60 * 1000;
+const SMOOTHING = 0.3; // 移动平均中最新一次结果的权重
+const HEALTHY_SCORE = 0.5;
+
+const createHealth = (): ProxyHealth => ({
+  score: 1,
+  latency: 0,
+  successes: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  circuit: 'closed',
+  openedAt: 0,
+  cooldown: BASE_COOLDOWN,
+  lastUsed: 0,
+});
+
+/**
+ * Health scoring and circuit breaking per proxy endpoint
+ * 每个新标签页都是新的页面，健康记录保存在 localStorage 中，避免每次都重新试探失效的代理
+ */
+export class ProxyHealthTracker {
+  private health: Record<string, ProxyHealth>;
+  private trialsInFlight = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.health = this.load();
+  }
+
+  get(id: string): ProxyHealth {
+    return { ...(this.health[id] ?? createHealth()) };
+  }
+
+  /**
+   * Whether a request may be sent to the endpoint now; an open circuit lets a single trial
+   * request through once its cooldown has passed
+   */
+  canRequest(id: string, now = Date.now()): boolean {
+    const health = this.health[id];
+    if (!health || health.circuit === 'closed') return true;
+    if (this.trialsInFlight.has(id)) return false;
+    return now - health.openedAt >= health.cooldown;
+  }
+
+  isHealthy(id: string): boolean {
+    return (this.health[id]?.score ?? 1) >= HEALTHY_SCORE;
+  }
+
+  /**
+   * Mark the start of a request; returns whether it is a half-open trial
+   */
+  begin(id: string): boolean {
+    const health = this.health[id];
+    if (!health || health.circuit === 'closed') return false;
+
+    health.circuit = 'half-open';
+    this.trialsInFlight.add(id);
+    return true;
+  }
+
+  recordSuccess(id: string, latency: number) {
+    const health = this.ensure(id);
+    health.score = health.score * (1 - SMOOTHING) + SMOOTHING;
+    health.latency = health.successes === 0 ? latency : health.latency * (1 - SMOOTHING) + latency * SMOOTHING;
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.circuit = 'closed';
+    health.cooldown = BASE_COOLDOWN;
+    health.lastError = undefined;
+    health.lastUsed = Date.now();
+
+    this.trialsInFlight.delete(id);
+    this.scheduleSave();
+  }
+
+  recordFailure(id: string, error: string) {
+    const health = this.ensure(id);
+    const wasTrial = health.circuit === 'half-open';
+    health.score = health.score * (1 - SMOOTHING);
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error;
+    health.lastUsed = Date.now();
+
+    if (wasTrial) {
+      // 试探失败：重新熔断，冷却时间加倍
+      health.circuit = 'open';
+      health.openedAt = Date.now();
+      health.cooldown = Math.min(health.cooldown * 2, MAX_COOLDOWN);
+    } else if (health.consecutiveFailures >= FAILURE_THRESHOLD && health.circuit === 'closed') {
+      health.circuit = 'open';
+      health.openedAt = Date.now();
+      logger.warn(`代理 ${id} 连续失败 ${health.consecutiveFailures} 次，暂停使用`, {
+        cooldown: health.cooldown,
+      });
+    }
+
+    this.trialsInFlight.delete(id);
+    this.scheduleSave();
+  }
+
+  /**
+   * Release a trial that ended without a verdict (e.g. aborted by the caller)
+   */
+  release(id: string) {
+    const health = this.health[id];
+    if (health?.circuit === 'half-open' && this.trialsInFlight.has(id)) {
+      health.circuit = 'open';
+    }
+    this.trialsInFlight.delete(id);
+  }
+
+  reset(id?: string) {
+    if (id) {
+      delete this.health[id];
+      this.trialsInFlight.delete(id);
+    } else {
+      this.health = {};
+      this.trialsInFlight.clear();
+    }
+    this.scheduleSave();
+  }
+
+  private ensure(id: string): ProxyHealth {
+    if (!this.health[id]) {
+      this.health[id] = createHealth();
+    }
+    return this.health[id];
+  }
+
+  private load(): Record<string, ProxyHealth> {
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      const parsed: Record<string, ProxyHealth> = data ? JSON.parse(data) : {};
+      // 页面关闭时未完成的试探不再有效
+      Object.values(parsed).forEach((health) => {
+        if (health.circuit === 'half-open') health.circuit = 'open';
+      });
+      return parsed;
+    } catch {
+      return {};
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.health));
+      } catch (error) {
+        logger.warn('保存代理健康状态失败', error);
+      }
+    }, 1000);
+  }
+}
@@ -2,5 +2,5 @@ export * from './types';
 export * from './config';
 export * from './utils';
 export * from './apiUtils';
-export * from './requestHandlers';
+export * from './health';
 export * from './CorsProxyService';
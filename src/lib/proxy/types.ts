@@ -2,15 +2,18 @@
  * Configuration for a CORS proxy service
  */
 export interface ProxyConfig {
+  /** Stable id, referenced by the user's proxy preferences */
+  id: string;
+
   /** Name of the proxy service */
   name: string;
 
-  /** Base URL of the proxy service */
+  /**
+   * URL template of the proxy service. `{url}` is replaced by the encoded target URL and
+   * `{rawUrl}` by the target URL as-is; without a placeholder the encoded URL is appended
+   */
   url: string;
 
-  /** Function to transform the target URL for this proxy service */
-  transformRequest?: (url: string) => string;
-
   /** Additional headers to send with requests through this proxy */
   headers?: Record<string, string>;
 
@@ -20,8 +23,66 @@ export interface ProxyConfig {
   /** Priority of this proxy (lower number = higher priority) */
   priority: number;
 
-  /** Whether this is a Supabase Edge Function proxy */
+  /** Whether this is a Supabase Edge Function proxy (needs the Supabase auth header) */
   isSupabaseProxy?: boolean;
+
+  /** Whether this is the user's self-hosted proxy */
+  isSelfHosted?: boolean;
+
+  /** Whether requests carrying credentials (e.g. the Notion token) may be relayed through this proxy */
+  trusted?: boolean;
+}
+
+/**
+ * Circuit breaker state of a proxy endpoint
+ * - closed: requests go through normally
+ * - open: too many consecutive failures, skipped until the cooldown ends
+ * - half-open: cooldown ended, a single trial request decides whether to close again
+ */
+export type ProxyCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health record of a proxy endpoint, persisted across page loads
+ */
+export interface ProxyHealth {
+  /** Moving average of the success rate (0-1) */
+  score: number;
+
+  /** Moving average of the response time in milliseconds */
+  latency: number;
+
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  circuit: ProxyCircuitState;
+
+  /** When the circuit was last opened */
+  openedAt: number;
+
+  /** How long the circuit stays open, doubled after each failed trial */
+  cooldown: number;
+
+  lastError?: string;
+  lastUsed: number;
+}
+
+/**
+ * Options for a proxied request
+ */
+export interface ProxyRequestOptions extends RequestInit {
+  /** Only use proxies that can relay binary data */
+  binary?: boolean;
+
+  /** Timeout of each proxy attempt in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * A configured proxy endpoint with its current health, for the settings view
+ */
+export interface ProxyEndpointStatus extends ProxyConfig {
+  enabled: boolean;
+  health: ProxyHealth;
 }
 
 /**
@@ -4,7 +4,7 @@ import { ProxyConfig } from './types';
  * Check if a URL is for binary content (images, etc.)
  */
 export function isBinaryUrl(url: string): boolean {
-  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.svg'];
+  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.svg', '.ico'];
   const lowerUrl = url.toLowerCase();
 
   return (
@@ -14,6 +14,16 @@ export function isBinaryUrl(url: string): boolean {
   );
 }
 
+// 携带认证信息的请求头，这类请求只能经过可信代理
+const CREDENTIAL_HEADER_PATTERN = /^(authorization|cookie)$|token|api[-_]?key|secret/i;
+
+/**
+ * Check if request headers carry credentials
+ */
+export function hasCredentialHeaders(headers?: HeadersInit): boolean {
+  return [...new Headers(headers || {}).keys()].some((name) => CREDENTIAL_HEADER_PATTERN.test(name));
+}
+
 /**
  * Merge headers with proxy-specific headers
  */
@@ -29,28 +39,49 @@ export function mergeHeaders(proxyConfig: ProxyConfig, userHeaders?: HeadersInit
     });
   }
 
+  // Supabase 网关使用 Authorization 校验匿名密钥，目标站点的认证头改由 X-Proxy-Authorization 转发
+  if (proxyConfig.isSupabaseProxy) {
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    const targetAuth = headers.get('Authorization');
+    if (targetAuth) {
+      headers.set('X-Proxy-Authorization', targetAuth);
+    }
+    if (anonKey) {
+      headers.set('Authorization', `Bearer ${anonKey}`);
+      headers.set('apikey', anonKey);
+    } else {
+      headers.delete('Authorization');
+    }
+  }
+
   return headers;
 }
 
 /**
- * Transform a URL for a specific proxy service
+ * Transform a URL for a specific proxy service using its URL template
  */
 export function transformUrl(proxyConfig: ProxyConfig, url: string): string {
-  if (proxyConfig.transformRequest) {
-    return proxyConfig.transformRequest(url);
+  const template = proxyConfig.url;
+
+  if (template.includes('{url}')) {
+    return template.replace('{url}', encodeURIComponent(url));
+  }
+  if (template.includes('{rawUrl}')) {
+    return template.replace('{rawUrl}', url);
   }
 
-  // Default transformation if none provided
-  return `${proxyConfig.url}${url}`;
+  // Default transformation if no placeholder provided
+  return `${template}${encodeURIComponent(url)}`;
 }
 
 /**
  * Check if a proxy service supports binary content
  */
-export function canProxyHandleBinary(proxyConfig: ProxyConfig, url: string): boolean {
-  if (!isBinaryUrl(url)) {
+export function canProxyHandleBinary(proxyConfig: ProxyConfig, url: string, binary = isBinaryUrl(url)): boolean {
+  if (!binary) {
     return true; // Not binary content, so any proxy can handle it
   }
 
   return proxyConfig.supportsBinary === true;
 }
+
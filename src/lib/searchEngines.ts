@@ -0,0 +1,257 @@
+// 搜索引擎注册表 - 内置引擎、自定义引擎、!bang 快捷前缀与联想词获取
+import { logger } from './logger';
+import { createTimeoutSignal } from './abortUtils';
+
+export interface SearchEngine {
+  id: string;
+  name: string;
+  icon: string; // Font Awesome 类名（如 fa-brands fa-google）或图片地址，留空使用站点图标
+  urlTemplate: string; // 搜索地址模板，%s 为搜索词
+  suggestUrl?: string; // 联想词地址模板，%s 为搜索词；返回 JSON，只有内置的 JSONP 接口使用 %c 回调名
+  bang?: string; // !bang 快捷前缀（不含 !），如 g、gh
+  bangOnly?: boolean; // 仅通过 !bang 使用，不参与引擎切换
+  builtin?: boolean; // 内置引擎，可编辑但删除后可通过恢复默认找回
+}
+
+// 百度联想接口支持 JSONP，作为通用引擎的默认联想来源
+const BAIDU_SUGGEST_URL = 'https://suggestion.baidu.com/su?wd=%s&cb=%c';
+
+// JSONP 会在页面中执行接口返回的脚本，只允许内置的接口；
+// 自定义地址（可能来自被篡改的云端设置）一律按 JSON 请求
+const JSONP_SUGGEST_URLS = new Set([BAIDU_SUGGEST_URL]);
+
+export const isJsonpSuggestUrl = (url: string): boolean => JSONP_SUGGEST_URLS.has(url);
+
+export const DEFAULT_SEARCH_ENGINE_ID = 'bing';
+
+export const DEFAULT_SEARCH_ENGINES: SearchEngine[] = [
+  {
+    id: 'bing',
+    name: 'Bing',
+    icon: 'fa-brands fa-microsoft text-blue-400',
+    urlTemplate: 'https://www.bing.com/search?q=%s',
+    suggestUrl: BAIDU_SUGGEST_URL,
+    bang: 'b',
+    builtin: true,
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    icon: 'fa-brands fa-google text-blue-500',
+    urlTemplate: 'https://www.google.com/search?q=%s',
+    suggestUrl: BAIDU_SUGGEST_URL,
+    bang: 'g',
+    builtin: true,
+  },
+  {
+    id: 'duckduckgo',
+    name: 'DuckDuckGo',
+    icon: 'fa-solid fa-shield-halved text-orange-400',
+    urlTemplate: 'https://duckduckgo.com/?q=%s',
+    suggestUrl: BAIDU_SUGGEST_URL,
+    bang: 'ddg',
+    builtin: true,
+  },
+  {
+    id: 'baidu',
+    name: '百度',
+    icon: 'fa-solid fa-paw text-blue-500',
+    urlTemplate: 'https://www.baidu.com/s?wd=%s',
+    suggestUrl: BAIDU_SUGGEST_URL,
+    bang: 'bd',
+    builtin: true,
+  },
+  {
+    id: 'github',
+    name: 'GitHub',
+    icon: 'fa-brands fa-github text-white',
+    urlTemplate: 'https://github.com/search?q=%s',
+    bang: 'gh',
+    bangOnly: true,
+    builtin: true,
+  },
+  {
+    id: 'mdn',
+    name: 'MDN',
+    icon: 'fa-solid fa-book text-sky-400',
+    urlTemplate: 'https://developer.mozilla.org/zh-CN/search?q=%s',
+    bang: 'mdn',
+    bangOnly: true,
+    builtin: true,
+  },
+];
+
+const SUGGEST_TIMEOUT = 2000;
+const MAX_SUGGESTIONS = 5;
+
+// !bang 可以写在开头或结尾，如 `!gh react` 或 `react !gh`
+const LEADING_BANG_PATTERN = /^[!！]([a-z0-9]+)(?:\s+([\s\S]*))?$/i;
+const TRAILING_BANG_PATTERN = /^([\s\S]*?)\s+[!！]([a-z0-9]+)$/i;
+
+export const normalizeBang = (bang: string): string =>
+  bang.trim().replace(/^[!！]+/, '').toLowerCase();
+
+export const isValidUrlTemplate = (template: string): boolean => {
+  if (!template.includes('%s')) return false;
+  try {
+    const url = new URL(template.replace(/%s/g, 'test'));
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 取默认引擎：偏好不存在或仅限 !bang 时回退到第一个可切换的引擎
+ */
+export const resolveSearchEngine = (engines: SearchEngine[], engineId: string): SearchEngine => {
+  const switchable = getSwitchableEngines(engines);
+  return (
+    switchable.find((engine) => engine.id === engineId) ||
+    switchable[0] ||
+    engines[0] ||
+    DEFAULT_SEARCH_ENGINES[0]
+  );
+};
+
+/**
+ * 参与搜索框切换的引擎（排除仅限 !bang 的引擎）
+ */
+export const getSwitchableEngines = (engines: SearchEngine[]): SearchEngine[] =>
+  engines.filter((engine) => !engine.bangOnly);
+
+export const findEngineByBang = (engines: SearchEngine[], bang: string): SearchEngine | undefined => {
+  const normalized = normalizeBang(bang);
+  return normalized ? engines.find((engine) => engine.bang === normalized) : undefined;
+};
+
+export interface BangMatch {
+  engine: SearchEngine;
+  bang: string;
+  query: string;
+}
+
+/**
+ * 解析搜索词中的 !bang 前缀，未命中已注册的 bang 时返回 null（按普通搜索处理）
+ */
+export const parseBang = (input: string, engines: SearchEngine[]): BangMatch | null => {
+  const trimmed = input.trim();
+
+  const leading = trimmed.match(LEADING_BANG_PATTERN);
+  if (leading) {
+    const engine = findEngineByBang(engines, leading[1]);
+    if (engine) {
+      return { engine, bang: engine.bang as string, query: (leading[2] || '').trim() };
+    }
+  }
+
+  const trailing = trimmed.match(TRAILING_BANG_PATTERN);
+  if (trailing) {
+    const engine = findEngineByBang(engines, trailing[2]);
+    if (engine) {
+      return { engine, bang: engine.bang as string, query: trailing[1].trim() };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 生成搜索地址，搜索词为空时打开引擎首页
+ */
+export const buildSearchUrl = (engine: SearchEngine, query: string): string => {
+  if (!query.trim()) {
+    try {
+      return new URL(engine.urlTemplate.replace(/%s/g, '')).origin;
+    } catch {
+      // 模板异常时仍按原样替换
+    }
+  }
+  return engine.urlTemplate.replace(/%s/g, encodeURIComponent(query));
+};
+
+// 兼容百度格式 { s: [...] } 与 OpenSearch 格式 [query, [...]]
+const extractSuggestions = (data: unknown): string[] | null => {
+  const baiduList = data && typeof data === 'object' && 's' in data ? data.s : undefined;
+  const list: unknown = Array.isArray(baiduList) ? baiduList : Array.isArray(data) ? data[1] : undefined;
+  if (!Array.isArray(list)) return null;
+  return list
+    .map((item: unknown) =>
+      typeof item === 'string' ? item : item && typeof item === 'object' && 'phrase' in item ? item.phrase : undefined
+    )
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// JSONP 回调挂在 window 上
+const jsonpCallbacks = window as unknown as Record<string, ((data: unknown) => void) | undefined>;
+
+const fetchJsonpSuggestions = (template: string, query: string): Promise<string[] | null> =>
+  new Promise((resolve) => {
+    const callbackName = `searchSuggest_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const script = document.createElement('script');
+    let settled = false;
+
+    const finish = (result: string[] | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (document.head.contains(script)) {
+        document.head.removeChild(script);
+      }
+      delete jsonpCallbacks[callbackName];
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish(null), SUGGEST_TIMEOUT);
+    jsonpCallbacks[callbackName] = (data) => finish(extractSuggestions(data));
+    script.onerror = () => finish(null);
+    script.src = template.replace(/%s/g, encodeURIComponent(query)).replace(/%c/g, callbackName);
+    document.head.appendChild(script);
+  });
+
+// 直接请求不允许跨域时通过 CORS 代理请求
+const fetchJsonSuggestions = async (template: string, query: string): Promise<string[] | null> => {
+  const url = template.replace(/%s/g, encodeURIComponent(query));
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: createTimeoutSignal(SUGGEST_TIMEOUT) });
+  } catch (error) {
+    // 超时不再重试，跨域失败（TypeError）时改用代理
+    if (error instanceof DOMException) throw error;
+    // 代理模块依赖设置注册表，静态导入会形成循环依赖
+    const { corsProxyService } = await import('./proxy');
+    response = await corsProxyService.request(url, { timeoutMs: SUGGEST_TIMEOUT });
+  }
+  if (!response.ok) return null;
+  return extractSuggestions(await response.json());
+};
+
+/**
+ * 获取引擎的联想词，引擎未配置联想地址或请求失败时返回 null，由调用方回退到本地建议
+ */
+export const fetchEngineSuggestions = async (
+  engine: SearchEngine,
+  query: string
+): Promise<string[] | null> => {
+  if (!engine.suggestUrl || !query.trim()) return null;
+
+  try {
+    return isJsonpSuggestUrl(engine.suggestUrl)
+      ? await fetchJsonpSuggestions(engine.suggestUrl, query)
+      : await fetchJsonSuggestions(engine.suggestUrl, query);
+  } catch (error) {
+    logger.debug(`获取 ${engine.name} 联想词失败`, error);
+    return null;
+  }
+};
+
+/**
+ * 新建自定义引擎
+ */
+export const createSearchEngine = (fields: Omit<SearchEngine, 'id' | 'builtin'>): SearchEngine => ({
+  id: `engine-${Date.now()}`,
+  ...fields,
+  bang: fields.bang ? normalizeBang(fields.bang) : undefined,
+  suggestUrl: fields.suggestUrl?.trim() || undefined,
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  SETTING_KEYS,
+  getDefaultSetting,
+  getSettingScope,
+  parseSettingValue,
+  pickSettings,
+  sanitizeSettings,
+  SettingsValues,
+} from './settingsSchema';
+
+// 测试运行在 Node 环境，searchEngines 加载时需要 window
+vi.hoisted(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+const defaults = () =>
+  Object.fromEntries(SETTING_KEYS.map((key) => [key, getDefaultSetting(key)])) as SettingsValues;
+
+describe('设置注册表默认值', () => {
+  it('每个设置的默认值都能通过自身的校验', () => {
+    SETTING_KEYS.forEach((key) => {
+      expect(parseSettingValue(key, getDefaultSetting(key)), key).toBeDefined();
+    });
+  });
+
+  it('函数形式的默认值每次返回新的对象', () => {
+    expect(getDefaultSetting('wallpaperPlaylists')).not.toBe(getDefaultSetting('wallpaperPlaylists'));
+  });
+});
+
+describe('pickSettings', () => {
+  it('只取出指定同步范围的设置', () => {
+    const values = defaults();
+    const cloud = pickSettings(values, 'cloud');
+    const device = pickSettings(values, 'device');
+
+    expect(Object.keys(cloud).length + Object.keys(device).length).toBe(SETTING_KEYS.length);
+    Object.keys(cloud).forEach((key) => expect(getSettingScope(key as keyof SettingsValues)).toBe('cloud'));
+    Object.keys(device).forEach((key) => expect(getSettingScope(key as keyof SettingsValues)).toBe('device'));
+  });
+
+  it('未声明同步范围的设置默认同步到云端，代理设置只保存在本机', () => {
+    const values = defaults();
+    expect(pickSettings(values, 'cloud')).toHaveProperty('cardOpacity', 0.1);
+    expect(pickSettings(values, 'cloud')).not.toHaveProperty('selfHostedProxyUrl');
+    expect(pickSettings(values, 'device')).toMatchObject({
+      proxyEndpoints: values.proxyEndpoints,
+      selfHostedProxyUrl: values.selfHostedProxyUrl,
+      selfHostedProxyTrusted: false,
+    });
+  });
+});
+
+describe('sanitizeSettings', () => {
+  it('兼容旧格式、截断到取值范围并忽略未知字段和无效值', () => {
+    expect(
+      sanitizeSettings({ cardOpacity: 50, searchBarOpacity: 0.01, cardColor: 'red', unknownSetting: true })
+    ).toEqual({ cardOpacity: 0.5, searchBarOpacity: 0.05 });
+  });
+
+  it('指定同步范围时不接收另一范围的设置', () => {
+    expect(sanitizeSettings({ cardOpacity: 0.3, selfHostedProxyTrusted: true }, 'cloud')).toEqual({
+      cardOpacity: 0.3,
+    });
+  });
+});
@@ -0,0 +1,402 @@
+// 设置注册表 - 所有偏好设置的声明式定义（类型、默认值、取值范围、同步范围）
+// TransparencyContext 的状态与本地持久化、数据校验、导入导出和云端同步都由这里生成，新增设置默认同步到云端
+import { z } from 'zod';
+import {
+  WallpaperResolution,
+  WallpaperProviderType,
+  GeneratedBackground,
+  WallpaperPlaylist,
+  ProxyEndpointPreference,
+} from '@/types/settings';
+import { SearchEngine, DEFAULT_SEARCH_ENGINES, DEFAULT_SEARCH_ENGINE_ID } from './searchEngines';
+import { sanitizeSearchEngineArray } from './dataValidator';
+
+// 同步范围：cloud 同步到云端，device 只保存在当前设备
+export type SettingSyncScope = 'cloud' | 'device';
+
+interface SettingDefinition<T> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  defaultValue: T | (() => T);
+  label: string; // 导入结果和校验错误中显示的名称
+  range?: [number, number]; // 数值范围，超出时截断到边界
+  sync?: SettingSyncScope; // 默认 cloud
+  normalize?: (value: unknown) => unknown; // 校验前兼容旧格式
+  legacy?: () => unknown; // 本地尚未保存时从旧配置项迁移
+}
+
+const defineSetting = <T>(definition: SettingDefinition<T>) => definition;
+
+const booleanSetting = (label: string, defaultValue: boolean) =>
+  defineSetting({ schema: z.boolean(), defaultValue, label });
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const RGB_PATTERN = /^\d{1,3},\s*\d{1,3},\s*\d{1,3}$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// 旧版本透明度按百分比保存
+const normalizeOpacity = (value: unknown) =>
+  typeof value === 'number' && value > 1 ? value / 100 : value;
+
+// 根据屏幕宽高比选择默认壁纸分辨率：竖屏使用 mobile，横屏使用 1080p
+const getDefaultResolution = (): WallpaperResolution =>
+  typeof window !== 'undefined' && window.innerWidth / window.innerHeight < 1 ? 'mobile' : '1080p';
+
+export const SETTINGS_SCHEMA = {
+  cardOpacity: defineSetting({
+    schema: z.number(),
+    defaultValue: 0.1,
+    range: [0.05, 1],
+    label: '卡片透明度',
+    normalize: normalizeOpacity,
+  }),
+  searchBarOpacity: defineSetting({
+    schema: z.number(),
+    defaultValue: 0.1,
+    range: [0.05, 1],
+    label: '搜索框透明度',
+    normalize: normalizeOpacity,
+  }),
+  parallaxEnabled: booleanSetting('视差效果', true),
+  wallpaperResolution: defineSetting<WallpaperResolution>({
+    schema: z.enum(['4k', '1080p', '720p', 'mobile', 'custom']),
+    defaultValue: getDefaultResolution,
+    label: '壁纸分辨率',
+  }),
+  wallpaperProvider: defineSetting<WallpaperProviderType>({
+    schema: z.enum(['bing', 'bingArchive', 'urlList', 'localRotation', 'generated']),
+    defaultValue: 'bing',
+    label: '壁纸来源',
+  }),
+  bingArchiveIndex: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 1, // 往前的天数，0 为今天
+    range: [0, 7],
+    label: '必应往期壁纸',
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+  wallpaperUrlList: defineSetting({
+    schema: z.string().max(20000),
+    defaultValue: '', // 每行一个图片链接，或一个 RSS/Atom 订阅地址
+    label: '壁纸图片链接',
+  }),
+  wallpaperRotationMinutes: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 60,
+    range: [5, 1440],
+    label: '壁纸轮换间隔',
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+  generatedBackground: defineSetting<GeneratedBackground>({
+    schema: z.object({
+      type: z.enum(['solid', 'linear', 'radial']),
+      colors: z.array(z.string().regex(HEX_COLOR_PATTERN)).min(1).max(3),
+      angle: z.number().min(0).max(360),
+    }),
+    defaultValue: () => ({ type: 'linear', colors: ['#667eea', '#764ba2'], angle: 135 }),
+    label: '生成背景',
+  }),
+  // 播放列表引用自定义壁纸 ID，壁纸开启云端备份后在其他设备上同样可用
+  wallpaperPlaylists: defineSetting<WallpaperPlaylist[]>({
+    schema: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          name: z.string().max(50),
+          wallpaperIds: z.array(z.string()),
+          nightWallpaperIds: z.array(z.string()),
+          schedule: z.enum(['newTab', 'hourly', 'daily', 'timeOfDay']),
+          morningStart: z.string().regex(TIME_PATTERN),
+          eveningStart: z.string().regex(TIME_PATTERN),
+          followDarkMode: z.boolean(),
+        })
+      )
+      .max(20),
+    defaultValue: () => [],
+    label: '壁纸播放列表',
+  }),
+  activeWallpaperPlaylistId: defineSetting({
+    schema: z.string(),
+    defaultValue: '', // 为空时使用当前选中的自定义壁纸
+    label: '当前播放列表',
+    sync: 'device',
+  }),
+  wallpaperCloudBackupEnabled: booleanSetting('壁纸云端备份', true),
+  cardColor: defineSetting({
+    schema: z.string().regex(RGB_PATTERN),
+    defaultValue: '255, 255, 255',
+    label: '卡片颜色',
+  }),
+  searchBarColor: defineSetting({
+    schema: z.string().regex(RGB_PATTERN),
+    defaultValue: '255, 255, 255',
+    label: '搜索框颜色',
+  }),
+  autoSyncEnabled: booleanSetting('自动同步', true),
+  autoSyncInterval: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 10,
+    range: [3, 60],
+    label: '自动同步间隔',
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+  searchInNewTab: booleanSetting('新标签页搜索', true),
+  searchEngines: defineSetting<SearchEngine[]>({
+    schema: z
+      .array(z.unknown())
+      .transform((engines) => sanitizeSearchEngineArray(engines))
+      .refine((engines) => engines.length > 0),
+    defaultValue: () => DEFAULT_SEARCH_ENGINES,
+    label: '搜索引擎',
+  }),
+  defaultSearchEngine: defineSetting({
+    schema: z.string().min(1),
+    defaultValue: DEFAULT_SEARCH_ENGINE_ID,
+    label: '默认搜索引擎',
+  }),
+  autoSortEnabled: booleanSetting('自动排序', false),
+  linkCheckEnabled: booleanSetting('定期检查失效链接', true),
+  timeComponentEnabled: booleanSetting('时间组件', true),
+  showFullDate: booleanSetting('完整日期', true),
+  showSeconds: booleanSetting('显示秒数', true),
+  showWeekday: booleanSetting('显示星期', true),
+  showYear: booleanSetting('显示年份', true),
+  showMonth: booleanSetting('显示月份', true),
+  showDay: booleanSetting('显示日期', true),
+  dateDisplayMode: defineSetting<'yearMonth' | 'yearMonthDay'>({
+    schema: z.enum(['yearMonth', 'yearMonthDay']),
+    defaultValue: 'yearMonthDay',
+    label: '日期显示模式',
+  }),
+  searchBarBorderRadius: defineSetting({
+    schema: z.number(),
+    defaultValue: 50, // 最大值即全圆角
+    range: [0, 50],
+    label: '搜索框圆角',
+  }),
+  animationStyle: defineSetting<'dynamic' | 'simple'>({
+    schema: z.enum(['dynamic', 'simple']),
+    defaultValue: 'simple',
+    label: '动画样式',
+  }),
+  workCountdownEnabled: booleanSetting('下班倒计时', false),
+  lunchTime: defineSetting({
+    schema: z.string().regex(TIME_PATTERN),
+    defaultValue: '12:00',
+    label: '午休时间',
+  }),
+  offWorkTime: defineSetting({
+    schema: z.string().regex(TIME_PATTERN),
+    defaultValue: '18:00',
+    label: '下班时间',
+  }),
+  aiIconDisplayMode: defineSetting<'circular' | 'dropdown'>({
+    schema: z.enum(['circular', 'dropdown']),
+    defaultValue: 'circular',
+    label: 'AI图标显示模式',
+  }),
+  atmosphereMode: defineSetting<'auto' | 'snow' | 'leaf' | 'off'>({
+    schema: z.enum(['auto', 'snow', 'leaf', 'off']),
+    defaultValue: 'auto',
+    label: '氛围效果',
+    // 兼容旧的 atmosphereEnabled 开关
+    legacy: () => (localStorage.getItem('atmosphereEnabled') === 'false' ? 'off' : undefined),
+  }),
+  atmosphereParticleCount: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 60,
+    range: [1, 200],
+    label: '氛围粒子数量',
+    sync: 'device', // 粒子数量取决于设备性能，不同设备分别设置
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+  atmosphereWindEnabled: booleanSetting('风力效果', true),
+  darkOverlayEnabled: booleanSetting('黑色遮罩', false),
+  darkOverlayMode: defineSetting<'off' | 'always' | 'smart'>({
+    schema: z.enum(['off', 'always', 'smart']),
+    defaultValue: 'smart',
+    label: '黑色遮罩模式',
+  }),
+  darkModePreference: defineSetting<'system' | 'on' | 'off' | 'scheduled'>({
+    schema: z.enum(['system', 'on', 'off', 'scheduled']),
+    defaultValue: 'system',
+    label: '夜间模式',
+  }),
+  darkModeScheduleStart: defineSetting({
+    schema: z.string().regex(TIME_PATTERN),
+    defaultValue: '22:00',
+    label: '夜间模式开始时间',
+  }),
+  darkModeScheduleEnd: defineSetting({
+    schema: z.string().regex(TIME_PATTERN),
+    defaultValue: '06:00',
+    label: '夜间模式结束时间',
+  }),
+  proxyEndpoints: defineSetting<ProxyEndpointPreference[]>({
+    schema: z.array(z.object({ id: z.string().min(1).max(50), enabled: z.boolean() })).max(20),
+    defaultValue: () => [], // 为空时使用内置顺序
+    label: '代理服务顺序',
+    sync: 'device', // 代理决定请求经过哪里，只在本机设置，不随云端设置变化
+  }),
+  selfHostedProxyUrl: defineSetting({
+    schema: z.string().max(500).refine((value) => value === '' || /^https?:\/\//.test(value)),
+    defaultValue: '', // 自建代理地址，{url} 为编码后的目标地址
+    label: '自建代理地址',
+    sync: 'device',
+  }),
+  selfHostedProxyTrusted: defineSetting({
+    schema: z.boolean(),
+    defaultValue: false, // 信任后才允许自建代理转发带认证信息的请求（如 Notion）
+    label: '信任自建代理',
+    sync: 'device',
+  }),
+  vaultAutoLockMinutes: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 5,
+    range: [1, 120],
+    label: '保险库自动锁定时间',
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+  clipboardClearSeconds: defineSetting({
+    schema: z.number().int(),
+    defaultValue: 30, // 0 表示不自动清除
+    range: [0, 300],
+    label: '剪贴板自动清除时间',
+    normalize: (value) => (typeof value === 'number' ? Math.round(value) : value),
+  }),
+};
+
+export type SettingKey = keyof typeof SETTINGS_SCHEMA;
+
+export type SettingsValues = {
+  [K in SettingKey]: (typeof SETTINGS_SCHEMA)[K] extends SettingDefinition<infer T> ? T : never;
+};
+
+export type SettingsPatch = Partial<SettingsValues>;
+
+// 每个设置对应的 setter 名称，如 cardOpacity -> setCardOpacity
+export type SettingSetters = {
+  [K in SettingKey as `set${Capitalize<K>}`]: (value: SettingsValues[K]) => void;
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+const getDefinition = <K extends SettingKey>(key: K) =>
+  SETTINGS_SCHEMA[key] as unknown as SettingDefinition<SettingsValues[K]>;
+
+export const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+
+export const getSettingScope = (key: SettingKey): SettingSyncScope =>
+  getDefinition(key).sync ?? 'cloud';
+
+export const getSettingLabel = (key: SettingKey): string => getDefinition(key).label;
+
+export const getSettingSetterName = (key: SettingKey): keyof SettingSetters =>
+  `set${key.charAt(0).toUpperCase()}${key.slice(1)}` as keyof SettingSetters;
+
+export const getDefaultSetting = <K extends SettingKey>(key: K): SettingsValues[K] => {
+  const { defaultValue } = getDefinition(key);
+  return typeof defaultValue === 'function'
+    ? (defaultValue as () => SettingsValues[K])()
+    : defaultValue;
+};
+
+/**
+ * 校验单个设置值：先兼容旧格式、截断到取值范围，再按 schema 校验，无效时返回 undefined
+ */
+export const parseSettingValue = <K extends SettingKey>(
+  key: K,
+  value: unknown
+): SettingsValues[K] | undefined => {
+  const definition = getDefinition(key);
+  let input = definition.normalize ? definition.normalize(value) : value;
+  if (definition.range && typeof input === 'number') {
+    const [min, max] = definition.range;
+    input = Math.max(min, Math.min(max, input));
+  }
+
+  const result = definition.schema.safeParse(input);
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * 从任意对象中提取有效的设置项，忽略未知字段、空值和无效值
+ * 指定 scope 时只保留该同步范围的设置
+ */
+export const sanitizeSettings = (input: unknown, scope?: SettingSyncScope): SettingsPatch => {
+  if (!input || typeof input !== 'object') {
+    return {};
+  }
+
+  const source = input as Record<string, unknown>;
+  const patch: Record<string, unknown> = {};
+  SETTING_KEYS.forEach((key) => {
+    if (scope && getSettingScope(key) !== scope) return;
+    if (source[key] === undefined || source[key] === null) return;
+
+    const value = parseSettingValue(key, source[key]);
+    if (value !== undefined) {
+      patch[key] = value;
+    }
+  });
+  return patch as SettingsPatch;
+};
+
+/**
+ * 返回对象中存在但无效的设置项
+ */
+export const getInvalidSettingKeys = (input: Record<string, unknown>): SettingKey[] =>
+  SETTING_KEYS.filter(
+    (key) =>
+      input[key] !== undefined && input[key] !== null && parseSettingValue(key, input[key]) === undefined
+  );
+
+/**
+ * 取出指定同步范围的设置
+ */
+export const pickSettings = (values: SettingsValues, scope: SettingSyncScope): SettingsPatch =>
+  Object.fromEntries(
+    SETTING_KEYS.filter((key) => getSettingScope(key) === scope).map((key) => [key, values[key]])
+  ) as SettingsPatch;
+
+// 本地存储格式：字符串原样保存，其他类型保存为 JSON（与旧版本的 toString 结果一致）
+const serializeSetting = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+const readStoredSetting = <K extends SettingKey>(key: K): SettingsValues[K] | undefined => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) {
+    const legacy = getDefinition(key).legacy?.();
+    return legacy === undefined ? undefined : parseSettingValue(key, legacy);
+  }
+
+  try {
+    // 数字、布尔值、数组按 JSON 解析；解析结果无效时再按原始字符串校验
+    return parseSettingValue(key, JSON.parse(raw)) ?? parseSettingValue(key, raw);
+  } catch {
+    return parseSettingValue(key, raw);
+  }
+};
+
+/**
+ * 读取本地保存的单个设置，供 React 之外的模块使用，缺失或无效时使用默认值
+ */
+export const loadStoredSetting = <K extends SettingKey>(key: K): SettingsValues[K] =>
+  readStoredSetting(key) ?? getDefaultSetting(key);
+
+/**
+ * 读取本地保存的全部设置，缺失或无效的设置使用默认值
+ */
+export const loadStoredSettings = (): SettingsValues =>
+  Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, readStoredSetting(key) ?? getDefaultSetting(key)])
+  ) as SettingsValues;
+
+/**
+ * 保存设置到本地
+ */
+export const saveStoredSettings = (patch: SettingsPatch) => {
+  (Object.keys(patch) as SettingKey[]).forEach((key) => {
+    localStorage.setItem(key, serializeSetting(patch[key]));
+  });
+};
@@ -58,7 +58,10 @@ export const TABLES = {
   USER_PROFILES: 'user_profiles',
   USER_SETTINGS: 'user_settings',
   USER_WEBSITES: 'user_websites',
+  USER_WEBSITE_RECORDS: 'user_website_records',
   USER_STATS: 'user_stats',
+  USER_TODOS: 'user_todos',
+  USER_WALLPAPERS: 'user_wallpapers',
 } as const;
 
 export default supabase;
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mergeWebsiteData, mergeWebsiteGroups, WebsiteData, WebsiteGroup } from './supabaseSync';
+
+// 测试运行在 Node 环境，searchEngines 加载时需要 window
+vi.hoisted(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+  TABLES: {},
+}));
+
+const group = (id: string, order: number, updatedAt: number, deleted?: boolean): WebsiteGroup => ({
+  id,
+  name: id,
+  order,
+  updatedAt,
+  deleted,
+});
+
+const website = (id: string, updatedAt: number, patch: Partial<WebsiteData> = {}): WebsiteData => ({
+  id,
+  name: id,
+  url: `https://${id}.example.com`,
+  favicon: '',
+  tags: [],
+  visitCount: 0,
+  lastVisit: '2026-10-19',
+  updatedAt,
+  ...patch,
+});
+
+describe('mergeWebsiteGroups', () => {
+  it('按 updatedAt 最后写入者胜，结果按 order 排序', () => {
+    const merged = mergeWebsiteGroups(
+      [group('a', 2, 100), group('b', 1, 300), group('local', 3, 100)],
+      [group('a', 0, 200), group('b', 5, 200), group('cloud', 4, 100)]
+    );
+
+    expect(merged.map(({ id, order }) => [id, order])).toEqual([
+      ['a', 0],
+      ['b', 1],
+      ['local', 3],
+      ['cloud', 4],
+    ]);
+  });
+
+  it('较新的删除墓碑覆盖另一端的记录，较旧的墓碑不会删除后来恢复的记录', () => {
+    expect(mergeWebsiteGroups([group('a', 0, 100)], [group('a', 0, 200, true)])).toEqual([
+      group('a', 0, 200, true),
+    ]);
+    expect(mergeWebsiteGroups([group('a', 0, 300, false)], [group('a', 0, 200, true)])).toEqual([
+      group('a', 0, 300, false),
+    ]);
+  });
+
+  it('时间戳相同但删除状态不一致时保留未删除的版本', () => {
+    expect(mergeWebsiteGroups([group('a', 0, 100, true)], [group('a', 0, 100)])[0].deleted).toBeUndefined();
+    expect(mergeWebsiteGroups([group('a', 0, 100)], [group('a', 0, 100, true)])[0].deleted).toBeUndefined();
+  });
+});
+
+describe('mergeWebsiteData', () => {
+  it('较新的删除墓碑覆盖本地卡片，保留墓碑供回收站使用', () => {
+    const merged = mergeWebsiteData(
+      [website('a', 100, { visitCount: 5 })],
+      [website('a', 200, { deleted: true, visitCount: 2 })]
+    );
+    expect(merged).toEqual([website('a', 200, { deleted: true, visitCount: 2 })]);
+  });
+
+  it('未删除的卡片使用较新的内容，访问次数取两端的最大值', () => {
+    const merged = mergeWebsiteData(
+      [website('a', 300, { name: '本地改名', visitCount: 2 })],
+      [website('a', 200, { visitCount: 7 }), website('b', 100)]
+    );
+    expect(merged).toEqual([website('a', 300, { name: '本地改名', visitCount: 7 }), website('b', 100)]);
+  });
+});
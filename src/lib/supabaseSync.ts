@@ -2,36 +2,25 @@
 import { supabase, TABLES } from '@/lib/supabase';
 export { supabase };
 import { User } from '@supabase/supabase-js';
-import { WallpaperResolution } from '@/types/settings';
 import { logger } from './logger';
 import {
   sanitizeWebsiteArray,
+  sanitizeWebsiteGroupArray,
+  sanitizeWebsitePageArray,
+  sanitizeTodoArray,
+  sanitizeWallpaperRecordArray,
   sanitizeUserSettings,
   isDataSafeToSync,
   checkDataIntegrity,
 } from './dataValidator';
-
-// 用户设置接口
-export interface UserSettings {
-  cardOpacity: number;
-  searchBarOpacity: number;
-  parallaxEnabled: boolean;
-  wallpaperResolution: WallpaperResolution;
-  theme: string;
-  cardColor: string; // 卡片颜色 (RGB字符串)
-  searchBarColor: string; // 搜索框颜色 (RGB字符串)
-  autoSyncEnabled: boolean; // 自动同步开关
-  autoSyncInterval: number; // 自动同步间隔（秒）
-  searchInNewTab?: boolean; // 搜索打开方式（可选，向后兼容）
-  autoSortEnabled?: boolean; // 自动排序开关（可选，向后兼容）
-  timeComponentEnabled?: boolean; // 时间组件显示开关
-  showFullDate?: boolean; // 是否显示完整日期
-  showSeconds?: boolean; // 是否精确到秒
-  showWeekday?: boolean; // 是否显示星期
-  showYear?: boolean; // 是否显示年份
-  showMonth?: boolean; // 是否显示月份
-  showDay?: boolean; // 是否显示日期
-  searchBarBorderRadius?: number; // 搜索框圆角大小（可选，向后兼容）
+import { pushWebsiteRecords, fetchWebsiteRecords } from './websiteRecordSync';
+import { markLocalWrite, toTimestampVersion } from './syncEcho';
+import { SettingsPatch, sanitizeSettings } from './settingsSchema';
+import type { WallpaperMetadata } from './customWallpaperManager';
+
+// 用户设置：同步到云端的偏好设置（由 settingsSchema 定义）和旧版主题字段
+export interface UserSettings extends SettingsPatch {
+  theme?: string;
   lastSync: string;
 }
 
@@ -45,11 +34,63 @@ export interface WebsiteData {
   visitCount: number;
   lastVisit: string;
   note?: string;
+  groupId?: string; // 所属分组 ID（为空表示未分组）
+  pageId?: string; // 所属页面 ID（为空表示第一个页面）
+  archived?: boolean; // 已归档：不在主页显示，可在设置中恢复
   // 新增字段用于高级同步
   updatedAt?: number; // 最后修改时间戳 (毫秒)
   deleted?: boolean;  // 软删除标记
 }
 
+// 网站分组（文件夹）接口
+export interface WebsiteGroup {
+  id: string;
+  name: string;
+  order: number; // 分组排序位置
+  collapsed?: boolean; // 折叠时在主网格中显示为文件夹图标
+  pageId?: string; // 所属页面 ID（为空表示第一个页面）
+  updatedAt: number; // 最后修改时间戳 (毫秒)，用于冲突合并
+  deleted?: boolean; // 软删除标记
+}
+
+// 网站页面（多个主页）接口
+export interface WebsitePage {
+  id: string;
+  name: string;
+  order: number; // 页面排序位置
+  updatedAt: number; // 最后修改时间戳 (毫秒)，用于冲突合并
+  deleted?: boolean; // 软删除标记
+}
+
+// 网站布局数据（分组与页面），与网站数据一起保存在 user_websites 表中
+export interface WebsiteLayout {
+  groups: WebsiteGroup[];
+  pages: WebsitePage[];
+}
+
+// 待办优先级
+export type TodoPriority = 'high' | 'medium' | 'low';
+
+// 待办事项接口
+export interface TodoItem {
+  id: string;
+  text: string;
+  completed: boolean;
+  createdAt: number;
+  order: number;
+  dueAt?: number; // 截止时间戳 (毫秒)，到期时发送提醒
+  priority?: TodoPriority;
+  remindedAt?: number; // 已发送提醒的时间，避免多设备或刷新后重复提醒
+  updatedAt: number; // 最后修改时间戳 (毫秒)，用于冲突合并
+  deleted?: boolean; // 软删除标记
+}
+
+// 自定义壁纸的云端记录，原图和缩略图保存在私有存储桶 user-wallpapers 中（storagePath 为空表示尚未上传）
+export interface CloudWallpaperRecord extends WallpaperMetadata {
+  updatedAt: number; // 最后修改时间戳 (毫秒)，用于冲突合并
+  deleted?: boolean; // 软删除标记
+}
+
 // 同步状态回调接口
 export interface SyncStatusCallback {
   onSyncStart?: () => void;
@@ -108,62 +149,64 @@ export const saveUserSettings = async (
     const validatedSettings = sanitizeUserSettings(settings);
 
     await retryAsync(async () => {
-      // 尝试同步所有字段，如果新字段不可用则回退到基本字段
-      const fullData = {
+      // 先记录写入版本，Realtime 推送回本设备时据此忽略
+      const lastSync = new Date().toISOString();
+      markLocalWrite(TABLES.USER_SETTINGS, toTimestampVersion(lastSync));
+
+      // 旧版本客户端读取的独立字段
+      const basicData = {
         id: user.id,
         card_opacity: validatedSettings.cardOpacity,
         search_bar_opacity: validatedSettings.searchBarOpacity,
         parallax_enabled: validatedSettings.parallaxEnabled,
         wallpaper_resolution: validatedSettings.wallpaperResolution,
         theme: validatedSettings.theme,
+        last_sync: lastSync,
+      };
+      const legacyData = {
+        ...basicData,
         card_color: validatedSettings.cardColor,
         search_bar_color: validatedSettings.searchBarColor,
         auto_sync_enabled: validatedSettings.autoSyncEnabled,
         auto_sync_interval: validatedSettings.autoSyncInterval,
-        search_in_new_tab: validatedSettings.searchInNewTab ?? true,
-        auto_sort_enabled: validatedSettings.autoSortEnabled ?? false,
-        time_component_enabled: validatedSettings.timeComponentEnabled ?? true,
-        show_full_date: validatedSettings.showFullDate ?? true,
-        show_seconds: validatedSettings.showSeconds ?? true,
-        show_weekday: validatedSettings.showWeekday ?? true,
-        show_year: validatedSettings.showYear ?? true,
-        show_month: validatedSettings.showMonth ?? true,
-        show_day: validatedSettings.showDay ?? true,
-        search_bar_border_radius: validatedSettings.searchBarBorderRadius ?? 12,
-        last_sync: new Date().toISOString(),
+        search_in_new_tab: validatedSettings.searchInNewTab,
+        auto_sort_enabled: validatedSettings.autoSortEnabled,
+        time_component_enabled: validatedSettings.timeComponentEnabled,
+        show_full_date: validatedSettings.showFullDate,
+        show_seconds: validatedSettings.showSeconds,
+        show_weekday: validatedSettings.showWeekday,
+        show_year: validatedSettings.showYear,
+        show_month: validatedSettings.showMonth,
+        show_day: validatedSettings.showDay,
+        search_bar_border_radius: validatedSettings.searchBarBorderRadius,
+        search_engines: validatedSettings.searchEngines,
+        default_search_engine: validatedSettings.defaultSearchEngine,
       };
+      // 全部云端设置写入 preferences，新增设置无需再加字段
+      const fullData = { ...legacyData, preferences: sanitizeSettings(validatedSettings, 'cloud') };
+
+      // 依次尝试完整数据、旧字段、基本字段，兼容尚未迁移的数据库
+      const attempts = [
+        { data: fullData, label: '所有字段同步成功' },
+        { data: legacyData, label: 'preferences 字段暂不可用，已同步独立字段' },
+        { data: basicData, label: '基本字段同步成功，新字段将在数据库迁移后可用' },
+      ];
+
+      for (const [index, attempt] of attempts.entries()) {
+        const { error } = await supabase.from(TABLES.USER_SETTINGS).upsert(attempt.data);
+        if (!error) {
+          logger.sync.info(attempt.label);
+          return;
+        }
 
-      const { error } = await supabase.from(TABLES.USER_SETTINGS).upsert(fullData);
-
-      if (error) {
-        // 如果新字段导致错误，回退到基本字段
-        if (
+        const isMissingColumn =
           error.code === '42703' ||
           error.message?.includes('column') ||
-          error.message?.includes('does not exist')
-        ) {
-          logger.sync.warn('新字段暂不可用，使用基本字段同步', { error: error.message });
-
-          const basicData = {
-            id: user.id,
-            card_opacity: settings.cardOpacity,
-            search_bar_opacity: settings.searchBarOpacity,
-            parallax_enabled: settings.parallaxEnabled,
-            wallpaper_resolution: settings.wallpaperResolution,
-            theme: settings.theme,
-            last_sync: new Date().toISOString(),
-          };
-
-          const { error: basicError } = await supabase.from(TABLES.USER_SETTINGS).upsert(basicData);
-
-          if (basicError) throw basicError;
-
-          logger.sync.info('基本字段同步成功，新字段将在数据库迁移后可用');
-        } else {
+          error.message?.includes('does not exist');
+        if (!isMissingColumn || index === attempts.length - 1) {
           throw error;
         }
-      } else {
-        logger.sync.info('所有字段同步成功，包括新添加的字段');
+        logger.sync.warn('新字段暂不可用，使用较少字段同步', { error: error.message });
       }
     });
 
@@ -177,6 +220,43 @@ export const saveUserSettings = async (
   }
 };
 
+// 将 user_settings 表的行数据转换为设置对象（同时用于 Realtime 推送的行）
+// preferences 优先，旧版本客户端只写入独立字段，缺失或无效的设置不返回，保留本地值
+export const parseUserSettingsRow = (data: Record<string, unknown>): UserSettings => {
+  const legacy = {
+    cardOpacity: data.card_opacity,
+    searchBarOpacity: data.search_bar_opacity,
+    parallaxEnabled: data.parallax_enabled,
+    wallpaperResolution: data.wallpaper_resolution,
+    cardColor: data.card_color,
+    searchBarColor: data.search_bar_color,
+    autoSyncEnabled: data.auto_sync_enabled,
+    autoSyncInterval: data.auto_sync_interval,
+    searchInNewTab: data.search_in_new_tab,
+    autoSortEnabled: data.auto_sort_enabled,
+    timeComponentEnabled: data.time_component_enabled,
+    showFullDate: data.show_full_date,
+    showSeconds: data.show_seconds,
+    showWeekday: data.show_weekday,
+    showYear: data.show_year,
+    showMonth: data.show_month,
+    showDay: data.show_day,
+    searchBarBorderRadius: data.search_bar_border_radius,
+    searchEngines: data.search_engines,
+    defaultSearchEngine: data.default_search_engine,
+  };
+  const preferences =
+    data.preferences && typeof data.preferences === 'object' && !Array.isArray(data.preferences)
+      ? (data.preferences as Record<string, unknown>)
+      : {};
+
+  return {
+    ...sanitizeSettings({ ...legacy, ...preferences }, 'cloud'),
+    theme: typeof data.theme === 'string' ? data.theme : undefined,
+    lastSync: typeof data.last_sync === 'string' ? data.last_sync : '',
+  };
+};
+
 // 从 Supabase 获取用户设置
 export const getUserSettings = async (user: User): Promise<UserSettings | null> => {
   try {
@@ -196,33 +276,7 @@ export const getUserSettings = async (user: User): Promise<UserSettings | null>
 
     if (data) {
       logger.sync.info('从云端获取用户设置成功');
-      return {
-        cardOpacity: data.card_opacity,
-        searchBarOpacity: data.search_bar_opacity,
-        parallaxEnabled: data.parallax_enabled,
-        wallpaperResolution: data.wallpaper_resolution,
-        theme: data.theme,
-        // 新字段处理，如果数据库中存在则使用，否则使用默认值
-        cardColor: data.card_color || '255, 255, 255',
-        searchBarColor: data.search_bar_color || '255, 255, 255',
-        autoSyncEnabled: data.auto_sync_enabled !== undefined ? data.auto_sync_enabled : true,
-        autoSyncInterval:
-          data.auto_sync_interval && data.auto_sync_interval >= 3 && data.auto_sync_interval <= 300
-            ? data.auto_sync_interval
-            : 30,
-        // 新增的设置项
-        searchInNewTab: data.search_in_new_tab !== undefined ? data.search_in_new_tab : true,
-        autoSortEnabled: data.auto_sort_enabled !== undefined ? data.auto_sort_enabled : false,
-        timeComponentEnabled: data.time_component_enabled !== undefined ? data.time_component_enabled : true,
-        showFullDate: data.show_full_date !== undefined ? data.show_full_date : true,
-        showSeconds: data.show_seconds !== undefined ? data.show_seconds : true,
-        showWeekday: data.show_weekday !== undefined ? data.show_weekday : true,
-        showYear: data.show_year !== undefined ? data.show_year : true,
-        showMonth: data.show_month !== undefined ? data.show_month : true,
-        showDay: data.show_day !== undefined ? data.show_day : true,
-        searchBarBorderRadius: data.search_bar_border_radius !== undefined ? data.search_bar_border_radius : 12,
-        lastSync: data.last_sync,
-      };
+      return parseUserSettingsRow(data);
     } else {
       logger.sync.debug('用户设置不存在，将使用默认设置');
       return null;
@@ -247,7 +301,8 @@ export const getUserSettings = async (user: User): Promise<UserSettings | null>
 export const saveUserWebsites = async (
   user: User,
   websites: WebsiteData[],
-  callbacks?: SyncStatusCallback
+  callbacks?: SyncStatusCallback,
+  layout?: Partial<WebsiteLayout>
 ) => {
   try {
     callbacks?.onSyncStart?.();
@@ -276,19 +331,56 @@ export const saveUserWebsites = async (
       });
     }
 
+    // 优先逐条上传变化的记录，记录表未部署时回退到整表写入 websites 字段
+    const pushedCount = await retryAsync(() => pushWebsiteRecords(user, sanitizedWebsites));
+    const recordMode = pushedCount !== null;
+
     await retryAsync(async () => {
-      const { error } = await supabase.from(TABLES.USER_WEBSITES).upsert({
+      const lastSync = new Date().toISOString();
+      markLocalWrite(TABLES.USER_WEBSITES, toTimestampVersion(lastSync));
+
+      // 逐条同步时额外写入卡片顺序（ID 列表）；迁移期间仍写入整表 websites 字段，
+      // 供尚未升级、只读取整表格式的客户端读取，避免它们读到旧数据后覆盖较新的卡片
+      const baseData = {
         id: user.id,
         websites: sanitizedWebsites,
-        last_sync: new Date().toISOString(),
-      });
+        ...(recordMode ? { website_order: sanitizedWebsites.map((site) => site.id) } : {}),
+        last_sync: lastSync,
+      };
 
-      if (error) throw error;
+      // 布局数据仅在调用方提供时才写入，避免覆盖云端已有分组和页面
+      const fullData = {
+        ...baseData,
+        ...(layout?.groups ? { groups: sanitizeWebsiteGroupArray(layout.groups) } : {}),
+        ...(layout?.pages ? { pages: sanitizeWebsitePageArray(layout.pages) } : {}),
+      };
+      const hasLayout = !!(layout?.groups || layout?.pages);
+
+      const { error } = await supabase.from(TABLES.USER_WEBSITES).upsert(fullData);
+
+      if (error) {
+        // 如果布局字段尚未迁移，回退到只同步网站数据
+        if (
+          hasLayout &&
+          (error.code === '42703' ||
+            error.message?.includes('column') ||
+            error.message?.includes('does not exist'))
+        ) {
+          logger.sync.warn('分组/页面字段暂不可用，仅同步网站数据', { error: error.message });
+
+          const { error: basicError } = await supabase.from(TABLES.USER_WEBSITES).upsert(baseData);
+
+          if (basicError) throw basicError;
+        } else {
+          throw error;
+        }
+      }
     });
 
     logger.sync.info('网站数据已同步到云端', {
       original: websites.length,
       sanitized: sanitizedWebsites.length,
+      mode: recordMode ? `逐条同步(${pushedCount}条变化)` : '整表同步',
     });
     callbacks?.onSyncSuccess?.(`网站数据已同步到云端(${sanitizedWebsites.length}个有效网站)`);
     return true;
@@ -299,7 +391,15 @@ export const saveUserWebsites = async (
   }
 };
 
-// 从 Supabase 获取用户网站数据
+// 按云端保存的卡片顺序排列记录，顺序中没有的记录排在最后
+const sortWebsitesByOrder = (websites: WebsiteData[], order: unknown): WebsiteData[] => {
+  if (!Array.isArray(order)) return websites;
+  const positions = new Map(order.map((id, index) => [id, index]));
+  const positionOf = (site: WebsiteData) => positions.get(site.id) ?? order.length;
+  return [...websites].sort((a, b) => positionOf(a) - positionOf(b));
+};
+
+// 从 Supabase 获取用户网站数据（包含删除墓碑，合并后保留在列表中作为回收站）
 export const getUserWebsites = async (user: User): Promise<WebsiteData[] | null> => {
   try {
     // 添加超时机制，避免长时间等待
@@ -322,6 +422,13 @@ export const getUserWebsites = async (user: User): Promise<WebsiteData[] | null>
       }
     }
 
+    // 优先读取逐条记录；记录表未部署或尚无记录时读取旧的 websites 字段
+    const records = await Promise.race([fetchWebsiteRecords(user), timeoutPromise]);
+    if (records && records.length > 0) {
+      logger.sync.info('从云端获取网站记录成功', { count: records.length });
+      return sortWebsitesByOrder(records, data?.website_order);
+    }
+
     if (data && data.websites) {
       // 验证数据格式，确保类型安全
       if (Array.isArray(data.websites)) {
@@ -419,6 +526,243 @@ export const mergeWebsiteData = (
   return Object.values(merged);
 };
 
+// 从 Supabase 获取用户网站布局（分组与页面）
+export const getUserWebsiteLayout = async (user: User): Promise<WebsiteLayout | null> => {
+  try {
+    const timeoutPromise = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('连接超时')), 5000)
+    );
+
+    const selectLayout = (columns: string) =>
+      supabase.from(TABLES.USER_WEBSITES).select(columns).eq('id', user.id).single<Partial<WebsiteLayout>>();
+
+    let { data, error } = await Promise.race([selectLayout('groups, pages'), timeoutPromise]);
+
+    // pages 字段可能尚未迁移，回退到只读取分组，避免分组一起丢失
+    if (
+      error &&
+      (error.code === '42703' || error.message?.includes('column') || error.message?.includes('does not exist'))
+    ) {
+      logger.sync.warn('页面字段暂不可用，仅获取分组数据', { error: error.message });
+      ({ data, error } = await Promise.race([selectLayout('groups'), timeoutPromise]));
+    }
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        logger.sync.debug('用户布局数据不存在');
+        return null;
+      }
+      throw error;
+    }
+
+    if (data) {
+      const layout: WebsiteLayout = {
+        groups: sanitizeWebsiteGroupArray(data.groups || []),
+        pages: sanitizeWebsitePageArray(data.pages || []),
+      };
+      logger.sync.info('从云端获取布局数据成功', {
+        groups: layout.groups.length,
+        pages: layout.pages.length,
+      });
+      return layout;
+    }
+
+    return null;
+  } catch (error) {
+    // 布局字段可能尚未迁移，离线或失败时返回 null，使用本地布局
+    logger.sync.warn('获取布局数据失败，将使用本地布局', error);
+    return null;
+  }
+};
+
+// 合并带排序的布局记录 - 与网站数据相同的最后写入者胜策略
+const mergeOrderedRecords = <T extends { id: string; order: number; updatedAt: number; deleted?: boolean }>(
+  localRecords: T[],
+  cloudRecords: T[]
+): T[] => {
+  const merged: { [key: string]: T } = {};
+
+  localRecords.forEach((record) => {
+    merged[record.id] = { ...record };
+  });
+
+  cloudRecords.forEach((cloudRecord) => {
+    const localRecord = merged[cloudRecord.id];
+
+    if (!localRecord) {
+      merged[cloudRecord.id] = { ...cloudRecord };
+      return;
+    }
+
+    const localTime = localRecord.updatedAt || 0;
+    const cloudTime = cloudRecord.updatedAt || 0;
+
+    if (cloudTime > localTime) {
+      merged[cloudRecord.id] = { ...cloudRecord };
+    } else if (cloudTime === localTime && localRecord.deleted !== cloudRecord.deleted) {
+      // 时间戳相同但删除状态不一致时，保留未删除的版本
+      merged[cloudRecord.id] = localRecord.deleted ? { ...cloudRecord } : localRecord;
+    }
+  });
+
+  return Object.values(merged).sort((a, b) => a.order - b.order);
+};
+
+// 合并本地和云端分组
+export const mergeWebsiteGroups = (
+  localGroups: WebsiteGroup[],
+  cloudGroups: WebsiteGroup[]
+): WebsiteGroup[] => mergeOrderedRecords(localGroups, cloudGroups);
+
+// 合并本地和云端页面
+export const mergeWebsitePages = (
+  localPages: WebsitePage[],
+  cloudPages: WebsitePage[]
+): WebsitePage[] => mergeOrderedRecords(localPages, cloudPages);
+
+// 保存用户待办事项到 Supabase（包含软删除记录，便于其他设备同步删除）
+export const saveUserTodos = async (
+  user: User,
+  todos: TodoItem[],
+  callbacks?: SyncStatusCallback
+): Promise<boolean> => {
+  try {
+    callbacks?.onSyncStart?.();
+
+    const sanitizedTodos = sanitizeTodoArray(todos);
+
+    await retryAsync(async () => {
+      const lastSync = new Date().toISOString();
+      markLocalWrite(TABLES.USER_TODOS, toTimestampVersion(lastSync));
+      const { error } = await supabase.from(TABLES.USER_TODOS).upsert({
+        id: user.id,
+        todos: sanitizedTodos,
+        last_sync: lastSync,
+      });
+
+      if (error) throw error;
+    });
+
+    logger.sync.info('待办事项已同步到云端', { count: sanitizedTodos.length });
+    callbacks?.onSyncSuccess?.(`待办事项已同步到云端(${sanitizedTodos.length}条)`);
+    return true;
+  } catch (error) {
+    logger.sync.error('保存待办事项失败', error);
+    callbacks?.onSyncError?.('待办事项同步失败: ' + (error as Error).message);
+    return false;
+  }
+};
+
+// 从 Supabase 获取用户待办事项
+export const getUserTodos = async (user: User): Promise<TodoItem[] | null> => {
+  try {
+    const timeoutPromise = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('连接超时')), 5000)
+    );
+
+    const dataPromise = supabase.from(TABLES.USER_TODOS).select('todos').eq('id', user.id).single();
+
+    const { data, error } = await Promise.race([dataPromise, timeoutPromise]);
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        logger.sync.debug('用户待办数据不存在');
+        return null;
+      }
+      throw error;
+    }
+
+    if (data && Array.isArray(data.todos)) {
+      logger.sync.info('从云端获取待办事项成功', { count: data.todos.length });
+      return sanitizeTodoArray(data.todos);
+    }
+
+    return null;
+  } catch (error) {
+    // 表可能尚未创建，离线或失败时返回 null，继续使用本地待办
+    logger.sync.warn('获取待办事项失败，将使用本地数据', error);
+    return null;
+  }
+};
+
+// 合并本地和云端待办事项 - 按 updatedAt 最后写入者胜，删除以软删除标记传播
+export const mergeTodoData = (localTodos: TodoItem[], cloudTodos: TodoItem[]): TodoItem[] =>
+  mergeOrderedRecords(localTodos, cloudTodos);
+
+// 保存自定义壁纸列表到 Supabase（包含软删除记录，便于其他设备同步删除）
+export const saveUserWallpapers = async (
+  user: User,
+  wallpapers: CloudWallpaperRecord[]
+): Promise<boolean> => {
+  try {
+    const sanitizedWallpapers = sanitizeWallpaperRecordArray(wallpapers);
+
+    await retryAsync(async () => {
+      const { error } = await supabase.from(TABLES.USER_WALLPAPERS).upsert({
+        id: user.id,
+        wallpapers: sanitizedWallpapers,
+        last_sync: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+    });
+
+    logger.sync.info('壁纸列表已同步到云端', { count: sanitizedWallpapers.length });
+    return true;
+  } catch (error) {
+    logger.sync.error('保存壁纸列表失败', error);
+    return false;
+  }
+};
+
+// 从 Supabase 获取自定义壁纸列表，云端还没有记录时返回空数组，读取失败时返回 null
+export const getUserWallpapers = async (user: User): Promise<CloudWallpaperRecord[] | null> => {
+  try {
+    const timeoutPromise = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('连接超时')), 5000)
+    );
+
+    const dataPromise = supabase.from(TABLES.USER_WALLPAPERS).select('wallpapers').eq('id', user.id).single();
+
+    const { data, error } = await Promise.race([dataPromise, timeoutPromise]);
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        logger.sync.debug('用户壁纸列表不存在');
+        return [];
+      }
+      throw error;
+    }
+
+    return sanitizeWallpaperRecordArray(data?.wallpapers);
+  } catch (error) {
+    // 读取失败时不能当作云端为空，否则会误删其他设备的壁纸
+    logger.sync.warn('获取云端壁纸列表失败', error);
+    return null;
+  }
+};
+
+// 合并本地和云端壁纸记录 - 按 updatedAt 最后写入者胜，时间相同时优先已上传到存储桶的记录
+export const mergeWallpaperRecords = (
+  localRecords: CloudWallpaperRecord[],
+  cloudRecords: CloudWallpaperRecord[]
+): CloudWallpaperRecord[] => {
+  const merged = new Map<string, CloudWallpaperRecord>();
+
+  for (const record of [...cloudRecords, ...localRecords]) {
+    const existing = merged.get(record.id);
+    if (
+      !existing ||
+      record.updatedAt > existing.updatedAt ||
+      (record.updatedAt === existing.updatedAt && !existing.storagePath && !!record.storagePath)
+    ) {
+      merged.set(record.id, record);
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => a.uploadTime - b.uploadTime);
+};
+
 // 同步管理器类 - 避免全局变量冲突
 class SyncManager {
   private syncTimeout: NodeJS.Timeout | null = null;
@@ -430,7 +774,8 @@ class SyncManager {
     websites: WebsiteData[],
     settings: UserSettings,
     callbacks?: SyncStatusCallback,
-    delay: number = 0 // 移除硬编码延迟，由调用方决定
+    delay: number = 0, // 移除硬编码延迟，由调用方决定
+    layout?: Partial<WebsiteLayout>
   ): Promise<void> {
     // 清除之前的延迟
     if (this.syncTimeout) {
@@ -440,14 +785,14 @@ class SyncManager {
 
     // 如果没有延迟，立即执行
     if (delay === 0) {
-      return this.executSync(user, websites, settings, callbacks);
+      return this.executSync(user, websites, settings, callbacks, layout);
     }
 
     // 设置延迟执行
     return new Promise((resolve, reject) => {
       this.syncTimeout = setTimeout(async () => {
         try {
-          await this.executSync(user, websites, settings, callbacks);
+          await this.executSync(user, websites, settings, callbacks, layout);
           resolve();
         } catch (error) {
           reject(error);
@@ -460,13 +805,14 @@ class SyncManager {
     user: User,
     websites: WebsiteData[],
     settings: UserSettings,
-    callbacks?: SyncStatusCallback
+    callbacks?: SyncStatusCallback,
+    layout?: Partial<WebsiteLayout>
   ): Promise<void> {
     callbacks?.onSyncStart?.();
 
     try {
       const results = await Promise.allSettled([
-        saveUserWebsites(user, websites),
+        saveUserWebsites(user, websites, undefined, layout),
         saveUserSettings(user, settings),
       ]);
 
@@ -476,10 +822,10 @@ class SyncManager {
         this.retryCount = 0; // 重置重试计数器
         callbacks?.onSyncSuccess?.('数据已静默同步到云端');
       } else {
-        await this.handleSyncFailure(user, websites, settings, callbacks, failed.length);
+        await this.handleSyncFailure(user, websites, settings, callbacks, failed.length, layout);
       }
     } catch (error) {
-      await this.handleSyncError(user, websites, settings, callbacks, error as Error);
+      await this.handleSyncError(user, websites, settings, callbacks, error as Error, layout);
     }
   }
 
@@ -488,7 +834,8 @@ class SyncManager {
     websites: WebsiteData[],
     settings: UserSettings,
     callbacks: SyncStatusCallback | undefined,
-    failedCount: number
+    failedCount: number,
+    layout?: Partial<WebsiteLayout>
   ): Promise<void> {
     if (this.retryCount < this.maxRetries) {
       this.retryCount++;
@@ -498,7 +845,7 @@ class SyncManager {
       const retryDelay = 1000 * Math.pow(2, this.retryCount - 1);
       await new Promise((resolve) => setTimeout(resolve, retryDelay));
 
-      return this.executSync(user, websites, settings, callbacks);
+      return this.executSync(user, websites, settings, callbacks, layout);
     } else {
       this.retryCount = 0;
       callbacks?.onSyncError?.(`${failedCount} 个数据同步失败，已重试 ${this.maxRetries} 次`);
@@ -510,7 +857,8 @@ class SyncManager {
     websites: WebsiteData[],
     settings: UserSettings,
     callbacks: SyncStatusCallback | undefined,
-    error: Error
+    error: Error,
+    layout?: Partial<WebsiteLayout>
   ): Promise<void> {
     if (this.retryCount < this.maxRetries) {
       this.retryCount++;
@@ -520,7 +868,7 @@ class SyncManager {
       const retryDelay = 1000 * Math.pow(2, this.retryCount - 1);
       await new Promise((resolve) => setTimeout(resolve, retryDelay));
 
-      return this.executSync(user, websites, settings, callbacks);
+      return this.executSync(user, websites, settings, callbacks, layout);
     } else {
       this.retryCount = 0;
       callbacks?.onSyncError?.('同步过程中发生错误: ' + error.message);
@@ -545,10 +893,11 @@ export const autoSync = (
   user: User,
   websites: WebsiteData[],
   settings: UserSettings,
-  callbacks?: SyncStatusCallback
+  callbacks?: SyncStatusCallback,
+  layout?: Partial<WebsiteLayout>
 ): Promise<void> => {
   const syncManager = createSyncManager();
-  return syncManager.performSync(user, websites, settings, callbacks, 0); // 立即执行，不延迟
+  return syncManager.performSync(user, websites, settings, callbacks, 0, layout); // 立即执行，不延迟
 };
 
 // 保存用户资料到 Supabase
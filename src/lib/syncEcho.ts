@@ -0,0 +1,43 @@
+// 同步回声抑制 - 记录本设备最近写入云端的版本，Realtime 推送回自己写入的变更时直接忽略
+
+// 写入后等待 Realtime 回推的最长时间，超时的记录自动清理
+const ECHO_TTL = 60 * 1000;
+
+// 版本键（表名:版本） -> 过期时间
+const recentWrites = new Map<string, number>();
+
+const pruneExpired = (now: number) => {
+  recentWrites.forEach((expiresAt, key) => {
+    if (expiresAt <= now) {
+      recentWrites.delete(key);
+    }
+  });
+};
+
+/**
+ * 将 last_sync 这类时间戳统一为毫秒数作为版本
+ * 客户端写入 ISO 字符串（Z 结尾），Realtime 推送的是 Postgres 格式（+00:00 结尾）
+ */
+export const toTimestampVersion = (value: unknown): string => {
+  const time = typeof value === 'number' ? value : Date.parse(String(value ?? ''));
+  return Number.isNaN(time) ? '' : String(time);
+};
+
+/**
+ * 记录本设备即将写入的版本，须在请求发出前调用，避免 Realtime 推送先于请求返回
+ */
+export const markLocalWrite = (table: string, version: string) => {
+  if (!version) return;
+  const now = Date.now();
+  pruneExpired(now);
+  recentWrites.set(`${table}:${version}`, now + ECHO_TTL);
+};
+
+/**
+ * 判断 Realtime 推送的版本是否为本设备刚写入的
+ */
+export const isLocalEcho = (table: string, version: string): boolean => {
+  if (!version) return false;
+  const expiresAt = recentWrites.get(`${table}:${version}`);
+  return expiresAt !== undefined && expiresAt > Date.now();
+};
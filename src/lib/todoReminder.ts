@@ -0,0 +1,141 @@
+// 待办到期提醒 - 定时检查本地待办，到期后通过 Service Worker / Notification API 发送系统通知
+import { TodoItem } from './supabaseSync';
+import { loadTodos, saveTodos, TODOS_UPDATED_EVENT } from './todoStorage';
+import { formatTodoDue } from '@/utils/todoParser';
+import { logger } from './logger';
+
+// 点击提醒通知后打开待办列表
+export const OPEN_TODOS_EVENT = 'openTodoModal';
+
+const CHECK_INTERVAL = 30 * 1000;
+// 超过该时长的过期待办不再补发提醒（例如很久没打开页面）
+const STALE_REMINDER_WINDOW = 24 * 60 * 60 * 1000;
+
+const PRIORITY_LABELS: Record<string, string> = {
+  high: '高优先级',
+  medium: '中优先级',
+  low: '低优先级',
+};
+
+// 截止时间晚于上次提醒时间时才需要提醒，修改截止时间后会重新提醒
+const needsReminder = (todo: TodoItem, now: number) =>
+  !todo.deleted &&
+  !todo.completed &&
+  typeof todo.dueAt === 'number' &&
+  todo.dueAt <= now &&
+  (!todo.remindedAt || todo.remindedAt < todo.dueAt);
+
+class TodoReminderService {
+  private static instance: TodoReminderService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  static getInstance(): TodoReminderService {
+    if (!TodoReminderService.instance) {
+      TodoReminderService.instance = new TodoReminderService();
+    }
+    return TodoReminderService.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  // 请求通知权限（需在用户操作中调用）
+  async requestPermission(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+
+    try {
+      return (await Notification.requestPermission()) === 'granted';
+    } catch (error) {
+      logger.warn('请求通知权限失败:', error);
+      return false;
+    }
+  }
+
+  // 启动定时检查，返回停止函数
+  start(): () => void {
+    if (!this.isSupported() || this.timer) {
+      return () => {};
+    }
+
+    const check = () => {
+      this.checkDueTodos();
+    };
+    const handleSwMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'TODO_REMINDER_CLICK') {
+        window.dispatchEvent(new CustomEvent(OPEN_TODOS_EVENT));
+      }
+    };
+
+    this.timer = setInterval(check, CHECK_INTERVAL);
+    window.addEventListener(TODOS_UPDATED_EVENT, check);
+    navigator.serviceWorker?.addEventListener('message', handleSwMessage);
+    check();
+
+    return () => {
+      if (this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+      window.removeEventListener(TODOS_UPDATED_EVENT, check);
+      navigator.serviceWorker?.removeEventListener('message', handleSwMessage);
+    };
+  }
+
+  private async checkDueTodos() {
+    if (Notification.permission !== 'granted') return;
+
+    const now = Date.now();
+    const todos = loadTodos();
+    const dueTodos = todos.filter((todo) => needsReminder(todo, now));
+    if (dueTodos.length === 0) return;
+
+    // 先标记为已提醒并同步，避免多个标签页或设备重复提醒
+    const dueIds = new Set(dueTodos.map((todo) => todo.id));
+    saveTodos(
+      todos.map((todo) =>
+        dueIds.has(todo.id) ? { ...todo, remindedAt: now, updatedAt: now } : todo
+      )
+    );
+
+    for (const todo of dueTodos) {
+      if (now - (todo.dueAt as number) < STALE_REMINDER_WINDOW) {
+        await this.showNotification(todo);
+      }
+    }
+  }
+
+  private async showNotification(todo: TodoItem) {
+    const title = `⏰ 待办到期：${todo.text}`;
+    const options: NotificationOptions = {
+      body: [formatTodoDue(todo.dueAt as number), todo.priority && PRIORITY_LABELS[todo.priority]]
+        .filter(Boolean)
+        .join(' · '),
+      icon: '/icon/icon-192.png',
+      tag: `todo-${todo.id}`,
+      data: { type: 'todo-reminder', todoId: todo.id },
+    };
+
+    try {
+      // 优先使用 Service Worker 通知，页面在后台时也能点击唤起
+      const registration = await navigator.serviceWorker?.getRegistration();
+      if (registration) {
+        await registration.showNotification(title, options);
+        return;
+      }
+
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        window.dispatchEvent(new CustomEvent(OPEN_TODOS_EVENT));
+        notification.close();
+      };
+    } catch (error) {
+      logger.warn('发送待办提醒失败:', error);
+    }
+  }
+}
+
+export const todoReminderService = TodoReminderService.getInstance();
@@ -0,0 +1,82 @@
+// 待办事项本地存储 - TodoModal、搜索框快捷添加与云端同步共用
+import { TodoItem } from './supabaseSync';
+import { sanitizeTodoArray } from './dataValidator';
+import { logger } from './logger';
+
+export const TODO_STORAGE_KEY = 'time-display-todos';
+export const MAX_TODO_HISTORY = 1000;
+// 软删除记录同步后的保留时间，超过后从本地和云端清除
+const TOMBSTONE_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+// 待办变化事件，source 区分本地修改与云端合并，避免云端合并后再次触发上传
+export const TODOS_UPDATED_EVENT = 'todosUpdated';
+
+export type TodoUpdateSource = 'local' | 'cloud';
+
+/**
+ * 读取全部待办（包含软删除记录）
+ */
+export const loadTodos = (): TodoItem[] => {
+  const stored = localStorage.getItem(TODO_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    const data = JSON.parse(stored);
+    // 为旧数据补充 order 字段
+    return sanitizeTodoArray(
+      Array.isArray(data)
+        ? data.map((todo, index) => ({ ...todo, order: todo?.order ?? index }))
+        : []
+    );
+  } catch {
+    logger.warn('待办数据解析失败，已忽略');
+    return [];
+  }
+};
+
+/**
+ * 保存全部待办并通知订阅方
+ */
+export const saveTodos = (todos: TodoItem[], source: TodoUpdateSource = 'local') => {
+  // 超出上限时优先丢弃软删除记录，其余按修改时间保留最新的
+  const trimmed =
+    todos.length > MAX_TODO_HISTORY
+      ? [...todos]
+          .sort((a, b) => Number(!!a.deleted) - Number(!!b.deleted) || b.updatedAt - a.updatedAt)
+          .slice(0, MAX_TODO_HISTORY)
+      : todos;
+
+  localStorage.setItem(TODO_STORAGE_KEY, JSON.stringify(trimmed));
+  window.dispatchEvent(new CustomEvent(TODOS_UPDATED_EVENT, { detail: { source } }));
+};
+
+/**
+ * 清除已同步到云端且超过保留时间的软删除记录
+ * 只清除云端也已标记删除的记录，尚未上传的删除仍会同步到其他设备
+ */
+export const pruneSyncedTombstones = (todos: TodoItem[], cloudTodos: TodoItem[]): TodoItem[] => {
+  const cutoff = Date.now() - TOMBSTONE_RETENTION;
+  const syncedIds = new Set(cloudTodos.filter((todo) => todo.deleted).map((todo) => todo.id));
+  return todos.filter((todo) => !(todo.deleted && todo.updatedAt < cutoff && syncedIds.has(todo.id)));
+};
+
+/**
+ * 过滤掉软删除的待办
+ */
+export const getVisibleTodos = (todos: TodoItem[]): TodoItem[] => todos.filter((todo) => !todo.deleted);
+
+/**
+ * 创建一条新的待办
+ */
+export const createTodo = (text: string, existing: TodoItem[]): TodoItem => {
+  const now = Date.now();
+  return {
+    id: now.toString(),
+    text,
+    completed: false,
+    createdAt: now,
+    order: Math.max(0, ...existing.map((todo) => todo.order || 0)) + 1,
+    updatedAt: now,
+    deleted: false,
+  };
+};
@@ -0,0 +1,110 @@
+// 两步验证动态码（RFC 6238 TOTP）- 支持 Base32 密钥和 otpauth:// 链接
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+type TotpAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-512';
+
+export interface TotpConfig {
+  secret: Uint8Array;
+  digits: number;
+  period: number; // 秒
+  algorithm: TotpAlgorithm;
+}
+
+export interface TotpCode {
+  code: string;
+  remaining: number; // 当前动态码剩余有效秒数
+  period: number;
+}
+
+const ALGORITHMS: Record<string, TotpAlgorithm> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+// 解码 Base32 密钥，忽略空格、连字符和补位的等号，不区分大小写
+const decodeBase32 = (input: string): Uint8Array | null => {
+  const cleaned = input.replace(/[\s=-]/g, '').toUpperCase();
+  if (!cleaned) return null;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) return null;
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * 解析两步验证密钥，无效时返回 null
+ * otpauth://totp/Label?secret=XXX&digits=6&period=30&algorithm=SHA1
+ */
+export const parseTotpSecret = (input: string): TotpConfig | null => {
+  const value = input.trim();
+  if (!value) return null;
+
+  if (!value.toLowerCase().startsWith('otpauth://')) {
+    const secret = decodeBase32(value);
+    return secret ? { secret, digits: 6, period: 30, algorithm: 'SHA-1' } : null;
+  }
+
+  try {
+    const url = new URL(value);
+    if (url.host.toLowerCase() !== 'totp') return null;
+
+    const secret = decodeBase32(url.searchParams.get('secret') || '');
+    if (!secret) return null;
+
+    const digits = Number(url.searchParams.get('digits') || 6);
+    const period = Number(url.searchParams.get('period') || 30);
+    const algorithm = ALGORITHMS[(url.searchParams.get('algorithm') || 'SHA1').toUpperCase()];
+    if (!algorithm || !Number.isInteger(digits) || digits < 6 || digits > 8 || !(period > 0)) {
+      return null;
+    }
+    return { secret, digits, period, algorithm };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 计算指定时间的动态码
+ */
+export const generateTotp = async (config: TotpConfig, timestamp = Date.now()): Promise<TotpCode> => {
+  const seconds = Math.floor(timestamp / 1000);
+  const counter = Math.floor(seconds / config.period);
+
+  // 8 字节大端计数器
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    config.secret,
+    { name: 'HMAC', hash: config.algorithm },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // 动态截断
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  const code = (binary % 10 ** config.digits).toString().padStart(config.digits, '0');
+
+  return { code, remaining: config.period - (seconds % config.period), period: config.period };
+};
@@ -0,0 +1,200 @@
+// 自定义壁纸云端备份 - 原图上传到 Storage，壁纸列表通过 user_wallpapers 表同步，其他设备按需下载
+import { User } from '@supabase/supabase-js';
+import { customWallpaperManager, WallpaperMetadata } from './customWallpaperManager';
+import { logger } from './logger';
+import {
+  CloudWallpaperRecord,
+  getUserWallpapers,
+  mergeWallpaperRecords,
+  saveUserWallpapers,
+} from './supabaseSync';
+import {
+  WALLPAPER_CLOUD_QUOTA,
+  downloadWallpaperFile,
+  getWallpaperStoragePaths,
+  removeWallpaperFiles,
+  uploadWallpaperFile,
+} from './wallpaperStorage';
+
+export interface WallpaperBackupResult {
+  uploaded: number;
+  downloaded: number;
+  removed: number;
+  skipped: number; // 超出云端空间未上传的壁纸数
+  usage: number; // 已使用的云端空间（字节）
+}
+
+// 云端记录的指纹：只关心记录、修改时间和存储路径
+const getRecordsFingerprint = (records: CloudWallpaperRecord[]) =>
+  JSON.stringify(
+    records.map((record) => `${record.id}:${record.updatedAt}:${!!record.deleted}:${record.storagePath}`).sort()
+  );
+
+const toCloudRecord = (metadata: WallpaperMetadata): CloudWallpaperRecord => ({
+  ...metadata,
+  updatedAt: metadata.updatedAt ?? metadata.uploadTime,
+  deleted: false,
+});
+
+// 云端记录转换为本地壁纸元数据（去掉删除标记）
+const toWallpaperMetadata = (record: CloudWallpaperRecord): WallpaperMetadata => ({
+  id: record.id,
+  name: record.name,
+  size: record.size,
+  uploadTime: record.uploadTime,
+  width: record.width,
+  height: record.height,
+  sourceUrl: record.sourceUrl,
+  updatedAt: record.updatedAt,
+  storagePath: record.storagePath,
+  thumbnailPath: record.thumbnailPath,
+});
+
+// 已上传到云端的壁纸占用的空间
+const getCloudUsage = (records: CloudWallpaperRecord[]) =>
+  records.reduce((sum, record) => (!record.deleted && record.storagePath ? sum + record.size : sum), 0);
+
+class WallpaperCloudBackup {
+  private static instance: WallpaperCloudBackup;
+  private readonly USAGE_KEY = 'wallpaper-cloud-usage';
+  private syncPromise: Promise<WallpaperBackupResult | null> | null = null;
+
+  static getInstance(): WallpaperCloudBackup {
+    if (!WallpaperCloudBackup.instance) {
+      WallpaperCloudBackup.instance = new WallpaperCloudBackup();
+    }
+    return WallpaperCloudBackup.instance;
+  }
+
+  // 上次同步时记录的云端空间用量
+  getCachedUsage(): number {
+    return Number(localStorage.getItem(this.USAGE_KEY)) || 0;
+  }
+
+  /**
+   * 同步本地和云端的自定义壁纸，同一时间只执行一次；读取云端列表失败时返回 null
+   */
+  sync(user: User): Promise<WallpaperBackupResult | null> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.performSync(user).finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async performSync(user: User): Promise<WallpaperBackupResult | null> {
+    const cloudRecords = await getUserWallpapers(user);
+    if (!cloudRecords) {
+      return null;
+    }
+
+    const localWallpapers = await customWallpaperManager.listWallpapers();
+    const deletedWallpapers = customWallpaperManager.getDeletedWallpapers();
+    const localIds = new Set(localWallpapers.map((wallpaper) => wallpaper.id));
+    const records = mergeWallpaperRecords(localWallpapers.map(toCloudRecord), cloudRecords);
+    const result: WallpaperBackupResult = { uploaded: 0, downloaded: 0, removed: 0, skipped: 0, usage: 0 };
+
+    // 1. 本设备删除的壁纸：标记删除并清理云端文件
+    for (const deleted of deletedWallpapers) {
+      const record = records.find((item) => item.id === deleted.id);
+      if (!record || record.deleted || record.updatedAt > deleted.deletedAt) continue;
+
+      const paths = [record.storagePath, record.thumbnailPath].filter((path): path is string => !!path);
+      try {
+        await removeWallpaperFiles(paths);
+      } catch (error) {
+        logger.sync.warn('删除云端壁纸文件失败', error);
+      }
+      Object.assign(record, {
+        deleted: true,
+        updatedAt: deleted.deletedAt,
+        storagePath: undefined,
+        thumbnailPath: undefined,
+      });
+      result.removed++;
+    }
+
+    for (const record of records) {
+      // 2. 其他设备删除的壁纸
+      if (record.deleted) {
+        if (localIds.has(record.id)) {
+          await customWallpaperManager.deleteWallpaper(record.id, 'cloud');
+          result.removed++;
+        }
+        continue;
+      }
+
+      // 3. 其他设备备份的壁纸：先下载缩略图，原图在使用时再下载
+      if (!localIds.has(record.id)) {
+        if (!record.storagePath) continue;
+
+        let thumbnail: Blob | null = null;
+        if (record.thumbnailPath) {
+          thumbnail = await downloadWallpaperFile(record.thumbnailPath).catch(() => null);
+        }
+        await customWallpaperManager.addRemoteWallpaper(toWallpaperMetadata(record), thumbnail);
+        result.downloaded++;
+        continue;
+      }
+
+      // 4. 本设备尚未备份的壁纸：在云端空间允许时上传原图和缩略图
+      if (!record.storagePath) {
+        if (getCloudUsage(records) + record.size > WALLPAPER_CLOUD_QUOTA) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          const paths = await this.uploadWallpaper(user, record.id);
+          if (paths) {
+            Object.assign(record, paths);
+            await customWallpaperManager.updateWallpaperMetadata(record.id, paths, 'cloud');
+            result.uploaded++;
+          }
+        } catch (error) {
+          logger.sync.warn('上传壁纸到云端失败', { id: record.id, error });
+        }
+      }
+    }
+
+    result.usage = getCloudUsage(records);
+    localStorage.setItem(this.USAGE_KEY, String(result.usage));
+
+    if (getRecordsFingerprint(records) !== getRecordsFingerprint(cloudRecords)) {
+      const saved = await saveUserWallpapers(user, records);
+      if (!saved) {
+        return result;
+      }
+    }
+    // 删除记录已写入云端
+    customWallpaperManager.clearDeletedWallpapers(deletedWallpapers.map((item) => item.id));
+
+    logger.sync.info('自定义壁纸同步完成', result);
+    return result;
+  }
+
+  // 上传原图和缩略图，本地没有原图时跳过
+  private async uploadWallpaper(
+    user: User,
+    id: string
+  ): Promise<{ storagePath: string; thumbnailPath?: string } | null> {
+    const blob = await customWallpaperManager.getWallpaperBlob(id);
+    if (!blob) {
+      return null;
+    }
+
+    const { storagePath, thumbnailPath } = getWallpaperStoragePaths(user.id, id);
+    await uploadWallpaperFile(storagePath, blob);
+
+    const thumbnail = await customWallpaperManager.getWallpaperThumbnail(id);
+    if (!thumbnail) {
+      return { storagePath };
+    }
+    await uploadWallpaperFile(thumbnailPath, thumbnail);
+    return { storagePath, thumbnailPath };
+  }
+}
+
+// 导出单例
+export const wallpaperCloudBackup = WallpaperCloudBackup.getInstance();
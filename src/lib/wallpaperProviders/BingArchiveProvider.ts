@@ -0,0 +1,101 @@
+import { getLocalDateString } from '../dateUtils';
+import { logger } from '../logger';
+import { memoryManager } from '../memoryManager';
+import { ProviderWallpaper, WallpaperProvider } from './types';
+import {
+  cacheWallpaper,
+  fetchWallpaperResource,
+  getCachedWallpaper,
+  getResolutionSize,
+  getWallpaperServiceUrl,
+} from './utils';
+
+// 必应最多提供最近 8 天的壁纸
+export const BING_ARCHIVE_DAYS = 8;
+
+export interface BingArchiveImage {
+  idx: number; // 往前的天数，0 为今天
+  date: string; // YYYY-MM-DD
+  title: string;
+  copyright: string;
+  thumbnail: string;
+}
+
+/**
+ * 获取最近几天的必应壁纸列表（设置页浏览使用）
+ */
+export const fetchBingArchive = async (): Promise<BingArchiveImage[]> => {
+  const url = getWallpaperServiceUrl({ list: BING_ARCHIVE_DAYS });
+  if (!url) {
+    throw new Error('壁纸服务未配置');
+  }
+  const response = await fetchWallpaperResource(url, 'application/json', 10000);
+  const data = await response.json();
+  return Array.isArray(data.images) ? data.images : [];
+};
+
+/**
+ * 必应往期壁纸 - 通过 wallpaper-service 获取往前第 N 天的壁纸
+ */
+export class BingArchiveProvider implements WallpaperProvider {
+  readonly type = 'bingArchive' as const;
+  private index: number;
+
+  constructor(index: number) {
+    this.index = index;
+  }
+
+  async getWallpaper(resolution: string): Promise<ProviderWallpaper> {
+    // 往前第 N 天的壁纸当天内不变
+    const today = getLocalDateString();
+    const cacheKey = `bingArchive-${resolution}-${this.index}-${today}`;
+    const colorCacheId = `bing-archive:${this.index}-${today}`;
+
+    const cached = await getCachedWallpaper(cacheKey);
+    if (cached) {
+      logger.wallpaper.info('使用缓存的必应往期壁纸', { index: this.index });
+      return {
+        url: await memoryManager.createBlobUrl(cached.blob, 'wallpaper'),
+        originalUrl: cached.originalUrl,
+        colorCacheId,
+        isFromCache: true,
+      };
+    }
+
+    const url = getWallpaperServiceUrl({
+      resolution: getResolutionSize(resolution).service,
+      idx: this.index,
+      date: today,
+    });
+    if (!url) {
+      throw new Error('壁纸服务未配置');
+    }
+
+    const response = await fetchWallpaperResource(url, 'image/*');
+    if ((response.headers.get('Content-Type') || '').includes('application/json')) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`边缘函数返回错误: ${errorData.error || '未知错误'}`);
+    }
+    const blob = await response.blob();
+    if (blob.size === 0) {
+      throw new Error('下载的壁纸数据为空');
+    }
+
+    // 从边缘函数缓存返回时没有原始地址
+    const source = response.headers.get('X-Wallpaper-Source') || '';
+    const originalUrl = /^https?:\/\//.test(source) ? source : undefined;
+    void cacheWallpaper(cacheKey, blob, 48 * 60 * 60 * 1000, originalUrl);
+
+    logger.wallpaper.info('必应往期壁纸下载完成', { index: this.index, originalUrl });
+    return {
+      url: await memoryManager.createBlobUrl(blob, 'wallpaper'),
+      originalUrl,
+      colorCacheId,
+      isFromCache: false,
+    };
+  }
+
+  getNextRotationDelay(): number | null {
+    return null;
+  }
+}
@@ -0,0 +1,112 @@
+import { GeneratedBackground } from '@/types/settings';
+import { memoryManager } from '../memoryManager';
+import { ProviderWallpaper, WallpaperProvider } from './types';
+import { cacheWallpaper, getCachedWallpaper, getResolutionSize } from './utils';
+
+// 生成的背景内容只取决于参数，可以长期缓存
+const GENERATED_CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// 设置页中的预设背景
+export const GENERATED_BACKGROUND_PRESETS: { name: string; background: GeneratedBackground }[] = [
+  { name: '暮紫', background: { type: 'linear', colors: ['#667eea', '#764ba2'], angle: 135 } },
+  { name: '晨曦', background: { type: 'linear', colors: ['#ff7e5f', '#feb47b'], angle: 135 } },
+  { name: '海雾', background: { type: 'linear', colors: ['#2193b0', '#6dd5ed'], angle: 160 } },
+  { name: '森林', background: { type: 'linear', colors: ['#134e5e', '#71b280'], angle: 135 } },
+  { name: '极光', background: { type: 'linear', colors: ['#0f2027', '#203a43', '#2c5364'], angle: 180 } },
+  { name: '星云', background: { type: 'radial', colors: ['#3a1c71', '#d76d77', '#ffaf7b'], angle: 0 } },
+  { name: '石墨', background: { type: 'solid', colors: ['#1f2937'], angle: 0 } },
+  { name: '米白', background: { type: 'solid', colors: ['#f5f0e6'], angle: 0 } },
+];
+
+/**
+ * 背景对应的 CSS（设置页预览使用）
+ */
+export const getGeneratedBackgroundCss = (background: GeneratedBackground): string => {
+  if (background.type === 'solid' || background.colors.length === 1) {
+    return background.colors[0];
+  }
+  if (background.type === 'radial') {
+    return `radial-gradient(circle, ${background.colors.join(', ')})`;
+  }
+  return `linear-gradient(${background.angle}deg, ${background.colors.join(', ')})`;
+};
+
+/**
+ * 在画布上绘制背景并导出为图片，角度与 CSS linear-gradient 一致（0 度为从下到上）
+ */
+export const renderGeneratedBackground = (
+  background: GeneratedBackground,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('浏览器不支持生成背景'));
+  }
+
+  const { colors } = background;
+  if (background.type === 'solid' || colors.length === 1) {
+    ctx.fillStyle = colors[0];
+  } else {
+    let gradient: CanvasGradient;
+    if (background.type === 'radial') {
+      const radius = Math.hypot(width, height) / 2;
+      gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, radius);
+    } else {
+      const radians = (background.angle * Math.PI) / 180;
+      const dx = Math.sin(radians);
+      const dy = -Math.cos(radians);
+      // 渐变线长度覆盖整个画布的对角
+      const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+      gradient = ctx.createLinearGradient(
+        width / 2 - dx * halfLength,
+        height / 2 - dy * halfLength,
+        width / 2 + dx * halfLength,
+        height / 2 + dy * halfLength
+      );
+    }
+    colors.forEach((color, index) => gradient.addColorStop(index / (colors.length - 1), color));
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('生成背景失败'))), 'image/png');
+  });
+};
+
+/**
+ * 纯色 / 渐变背景 - 按分辨率在本地生成，不需要网络
+ */
+export class GeneratedBackgroundProvider implements WallpaperProvider {
+  readonly type = 'generated' as const;
+  private background: GeneratedBackground;
+
+  constructor(background: GeneratedBackground) {
+    this.background = background;
+  }
+
+  async getWallpaper(resolution: string): Promise<ProviderWallpaper> {
+    const { width, height } = getResolutionSize(resolution);
+    const { type, colors, angle } = this.background;
+    const specKey = `${type}-${colors.join('-')}-${angle}`;
+    const cacheKey = `generated-${specKey}-${width}x${height}`;
+    const colorCacheId = `generated:${specKey}`;
+
+    const cached = await getCachedWallpaper(cacheKey);
+    if (cached) {
+      return { url: await memoryManager.createBlobUrl(cached.blob, 'wallpaper'), colorCacheId, isFromCache: true };
+    }
+
+    const blob = await renderGeneratedBackground(this.background, width, height);
+    void cacheWallpaper(cacheKey, blob, GENERATED_CACHE_TTL);
+    return { url: await memoryManager.createBlobUrl(blob, 'wallpaper'), colorCacheId, isFromCache: false };
+  }
+
+  getNextRotationDelay(): number | null {
+    return null;
+  }
+}
@@ -0,0 +1,34 @@
+import { customWallpaperManager } from '../customWallpaperManager';
+import { ProviderWallpaper, WallpaperProvider } from './types';
+import { getRotationDelay, getRotationSlot } from './utils';
+
+/**
+ * 本地壁纸轮播 - 按设置的间隔轮换已上传的自定义壁纸（图片本身已保存在 IndexedDB）
+ */
+export class LocalRotationProvider implements WallpaperProvider {
+  readonly type = 'localRotation' as const;
+  private rotationMinutes: number;
+
+  constructor(rotationMinutes: number) {
+    this.rotationMinutes = rotationMinutes;
+  }
+
+  async getWallpaper(): Promise<ProviderWallpaper> {
+    const wallpapers = await customWallpaperManager.listWallpapers();
+    if (wallpapers.length === 0) {
+      throw new Error('还没有上传壁纸，请先在设置中上传图片或文件夹');
+    }
+
+    const wallpaper = wallpapers[getRotationSlot(this.rotationMinutes) % wallpapers.length];
+    const url = await customWallpaperManager.getWallpaperFullImage(wallpaper.id);
+    if (!url) {
+      throw new Error(`读取壁纸「${wallpaper.name}」失败`);
+    }
+
+    return { url, colorCacheId: wallpaper.id, isFromCache: true };
+  }
+
+  getNextRotationDelay(now = Date.now()): number | null {
+    return getRotationDelay(this.rotationMinutes, now);
+  }
+}
@@ -0,0 +1,143 @@
+import { WallpaperPlaylist } from '@/types/settings';
+import { customWallpaperManager } from '../customWallpaperManager';
+import { isTimeInRange, parseTimeToMinutes } from '../dateUtils';
+import { logger } from '../logger';
+import { resourcePreloader } from '../resourcePreloader';
+import { ProviderWallpaper, WallpaperProvider } from './types';
+import { getRotationDelay, getRotationSlot } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NEW_TAB_COUNTER_KEY = 'wallpaper-playlist-tab-counter';
+
+// 本页面的新标签页序号，同一页面内重新加载壁纸时保持不变
+let newTabIndex: number | null = null;
+
+const getNewTabIndex = (): number => {
+  if (newTabIndex === null) {
+    newTabIndex = (Number(localStorage.getItem(NEW_TAB_COUNTER_KEY)) || 0) + 1;
+    localStorage.setItem(NEW_TAB_COUNTER_KEY, String(newTabIndex));
+  }
+  return newTabIndex;
+};
+
+// 本地日期序号，offsetMinutes 用于把一天的起点移到早间开始时间
+const getLocalDayNumber = (now: number, offsetMinutes = 0): number => {
+  const date = new Date(now - offsetMinutes * 60 * 1000);
+  return Math.floor((date.getTime() - date.getTimezoneOffset() * 60 * 1000) / DAY_MS);
+};
+
+// 距离下一次到达本地时间（一天中的分钟数）的毫秒数
+const getDelayUntilTime = (minutes: number, now: number): number => {
+  const target = new Date(now);
+  target.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (target.getTime() <= now) {
+    target.setDate(target.getDate() + 1);
+  }
+  return target.getTime() - now;
+};
+
+/**
+ * 自定义壁纸播放列表 - 按新标签页、每小时、每天或早晚时段在列表中轮换
+ * 开启跟随夜间模式时，夜间模式下使用夜间组的壁纸
+ */
+export class PlaylistProvider implements WallpaperProvider {
+  readonly type = 'playlist' as const;
+  private playlist: WallpaperPlaylist;
+  private darkMode: boolean;
+
+  constructor(playlist: WallpaperPlaylist, darkMode: boolean) {
+    this.playlist = playlist;
+    this.darkMode = darkMode;
+  }
+
+  async getWallpaper(): Promise<ProviderWallpaper> {
+    const available = new Set((await customWallpaperManager.listWallpapers()).map((wallpaper) => wallpaper.id));
+    const now = Date.now();
+    const id = this.pickWallpaperId(available, now, getNewTabIndex());
+    if (!id) {
+      throw new Error(`播放列表「${this.playlist.name}」中没有可用的壁纸`);
+    }
+
+    const url = await customWallpaperManager.getWallpaperFullImage(id);
+    if (!url) {
+      throw new Error('读取播放列表壁纸失败');
+    }
+
+    this.preloadNext(available, now, id).catch((error) => {
+      logger.wallpaper.warn('预加载播放列表壁纸失败', error);
+    });
+    return { url, colorCacheId: id, isFromCache: true };
+  }
+
+  getNextRotationDelay(now = Date.now()): number | null {
+    const { schedule, morningStart, eveningStart } = this.playlist;
+    switch (schedule) {
+      case 'hourly':
+        return getRotationDelay(60, now);
+      case 'daily':
+        return getDelayUntilTime(0, now);
+      case 'timeOfDay':
+        return Math.min(
+          getDelayUntilTime(parseTimeToMinutes(morningStart), now),
+          getDelayUntilTime(parseTimeToMinutes(eveningStart), now)
+        );
+      case 'newTab':
+      default:
+        return null; // 打开新标签页时才切换
+    }
+  }
+
+  // 当前使用的壁纸组，其中一组为空时使用另一组
+  private getActiveWallpaperIds(available: Set<string>, now: number): string[] {
+    const { wallpaperIds, nightWallpaperIds, schedule, morningStart, eveningStart, followDarkMode } = this.playlist;
+    const isNight = followDarkMode
+      ? this.darkMode
+      : schedule === 'timeOfDay' && isTimeInRange(eveningStart, morningStart, new Date(now));
+
+    const dayIds = wallpaperIds.filter((id) => available.has(id));
+    const nightIds = nightWallpaperIds.filter((id) => available.has(id));
+    if (isNight) {
+      return nightIds.length > 0 ? nightIds : dayIds;
+    }
+    return dayIds.length > 0 ? dayIds : nightIds;
+  }
+
+  private pickWallpaperId(available: Set<string>, now: number, tabIndex: number): string | null {
+    const ids = this.getActiveWallpaperIds(available, now);
+    if (ids.length === 0) {
+      return null;
+    }
+
+    let slot: number;
+    switch (this.playlist.schedule) {
+      case 'hourly':
+        slot = getRotationSlot(60, now);
+        break;
+      case 'daily':
+        slot = getLocalDayNumber(now);
+        break;
+      case 'timeOfDay':
+        // 晚间组跨过零点时仍算同一个时段
+        slot = getLocalDayNumber(now, parseTimeToMinutes(this.playlist.morningStart));
+        break;
+      case 'newTab':
+      default:
+        slot = tabIndex;
+    }
+    return ids[slot % ids.length];
+  }
+
+  // 提前解码下一张壁纸，切换时可以直接淡入（memoryManager 对同一张图片复用 Blob URL）
+  private async preloadNext(available: Set<string>, now: number, currentId: string): Promise<void> {
+    const delay = this.getNextRotationDelay(now);
+    const nextId = this.pickWallpaperId(available, now + (delay ?? 0), getNewTabIndex() + 1);
+    if (!nextId || nextId === currentId) {
+      return;
+    }
+
+    const url = await customWallpaperManager.getWallpaperFullImage(nextId);
+    if (url && (await resourcePreloader.preloadImage(url))) {
+      logger.wallpaper.debug('已预加载播放列表的下一张壁纸', { id: nextId });
+    }
+  }
+}
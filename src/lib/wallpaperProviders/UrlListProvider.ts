@@ -0,0 +1,154 @@
+import { indexedDBCache } from '../indexedDBCache';
+import { logger } from '../logger';
+import { memoryManager } from '../memoryManager';
+import { PROVIDER_CACHE_PREFIX, ProviderWallpaper, WallpaperProvider } from './types';
+import {
+  cacheWallpaper,
+  downloadImage,
+  fetchWallpaperResource,
+  getCachedWallpaper,
+  getRotationDelay,
+  getRotationSlot,
+  hashString,
+} from './utils';
+
+// 订阅源解析结果的缓存时间
+const FEED_REFRESH_INTERVAL = 6 * 60 * 60 * 1000;
+// 已下载图片的缓存时间
+const IMAGE_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|webp|gif|avif|bmp)(\?|#|$)/i;
+
+interface CachedFeed {
+  urls: string[];
+  fetchedAt: number;
+}
+
+/**
+ * 解析用户填写的链接：每行一个，忽略空行和 # 开头的注释
+ */
+export const parseWallpaperUrlList = (input: string): string[] =>
+  input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#') && /^https?:\/\//i.test(line));
+
+/**
+ * 从 RSS / Atom 订阅中提取图片地址（enclosure、media:content、media:thumbnail 和正文中的第一张图片）
+ */
+export const parseFeedImages = (xml: string): string[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('订阅内容不是有效的 RSS 或 Atom');
+  }
+
+  const urls: string[] = [];
+  const entries = [...Array.from(doc.getElementsByTagName('item')), ...Array.from(doc.getElementsByTagName('entry'))];
+  for (const entry of entries) {
+    const enclosure = Array.from(entry.getElementsByTagName('enclosure')).find((element) =>
+      (element.getAttribute('type') || 'image/').startsWith('image/')
+    );
+    const media = [
+      ...Array.from(entry.getElementsByTagName('media:content')),
+      ...Array.from(entry.getElementsByTagName('media:thumbnail')),
+    ].find((element) => element.getAttribute('url'));
+    const html = ['description', 'content', 'content:encoded', 'summary']
+      .map((tag) => entry.getElementsByTagName(tag)[0]?.textContent || '')
+      .join('\n');
+    const inlineImage = html.match(/<img[^>]+src=["']([^"']+)["']/i)?.[1];
+
+    const url = enclosure?.getAttribute('url') || media?.getAttribute('url') || inlineImage;
+    if (url && /^https?:\/\//i.test(url)) {
+      urls.push(url);
+    }
+  }
+  return urls;
+};
+
+/**
+ * 图片链接 / 订阅源 - 按设置的间隔在链接之间轮换
+ * 只填写一个不像图片的链接时按 RSS / Atom 订阅解析
+ */
+export class UrlListProvider implements WallpaperProvider {
+  readonly type = 'urlList' as const;
+  private source: string;
+  private rotationMinutes: number;
+
+  constructor(source: string, rotationMinutes: number) {
+    this.source = source;
+    this.rotationMinutes = rotationMinutes;
+  }
+
+  async getWallpaper(): Promise<ProviderWallpaper> {
+    const urls = await this.resolveImageUrls();
+    if (urls.length === 0) {
+      throw new Error('没有可用的壁纸链接，请在设置中填写图片链接或订阅地址');
+    }
+
+    const imageUrl = urls[getRotationSlot(this.rotationMinutes) % urls.length];
+    const cacheKey = `image-${hashString(imageUrl)}`;
+    const colorCacheId = `url:${hashString(imageUrl)}`;
+
+    const cached = await getCachedWallpaper(cacheKey);
+    if (cached) {
+      return {
+        url: await memoryManager.createBlobUrl(cached.blob, 'wallpaper'),
+        originalUrl: imageUrl,
+        colorCacheId,
+        isFromCache: true,
+      };
+    }
+
+    try {
+      const blob = await downloadImage(imageUrl);
+      void cacheWallpaper(cacheKey, blob, IMAGE_CACHE_TTL, imageUrl);
+      return {
+        url: await memoryManager.createBlobUrl(blob, 'wallpaper'),
+        originalUrl: imageUrl,
+        colorCacheId,
+        isFromCache: false,
+      };
+    } catch (error) {
+      // 代理下载失败时直接使用原地址，由浏览器加载（不缓存）
+      logger.wallpaper.warn('下载链接壁纸失败，直接使用原地址', { imageUrl, error });
+      return { url: imageUrl, originalUrl: imageUrl, colorCacheId, isFromCache: false };
+    }
+  }
+
+  getNextRotationDelay(now = Date.now()): number | null {
+    return getRotationDelay(this.rotationMinutes, now);
+  }
+
+  // 获取全部图片地址，订阅源的解析结果缓存一段时间
+  private async resolveImageUrls(): Promise<string[]> {
+    const urls = parseWallpaperUrlList(this.source);
+    if (urls.length !== 1 || IMAGE_EXTENSION_PATTERN.test(urls[0])) {
+      return urls;
+    }
+
+    const feedUrl = urls[0];
+    const cacheKey = `${PROVIDER_CACHE_PREFIX}feed-${hashString(feedUrl)}`;
+    const cached = await indexedDBCache.getRecord<CachedFeed>(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < FEED_REFRESH_INTERVAL) {
+      return cached.urls;
+    }
+
+    try {
+      const response = await fetchWallpaperResource(feedUrl, 'application/rss+xml, application/atom+xml, text/xml, */*');
+      const contentType = response.headers.get('Content-Type') || '';
+      // 链接本身就是图片（没有扩展名）
+      if (contentType.startsWith('image/')) {
+        return urls;
+      }
+
+      const feedUrls = parseFeedImages(await response.text());
+      await indexedDBCache.setRecord<CachedFeed>(cacheKey, { urls: feedUrls, fetchedAt: Date.now() });
+      logger.wallpaper.info(`订阅源解析到 ${feedUrls.length} 张壁纸`);
+      return feedUrls;
+    } catch (error) {
+      logger.wallpaper.warn('读取壁纸订阅失败', error);
+      // 离线或订阅暂时不可用时继续使用上次的结果
+      return cached ? cached.urls : urls;
+    }
+  }
+}
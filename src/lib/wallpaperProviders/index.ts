@@ -0,0 +1,58 @@
+// 壁纸来源注册表 - 根据设置创建当前使用的壁纸来源，必应每日壁纸由 optimizedWallpaperService 直接处理
+import { GeneratedBackground, PlaylistSchedule } from '@/types/settings';
+import { BingArchiveProvider } from './BingArchiveProvider';
+import { GeneratedBackgroundProvider } from './GeneratedBackgroundProvider';
+import { LocalRotationProvider } from './LocalRotationProvider';
+import { UrlListProvider } from './UrlListProvider';
+import { WallpaperProvider, WallpaperProviderType } from './types';
+
+export * from './types';
+export { fetchBingArchive, BING_ARCHIVE_DAYS } from './BingArchiveProvider';
+export type { BingArchiveImage } from './BingArchiveProvider';
+export { parseWallpaperUrlList } from './UrlListProvider';
+export { GENERATED_BACKGROUND_PRESETS, getGeneratedBackgroundCss } from './GeneratedBackgroundProvider';
+export { PlaylistProvider } from './PlaylistProvider';
+
+// 设置页中可选的壁纸来源
+export const WALLPAPER_PROVIDER_OPTIONS: { type: WallpaperProviderType; label: string; icon: string; description: string }[] = [
+  { type: 'bing', label: '每日必应', icon: 'fa-solid fa-image', description: '每天自动更新' },
+  { type: 'bingArchive', label: '必应往期', icon: 'fa-solid fa-clock-rotate-left', description: '浏览最近 8 天' },
+  { type: 'urlList', label: '图片链接', icon: 'fa-solid fa-link', description: '链接列表或 RSS 订阅' },
+  { type: 'localRotation', label: '本地轮播', icon: 'fa-solid fa-images', description: '定时轮换上传的图片' },
+  { type: 'generated', label: '纯色渐变', icon: 'fa-solid fa-palette', description: '无需网络' },
+];
+
+// 播放列表的切换方式
+export const PLAYLIST_SCHEDULE_OPTIONS: { value: PlaylistSchedule; label: string }[] = [
+  { value: 'newTab', label: '每个新标签页' },
+  { value: 'hourly', label: '每小时' },
+  { value: 'daily', label: '每天' },
+  { value: 'timeOfDay', label: '按早晚时段' },
+];
+
+export interface WallpaperProviderSettings {
+  wallpaperProvider: WallpaperProviderType;
+  bingArchiveIndex: number;
+  wallpaperUrlList: string;
+  wallpaperRotationMinutes: number;
+  generatedBackground: GeneratedBackground;
+}
+
+/**
+ * 创建当前设置对应的壁纸来源，每日必应返回 null
+ */
+export const createWallpaperProvider = (settings: WallpaperProviderSettings): WallpaperProvider | null => {
+  switch (settings.wallpaperProvider) {
+    case 'bingArchive':
+      return new BingArchiveProvider(settings.bingArchiveIndex);
+    case 'urlList':
+      return new UrlListProvider(settings.wallpaperUrlList, settings.wallpaperRotationMinutes);
+    case 'localRotation':
+      return new LocalRotationProvider(settings.wallpaperRotationMinutes);
+    case 'generated':
+      return new GeneratedBackgroundProvider(settings.generatedBackground);
+    case 'bing':
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,21 @@
+// 壁纸来源 - 必应每日壁纸以外的来源，图片统一缓存在 IndexedDB 并以 Blob URL 返回
+import { WallpaperProviderType } from '@/types/settings';
+
+export type { WallpaperProviderType };
+
+export interface ProviderWallpaper {
+  url: string; // Blob URL，下载失败时为图片原地址
+  originalUrl?: string; // 原始图片地址（用于收藏），本地和生成的壁纸没有
+  colorCacheId: string; // 智能遮罩颜色分析的缓存标识，同一张壁纸保持不变
+  isFromCache: boolean;
+}
+
+export interface WallpaperProvider {
+  readonly type: Exclude<WallpaperProviderType, 'bing'> | 'playlist'; // playlist 只在自定义壁纸模式下使用
+  getWallpaper(resolution: string): Promise<ProviderWallpaper>;
+  // 定时轮换的来源返回距离下次切换的毫秒数，不轮换时返回 null
+  getNextRotationDelay(now?: number): number | null;
+}
+
+// IndexedDB 中壁纸来源缓存键的前缀
+export const PROVIDER_CACHE_PREFIX = 'wallpaper-provider:';
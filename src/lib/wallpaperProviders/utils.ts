@@ -0,0 +1,127 @@
+// 壁纸来源共用的下载、缓存和轮换工具
+import { indexedDBCache } from '../indexedDBCache';
+import { logger } from '../logger';
+import { createWallpaperRequest } from '../requestManager';
+import { createTimeoutSignal } from '../abortUtils';
+import { corsProxyService } from '../proxy';
+import { PROVIDER_CACHE_PREFIX } from './types';
+
+// 各分辨率对应的 wallpaper-service 参数和生成背景的尺寸
+export const RESOLUTION_SIZES: Record<string, { service: string; width: number; height: number }> = {
+  '4k': { service: 'uhd', width: 3840, height: 2160 },
+  '1080p': { service: '1920x1080', width: 1920, height: 1080 },
+  '720p': { service: '1366x768', width: 1366, height: 768 },
+  mobile: { service: 'mobile', width: 1080, height: 1920 },
+};
+
+export const getResolutionSize = (resolution: string) => RESOLUTION_SIZES[resolution] || RESOLUTION_SIZES['1080p'];
+
+const getSupabaseUrl = () => (import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '');
+
+/**
+ * wallpaper-service 边缘函数地址，未配置 Supabase 时返回 null
+ */
+export const getWallpaperServiceUrl = (params: Record<string, string | number>): string | null => {
+  const supabaseUrl = getSupabaseUrl();
+  if (!supabaseUrl) return null;
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+  return `${supabaseUrl}/functions/v1/wallpaper-service?${query}`;
+};
+
+/**
+ * 获取跨域资源：壁纸服务边缘函数直接请求（需要 Supabase 认证头），其他地址通过代理下载
+ */
+export const fetchWallpaperResource = async (url: string, accept: string, timeoutMs = 15000): Promise<Response> => {
+  if (url.includes('/functions/v1/')) {
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    return createWallpaperRequest(url, {
+      mode: 'cors',
+      headers: { Accept: accept, ...(anonKey ? { Authorization: `Bearer ${anonKey}` } : {}) },
+      signal: createTimeoutSignal(timeoutMs),
+    });
+  }
+
+  const response = await corsProxyService.request(url, {
+    mode: 'cors',
+    headers: { Accept: accept },
+    binary: accept.startsWith('image/'),
+    timeoutMs,
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+};
+
+interface CachedWallpaper {
+  blob: Blob;
+  originalUrl?: string;
+}
+
+/**
+ * 读取缓存的壁纸及其原始地址（元数据与图片分开保存，与每日壁纸的缓存方式一致）
+ */
+export const getCachedWallpaper = async (cacheKey: string): Promise<CachedWallpaper | null> => {
+  const key = `${PROVIDER_CACHE_PREFIX}${cacheKey}`;
+  const blob = await indexedDBCache.get(key);
+  if (!blob) return null;
+
+  try {
+    const metadata = await indexedDBCache.get(`${key}-metadata`);
+    const { originalUrl } = metadata ? JSON.parse(await metadata.text()) : { originalUrl: undefined };
+    return { blob, originalUrl };
+  } catch (error) {
+    logger.wallpaper.debug('读取壁纸来源元数据失败', error);
+    return { blob };
+  }
+};
+
+/**
+ * 缓存壁纸到 IndexedDB，失败时只记录日志
+ */
+export const cacheWallpaper = async (cacheKey: string, blob: Blob, ttl: number, originalUrl?: string) => {
+  const key = `${PROVIDER_CACHE_PREFIX}${cacheKey}`;
+  try {
+    await indexedDBCache.set(key, blob, ttl);
+    if (originalUrl) {
+      await indexedDBCache.set(
+        `${key}-metadata`,
+        new Blob([JSON.stringify({ originalUrl })], { type: 'application/json' }),
+        ttl
+      );
+    }
+  } catch (error) {
+    logger.wallpaper.warn('缓存壁纸失败', error);
+  }
+};
+
+/**
+ * 下载图片，响应不是图片时报错
+ */
+export const downloadImage = async (url: string): Promise<Blob> => {
+  const response = await fetchWallpaperResource(url, 'image/*');
+  const blob = await response.blob();
+  if (blob.size === 0 || !blob.type.startsWith('image/')) {
+    throw new Error('下载的内容不是图片');
+  }
+  return blob;
+};
+
+/**
+ * 按固定间隔轮换：根据当前时间计算第几轮，刷新页面或在其他设备上结果一致
+ */
+export const getRotationSlot = (minutes: number, now = Date.now()) => Math.floor(now / (minutes * 60 * 1000));
+
+export const getRotationDelay = (minutes: number, now = Date.now()) => {
+  const interval = minutes * 60 * 1000;
+  return interval - (now % interval);
+};
+
+// 字符串的简短哈希，用于生成缓存键
+export const hashString = (value: string): string => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
@@ -0,0 +1,51 @@
+// 自定义壁纸云端存储 - 原图和缩略图按用户保存在私有存储桶 user-wallpapers 的 <用户ID>/ 目录下，只有本人可以读取
+import { supabase } from './supabase';
+
+export const WALLPAPER_BUCKET = 'user-wallpapers';
+
+// 每个账号的云端壁纸空间，与 supabase_deploy.sql 中的存储策略保持一致
+export const WALLPAPER_CLOUD_QUOTA = 200 * 1024 * 1024;
+
+// 壁纸原图和缩略图在存储桶中的路径
+export const getWallpaperStoragePaths = (userId: string, wallpaperId: string) => ({
+  storagePath: `${userId}/${wallpaperId}`,
+  thumbnailPath: `${userId}/${wallpaperId}-thumb`,
+});
+
+/**
+ * 上传壁纸文件，同一路径重复上传时覆盖
+ */
+export const uploadWallpaperFile = async (path: string, blob: Blob): Promise<void> => {
+  const { error } = await supabase.storage.from(WALLPAPER_BUCKET).upload(path, blob, {
+    contentType: blob.type || 'image/jpeg',
+    upsert: true,
+  });
+
+  if (error) {
+    throw new Error(`上传壁纸失败: ${error.message}`);
+  }
+};
+
+/**
+ * 下载壁纸文件
+ */
+export const downloadWallpaperFile = async (path: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(WALLPAPER_BUCKET).download(path);
+
+  if (error || !data) {
+    throw new Error(`下载壁纸失败: ${error?.message || '文件不存在'}`);
+  }
+  return data;
+};
+
+/**
+ * 删除壁纸文件
+ */
+export const removeWallpaperFiles = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(WALLPAPER_BUCKET).remove(paths);
+  if (error) {
+    throw new Error(`删除云端壁纸失败: ${error.message}`);
+  }
+};
@@ -0,0 +1,104 @@
+// 重复卡片检测与合并 - 网址标准化后相同的卡片视为同一网站
+import { WebsiteData } from './supabaseSync';
+
+// 不影响页面内容的跟踪参数
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  'spm',
+  'ref_src',
+]);
+
+const isTrackingParam = (name: string) => name.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(name.toLowerCase());
+
+/**
+ * 标准化网址用于去重：忽略协议、www、默认端口、锚点、末尾斜杠、跟踪参数和参数顺序
+ */
+export const normalizeWebsiteUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const port = parsed.port && !['80', '443'].includes(parsed.port) ? `:${parsed.port}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !isTrackingParam(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const search = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+    return `${host}${port}${path}${search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+/**
+ * 按标准化网址分组，返回包含两张及以上卡片的分组（已删除的卡片不参与）
+ */
+export const findDuplicateGroups = (websites: WebsiteData[]): WebsiteData[][] => {
+  const groups = new Map<string, WebsiteData[]>();
+  websites
+    .filter((site) => !site.deleted)
+    .forEach((site) => {
+      const key = normalizeWebsiteUrl(site.url);
+      groups.set(key, [...(groups.get(key) || []), site]);
+    });
+
+  return [...groups.values()].filter((group) => group.length > 1);
+};
+
+/**
+ * 默认保留的卡片：访问次数最多的，次数相同时保留最早添加的（列表中靠前的）
+ */
+export const getDefaultKeeper = (group: WebsiteData[]): WebsiteData =>
+  group.reduce((best, site) => ((site.visitCount || 0) > (best.visitCount || 0) ? site : best));
+
+const getVisitTime = (site: WebsiteData) => {
+  const time = new Date(site.lastVisit || 0).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * 合并重复卡片：保留 keeper 的名称、网址、图标和位置，合并所有标签，
+ * 访问次数取最大值，最后访问时间取最新，备注优先使用 keeper 的非空备注
+ */
+export const mergeWebsites = (group: WebsiteData[], keeperId: string): WebsiteData => {
+  const keeper = group.find((site) => site.id === keeperId) || group[0];
+  const others = group.filter((site) => site.id !== keeper.id);
+  const all = [keeper, ...others];
+
+  const latest = all.reduce((best, site) => (getVisitTime(site) > getVisitTime(best) ? site : best));
+  const note = all.map((site) => site.note?.trim()).find(Boolean);
+
+  return {
+    ...keeper,
+    tags: [...new Set(all.flatMap((site) => site.tags || []))],
+    visitCount: Math.max(...all.map((site) => site.visitCount || 0)),
+    lastVisit: latest.lastVisit,
+    note: note || undefined,
+    // 任意一张未归档时合并结果也不归档
+    archived: all.every((site) => site.archived) || undefined,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * 将合并结果应用到卡片列表：保留的卡片原位更新，其余卡片移除
+ * 同步时移除的卡片作为删除墓碑上传，保留的卡片因 updatedAt 变化作为更新上传
+ */
+export const applyMerge = (websites: WebsiteData[], group: WebsiteData[], keeperId: string): WebsiteData[] => {
+  const merged = mergeWebsites(group, keeperId);
+  const removedIds = new Set(group.filter((site) => site.id !== merged.id).map((site) => site.id));
+
+  return websites
+    .filter((site) => !removedIds.has(site.id))
+    .map((site) => (site.id === merged.id ? merged : site));
+};
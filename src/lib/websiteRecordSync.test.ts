@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '@supabase/supabase-js';
+import type { WebsiteData } from './supabaseSync';
+import {
+  acknowledgeWebsiteRecords,
+  fetchWebsiteRecords,
+  purgeWebsiteRecords,
+  pushWebsiteRecords,
+} from './websiteRecordSync';
+
+const { rpc, from } = vi.hoisted(() => {
+  // 测试运行在 Node 环境，searchEngines 加载时需要 window
+  vi.stubGlobal('window', globalThis);
+  return { rpc: vi.fn(), from: vi.fn() };
+});
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { rpc, from },
+  TABLES: { USER_WEBSITE_RECORDS: 'user_website_records' },
+}));
+
+const user = { id: 'user-1' } as User;
+
+const website = (id: string, updatedAt: number, patch: Partial<WebsiteData> = {}): WebsiteData => ({
+  id,
+  name: id,
+  url: `https://${id}.example.com`,
+  favicon: '',
+  tags: [],
+  visitCount: 0,
+  lastVisit: '2026-10-19',
+  updatedAt,
+  ...patch,
+});
+
+// 可链式调用的查询，await 时返回 result
+const query = (result: { data?: unknown; error: unknown }) => {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: typeof result) => unknown) => resolve(result),
+  };
+  ['select', 'delete', 'eq', 'in', 'order', 'range'].forEach((method) => {
+    builder[method] = vi.fn(() => builder);
+  });
+  return builder;
+};
+
+// 每次调用 upsert_website_records 上传的记录
+const uploaded = () => rpc.mock.calls.map(([, params]) => params.records);
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  rpc.mockReset().mockResolvedValue({ error: null });
+  from.mockReset();
+});
+
+describe('网站记录同步游标', () => {
+  it('只上传自上次同步后新增或修改的记录', async () => {
+    const websites = [website('a', 100), website('b', 100)];
+    expect(await pushWebsiteRecords(user, websites)).toBe(2);
+    expect(await pushWebsiteRecords(user, websites)).toBe(0);
+
+    const edited = [website('a', 200, { name: '改名' }), website('b', 100)];
+    expect(await pushWebsiteRecords(user, edited)).toBe(1);
+    expect(uploaded()).toEqual([websites, [edited[0]]]);
+  });
+
+  it('从云端收到并确认的记录不再重复上传，包括删除墓碑', async () => {
+    acknowledgeWebsiteRecords(user.id, [website('a', 100), website('b', 200, { deleted: true })]);
+
+    expect(await pushWebsiteRecords(user, [website('a', 100), website('b', 200, { deleted: true })])).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('上次已上传但本地已不存在的记录作为删除墓碑上传一次', async () => {
+    await pushWebsiteRecords(user, [website('a', 100), website('b', 100)]);
+    rpc.mockClear();
+
+    expect(await pushWebsiteRecords(user, [website('a', 100)])).toBe(1);
+    expect(uploaded()[0]).toEqual([{ id: 'b', deleted: true, updatedAt: expect.any(Number) }]);
+    expect(await pushWebsiteRecords(user, [website('a', 100)])).toBe(0);
+  });
+
+  it('上传失败时不推进游标，下次同步重新上传', async () => {
+    rpc.mockResolvedValueOnce({ error: { code: '08006', message: 'connection failure' } });
+    await expect(pushWebsiteRecords(user, [website('a', 100)])).rejects.toMatchObject({ code: '08006' });
+
+    expect(await pushWebsiteRecords(user, [website('a', 100)])).toBe(1);
+  });
+
+  it('记录表未部署时返回 null，由调用方回退到整表同步', async () => {
+    rpc.mockResolvedValue({ error: { code: 'PGRST202', message: 'Could not find the function' } });
+    expect(await pushWebsiteRecords(user, [website('a', 100)])).toBeNull();
+  });
+});
+
+describe('彻底删除回收站记录', () => {
+  it('只删除云端已标记删除的记录，彻底删除后不再上传墓碑', async () => {
+    await pushWebsiteRecords(user, [website('a', 100), website('b', 100)]);
+    rpc.mockClear();
+    const deletion = query({ error: null });
+    from.mockReturnValue(deletion);
+
+    await purgeWebsiteRecords(user, ['b']);
+    expect(deletion.eq).toHaveBeenCalledWith('user_id', user.id);
+    expect(deletion.eq).toHaveBeenCalledWith('deleted', true);
+    expect(deletion.in).toHaveBeenCalledWith('website_id', ['b']);
+
+    expect(await pushWebsiteRecords(user, [website('a', 100)])).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+    expect(from).toHaveBeenCalledTimes(1);
+  });
+
+  it('云端删除失败时保留待删除记录，下次同步时重试', async () => {
+    const failed = query({ error: { code: '08006', message: 'connection failure' } });
+    const retried = query({ error: null });
+    from.mockReturnValueOnce(failed).mockReturnValueOnce(retried);
+
+    await expect(purgeWebsiteRecords(user, ['b'])).rejects.toMatchObject({ code: '08006' });
+    await pushWebsiteRecords(user, []);
+    expect(retried.in).toHaveBeenCalledWith('website_id', ['b']);
+
+    await pushWebsiteRecords(user, []);
+    expect(from).toHaveBeenCalledTimes(2);
+  });
+
+  it('云端尚未删除成功的墓碑不会被拉回回收站', async () => {
+    from.mockReturnValueOnce(query({ error: { code: '08006', message: 'connection failure' } }));
+    await expect(purgeWebsiteRecords(user, ['b'])).rejects.toBeDefined();
+
+    from.mockReturnValueOnce(
+      query({
+        data: [
+          { data: website('a', 100), deleted: false },
+          { data: website('b', 200), deleted: true },
+        ],
+        error: null,
+      })
+    );
+    expect(await fetchWebsiteRecords(user)).toEqual([website('a', 100, { deleted: false })]);
+  });
+});
@@ -0,0 +1,209 @@
+// 网站逐条同步 - 每个网站在 user_website_records 中单独一行，只上传自上次同步后变化的记录
+import { PostgrestError, User } from '@supabase/supabase-js';
+import { supabase, TABLES } from '@/lib/supabase';
+import { WebsiteData } from './supabaseSync';
+import { sanitizeWebsiteArray } from './dataValidator';
+import { logger } from './logger';
+import { markLocalWrite } from './syncEcho';
+
+// 同步游标：上次同步时已上传记录的指纹，以及本机已彻底删除、云端墓碑尚未删除成功的记录
+interface WebsiteSyncCursor {
+  pushed: Record<string, string>;
+  purged: string[];
+}
+
+export interface WebsiteRecordRow {
+  data: Record<string, unknown> | null;
+  deleted: boolean;
+}
+
+const CURSOR_KEY_PREFIX = 'websiteSyncCursor:';
+const PUSH_BATCH_SIZE = 200;
+const PULL_PAGE_SIZE = 1000;
+
+// 记录表或写入函数尚未部署（未执行迁移）时的错误
+const isMissingSchemaError = (error: PostgrestError): boolean =>
+  ['42P01', '42883', 'PGRST202', 'PGRST205'].includes(error.code) ||
+  /does not exist|could not find/i.test(error.message || '');
+
+// 记录指纹（djb2），用于判断记录自上次上传后是否变化
+const fingerprint = (website: WebsiteData): string => {
+  const text = JSON.stringify(website);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
+
+// Realtime 回声抑制使用的记录版本：同一记录的同一次修改版本相同
+export const getWebsiteRecordVersion = (id: string, updatedAt: unknown): string =>
+  `${id}:${Number(updatedAt) || 0}`;
+
+const loadCursor = (userId: string): WebsiteSyncCursor => {
+  try {
+    const saved = localStorage.getItem(`${CURSOR_KEY_PREFIX}${userId}`);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        pushed: parsed && typeof parsed.pushed === 'object' ? parsed.pushed : {},
+        purged: Array.isArray(parsed?.purged) ? parsed.purged.filter((id: unknown) => typeof id === 'string') : [],
+      };
+    }
+  } catch (error) {
+    logger.sync.warn('读取网站同步游标失败，将重新上传全部记录', error);
+  }
+  return { pushed: {}, purged: [] };
+};
+
+const saveCursor = (userId: string, cursor: WebsiteSyncCursor) => {
+  try {
+    localStorage.setItem(`${CURSOR_KEY_PREFIX}${userId}`, JSON.stringify(cursor));
+  } catch (error) {
+    logger.sync.warn('保存网站同步游标失败', error);
+  }
+};
+
+/**
+ * 上传自上次同步后新增、修改的记录；上次已上传但本地已不存在的记录作为删除墓碑上传
+ * 服务端按 updatedAt 最后写入者胜，较旧的记录不会覆盖云端
+ * 返回上传的记录数，记录表未部署时返回 null（由调用方回退到整表同步）
+ */
+export const pushWebsiteRecords = async (
+  user: User,
+  websites: WebsiteData[]
+): Promise<number | null> => {
+  await flushPurgedWebsiteRecords(user).catch((error) => {
+    logger.sync.warn('重试删除云端回收站记录失败，下次同步时继续重试', error);
+  });
+
+  const cursor = loadCursor(user.id);
+  const now = Date.now();
+  const localIds = new Set(websites.map((site) => site.id));
+
+  const changed = websites.filter((site) => cursor.pushed[site.id] !== fingerprint(site));
+  const tombstones = Object.keys(cursor.pushed)
+    .filter((id) => !localIds.has(id))
+    .map((id) => ({ id, deleted: true, updatedAt: now }));
+  const records = [...changed, ...tombstones];
+
+  if (records.length === 0) {
+    logger.sync.debug('网站记录无变化，跳过上传');
+    return 0;
+  }
+
+  for (let start = 0; start < records.length; start += PUSH_BATCH_SIZE) {
+    const batch = records.slice(start, start + PUSH_BATCH_SIZE);
+    batch.forEach((record) =>
+      markLocalWrite(TABLES.USER_WEBSITE_RECORDS, getWebsiteRecordVersion(record.id, record.updatedAt))
+    );
+    const { error } = await supabase.rpc('upsert_website_records', { records: batch });
+
+    if (error) {
+      if (isMissingSchemaError(error)) {
+        logger.sync.warn('网站记录表暂不可用，回退到整表同步', { error: error.message });
+        return null;
+      }
+      throw error;
+    }
+
+    // 每批成功后立即推进游标，失败重试时不重复上传已完成的批次
+    batch.forEach((record) => {
+      if ('name' in record) {
+        cursor.pushed[record.id] = fingerprint(record);
+      } else {
+        delete cursor.pushed[record.id];
+      }
+    });
+    saveCursor(user.id, cursor);
+  }
+
+  logger.sync.info('网站记录已增量上传', {
+    changed: changed.length,
+    deleted: tombstones.length,
+  });
+  return records.length;
+};
+
+/**
+ * 记录已从云端收到的记录，合并后与云端一致的记录（含回收站中的删除墓碑）下次不再重复上传
+ */
+export const acknowledgeWebsiteRecords = (userId: string, websites: WebsiteData[]) => {
+  const cursor = loadCursor(userId);
+  websites.forEach((site) => {
+    cursor.pushed[site.id] = fingerprint(site);
+  });
+  saveCursor(userId, cursor);
+};
+
+/**
+ * 删除游标中待删除的云端墓碑，只会删除已标记删除的记录
+ * 记录表未部署时视为完成，整表同步下次上传时自然不再包含这些记录
+ */
+const flushPurgedWebsiteRecords = async (user: User) => {
+  const { purged } = loadCursor(user.id);
+  if (purged.length === 0) return;
+
+  const { error } = await supabase
+    .from(TABLES.USER_WEBSITE_RECORDS)
+    .delete()
+    .eq('user_id', user.id)
+    .eq('deleted', true)
+    .in('website_id', purged);
+
+  if (error && !isMissingSchemaError(error)) throw error;
+
+  const cursor = loadCursor(user.id);
+  cursor.purged = cursor.purged.filter((id) => !purged.includes(id));
+  saveCursor(user.id, cursor);
+  logger.sync.info('已彻底删除云端回收站记录', { count: purged.length });
+};
+
+/**
+ * 彻底删除回收站中的卡片（清空回收站）
+ * 先在游标中记录，避免下次同步把它当作本地删除重新上传墓碑；云端删除失败时在下次同步时重试
+ */
+export const purgeWebsiteRecords = async (user: User, ids: string[]) => {
+  if (ids.length === 0) return;
+
+  const cursor = loadCursor(user.id);
+  ids.forEach((id) => delete cursor.pushed[id]);
+  cursor.purged = [...new Set([...cursor.purged, ...ids])];
+  saveCursor(user.id, cursor);
+
+  await flushPurgedWebsiteRecords(user);
+};
+
+export const parseWebsiteRecordRows = (rows: WebsiteRecordRow[]): WebsiteData[] =>
+  sanitizeWebsiteArray(rows.map((row) => ({ ...row.data, deleted: row.deleted })));
+
+/**
+ * 拉取云端全部网站记录（含删除墓碑），记录表未部署时返回 null
+ */
+export const fetchWebsiteRecords = async (user: User): Promise<WebsiteData[] | null> => {
+  const rows: WebsiteRecordRow[] = [];
+
+  for (let from = 0; ; from += PULL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(TABLES.USER_WEBSITE_RECORDS)
+      .select('data, deleted')
+      .eq('user_id', user.id)
+      .order('website_id', { ascending: true })
+      .range(from, from + PULL_PAGE_SIZE - 1);
+
+    if (error) {
+      if (isMissingSchemaError(error)) {
+        logger.sync.debug('网站记录表暂不可用');
+        return null;
+      }
+      throw error;
+    }
+
+    rows.push(...((data || []) as WebsiteRecordRow[]));
+    if (!data || data.length < PULL_PAGE_SIZE) break;
+  }
+
+  // 已在本机彻底删除、云端尚未删除成功的墓碑不再拉回回收站
+  const { purged } = loadCursor(user.id);
+  return parseWebsiteRecordRows(rows).filter((site) => !purged.includes(site.id));
+};
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { WebsiteData } from './supabaseSync';
+import { getExpiredTrash, getTrashedWebsites, restoreWebsite, trashWebsite } from './websiteTrash';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 9, 19, 10, 0).getTime();
+
+const website = (id: string, updatedAt: number, deleted?: boolean): WebsiteData => ({
+  id,
+  name: id,
+  url: `https://${id}.example.com`,
+  favicon: '',
+  tags: [],
+  visitCount: 0,
+  lastVisit: '2026-10-19',
+  updatedAt,
+  deleted,
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('卡片回收站', () => {
+  it('删除和恢复时更新 updatedAt，使其在同步合并时覆盖其他设备的旧记录', () => {
+    vi.useFakeTimers({ now });
+    const trashed = trashWebsite([website('a', 100), website('b', 100)], 'a');
+    expect(trashed).toEqual([website('a', now, true), website('b', 100)]);
+
+    vi.setSystemTime(now + 1000);
+    expect(restoreWebsite(trashed, 'a')).toEqual([website('a', now + 1000, false), website('b', 100)]);
+  });
+
+  it('不恢复未删除的卡片', () => {
+    const websites = [website('a', 100)];
+    expect(restoreWebsite(websites, 'a')).toEqual(websites);
+  });
+
+  it('回收站只包含删除墓碑，最近删除的在前', () => {
+    const websites = [website('a', 100, true), website('b', 300), website('c', 200, true)];
+    expect(getTrashedWebsites(websites).map((site) => site.id)).toEqual(['c', 'a']);
+  });
+
+  it('超过 30 天的删除墓碑需要彻底删除', () => {
+    const websites = [website('expired', now - 30 * DAY, true), website('recent', now - 29 * DAY, true)];
+    expect(getExpiredTrash([...websites, website('old', now - 90 * DAY)], now).map((site) => site.id)).toEqual([
+      'expired',
+    ]);
+  });
+});
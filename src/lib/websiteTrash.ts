@@ -0,0 +1,32 @@
+// 卡片回收站 - 删除的卡片以删除墓碑（deleted: true）保留在卡片列表中并随同步上传，云端墓碑保留完整内容
+// 删除时更新的 updatedAt 即删除时间，30 天内可以恢复，过期或手动清除后从列表和云端彻底删除
+import type { WebsiteData } from './supabaseSync';
+
+export const TRASH_RETENTION_DAYS = 30;
+const RETENTION = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * 回收站中的卡片，最近删除的在前
+ */
+export const getTrashedWebsites = (websites: WebsiteData[]): WebsiteData[] =>
+  websites.filter((website) => website.deleted).sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+
+/**
+ * 超过保留期限、需要彻底删除的卡片
+ */
+export const getExpiredTrash = (websites: WebsiteData[], now = Date.now()): WebsiteData[] =>
+  websites.filter((website) => website.deleted && (website.updatedAt || 0) <= now - RETENTION);
+
+/**
+ * 将卡片放入回收站，更新 updatedAt 使删除墓碑在同步合并时覆盖其他设备的旧记录
+ */
+export const trashWebsite = (websites: WebsiteData[], id: string): WebsiteData[] =>
+  websites.map((website) => (website.id === id ? { ...website, deleted: true, updatedAt: Date.now() } : website));
+
+/**
+ * 从回收站恢复，更新 updatedAt 使恢复的卡片比云端删除墓碑更新
+ */
+export const restoreWebsite = (websites: WebsiteData[], id: string): WebsiteData[] =>
+  websites.map((website) =>
+    website.id === id && website.deleted ? { ...website, deleted: false, updatedAt: Date.now() } : website
+  );
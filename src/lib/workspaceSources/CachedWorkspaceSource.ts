@@ -0,0 +1,85 @@
+import { sealWorkspaceItems } from '../credentialVault';
+import { indexedDBCache } from '../indexedDBCache';
+import {
+  WorkspaceCacheInfo,
+  WorkspaceItem,
+  WorkspaceSource,
+  WorkspaceSourceType,
+  matchesWorkspaceQuery,
+} from './types';
+
+// 非 Notion 数据源共用一份缓存，cacheId 不一致（切换了数据源或地址）时视为没有缓存
+const SOURCE_CACHE_KEY = 'workspace-source-items';
+
+interface SourceCache {
+  cacheId: string;
+  items: WorkspaceItem[];
+  lastSync: string;
+  version: string;
+}
+
+/**
+ * 只读数据源的基类：每次拉取完整列表，结果缓存到 IndexedDB 供离线和启动时显示
+ */
+export abstract class CachedWorkspaceSource implements WorkspaceSource {
+  abstract readonly type: WorkspaceSourceType;
+  abstract readonly label: string;
+  readonly writable: boolean = false;
+
+  // 读取并解析数据源中的全部项目
+  protected abstract fetchItems(): Promise<WorkspaceItem[]>;
+
+  // 标识当前数据源配置（如地址、文件名）
+  protected abstract get cacheId(): string;
+
+  async list(): Promise<WorkspaceItem[]> {
+    const items = await sealWorkspaceItems(await this.fetchItems());
+    console.log(`✅ ${this.label}读取完成，共 ${items.length} 个工作空间项目`);
+
+    try {
+      await indexedDBCache.setRecord<SourceCache>(SOURCE_CACHE_KEY, {
+        cacheId: this.cacheId,
+        items,
+        lastSync: new Date().toISOString(),
+        version: '1.0',
+      });
+    } catch (error) {
+      console.warn('缓存工作空间数据失败:', error instanceof Error ? error.message : String(error));
+    }
+    return items;
+  }
+
+  async search(query: string): Promise<WorkspaceItem[]> {
+    const items = await this.getCachedItems();
+    return items.filter((item) => matchesWorkspaceQuery(item, query));
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.fetchItems();
+      return true;
+    } catch (error) {
+      console.warn(`${this.label}连接测试失败:`, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  private async loadCache(): Promise<SourceCache | null> {
+    const cache = await indexedDBCache.getRecord<SourceCache>(SOURCE_CACHE_KEY);
+    return cache?.cacheId === this.cacheId ? cache : null;
+  }
+
+  async getCachedItems(): Promise<WorkspaceItem[]> {
+    const cache = await this.loadCache();
+    return cache?.items || [];
+  }
+
+  async getCacheInfo(): Promise<WorkspaceCacheInfo | null> {
+    const cache = await this.loadCache();
+    return cache ? { lastSync: cache.lastSync, version: cache.version } : null;
+  }
+
+  async clearCache(): Promise<void> {
+    await indexedDBCache.deleteRecord(SOURCE_CACHE_KEY);
+  }
+}
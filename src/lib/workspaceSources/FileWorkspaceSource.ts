@@ -0,0 +1,81 @@
+import { indexedDBCache } from '../indexedDBCache';
+import { CachedWorkspaceSource } from './CachedWorkspaceSource';
+import { parseCsvItems, parseJsonItems, toWorkspaceItems } from './parsers';
+import { WorkspaceFileFormat, WorkspaceItem } from './types';
+
+// 导入的文件内容保存在 IndexedDB，浏览器无法再次读取用户选择的本地文件
+const FILE_RECORD_KEY = 'workspace-source-file';
+
+interface StoredSourceFile {
+  fileName: string;
+  format: WorkspaceFileFormat;
+  content: string;
+}
+
+const parseFileItems = (content: string, format: WorkspaceFileFormat, fileName: string): WorkspaceItem[] => {
+  if (format === 'csv') {
+    return toWorkspaceItems(parseCsvItems(content), 'file');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${fileName} 不是有效的 JSON 文件`);
+  }
+  return toWorkspaceItems(parseJsonItems(data), 'file');
+};
+
+/**
+ * 本地文件数据源 - 读取导入的 JSON 或 CSV 文件
+ */
+export class FileWorkspaceSource extends CachedWorkspaceSource {
+  readonly type = 'file' as const;
+  readonly label = '本地文件';
+  private fileName: string;
+
+  constructor(fileName: string) {
+    super();
+    this.fileName = fileName;
+  }
+
+  protected get cacheId() {
+    return `file:${this.fileName}`;
+  }
+
+  protected async fetchItems(): Promise<WorkspaceItem[]> {
+    const file = await indexedDBCache.getRecord<StoredSourceFile>(FILE_RECORD_KEY);
+    if (!file || file.fileName !== this.fileName) {
+      throw new Error('没有找到导入的文件，请在设置中重新选择文件');
+    }
+    return parseFileItems(file.content, file.format, file.fileName);
+  }
+
+  /**
+   * 导入本地文件：按扩展名识别格式，解析成功且包含项目时才保存
+   */
+  static async importFile(file: File): Promise<{ fileName: string; format: WorkspaceFileFormat; count: number }> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension !== 'json' && extension !== 'csv') {
+      throw new Error('只支持 JSON 或 CSV 文件');
+    }
+
+    const content = await file.text();
+    const items = parseFileItems(content, extension, file.name);
+    if (items.length === 0) {
+      throw new Error('文件中没有包含有效网址的项目');
+    }
+
+    await indexedDBCache.setRecord<StoredSourceFile>(FILE_RECORD_KEY, {
+      fileName: file.name,
+      format: extension,
+      content,
+    });
+    return { fileName: file.name, format: extension, count: items.length };
+  }
+
+  // 删除导入的文件
+  static async removeFile(): Promise<void> {
+    await indexedDBCache.deleteRecord(FILE_RECORD_KEY);
+  }
+}
@@ -0,0 +1,70 @@
+import { createTimeoutSignal } from '../abortUtils';
+import { CachedWorkspaceSource } from './CachedWorkspaceSource';
+import { parseMarkdownItems, toWorkspaceItems } from './parsers';
+import { WorkspaceItem } from './types';
+
+const REQUEST_TIMEOUT = 15000;
+
+/**
+ * 将 GitHub 页面地址转换为原始文件地址（raw.githubusercontent.com 允许跨域访问）
+ * - github.com/owner/repo -> 仓库默认分支的 README.md
+ * - github.com/owner/repo/blob/branch/path -> 对应文件
+ */
+export const toRawMarkdownUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== 'github.com') return url;
+
+    const [owner, repo, mode, ...rest] = parsed.pathname.split('/').filter(Boolean);
+    if (!owner || !repo) return url;
+    if (!mode) {
+      return `https://raw.githubusercontent.com/${owner}/${repo}/HEAD/README.md`;
+    }
+    if (mode === 'blob' && rest.length > 0) {
+      return `https://raw.githubusercontent.com/${owner}/${repo}/${rest.join('/')}`;
+    }
+  } catch {
+    // 无效地址原样返回，请求时报错
+  }
+  return url;
+};
+
+/**
+ * Markdown 数据源 - 读取 GitHub 风格的 awesome list，标题作为分类
+ */
+export class MarkdownWorkspaceSource extends CachedWorkspaceSource {
+  readonly type = 'markdown' as const;
+  readonly label = 'Markdown 列表';
+  private url: string;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+  }
+
+  protected get cacheId() {
+    return `markdown:${this.url}`;
+  }
+
+  protected async fetchItems(): Promise<WorkspaceItem[]> {
+    let response: Response;
+    try {
+      response = await fetch(toRawMarkdownUrl(this.url), { signal: createTimeoutSignal(REQUEST_TIMEOUT) });
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+        throw new Error('读取 Markdown 文件超时');
+      }
+      throw new Error('无法读取 Markdown 文件，请检查地址以及是否允许跨域访问');
+    }
+
+    if (!response.ok) {
+      throw new Error(`读取 Markdown 文件失败: ${response.status} ${response.statusText}`);
+    }
+
+    const items = parseMarkdownItems(await response.text());
+    if (items.length === 0) {
+      throw new Error('Markdown 文件中没有找到链接列表（格式如 - [名称](网址) - 描述）');
+    }
+    return toWorkspaceItems(items, 'markdown');
+  }
+}
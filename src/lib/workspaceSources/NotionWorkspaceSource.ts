@@ -0,0 +1,55 @@
+import { workspaceManager } from '../notionClient';
+import {
+  WorkspaceCacheInfo,
+  WorkspaceItem,
+  WorkspaceItemDraft,
+  WritableWorkspaceSource,
+  matchesWorkspaceQuery,
+} from './types';
+
+/**
+ * Notion 数据源 - 由 WorkspaceManager 负责连接、增量同步、缓存和写回
+ * OAuth 模式下调用前需要先通过 workspaceManager.configureWithOAuth 配置客户端
+ */
+export class NotionWorkspaceSource implements WritableWorkspaceSource {
+  readonly type = 'notion' as const;
+  readonly label = 'Notion';
+  readonly writable = true;
+
+  list(options: { full?: boolean } = {}): Promise<WorkspaceItem[]> {
+    return workspaceManager.syncWorkspaceData(options);
+  }
+
+  async search(query: string): Promise<WorkspaceItem[]> {
+    const items = await workspaceManager.getCachedWorkspaceItems();
+    return items.filter((item) => matchesWorkspaceQuery(item, query));
+  }
+
+  testConnection(): Promise<boolean> {
+    return workspaceManager.testConnection();
+  }
+
+  getCachedItems(): Promise<WorkspaceItem[]> {
+    return workspaceManager.getCachedWorkspaceItems();
+  }
+
+  getCacheInfo(): Promise<WorkspaceCacheInfo | null> {
+    return workspaceManager.getCacheInfo();
+  }
+
+  clearCache(): Promise<void> {
+    return workspaceManager.clearCache();
+  }
+
+  createItem(draft: WorkspaceItemDraft): Promise<WorkspaceItem> {
+    return workspaceManager.createItem(draft);
+  }
+
+  updateItem(item: WorkspaceItem, changes: Partial<WorkspaceItemDraft>): Promise<WorkspaceItem> {
+    return workspaceManager.updateItem(item, changes);
+  }
+
+  archiveItem(item: WorkspaceItem): Promise<void> {
+    return workspaceManager.archiveItem(item);
+  }
+}
@@ -0,0 +1,77 @@
+import { createTimeoutSignal } from '../abortUtils';
+import { sealWorkspaceItems } from '../credentialVault';
+import { CachedWorkspaceSource } from './CachedWorkspaceSource';
+import { parseJsonItems, toWorkspaceItems } from './parsers';
+import { WorkspaceItem, WorkspaceSourceConfig } from './types';
+
+type RestSourceConfig = Extract<WorkspaceSourceConfig, { type: 'rest' }>;
+
+const REQUEST_TIMEOUT = 15000;
+
+/**
+ * REST 数据源 - 从返回 JSON 的接口读取项目
+ * 配置了 searchParam 时搜索交给接口处理，否则在缓存的项目中匹配
+ */
+export class RestWorkspaceSource extends CachedWorkspaceSource {
+  readonly type = 'rest' as const;
+  readonly label = 'REST 接口';
+  private config: RestSourceConfig;
+
+  constructor(config: RestSourceConfig) {
+    super();
+    this.config = config;
+  }
+
+  get searchesRemotely() {
+    return !!this.config.searchParam;
+  }
+
+  protected get cacheId() {
+    return `rest:${this.config.url}|${this.config.itemsPath || ''}`;
+  }
+
+  private async request(url: string): Promise<WorkspaceItem[]> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'application/json', ...this.config.headers },
+        signal: createTimeoutSignal(REQUEST_TIMEOUT),
+      });
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+        throw new Error('接口请求超时');
+      }
+      throw new Error('无法连接到接口，请检查地址以及接口是否允许跨域访问');
+    }
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`接口拒绝访问（${response.status}），请检查请求头中的认证信息`);
+      }
+      throw new Error(`接口请求失败: ${response.status} ${response.statusText}`);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error('接口返回的不是有效的 JSON');
+    }
+    return toWorkspaceItems(parseJsonItems(data, this.config.itemsPath), 'rest');
+  }
+
+  protected fetchItems(): Promise<WorkspaceItem[]> {
+    return this.request(this.config.url);
+  }
+
+  async search(query: string): Promise<WorkspaceItem[]> {
+    const { searchParam } = this.config;
+    if (!searchParam || !query.trim()) {
+      return super.search(query);
+    }
+
+    const url = new URL(this.config.url);
+    url.searchParams.set(searchParam, query.trim());
+    return sealWorkspaceItems(await this.request(url.toString()));
+  }
+}
@@ -0,0 +1,76 @@
+// 工作空间数据源注册表 - 根据保存的配置创建当前使用的数据源
+import { workspaceManager } from '../notionClient';
+import { FileWorkspaceSource } from './FileWorkspaceSource';
+import { MarkdownWorkspaceSource } from './MarkdownWorkspaceSource';
+import { NotionWorkspaceSource } from './NotionWorkspaceSource';
+import { RestWorkspaceSource } from './RestWorkspaceSource';
+import { WorkspaceSource, WorkspaceSourceConfig, WorkspaceSourceType } from './types';
+
+export * from './types';
+export { FileWorkspaceSource } from './FileWorkspaceSource';
+export { toRawMarkdownUrl } from './MarkdownWorkspaceSource';
+
+const SOURCE_CONFIG_KEY = 'workspace-source';
+
+// 设置页中可选的数据源
+export const WORKSPACE_SOURCE_OPTIONS: { type: WorkspaceSourceType; label: string; icon: string; description: string }[] = [
+  { type: 'notion', label: 'Notion', icon: 'fa-brands fa-notion', description: '连接 Notion 数据库，支持编辑' },
+  { type: 'file', label: '本地文件', icon: 'fa-solid fa-file-import', description: '导入 JSON 或 CSV 文件' },
+  { type: 'rest', label: 'REST 接口', icon: 'fa-solid fa-server', description: '读取返回 JSON 的接口' },
+  { type: 'markdown', label: 'Markdown 列表', icon: 'fa-brands fa-markdown', description: '读取 awesome list 等链接列表' },
+];
+
+/**
+ * 读取当前数据源配置，未配置过时为 Notion（兼容旧版本）
+ */
+export const loadWorkspaceSourceConfig = (): WorkspaceSourceConfig => {
+  try {
+    const saved = localStorage.getItem(SOURCE_CONFIG_KEY);
+    const config = saved ? JSON.parse(saved) : null;
+    if (config && WORKSPACE_SOURCE_OPTIONS.some((option) => option.type === config.type)) {
+      return config;
+    }
+  } catch (error) {
+    console.warn('读取工作空间数据源配置失败:', error instanceof Error ? error.message : String(error));
+  }
+  return { type: 'notion' };
+};
+
+export const saveWorkspaceSourceConfig = (config: WorkspaceSourceConfig) => {
+  if (config.type === 'notion') {
+    localStorage.removeItem(SOURCE_CONFIG_KEY);
+  } else {
+    localStorage.setItem(SOURCE_CONFIG_KEY, JSON.stringify(config));
+  }
+};
+
+/**
+ * 数据源配置是否完整（Notion 需要 API Key 或 OAuth 模式，并选择了数据库）
+ */
+export const isWorkspaceSourceConfigured = (config: WorkspaceSourceConfig): boolean => {
+  switch (config.type) {
+    case 'notion': {
+      const notionConfig = workspaceManager.getConfig();
+      return !!notionConfig?.databaseId && (!!notionConfig.apiKey || notionConfig.mode === 'oauth');
+    }
+    case 'file':
+      return !!config.fileName;
+    case 'rest':
+    case 'markdown':
+      return !!config.url;
+  }
+};
+
+export const createWorkspaceSource = (config: WorkspaceSourceConfig): WorkspaceSource => {
+  switch (config.type) {
+    case 'file':
+      return new FileWorkspaceSource(config.fileName);
+    case 'rest':
+      return new RestWorkspaceSource(config);
+    case 'markdown':
+      return new MarkdownWorkspaceSource(config.url);
+    case 'notion':
+    default:
+      return new NotionWorkspaceSource();
+  }
+};
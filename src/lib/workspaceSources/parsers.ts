@@ -0,0 +1,276 @@
+// 数据源内容解析 - 将 JSON、CSV 和 Markdown 链接列表转换为工作空间项目
+import { WorkspaceItem, WorkspaceSourceType } from './types';
+
+// 解析出的原始项目，尚未分配 ID
+type ParsedItem = Pick<
+  WorkspaceItem,
+  'title' | 'url' | 'description' | 'category' | 'tags' | 'username' | 'password' | 'totpSecret'
+>;
+
+type ParsedField = keyof ParsedItem;
+
+// 各字段可使用的列名/键名（不区分大小写）
+const FIELD_ALIASES: Record<ParsedField, string[]> = {
+  title: ['title', 'name', '名称', '标题'],
+  url: ['url', 'link', 'href', '网址', '链接'],
+  description: ['description', 'desc', 'notes', '描述', '说明'],
+  category: ['category', 'group', 'type', '分类', '类别'],
+  tags: ['tags', 'labels', '标签'],
+  username: ['username', 'account', 'user', '账号', '用户名'],
+  password: ['password', 'pass', 'pwd', '密码'],
+  totpSecret: ['totp', 'otp', '2fa', 'totpsecret', '两步验证', '验证器'],
+};
+
+// JSON 中常见的项目数组键名
+const JSON_LIST_KEYS = ['items', 'data', 'links', 'results', 'bookmarks'];
+
+const DEFAULT_CATEGORY = 'Default';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// 稳定的项目 ID（djb2），同一链接每次解析得到相同的 ID，便于键盘导航和缓存对比
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  return String(value).trim();
+};
+
+// 标签可以是数组，也可以是逗号、分号或竖线分隔的字符串
+const toTags = (value: unknown): string[] => {
+  const tags = Array.isArray(value) ? value.map(toText) : toText(value).split(/[,;|，；]/);
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)));
+};
+
+/**
+ * 按字段别名从对象中读取项目，没有有效网址时返回 null
+ */
+const normalizeRecord = (record: Record<string, unknown>, fallbackCategory?: string): ParsedItem | null => {
+  const keys = Object.keys(record);
+  const getValue = (field: ParsedField): unknown => {
+    const key = keys.find((candidate) => FIELD_ALIASES[field].includes(candidate.trim().toLowerCase()));
+    return key === undefined ? undefined : record[key];
+  };
+
+  const url = toText(getValue('url'));
+  if (!isHttpUrl(url)) return null;
+
+  const tags = toTags(getValue('tags'));
+  return {
+    title: toText(getValue('title')) || new URL(url).hostname,
+    url,
+    description: toText(getValue('description')) || undefined,
+    category: toText(getValue('category')) || fallbackCategory || DEFAULT_CATEGORY,
+    tags: tags.length > 0 ? tags : undefined,
+    username: toText(getValue('username')) || undefined,
+    password: toText(getValue('password')) || undefined,
+    totpSecret: toText(getValue('totpSecret')) || undefined,
+  };
+};
+
+/**
+ * 为解析出的项目分配 ID，ID 前缀为数据源类型，重复的链接追加序号
+ */
+export const toWorkspaceItems = (items: ParsedItem[], sourceType: WorkspaceSourceType): WorkspaceItem[] => {
+  const lastSync = new Date().toISOString();
+  const usedIds = new Map<string, number>();
+
+  return items.map((item) => {
+    const baseId = `${sourceType}-${hashText(`${item.url}|${item.title}`)}`;
+    const count = usedIds.get(baseId) || 0;
+    usedIds.set(baseId, count + 1);
+
+    return {
+      ...item,
+      id: count > 0 ? `${baseId}-${count}` : baseId,
+      isActive: true,
+      lastSync,
+      notionId: '',
+    };
+  });
+};
+
+// 按点分隔的路径读取嵌套值，如 data.items
+const getByPath = (data: unknown, path?: string): unknown =>
+  (path || '')
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, key) =>
+        isRecord(value) || Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined,
+      data
+    );
+
+/**
+ * 解析 JSON 数据，支持以下结构：
+ * - 项目数组
+ * - 包含 items、data、links 等数组的对象
+ * - 分类名到项目数组的对象，如 { "工具": [...], "文档": [...] }
+ */
+export const parseJsonItems = (data: unknown, itemsPath?: string): ParsedItem[] => {
+  const root = getByPath(data, itemsPath);
+  if (itemsPath && root === undefined) {
+    throw new Error(`响应中没有找到 ${itemsPath}`);
+  }
+
+  const toItems = (records: unknown[], category?: string) =>
+    records
+      .filter(isRecord)
+      .map((record) => normalizeRecord(record, category))
+      .filter((item): item is ParsedItem => !!item);
+
+  if (Array.isArray(root)) {
+    return toItems(root);
+  }
+
+  if (isRecord(root)) {
+    const listKey = JSON_LIST_KEYS.find((key) => Array.isArray(root[key]));
+    if (listKey) {
+      return toItems(root[listKey] as unknown[]);
+    }
+
+    const groups = Object.entries(root).filter(([, value]) => Array.isArray(value));
+    if (groups.length > 0) {
+      return groups.flatMap(([category, records]) => toItems(records as unknown[], category));
+    }
+  }
+
+  throw new Error('没有找到项目列表，请确认数据是项目数组或包含 items 数组的对象');
+};
+
+/**
+ * 解析 CSV 文本为行（支持引号包裹、引号转义和字段内换行）
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const content = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+/**
+ * 解析 CSV 文件，第一行为列名
+ */
+export const parseCsvItems = (text: string): ParsedItem[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    throw new Error('CSV 文件为空');
+  }
+  if (!header.some((name) => FIELD_ALIASES.url.includes(name.trim().toLowerCase()))) {
+    throw new Error('CSV 文件缺少网址列（url、link 或 网址）');
+  }
+
+  return rows
+    .map((cells) => normalizeRecord(Object.fromEntries(header.map((name, index) => [name, cells[index] ?? '']))))
+    .filter((item): item is ParsedItem => !!item);
+};
+
+// 去掉 Markdown 行内格式，保留文字
+const stripMarkdown = (text: string): string =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~]/g, '')
+    .trim();
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// - [名称](网址) - 描述，分隔符可以是 -、–、—、: 或中文冒号
+const MARKDOWN_LINK_ITEM = /^\s*[-*+]\s+\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*(?:[-–—:：]\s*)?(.*)$/;
+
+/**
+ * 解析 GitHub 风格的 awesome list：标题作为分类，列表中的链接作为项目
+ * 一级标题通常是列表名称，只在没有更低级标题时作为分类；目录中的锚点链接会被忽略
+ */
+export const parseMarkdownItems = (text: string): ParsedItem[] => {
+  const items: ParsedItem[] = [];
+  let listTitle = '';
+  let category = '';
+  let inCodeBlock = false;
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) return;
+
+    const heading = line.match(MARKDOWN_HEADING);
+    if (heading) {
+      const headingText = stripMarkdown(heading[2]);
+      if (heading[1].length === 1) {
+        listTitle = headingText;
+      } else {
+        category = headingText;
+      }
+      return;
+    }
+
+    const link = line.match(MARKDOWN_LINK_ITEM);
+    if (!link || !isHttpUrl(link[2])) return;
+
+    items.push({
+      title: stripMarkdown(link[1]) || new URL(link[2]).hostname,
+      url: link[2],
+      description: stripMarkdown(link[3]).replace(/\.$/, '') || undefined,
+      category: category || listTitle || DEFAULT_CATEGORY,
+    });
+  });
+
+  return items;
+};
@@ -0,0 +1,99 @@
+// 工作空间数据源 - Notion 之外也可以从本地文件、REST 接口或 Markdown 链接列表读取工作空间项目
+
+export interface WorkspaceItem {
+  id: string;
+  title: string;
+  url: string;
+  description?: string;
+  icon?: string;
+  category: string;
+  tags?: string[];
+  isActive: boolean;
+  lastSync: string;
+  notionId: string; // 非 Notion 数据源为空字符串
+  databaseId?: string; // 所属的 Notion 数据库（合并多个数据库时区分来源）
+  username?: string;
+  password?: string;
+  totpSecret?: string; // 两步验证密钥（Base32 或 otpauth:// 链接）
+  sealedCredentials?: SealedCredentials; // 启用凭据保险库后，上面三个字段加密保存在这里
+}
+
+// 登录信息字段
+export type CredentialField = 'username' | 'password' | 'totpSecret';
+
+// 加密后的登录信息，fields 记录包含哪些字段，用于在未解锁时显示提示
+export interface SealedCredentials {
+  fields: CredentialField[];
+  ephemeralKey: string; // 加密时生成的临时 ECDH 公钥（Base64）
+  iv: string;
+  data: string;
+}
+
+// 可写回数据源的工作空间项目字段
+export type WorkspaceItemDraft = Pick<
+  WorkspaceItem,
+  'title' | 'url' | 'description' | 'category' | 'username' | 'password' | 'totpSecret'
+>;
+
+export type WorkspaceSourceType = 'notion' | 'file' | 'rest' | 'markdown';
+
+export type WorkspaceFileFormat = 'json' | 'csv';
+
+// 数据源配置，保存在本地；Notion 的连接配置仍由 WorkspaceManager 单独保存
+export type WorkspaceSourceConfig =
+  | { type: 'notion' }
+  | { type: 'file'; fileName: string; format: WorkspaceFileFormat }
+  | {
+      type: 'rest';
+      url: string;
+      headers?: Record<string, string>;
+      itemsPath?: string; // 响应中项目数组的路径，如 data.items
+      searchParam?: string; // 设置后搜索时由接口过滤，如 q
+    }
+  | { type: 'markdown'; url: string };
+
+export interface WorkspaceCacheInfo {
+  lastSync: string;
+  version: string;
+}
+
+export interface WorkspaceSource {
+  readonly type: WorkspaceSourceType;
+  readonly label: string;
+  readonly writable: boolean;
+  readonly searchesRemotely?: boolean; // 搜索是否由数据源处理（否则在已加载的项目中匹配）
+
+  // 拉取最新的项目（full 只对支持增量同步的数据源有意义）
+  list(options?: { full?: boolean }): Promise<WorkspaceItem[]>;
+  // 搜索项目
+  search(query: string): Promise<WorkspaceItem[]>;
+  testConnection(): Promise<boolean>;
+
+  // 上次拉取的项目，离线或打开工作空间时先显示
+  getCachedItems(): Promise<WorkspaceItem[]>;
+  getCacheInfo(): Promise<WorkspaceCacheInfo | null>;
+  clearCache(): Promise<void>;
+
+  // 写回（可选）
+  createItem?(draft: WorkspaceItemDraft): Promise<WorkspaceItem>;
+  updateItem?(item: WorkspaceItem, changes: Partial<WorkspaceItemDraft>): Promise<WorkspaceItem>;
+  archiveItem?(item: WorkspaceItem): Promise<void>;
+}
+
+export type WritableWorkspaceSource = WorkspaceSource &
+  Required<Pick<WorkspaceSource, 'createItem' | 'updateItem' | 'archiveItem'>>;
+
+export const isWritableSource = (source: WorkspaceSource): source is WritableWorkspaceSource =>
+  source.writable && !!source.createItem && !!source.updateItem && !!source.archiveItem;
+
+// 项目是否匹配搜索关键词（名称、描述、网址、标签）
+export const matchesWorkspaceQuery = (item: WorkspaceItem, query: string): boolean => {
+  const keyword = query.toLowerCase().trim();
+  if (!keyword) return true;
+  return (
+    item.title.toLowerCase().includes(keyword) ||
+    !!item.description?.toLowerCase().includes(keyword) ||
+    item.url.toLowerCase().includes(keyword) ||
+    !!item.tags?.some((tag) => tag.toLowerCase().includes(keyword))
+  );
+};
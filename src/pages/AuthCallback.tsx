@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
+import { corsProxyService } from '@/lib/proxy';
 
 // 保存 Notion OAuth token 到数据库（如果存在）
 async function saveNotionTokenIfExists(session: any) {
@@ -25,23 +26,20 @@ async function saveNotionTokenIfExists(session: any) {
         let workspaceId = '';
         let workspaceName = '';
         try {
-            const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-            if (supabaseUrl) {
-                const proxyUrl = `${supabaseUrl.replace(/\/$/, '')}/functions/v1/notion-proxy/users/me`;
-                const response = await fetch(proxyUrl, {
-                    method: 'GET',
-                    headers: {
-                        'Authorization': `Bearer ${session.provider_token}`,
-                        'Content-Type': 'application/json',
-                        'Notion-Version': '2022-06-28',
-                    },
-                });
-                if (response.ok) {
-                    const data = await response.json();
-                    // Notion API 返回的 bot 用户信息包含 workspace
-                    if (data.bot?.workspace_name) {
-                        workspaceName = data.bot.workspace_name;
-                    }
+            const response = await corsProxyService.request('https://api.notion.com/v1/users/me', {
+                method: 'GET',
+                headers: {
+                    'Authorization': `Bearer ${session.provider_token}`,
+                    'Content-Type': 'application/json',
+                    'Notion-Version': '2022-06-28',
+                },
+                binary: false,
+            });
+            if (response.ok) {
+                const data = await response.json();
+                // Notion API 返回的 bot 用户信息包含 workspace
+                if (data.bot?.workspace_name) {
+                    workspaceName = data.bot.workspace_name;
                 }
             }
         } catch (error) {
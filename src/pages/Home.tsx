@@ -1,5 +1,10 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { WebsiteCard } from '@/components/WebsiteCard';
+import { WebsiteGroupFolder, WebsiteGroupHeader } from '@/components/WebsiteGroupFolder';
+import WebsiteGroupPopover from '@/components/WebsiteGroupPopover';
+import PageTabs from '@/components/PageTabs';
+import { WebsiteData, WebsiteGroup, WebsitePage } from '@/lib/supabaseSync';
+import { useStorage } from '@/lib/storageManager';
 import { SearchBar } from '@/components/SearchBar';
 import { TimeDisplay } from '@/components/TimeDisplay';
 import { PoemDisplay } from '@/components/PoemDisplay';
@@ -23,8 +28,22 @@ import LeafEffect from '@/components/effects/LeafEffect';
 import AnnouncementCenter from '@/components/AnnouncementCenter';
 import OfflineBanner from '@/components/OfflineBanner';
 import { isWinterSeason, isAutumnSeason } from '@/utils/solarTerms';
-import { shouldApplyOverlay, clearAllColorCache } from '@/utils/imageColorAnalyzer';
+import {
+  shouldApplyOverlay,
+  clearAllColorCache,
+  clearCustomWallpaperColorCache,
+} from '@/utils/imageColorAnalyzer';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useSwipeNavigation } from '@/hooks/useSwipeNavigation';
+import { useLinkHealthCheck, useLinkHealthRecords } from '@/hooks/useLinkHealth';
+import { useWebsiteTrash } from '@/hooks/useWebsiteTrash';
+import { getLinkHealth } from '@/lib/linkHealth';
+import { trashWebsite } from '@/lib/websiteTrash';
+import { useRegisterCommands } from '@/hooks/useCommands';
+import { PaletteCommand } from '@/lib/commandRegistry';
+
+// 添加卡片命令的参数需形如网址
+const URL_LIKE_PATTERN = /^(https?:\/\/)?[^\s./]+(\.[^\s./]+)+(\/\S*)?$/i;
 
 // 暴露给控制台调试用
 if (typeof window !== 'undefined') {
@@ -34,15 +53,35 @@ if (typeof window !== 'undefined') {
 interface HomeProps {
   websites: any[];
   setWebsites: (websites: any[]) => void;
+  groups: WebsiteGroup[];
+  setGroups: React.Dispatch<React.SetStateAction<WebsiteGroup[]>>;
+  pages: WebsitePage[];
+  setPages: React.Dispatch<React.SetStateAction<WebsitePage[]>>;
   dataInitialized?: boolean;
 }
 
-export default function Home({ websites, setWebsites, dataInitialized = true }: HomeProps) {
+export default function Home({
+  websites,
+  setWebsites,
+  groups,
+  setGroups,
+  pages,
+  setPages,
+  dataInitialized = true,
+}: HomeProps) {
   const {
     parallaxEnabled,
     wallpaperResolution,
+    wallpaperProvider,
+    bingArchiveIndex,
+    wallpaperUrlList,
+    wallpaperRotationMinutes,
+    generatedBackground,
+    wallpaperPlaylists,
+    activeWallpaperPlaylistId,
     isSettingsOpen,
     autoSortEnabled,
+    linkCheckEnabled,
     isSearchFocused,
     atmosphereMode,
     atmosphereParticleCount,
@@ -50,13 +89,26 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
     darkOverlayMode,
     isSlowMotion,
     setIsSlowMotion,
+    darkMode,
+    setDarkModePreference,
+    setWallpaperResolution,
+    setActiveWallpaperPlaylistId,
   } = useTransparency();
   const { isWorkspaceOpen, setIsWorkspaceOpen } = useWorkspace();
   const { isMobile, getGridClasses, getSearchBarLayout } = useResponsiveLayout();
   const isOnline = useOnlineStatus(); // 检测网络状态
+  const storage = useStorage();
+
+  // 启用自动同步（传递数据初始化状态，分组与页面随卡片一起同步）
+  const layout = useMemo(() => ({ groups, pages }), [groups, pages]);
+  const { triggerSync, syncNow } = useAutoSync(websites, dataInitialized, layout);
 
-  // 启用自动同步（传递数据初始化状态）
-  const { triggerSync } = useAutoSync(websites, dataInitialized);
+  // 后台定期检查卡片链接，结果用于卡片上的失效提示
+  useLinkHealthCheck(websites, linkCheckEnabled && dataInitialized);
+  const linkHealth = useLinkHealthRecords();
+
+  // 回收站中超过保留期限的卡片自动彻底删除
+  useWebsiteTrash(websites, setWebsites, dataInitialized);
 
   // 拖拽排序逻辑
   const moveCard = useCallback((dragIndex: number, hoverIndex: number) => {
@@ -68,15 +120,24 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
 
   const [bgImage, setBgImage] = useState('');
   const [bgOriginalUrl, setBgOriginalUrl] = useState<string | undefined>(); // 原始URL用于收藏检测
+  const [bgColorCacheId, setBgColorCacheId] = useState<string | undefined>(); // 其他壁纸来源的颜色分析缓存标识
   const [wallpaperLoaded, setWallpaperLoaded] = useState(false); // 壁纸加载状态
+  const [prevBgImage, setPrevBgImage] = useState(''); // 切换壁纸时作为底层的上一张壁纸（交叉淡化）
+  const bgImageRef = useRef('');
   const [showSettings, setShowSettings] = useState(false);
   const [showAddCardModal, setShowAddCardModal] = useState(false);
+  const [addCardUrl, setAddCardUrl] = useState(''); // 新增卡片时预填的网址
+  const [wallpaperReloadKey, setWallpaperReloadKey] = useState(0); // 切换自定义壁纸时触发重新加载
   const [isAnnouncementOpen, setIsAnnouncementOpen] = useState(false); // 公告弹窗状态
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   const [isFavoriting, setIsFavoriting] = useState(false);
   const [isFavorited, setIsFavorited] = useState(false);
   const [isAlreadyFavorited, setIsAlreadyFavorited] = useState(false);
   const [smartOverlayNeeded, setSmartOverlayNeeded] = useState(false); // 智能模式下是否需要遮罩
+  const [openGroupId, setOpenGroupId] = useState<string | null>(null); // 当前打开的分组弹窗
+  const [activePageId, setActivePageId] = useState<string | undefined>(
+    () => storage.getItem<string>('activePageId') || undefined
+  ); // 当前显示的页面
 
   // 阻止空白区域右键菜单
   useEffect(() => {
@@ -243,6 +304,13 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
     }
   };
 
+  // 播放列表跟随夜间模式时，夜间模式切换需要重新选择壁纸（其他情况为 null，不触发重新加载）
+  const playlistDarkMode =
+    wallpaperResolution === 'custom' &&
+    wallpaperPlaylists.some((playlist) => playlist.id === activeWallpaperPlaylistId && playlist.followDarkMode)
+      ? darkMode
+      : null;
+
   // 壁纸加载 - 统一处理挂载和分辨率变化
   // 注意：所有日期检测逻辑都在 optimizedWallpaperService 中统一处理
   useEffect(() => {
@@ -259,38 +327,32 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
             needsUpdate: result.needsUpdate,
           });
 
-          // 重置加载状态，实现淡入效果
-          setWallpaperLoaded(false);
-
-          // 预加载图片
+          // 预加载图片，加载完成前保持当前壁纸
           const img = new Image();
-          img.onload = async () => {
+          img.onload = () => {
+            // 上一张壁纸留在底层，新壁纸在上层淡入，实现交叉淡化
+            if (result.url !== bgImageRef.current) {
+              setPrevBgImage(bgImageRef.current);
+              setWallpaperLoaded(false);
+            }
+            bgImageRef.current = result.url;
             setBgImage(result.url);
             setBgOriginalUrl(result.originalUrl);
+            setBgColorCacheId(result.colorCacheId);
+            // 智能遮罩的颜色检测由下方的遮罩 effect 在壁纸变化后进行
 
-            // 智能遮罩模式：分析壁纸颜色（在图片加载完成后进行）
-            if (darkOverlayMode === 'smart') {
-              try {
-                // 自定义壁纸传递 ID，Bing 壁纸不传（使用日期作为缓存键）
-                const wallpaperId = wallpaperResolution === 'custom' ? 'current-custom' : undefined;
-                const needsOverlay = await shouldApplyOverlay(result.url, wallpaperId);
-                setSmartOverlayNeeded(needsOverlay);
-                logger.debug('🎨 智能遮罩检测结果:', needsOverlay ? '需要遮罩' : '不需要遮罩');
-              } catch (error) {
-                logger.warn('壁纸颜色分析失败:', error);
-                setSmartOverlayNeeded(false);
-              }
-            }
-
-            // 延迟一帧设置加载完成，确保transition生效
+            // 新的壁纸层以透明状态渲染后再设置加载完成，确保transition生效
             requestAnimationFrame(() => {
-              setWallpaperLoaded(true);
+              requestAnimationFrame(() => setWallpaperLoaded(true));
             });
           };
           img.onerror = () => {
             // 图片加载失败时也设置URL，让浏览器显示默认状态
+            bgImageRef.current = result.url;
+            setPrevBgImage('');
             setBgImage(result.url);
             setBgOriginalUrl(result.originalUrl);
+            setBgColorCacheId(result.colorCacheId);
             setWallpaperLoaded(true);
           };
           img.src = result.url;
@@ -301,12 +363,14 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
           }
         } else {
           logger.warn('❌ 无法获取壁纸');
+          bgImageRef.current = '';
           setBgImage('');
           setBgOriginalUrl(undefined);
           setWallpaperLoaded(true); // 确保不会一直透明
         }
       } catch (error) {
         logger.warn('获取壁纸失败:', error);
+        bgImageRef.current = '';
         setBgImage('');
         setBgOriginalUrl(undefined);
         setWallpaperLoaded(true); // 确保不会一直透明
@@ -314,18 +378,46 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
     };
 
     loadWallpaper();
-  }, [wallpaperResolution]); // 分辨率变化时重新加载
+  }, [
+    wallpaperResolution,
+    wallpaperReloadKey,
+    wallpaperProvider,
+    bingArchiveIndex,
+    wallpaperUrlList,
+    wallpaperRotationMinutes,
+    generatedBackground,
+    wallpaperPlaylists,
+    activeWallpaperPlaylistId,
+    playlistDarkMode,
+  ]); // 分辨率、壁纸来源或播放列表变化、切换自定义壁纸时重新加载
+
+  // 定时轮换的壁纸来源和播放列表到点后重新加载
+  useEffect(() => {
+    const delay = optimizedWallpaperService.getNextRotationDelay(wallpaperResolution);
+    if (delay === null) return;
 
-  // 智能遮罩模式切换时重新检测颜色
+    const timer = setTimeout(() => setWallpaperReloadKey((key) => key + 1), delay + 1000);
+    return () => clearTimeout(timer);
+  }, [
+    wallpaperResolution,
+    wallpaperProvider,
+    wallpaperRotationMinutes,
+    wallpaperPlaylists,
+    activeWallpaperPlaylistId,
+    wallpaperReloadKey,
+  ]);
+
+  // 壁纸加载完成或智能遮罩模式切换时检测颜色
   useEffect(() => {
     // 只有在智能模式且已有壁纸时才检测
     if (darkOverlayMode === 'smart' && bgImage) {
       const checkColor = async () => {
         try {
-          const wallpaperId = wallpaperResolution === 'custom' ? 'current-custom' : undefined;
+          // 自定义壁纸、播放列表和其他壁纸来源传递 ID，Bing 壁纸不传（使用日期作为缓存键）
+          const wallpaperId = bgColorCacheId ?? (wallpaperResolution === 'custom' ? 'current-custom' : undefined);
           const needsOverlay = await shouldApplyOverlay(bgImage, wallpaperId);
           setSmartOverlayNeeded(needsOverlay);
-          logger.debug('🎨 模式切换触发颜色检测:', needsOverlay ? '需要遮罩' : '不需要遮罩');
+          logger.debug('🎨 智能遮罩检测结果:', needsOverlay ? '需要遮罩' : '不需要遮罩');
         } catch (error) {
           logger.warn('壁纸颜色分析失败:', error);
           setSmartOverlayNeeded(false);
@@ -336,12 +428,18 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
       // 非智能模式时重置状态
       setSmartOverlayNeeded(false);
     }
-  }, [darkOverlayMode, bgImage, wallpaperResolution]);
+  }, [darkOverlayMode, bgImage, wallpaperResolution, bgColorCacheId]);
+
+  // 已删除（回收站中）和已归档的卡片不在主页显示
+  const activeWebsites = useMemo(
+    () => websites.filter((website) => !website.deleted && !website.archived),
+    [websites]
+  );
 
   // 根据设置决定是否自动排序卡片
   const displayWebsites = useMemo(() => {
     return autoSortEnabled
-      ? [...websites].sort((a, b) => {
+      ? [...activeWebsites].sort((a, b) => {
         // 首先按访问次数降序排序
         const visitDiff = (b.visitCount || 0) - (a.visitCount || 0);
         if (visitDiff !== 0) return visitDiff;
@@ -351,8 +449,231 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
         const dateB = new Date(b.lastVisit || '2000-01-01').getTime();
         return dateB - dateA;
       })
-      : websites;
-  }, [websites, autoSortEnabled]);
+      : activeWebsites;
+  }, [activeWebsites, autoSortEnabled]);
+
+  // 可见页面（排除已删除），按排序位置排列
+  const visiblePages = useMemo(
+    () => pages.filter((page) => !page.deleted).sort((a, b) => a.order - b.order),
+    [pages]
+  );
+
+  // 页面归属解析：未指定或页面已不存在时归入第一个页面
+  const resolvePageId = useCallback(
+    (pageId: string | undefined) =>
+      pageId && visiblePages.some((page) => page.id === pageId) ? pageId : visiblePages[0]?.id,
+    [visiblePages]
+  );
+
+  const currentPageId = resolvePageId(activePageId);
+
+  // 可见分组（排除已删除），按排序位置排列，仅保留当前页面的分组
+  const visibleGroups = useMemo(
+    () =>
+      groups
+        .filter((group) => !group.deleted && resolvePageId(group.pageId) === currentPageId)
+        .sort((a, b) => a.order - b.order),
+    [groups, resolvePageId, currentPageId]
+  );
+
+  // 按分组归类当前页面的卡片，分组不存在的卡片视为未分组
+  const { ungroupedWebsites, websitesByGroup } = useMemo(() => {
+    const byGroup: Record<string, WebsiteData[]> = {};
+    visibleGroups.forEach((group) => {
+      byGroup[group.id] = [];
+    });
+
+    const ungrouped: WebsiteData[] = [];
+    displayWebsites.forEach((website) => {
+      if (resolvePageId(website.pageId) !== currentPageId) return;
+
+      if (website.groupId && byGroup[website.groupId]) {
+        byGroup[website.groupId].push(website);
+      } else {
+        ungrouped.push(website);
+      }
+    });
+
+    return { ungroupedWebsites: ungrouped, websitesByGroup: byGroup };
+  }, [displayWebsites, visibleGroups, resolvePageId, currentPageId]);
+
+  const switchPage = useCallback((pageId: string) => {
+    setActivePageId(pageId);
+    setOpenGroupId(null);
+    storage.setItem('activePageId', pageId);
+  }, [storage]);
+
+  const updatePage = useCallback((pageId: string, updates: Partial<WebsitePage>) => {
+    setPages((prev) =>
+      prev.map((page) =>
+        page.id === pageId ? { ...page, ...updates, updatedAt: Date.now() } : page
+      )
+    );
+  }, [setPages]);
+
+  // 新建页面：首次创建时补一个默认页面承载现有卡片
+  const handleAddPage = useCallback(() => {
+    const now = Date.now();
+    const id = `page-${now}`;
+    setPages((prev) => {
+      const nextOrder = prev.reduce((max, page) => Math.max(max, page.order), -1) + 1;
+      const created: WebsitePage[] = [];
+      if (!prev.some((page) => !page.deleted)) {
+        created.push({ id: `page-${now}-home`, name: '主页', order: nextOrder, updatedAt: now, deleted: false });
+      }
+      created.push({ id, name: `页面 ${prev.filter((page) => !page.deleted).length + created.length + 1}`, order: nextOrder + created.length, updatedAt: now, deleted: false });
+      return [...prev, ...created];
+    });
+    switchPage(id);
+  }, [setPages, switchPage]);
+
+  // 拖拽排序页面：只更新位置发生变化的页面
+  const handleReorderPages = useCallback((reordered: WebsitePage[]) => {
+    const orderMap = new Map(reordered.map((page, index) => [page.id, index]));
+    setPages((prev) =>
+      prev.map((page) => {
+        const order = orderMap.get(page.id);
+        return order !== undefined && order !== page.order
+          ? { ...page, order, updatedAt: Date.now() }
+          : page;
+      })
+    );
+  }, [setPages]);
+
+  // 删除页面：其中的卡片和分组回到第一个页面，页面标记为删除以便同步
+  const handleDeletePage = useCallback((pageId: string) => {
+    setWebsites(
+      websites.map((card) =>
+        card.pageId === pageId ? { ...card, pageId: undefined, updatedAt: Date.now() } : card
+      )
+    );
+    setGroups((prev) =>
+      prev.map((group) =>
+        group.pageId === pageId ? { ...group, pageId: undefined, updatedAt: Date.now() } : group
+      )
+    );
+    updatePage(pageId, { deleted: true });
+  }, [websites, setWebsites, setGroups, updatePage]);
+
+  // 按顺序切换到相邻页面（移动端滑动使用）
+  const switchPageBy = useCallback((offset: number) => {
+    const index = visiblePages.findIndex((page) => page.id === currentPageId);
+    const target = visiblePages[index + offset];
+    if (target) {
+      switchPage(target.id);
+    }
+  }, [visiblePages, currentPageId, switchPage]);
+
+  const swipeHandlers = useSwipeNavigation(
+    () => switchPageBy(1),
+    () => switchPageBy(-1),
+    isMobile && visiblePages.length > 1
+  );
+
+  // Ctrl+1..9 切换到对应页面
+  useEffect(() => {
+    if (visiblePages.length < 2) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+      if (!/^[1-9]$/.test(e.key)) return;
+
+      const target = visiblePages[Number(e.key) - 1];
+      if (target) {
+        e.preventDefault();
+        switchPage(target.id);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [visiblePages, switchPage]);
+
+  const updateGroup = useCallback((groupId: string, updates: Partial<WebsiteGroup>) => {
+    setGroups((prev) =>
+      prev.map((group) =>
+        group.id === groupId ? { ...group, ...updates, updatedAt: Date.now() } : group
+      )
+    );
+  }, [setGroups]);
+
+  const createGroup = useCallback((name: string, pageId?: string): string => {
+    const id = `group-${Date.now()}`;
+    setGroups((prev) => [
+      ...prev,
+      {
+        id,
+        name,
+        order: prev.reduce((max, group) => Math.max(max, group.order), -1) + 1,
+        collapsed: true,
+        pageId,
+        updatedAt: Date.now(),
+        deleted: false,
+      },
+    ]);
+    return id;
+  }, [setGroups]);
+
+  // 拖拽排序分组：只更新位置发生变化的分组，保证时间戳合并准确
+  const handleReorderGroups = useCallback((reordered: WebsiteGroup[]) => {
+    const orderMap = new Map(reordered.map((group, index) => [group.id, index]));
+    setGroups((prev) =>
+      prev.map((group) => {
+        const order = orderMap.get(group.id);
+        return order !== undefined && order !== group.order
+          ? { ...group, order, updatedAt: Date.now() }
+          : group;
+      })
+    );
+  }, [setGroups]);
+
+  const handleMoveCardToGroup = useCallback((cardId: string, groupId: string | undefined) => {
+    setWebsites(
+      websites.map((card) =>
+        card.id === cardId && card.groupId !== groupId
+          ? { ...card, groupId, updatedAt: Date.now() }
+          : card
+      )
+    );
+  }, [websites, setWebsites]);
+
+  // 分组只在所属页面显示，卡片换页后若分组不在新页面则移出分组
+  const normalizeCardGroup = useCallback(<T extends { groupId?: string; pageId?: string }>(card: T): T => {
+    if (!card.groupId) return card;
+    const group = groups.find((g) => g.id === card.groupId);
+    return group && resolvePageId(group.pageId) === resolvePageId(card.pageId)
+      ? card
+      : { ...card, groupId: undefined };
+  }, [groups, resolvePageId]);
+
+  const handleMoveCardToPage = useCallback((cardId: string, pageId: string) => {
+    setWebsites(
+      websites.map((card) =>
+        card.id === cardId && resolvePageId(card.pageId) !== pageId
+          ? normalizeCardGroup({ ...card, pageId, updatedAt: Date.now() })
+          : card
+      )
+    );
+  }, [websites, setWebsites, resolvePageId, normalizeCardGroup]);
+
+  const handleToggleGroupCollapse = useCallback((groupId: string) => {
+    const group = groups.find((g) => g.id === groupId);
+    if (group) {
+      updateGroup(groupId, { collapsed: !group.collapsed });
+    }
+  }, [groups, updateGroup]);
+
+  // 解散分组：卡片移回主页，分组标记为删除以便同步
+  const handleDissolveGroup = useCallback((groupId: string) => {
+    setWebsites(
+      websites.map((card) =>
+        card.groupId === groupId ? { ...card, groupId: undefined, updatedAt: Date.now() } : card
+      )
+    );
+    updateGroup(groupId, { deleted: true });
+  }, [websites, setWebsites, updateGroup]);
 
   const handleSaveCard = useCallback((updatedCard: {
     id: string;
@@ -363,16 +684,103 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
     note?: string;
     visitCount?: number;
     lastVisit?: string;
+    groupId?: string;
+    newGroupName?: string;
+    pageId?: string;
   }) => {
+    const { newGroupName, ...cardData } = updatedCard;
+    // 先创建分组再更新卡片；新建的分组与卡片同页，无需再校验分组归属
+    const newGroupId = newGroupName ? createGroup(newGroupName, cardData.pageId) : undefined;
+
     setWebsites(
-      websites.map((card) => (card.id === updatedCard.id ? { ...card, ...updatedCard } : card))
+      websites.map((card) => {
+        if (card.id !== cardData.id) return card;
+        return newGroupId
+          ? { ...card, ...cardData, groupId: newGroupId, updatedAt: Date.now() }
+          : normalizeCardGroup({ ...card, ...cardData, updatedAt: Date.now() });
+      })
     );
-  }, [websites, setWebsites]);
+  }, [websites, setWebsites, createGroup, normalizeCardGroup]);
 
   const handleDelete = useCallback((id: string) => {
-    setWebsites(websites.filter((card) => card.id !== id));
+    // 软删除：保留为删除墓碑放入回收站，同步到其他设备
+    setWebsites(trashWebsite(websites, id));
   }, [websites, setWebsites]);
 
+  // 切换到下一张自定义壁纸，没有自定义壁纸时返回提示
+  const switchCustomWallpaper = useCallback(async (): Promise<string> => {
+    const wallpapers = await customWallpaperManager.listWallpapers();
+    if (wallpapers.length === 0) {
+      return '还没有自定义壁纸，请先在设置中上传';
+    }
+
+    const currentId = await customWallpaperManager.getCurrentWallpaperId();
+    const currentIndex = wallpapers.findIndex((wallpaper) => wallpaper.id === currentId);
+    const next = wallpapers[(currentIndex + 1) % wallpapers.length];
+    await customWallpaperManager.setCurrentWallpaper(next.id);
+    clearCustomWallpaperColorCache('current-custom');
+    setActiveWallpaperPlaylistId(''); // 手动切换时停止播放列表
+
+    if (wallpaperResolution === 'custom') {
+      setWallpaperReloadKey((key) => key + 1);
+    } else {
+      setWallpaperResolution('custom');
+    }
+    return `已切换壁纸：${next.name}`;
+  }, [wallpaperResolution, setWallpaperResolution, setActiveWallpaperPlaylistId]);
+
+  // 注册首页相关的搜索框命令
+  const homeCommands = useMemo<PaletteCommand[]>(() => [
+    {
+      id: 'dark-mode',
+      aliases: ['dark', 'dark mode', 'night', '夜间模式', '深色模式', '暗色模式', '切换夜间模式'],
+      title: darkMode ? '关闭夜间模式' : '开启夜间模式',
+      icon: darkMode ? 'fa-solid fa-sun' : 'fa-solid fa-moon',
+      badge: '外观',
+      color: 'indigo',
+      run: () => {
+        setDarkModePreference(darkMode ? 'off' : 'on');
+        return darkMode ? '已关闭夜间模式' : '已开启夜间模式';
+      },
+    },
+    {
+      id: 'sync',
+      aliases: ['sync', 'sync now', '同步', '立即同步'],
+      title: '立即同步数据',
+      icon: 'fa-solid fa-rotate',
+      badge: '同步',
+      color: 'teal',
+      run: () => (syncNow() ? '正在同步...' : '请先登录并验证邮箱后再同步'),
+    },
+    {
+      id: 'wallpaper',
+      aliases: ['wallpaper', 'change wallpaper', 'next wallpaper', '壁纸', '换壁纸', '切换壁纸'],
+      title: '切换自定义壁纸',
+      icon: 'fa-solid fa-image',
+      badge: '壁纸',
+      color: 'purple',
+      run: switchCustomWallpaper,
+    },
+    {
+      id: 'add-card',
+      aliases: ['add', 'add card', 'addcard', '添加卡片', '添加网站', '新建卡片'],
+      args: 'any',
+      acceptArgs: (args) => URL_LIKE_PATTERN.test(args),
+      acceptsUrl: true,
+      title: '添加卡片',
+      icon: 'fa-solid fa-plus',
+      badge: '卡片',
+      color: 'blue',
+      describe: (args) => (args ? { title: `添加为卡片：${args}` } : {}),
+      run: (args) => {
+        setAddCardUrl(args && !/^https?:\/\//i.test(args) ? `https://${args}` : args);
+        setShowAddCardModal(true);
+      },
+    },
+  ], [darkMode, setDarkModePreference, syncNow, switchCustomWallpaper]);
+
+  useRegisterCommands(homeCommands);
+
   // 壁纸加载已在上方统一处理
 
   // 预加载当前页面的图标
@@ -476,6 +884,37 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
 
   const classes = getResponsiveClasses();
 
+  const openGroup = openGroupId ? visibleGroups.find((group) => group.id === openGroupId) : undefined;
+
+  // 渲染单个卡片（主网格、展开分组和分组弹窗共用）
+  const renderWebsiteCard = (website: WebsiteData) => (
+    <WebsiteCard
+      key={website.id}
+      {...website}
+      // 拖拽排序始终基于原始数组中的索引
+      index={websites.findIndex((w) => w.id === website.id)}
+      groups={groups}
+      pages={visiblePages.length > 0 ? visiblePages : undefined}
+      linkHealth={getLinkHealth(linkHealth, website)}
+      moveCard={moveCard}
+      onSave={handleSaveCard}
+      onDelete={handleDelete}
+      onCardSave={triggerSync}
+      onAddCard={() => setShowAddCardModal(true)}
+    />
+  );
+
+  // 壁纸层的尺寸、位置和视差位移，交叉淡化的两层保持一致
+  const wallpaperLayerStyle: React.CSSProperties = {
+    backgroundSize: 'cover',
+    backgroundPosition: isMobile ? 'center center' : 'center top',
+    backgroundRepeat: 'no-repeat',
+    transform:
+      !isSettingsOpen && !isSearchFocused && !isAnnouncementOpen && parallaxEnabled && !isMobile && mousePosition
+        ? `translate(${-mousePosition.x * 0.02}px, ${-mousePosition.y * 0.02 + (!isOnline ? 60 : 0)}px) scale(1.05)`
+        : `translate(0px, ${!isOnline ? 60 : 0}px) scale(1)`,
+  };
+
   return (
     <>
       {/* 离线检测横幅 */}
@@ -484,21 +923,33 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
       {/* 邮箱验证横幅 */}
       <EmailVerificationBanner />
 
-      {/* 壁纸背景层 - 响应式优化 */}
+      {/* 上一张壁纸 - 新壁纸淡入期间保留在底层 */}
+      {prevBgImage && (
+        <div
+          className="fixed top-0 left-0 w-full h-full -z-10"
+          style={{
+            ...wallpaperLayerStyle,
+            backgroundImage: `url(${prevBgImage})`,
+            transition: 'transform 0.3s linear',
+          }}
+        />
+      )}
+
+      {/* 壁纸背景层 - 响应式优化，每张壁纸重新挂载以从透明开始淡入 */}
       <div
+        key={bgImage}
         className="fixed top-0 left-0 w-full h-full -z-10"
         style={{
+          ...wallpaperLayerStyle,
           backgroundImage: bgImage ? `url(${bgImage})` : undefined,
-          backgroundSize: 'cover',
-          backgroundPosition: isMobile ? 'center center' : 'center top',
-          backgroundRepeat: 'no-repeat',
           opacity: wallpaperLoaded ? 1 : 0,
-          transform:
-            !isSettingsOpen && !isSearchFocused && !isAnnouncementOpen && parallaxEnabled && !isMobile && mousePosition
-              ? `translate(${-mousePosition.x * 0.02}px, ${-mousePosition.y * 0.02 + (!isOnline ? 60 : 0)}px) scale(1.05)`
-              : `translate(0px, ${!isOnline ? 60 : 0}px) scale(1)`,
           transition: 'opacity 0.5s ease-out, transform 0.3s linear',
         }}
+        onTransitionEnd={(e) => {
+          if (e.propertyName === 'opacity' && wallpaperLoaded) {
+            setPrevBgImage('');
+          }
+        }}
       />
 
 
@@ -559,44 +1010,92 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
           </p>
           {/* 时间组件始终渲染，通过透明度控制显示，避免影响布局 */}
           <TimeDisplay />
-          <SearchBar websites={websites} onOpenSettings={() => setShowSettings(true)} />
+          <SearchBar websites={activeWebsites} onOpenSettings={() => setShowSettings(true)} />
         </div>
 
-        <div className={classes.cardContainer}>
+        <div className={classes.cardContainer} {...swipeHandlers}>
+          {/* 页面切换标签 */}
+          <PageTabs
+            pages={visiblePages}
+            activePageId={currentPageId}
+            onSelect={switchPage}
+            onReorder={handleReorderPages}
+            onDropCard={handleMoveCardToPage}
+            onRename={(pageId, name) => updatePage(pageId, { name })}
+            onDelete={handleDeletePage}
+            onAdd={handleAddPage}
+          />
+
           <motion.div
+            key={currentPageId || 'default'}
             className={classes.gridLayout}
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             transition={{ duration: 0.5 }}
           >
-            {displayWebsites.map((website, idx) => {
-              // 当启用自动排序时，需要找到原始数组中的索引
-              const originalIndex = autoSortEnabled
-                ? websites.findIndex((w) => w.id === website.id)
-                : idx;
-
-              return (
-                <WebsiteCard
-                  key={website.id}
-                  {...website}
-                  index={originalIndex}
-                  moveCard={moveCard}
-                  onSave={handleSaveCard}
-                  onDelete={handleDelete}
-                  onCardSave={triggerSync}
-                  onAddCard={() => setShowAddCardModal(true)}
+            {visibleGroups
+              .filter((group) => group.collapsed)
+              .map((group) => (
+                <WebsiteGroupFolder
+                  key={group.id}
+                  group={group}
+                  index={visibleGroups.indexOf(group)}
+                  groups={visibleGroups}
+                  websites={websitesByGroup[group.id]}
+                  onReorder={handleReorderGroups}
+                  onDropCard={handleMoveCardToGroup}
+                  onOpen={setOpenGroupId}
                 />
-              );
-            })}
+              ))}
+            {ungroupedWebsites.map(renderWebsiteCard)}
           </motion.div>
+
+          {/* 展开的分组 - 以带标题的独立网格显示 */}
+          {visibleGroups
+            .filter((group) => !group.collapsed)
+            .map((group) => (
+              <div key={group.id} className="mt-8">
+                <WebsiteGroupHeader
+                  group={group}
+                  index={visibleGroups.indexOf(group)}
+                  groups={visibleGroups}
+                  count={websitesByGroup[group.id].length}
+                  onReorder={handleReorderGroups}
+                  onDropCard={handleMoveCardToGroup}
+                  onToggleCollapse={handleToggleGroupCollapse}
+                  onOpen={setOpenGroupId}
+                />
+                <div className={classes.gridLayout}>
+                  {websitesByGroup[group.id].map(renderWebsiteCard)}
+                </div>
+              </div>
+            ))}
         </div>
 
+        {/* 分组弹出网格 */}
+        <AnimatePresence>
+          {openGroup && (
+            <WebsiteGroupPopover
+              key={openGroup.id}
+              group={openGroup}
+              websites={websitesByGroup[openGroup.id] || []}
+              renderCard={renderWebsiteCard}
+              onClose={() => setOpenGroupId(null)}
+              onRename={(groupId, name) => updateGroup(groupId, { name })}
+              onToggleCollapse={handleToggleGroupCollapse}
+              onDissolve={handleDissolveGroup}
+            />
+          )}
+        </AnimatePresence>
+
         <AnimatePresence>
           {showSettings && (
             <LazySettings
               onClose={() => setShowSettings(false)}
               websites={websites}
               setWebsites={setWebsites}
+              groups={groups}
+              setGroups={setGroups}
               onSettingsClose={triggerSync}
             />
           )}
@@ -737,21 +1236,29 @@ export default function Home({ websites, setWebsites, dataInitialized = true }:
           <CardEditModal
             id=""
             name=""
-            url=""
+            url={addCardUrl}
             favicon=""
             tags={[]}
             note=""
-            onClose={() => setShowAddCardModal(false)}
-            onSave={(data) => {
+            groups={groups}
+            pageId={currentPageId}
+            pages={visiblePages.length > 0 ? visiblePages : undefined}
+            onClose={() => {
+              setShowAddCardModal(false);
+              setAddCardUrl('');
+            }}
+            onSave={({ newGroupName, ...data }) => {
               // 创建新卡片
               const newCard = {
                 ...data,
+                groupId: newGroupName ? createGroup(newGroupName, data.pageId) : data.groupId,
                 id: `card-${Date.now()}`,
                 visitCount: 0,
                 lastVisit: new Date().toISOString().split('T')[0],
               };
-              setWebsites([...websites, newCard]);
+              setWebsites([...websites, newGroupName ? newCard : normalizeCardGroup(newCard)]);
               setShowAddCardModal(false);
+              setAddCardUrl('');
               triggerSync();
             }}
           />
@@ -10,14 +10,32 @@ import { ColorPicker } from '@/components/ColorPicker';
 import UserStatsDisplay from '@/components/UserStatsDisplay';
 import { userStatsManager } from '@/hooks/useUserStats';
 import { useTransparency, WallpaperResolution } from '@/contexts/TransparencyContext';
-import { customWallpaperManager } from '@/lib/customWallpaperManager';
+import { customWallpaperManager, CUSTOM_WALLPAPERS_UPDATED_EVENT } from '@/lib/customWallpaperManager';
+import { wallpaperCloudBackup } from '@/lib/wallpaperCloudBackup';
+import { WALLPAPER_CLOUD_QUOTA } from '@/lib/wallpaperStorage';
 import { useAuth } from '@/contexts/SupabaseAuthContext';
 import { useSyncStatus } from '@/contexts/SyncContext';
 import AccountSettingsSection from '@/components/AccountSettingsSection';
+import SearchEngineSettings from '@/components/SearchEngineSettings';
+import WallpaperProviderSettings from '@/components/WallpaperProviderSettings';
+import WallpaperPlaylistSettings from '@/components/WallpaperPlaylistSettings';
+import ProxySettings from '@/components/ProxySettings';
+import LinkHealthReport from '@/components/LinkHealthReport';
+import DuplicateCardsPanel from '@/components/DuplicateCardsPanel';
+import TrashBinPanel from '@/components/TrashBinPanel';
+import BookmarkImportModal from '@/components/BookmarkImportModal';
+import {
+  BookmarkFolderMapping,
+  ImportedBookmark,
+  buildBookmarkImport,
+} from '@/lib/bookmarkImport';
+import { BookmarkExportFormat } from '@/lib/bookmarkExport';
+import { pickSettings } from '@/lib/settingsSchema';
 import versionInfo from '@/version.json';
 
 import {
   WebsiteData,
+  WebsiteGroup,
   UserSettings,
   saveUserSettings,
   getUserSettings,
@@ -32,9 +50,17 @@ interface SettingsProps {
   onClose: () => void;
   websites: WebsiteData[];
   setWebsites: (websites: WebsiteData[]) => void;
+  groups?: WebsiteGroup[];
+  setGroups?: React.Dispatch<React.SetStateAction<WebsiteGroup[]>>;
   onSettingsClose?: () => void; // 可选的关闭回调，用于触发同步
 }
 
+const BOOKMARK_EXPORT_FORMATS: { format: BookmarkExportFormat; label: string; icon: string }[] = [
+  { format: 'html', label: '书签 HTML', icon: 'fa-brands fa-chrome' },
+  { format: 'csv', label: 'CSV', icon: 'fa-solid fa-table' },
+  { format: 'markdown', label: 'Markdown', icon: 'fa-brands fa-markdown' },
+];
+
 const SECTIONS = [
   { id: 'account', label: '账号管理', icon: 'fa-user' },
   { id: 'sync', label: '云端同步', icon: 'fa-cloud' },
@@ -49,13 +75,21 @@ const SECTIONS = [
   { id: 'privacy', label: '隐私帮助', icon: 'fa-shield-halved' },
 ];
 
-function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }: SettingsProps) {
+function SettingsComponent({
+  onClose,
+  websites,
+  setWebsites,
+  groups = [],
+  setGroups,
+  onSettingsClose,
+}: SettingsProps) {
   const { isMobile } = useResponsiveLayout();
   const [showAddCardModal, setShowAddCardModal] = useState(false);
   const [showPrivacySettings, setShowPrivacySettings] = useState(false);
   const [showAccountSecurityModal, setShowAccountSecurityModal] = useState(false);
   const [showImportConfirm, setShowImportConfirm] = useState(false);
   const [pendingImportFile, setPendingImportFile] = useState<File | null>(null);
+  const [pendingBookmarks, setPendingBookmarks] = useState<ImportedBookmark[] | null>(null);
   const [isManualSyncing, setIsManualSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string>('');
   const [isFixingIcons, setIsFixingIcons] = useState(false);
@@ -73,6 +107,7 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
   const [wallpapers, setWallpapers] = useState<
     Array<{ metadata: any; thumbnailUrl: string; isActive: boolean }>
   >([]);
+  const [cloudWallpaperUsage, setCloudWallpaperUsage] = useState(() => wallpaperCloudBackup.getCachedUsage());
   const [showWallpaperGallery, setShowWallpaperGallery] = useState(false);
   const [activeSection, setActiveSection] = useState('account');
   const sectionsRef = useRef<{ [key: string]: HTMLDivElement | null }>({});
@@ -167,15 +202,22 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
   const [lastBingResolution, setLastBingResolution] = useState<WallpaperResolution>('1080p');
 
   // 使用统一的数据管理Hook
-  const { exportAllData, importAllData, isExporting, isImporting } = useDataManager(
-    websites,
-    setWebsites
-  );
+  const {
+    exportAllData,
+    exportBookmarks,
+    importAllData,
+    readBookmarkFile,
+    isExporting,
+    isImporting,
+  } = useDataManager(websites, setWebsites);
+  // 回收站中的卡片不计入卡片数和统计
+  const activeWebsites = websites.filter((website) => !website.deleted);
   const {
     cardOpacity,
     searchBarOpacity,
     parallaxEnabled,
     wallpaperResolution,
+    wallpaperProvider,
     cardColor,
     searchBarColor,
     autoSyncEnabled,
@@ -183,7 +225,6 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     searchInNewTab,
     autoSortEnabled,
     timeComponentEnabled,
-    showFullDate,
     showSeconds,
     showWeekday,
     showYear,
@@ -195,6 +236,9 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     setSearchBarOpacity,
     setParallaxEnabled,
     setWallpaperResolution,
+    setActiveWallpaperPlaylistId,
+    wallpaperCloudBackupEnabled,
+    setWallpaperCloudBackupEnabled,
     setIsSettingsOpen,
     setCardColor,
     setSearchBarColor,
@@ -203,7 +247,6 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     setSearchInNewTab,
     setAutoSortEnabled,
     setTimeComponentEnabled,
-    setShowFullDate,
     setShowSeconds,
     setShowWeekday,
     setShowYear,
@@ -234,6 +277,8 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     setDarkModeScheduleStart,
     darkModeScheduleEnd,
     setDarkModeScheduleEnd,
+    settings,
+    applySettings,
   } = useTransparency();
 
   const { currentUser } = useAuth();
@@ -268,11 +313,24 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     try {
       const list = await customWallpaperManager.getAllWallpapers();
       setWallpapers(list);
+      setCloudWallpaperUsage(wallpaperCloudBackup.getCachedUsage());
     } catch (error) {
       console.error('加载壁纸列表失败:', error);
     }
   };
 
+  // 云端同步下载或删除壁纸后刷新壁纸列表
+  useEffect(() => {
+    const handleWallpapersUpdated = () => {
+      loadWallpapers();
+    };
+
+    window.addEventListener(CUSTOM_WALLPAPERS_UPDATED_EVENT, handleWallpapersUpdated);
+    return () => {
+      window.removeEventListener(CUSTOM_WALLPAPERS_UPDATED_EVENT, handleWallpapersUpdated);
+    };
+  }, []);
+
   // 全局拖拽检测
   useEffect(() => {
     let dragCounter = 0;
@@ -438,6 +496,8 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     const success = await customWallpaperManager.setCurrentWallpaper(id);
 
     if (success) {
+      // 手动选择壁纸时停止播放列表
+      setActiveWallpaperPlaylistId('');
       setSyncMessage('✅ 壁纸已切换，页面即将刷新...');
 
       // 延迟后刷新页面以应用新壁纸
@@ -593,9 +653,20 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
       return;
     }
 
+    // 浏览器导出的书签文件（bookmarks.html）先预览再导入
+    if (file.type.includes('html') || /\.html?$/i.test(file.name)) {
+      readBookmarkFile(file)
+        .then(setPendingBookmarks)
+        .catch((error: Error) => alert(`导入书签失败：${error.message}`));
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      return;
+    }
+
     // 验证文件类型
     if (!file.type.includes('json') && !file.name.endsWith('.json')) {
-      alert('请选择JSON格式的文件！');
+      alert('请选择JSON或书签HTML格式的文件！');
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -639,6 +710,19 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     setPendingImportFile(null);
   };
 
+  // 导入选中的浏览器书签，追加到现有卡片之后
+  const confirmImportBookmarks = (selected: ImportedBookmark[], mapping: BookmarkFolderMapping) => {
+    const result = buildBookmarkImport(selected, mapping, groups);
+    if (result.groups.length > 0) {
+      setGroups?.((prev) => [...prev, ...result.groups]);
+    }
+    setWebsites([...websites, ...result.websites]);
+    setPendingBookmarks(null);
+
+    const groupMessage = result.groups.length > 0 ? `，新建 ${result.groups.length} 个分组` : '';
+    alert(`成功导入 ${result.websites.length} 个书签${groupMessage}。`);
+  };
+
   // 一键修复图标
   const handleFixIcons = async () => {
     if (isFixingIcons) return;
@@ -678,30 +762,13 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
     setSyncMessage('正在上传数据到云端...');
 
     try {
-      const settings: UserSettings = {
-        cardOpacity,
-        searchBarOpacity,
-        parallaxEnabled,
-        wallpaperResolution,
+      const cloudSettings: UserSettings = {
+        ...pickSettings(settings, 'cloud'),
         theme: localStorage.getItem('theme') || 'light',
-        cardColor,
-        searchBarColor,
-        autoSyncEnabled,
-        autoSyncInterval,
-        searchInNewTab,
-        autoSortEnabled,
-        timeComponentEnabled,
-        showFullDate,
-        showSeconds,
-        showWeekday,
-        showYear,
-        showMonth,
-        showDay,
-        searchBarBorderRadius,
         lastSync: new Date().toISOString(),
       };
 
-      await saveUserSettings(currentUser, settings);
+      await saveUserSettings(currentUser, cloudSettings);
       await saveUserWebsites(currentUser, websites);
 
       // 更新同步状态
@@ -734,27 +801,7 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
       const cloudWebsites = await getUserWebsites(currentUser);
 
       if (cloudSettings) {
-        setCardOpacity(cloudSettings.cardOpacity);
-        setSearchBarOpacity(cloudSettings.searchBarOpacity);
-        setParallaxEnabled(cloudSettings.parallaxEnabled);
-        setWallpaperResolution(cloudSettings.wallpaperResolution);
-        setCardColor(cloudSettings.cardColor);
-        setSearchBarColor(cloudSettings.searchBarColor);
-        setAutoSyncEnabled(cloudSettings.autoSyncEnabled);
-        setAutoSyncInterval(cloudSettings.autoSyncInterval);
-
-        // 新增设置项的同步
-        setSearchInNewTab(cloudSettings.searchInNewTab ?? true);
-        setAutoSortEnabled(cloudSettings.autoSortEnabled ?? false);
-        setTimeComponentEnabled(cloudSettings.timeComponentEnabled ?? true);
-        setShowFullDate(cloudSettings.showFullDate ?? true);
-        setShowSeconds(cloudSettings.showSeconds ?? true);
-        setShowWeekday(cloudSettings.showWeekday ?? true);
-        setShowYear(cloudSettings.showYear ?? true);
-        setShowMonth(cloudSettings.showMonth ?? true);
-        setShowDay(cloudSettings.showDay ?? true);
-        setSearchBarBorderRadius(cloudSettings.searchBarBorderRadius ?? 12);
-
+        applySettings(cloudSettings);
         localStorage.setItem('theme', cloudSettings.theme || 'light');
       }
 
@@ -1371,7 +1418,7 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                     )}
                     <span className="relative z-10 flex items-center gap-2">
                       <i className="fa-solid fa-image"></i>
-                      每日必应
+                      壁纸来源
                     </span>
                   </button>
                   <button
@@ -1398,52 +1445,63 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                 {/* 内容区域 */}
                 <div className="min-h-[180px]">
                   {wallpaperResolution !== 'custom' ? (
-                    /* 必应壁纸分辨率选择 */
+                    /* 壁纸来源和分辨率选择 */
                     <div className="space-y-4 animate-fadeIn">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <i className="fa-solid fa-image text-blue-500 text-sm"></i>
-                          <label className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">
-                            壁纸分辨率
-                          </label>
-                        </div>
-                        <div className="relative group">
-                          <i className="fa-solid fa-info-circle text-gray-400 text-xs cursor-help"></i>
-                          <div className="absolute bottom-full right-0 mb-2 px-3 py-2 bg-gray-800 text-white text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50">
-                            💡 更改分辨率后会重新加载壁纸并更新缓存
-                            <div className="absolute top-full right-4 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-800"></div>
-                          </div>
-                        </div>
-                      </div>
+                      <WallpaperProviderSettings
+                        wallpaperCount={wallpapers.length}
+                        onOpenGallery={() => setShowWallpaperGallery(true)}
+                        onLibraryChanged={loadWallpapers}
+                      />
 
-                      <div className="grid grid-cols-2 gap-3 select-none">
-                        {[
-                          { value: '4k', label: '4K 超高清', desc: '大屏设备', icon: 'fa-desktop' },
-                          { value: '1080p', label: '1080p 高清', desc: '推荐', icon: 'fa-laptop' },
-                          { value: '720p', label: '720p 标清', desc: '网络较慢', icon: 'fa-wifi' },
-                          { value: 'mobile', label: '竖屏壁纸', desc: '移动设备', icon: 'fa-mobile-alt' },
-                        ].map((option) => (
-                          <button
-                            key={option.value}
-                            onClick={() => setWallpaperResolution(option.value as WallpaperResolution)}
-                            className={`group p-3 rounded-lg border-2 transition-all duration-200 text-left select-none cursor-pointer ${wallpaperResolution === option.value
-                              ? 'border-pink-500 bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300'
-                              : 'border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-600'
-                              }`}
-                          >
-                            <div className="flex items-center gap-2 mb-1">
-                              <i
-                                className={`fa-solid ${option.icon} text-sm transition-colors ${wallpaperResolution === option.value
-                                  ? 'text-pink-500 dark:text-pink-400'
-                                  : 'text-gray-400 dark:text-gray-500 group-hover:text-gray-500 dark:group-hover:text-gray-400'
-                                  } select-none`}
-                              ></i>
-                              <div className="font-medium text-sm select-none">{option.label}</div>
+                      {/* 图片链接和本地轮播使用原图，不区分分辨率 */}
+                      {wallpaperProvider !== 'urlList' && wallpaperProvider !== 'localRotation' && (
+                        <>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <i className="fa-solid fa-image text-blue-500 text-sm"></i>
+                              <label className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">
+                                壁纸分辨率
+                              </label>
                             </div>
-                            <div className="text-xs text-gray-500 dark:text-gray-400 select-none">{option.desc}</div>
-                          </button>
-                        ))}
-                      </div>
+                            <div className="relative group">
+                              <i className="fa-solid fa-info-circle text-gray-400 text-xs cursor-help"></i>
+                              <div className="absolute bottom-full right-0 mb-2 px-3 py-2 bg-gray-800 text-white text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50">
+                                💡 更改分辨率后会重新加载壁纸并更新缓存
+                                <div className="absolute top-full right-4 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-800"></div>
+                              </div>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-3 select-none">
+                            {[
+                              { value: '4k', label: '4K 超高清', desc: '大屏设备', icon: 'fa-desktop' },
+                              { value: '1080p', label: '1080p 高清', desc: '推荐', icon: 'fa-laptop' },
+                              { value: '720p', label: '720p 标清', desc: '网络较慢', icon: 'fa-wifi' },
+                              { value: 'mobile', label: '竖屏壁纸', desc: '移动设备', icon: 'fa-mobile-alt' },
+                            ].map((option) => (
+                              <button
+                                key={option.value}
+                                onClick={() => setWallpaperResolution(option.value as WallpaperResolution)}
+                                className={`group p-3 rounded-lg border-2 transition-all duration-200 text-left select-none cursor-pointer ${wallpaperResolution === option.value
+                                  ? 'border-pink-500 bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300'
+                                  : 'border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-600'
+                                  }`}
+                              >
+                                <div className="flex items-center gap-2 mb-1">
+                                  <i
+                                    className={`fa-solid ${option.icon} text-sm transition-colors ${wallpaperResolution === option.value
+                                      ? 'text-pink-500 dark:text-pink-400'
+                                      : 'text-gray-400 dark:text-gray-500 group-hover:text-gray-500 dark:group-hover:text-gray-400'
+                                      } select-none`}
+                                  ></i>
+                                  <div className="font-medium text-sm select-none">{option.label}</div>
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400 select-none">{option.desc}</div>
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      )}
                     </div>
                   ) : (
                     /* 自定义壁纸管理 */
@@ -1530,6 +1588,42 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                           <span>管理壁纸库 ({wallpapers.length})</span>
                         </button>
                       )}
+
+                      {/* 壁纸播放列表 */}
+                      <WallpaperPlaylistSettings wallpapers={wallpapers} />
+
+                      {/* 壁纸云端备份 */}
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <i className="fa-solid fa-cloud-arrow-up text-blue-500 text-sm"></i>
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-200 select-none">
+                              云端备份壁纸
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 select-none">
+                            {!currentUser
+                              ? '登录后可将壁纸备份到云端，在其他设备上使用'
+                              : wallpaperCloudBackupEnabled
+                                ? `已使用 ${(cloudWallpaperUsage / 1024 / 1024).toFixed(1)} MB / ${WALLPAPER_CLOUD_QUOTA / 1024 / 1024} MB，其他设备使用时再下载原图`
+                                : '壁纸仅保存在本设备'}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setWallpaperCloudBackupEnabled(!wallpaperCloudBackupEnabled)}
+                          className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all duration-300 hover:scale-105 ${wallpaperCloudBackupEnabled
+                            ? 'bg-gradient-to-r from-indigo-500 to-purple-600 shadow-lg shadow-purple-300/50'
+                            : 'bg-gradient-to-r from-gray-400 to-gray-500 dark:from-gray-600 dark:to-gray-700 shadow-lg shadow-gray-300/50 dark:shadow-gray-900/50'
+                            }`}
+                        >
+                          <span
+                            className={`inline-block h-5 w-5 transform rounded-full bg-white dark:bg-gray-200 transition-all duration-300 shadow-md ${wallpaperCloudBackupEnabled
+                              ? 'translate-x-6 shadow-purple-200'
+                              : 'translate-x-1 shadow-gray-200 dark:shadow-gray-600'
+                              }`}
+                          />
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -1608,6 +1702,11 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
 
                 <div className="border-t border-gray-100 dark:border-gray-700"></div>
 
+                {/* 搜索引擎管理 */}
+                <SearchEngineSettings />
+
+                <div className="border-t border-gray-100 dark:border-gray-700"></div>
+
                 {/* 自动排序开关 */}
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
@@ -2069,7 +2168,7 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                     <div>
                       <div className="text-sm font-medium text-gray-800 dark:text-gray-100 select-none">卡片收藏</div>
                       <div className="text-xs text-gray-500 dark:text-gray-400 select-none">
-                        当前有 {websites.length} 个卡片
+                        当前有 {activeWebsites.length} 个卡片
                       </div>
                     </div>
                   </div>
@@ -2083,6 +2182,18 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                   <span className="select-none">添加新卡片</span>
                 </button>
               </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 border border-gray-200 dark:border-gray-700 shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-300">
+                <DuplicateCardsPanel websites={websites} setWebsites={setWebsites} />
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 border border-gray-200 dark:border-gray-700 shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-300">
+                <LinkHealthReport websites={websites} setWebsites={setWebsites} />
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 border border-gray-200 dark:border-gray-700 shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-300">
+                <TrashBinPanel websites={websites} setWebsites={setWebsites} />
+              </div>
             </div>
 
             <div id="data" ref={(el) => (sectionsRef.current['data'] = el)} className="space-y-5 select-none settings-section scroll-mt-6">
@@ -2149,10 +2260,29 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                   </button>
                 </div>
 
+                <div className="flex items-center gap-2 select-none">
+                  <span className="text-xs text-gray-500 dark:text-gray-400 select-none flex-shrink-0">
+                    导出书签
+                  </span>
+                  <div className="flex-1 grid grid-cols-3 gap-2">
+                    {BOOKMARK_EXPORT_FORMATS.map(({ format, label, icon }) => (
+                      <button
+                        key={format}
+                        onClick={() => exportBookmarks(format)}
+                        disabled={isExporting}
+                        className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 hover:text-emerald-600 dark:hover:text-emerald-400 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed select-none"
+                      >
+                        <i className={`${icon} select-none`}></i>
+                        <span className="select-none">{label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".json"
+                  accept=".json,.html,.htm"
                   onChange={importData}
                   className="hidden"
                 />
@@ -2165,12 +2295,14 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
                         重要提醒
                       </div>
                       <div className="text-xs text-teal-600 dark:text-teal-400 select-none">
-                        导入会覆盖所有当前数据，建议先导出备份
+                        导入备份会覆盖所有当前数据，建议先导出备份；导入浏览器书签（bookmarks.html）会追加到现有卡片
                       </div>
                     </div>
                   </div>
                 </div>
               </div>
+
+              <ProxySettings />
             </div>
 
             <div id="privacy" ref={(el) => (sectionsRef.current['privacy'] = el)} className="space-y-5 select-none settings-section scroll-mt-6">
@@ -2319,6 +2451,17 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
         type="warning"
       />
 
+      {/* 浏览器书签导入预览 */}
+      {pendingBookmarks && (
+        <BookmarkImportModal
+          bookmarks={pendingBookmarks}
+          websites={websites}
+          allowGroups={!!setGroups}
+          onClose={() => setPendingBookmarks(null)}
+          onImport={confirmImportBookmarks}
+        />
+      )}
+
       {/* 壁纸管理画廊 */}
       {
         showWallpaperGallery && (
@@ -2574,7 +2717,7 @@ function SettingsComponent({ onClose, websites, setWebsites, onSettingsClose }:
 
               {/* 内容区域 */}
               <div className="p-6 max-h-[80vh] overflow-y-auto custom-scrollbar">
-                <UserStatsDisplay websites={websites} />
+                <UserStatsDisplay websites={activeWebsites} />
               </div>
             </motion.div>
           </div>
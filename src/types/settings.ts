@@ -1,5 +1,36 @@
 export type WallpaperResolution = '4k' | '1080p' | '720p' | 'mobile' | 'custom';
 
+// 非自定义壁纸时使用的壁纸来源
+export type WallpaperProviderType = 'bing' | 'bingArchive' | 'urlList' | 'localRotation' | 'generated';
+
+// 生成的纯色或渐变背景
+export type GeneratedBackground = {
+    type: 'solid' | 'linear' | 'radial';
+    colors: string[]; // #RRGGBB，纯色只使用第一个
+    angle: number; // 线性渐变角度
+};
+
+// 播放列表切换方式：每次打开新标签页、每小时、每天、按早晚时段
+export type PlaylistSchedule = 'newTab' | 'hourly' | 'daily' | 'timeOfDay';
+
+// 自定义壁纸播放列表（壁纸 ID 来自 customWallpaperManager，包括上传和收藏的壁纸）
+export type WallpaperPlaylist = {
+    id: string;
+    name: string;
+    wallpaperIds: string[]; // 白天 / 早间使用的壁纸
+    nightWallpaperIds: string[]; // 夜间 / 晚间使用的壁纸，为空时沿用白天的
+    schedule: PlaylistSchedule;
+    morningStart: string; // 早间组开始时间 HH:mm
+    eveningStart: string; // 晚间组开始时间 HH:mm
+    followDarkMode: boolean; // 夜间模式开启时使用夜间组
+};
+
+// 代理服务的启用状态，列表顺序即优先级
+export type ProxyEndpointPreference = {
+    id: string; // 内置代理 ID 或 self-hosted
+    enabled: boolean;
+};
+
 export type ColorOption = {
     name: string;
     rgb: string; // RGB值，如 "0, 0, 0"
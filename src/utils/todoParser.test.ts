@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseTodoInput } from './todoParser';
+
+// 2026-10-19 是星期一
+const now = new Date(2026, 9, 19, 10, 0);
+
+const at = (year: number, month: number, date: number, hour = 9, minute = 0) =>
+  new Date(year, month - 1, date, hour, minute).getTime();
+
+describe('parseTodoInput', () => {
+  it('不把普通单词当作星期缩写', () => {
+    expect(parseTodoInput('buy sun cream', now)).toEqual({ text: 'buy sun cream', dueAt: undefined, priority: undefined });
+    expect(parseTodoInput('wed plans', now)).toEqual({ text: 'wed plans', dueAt: undefined, priority: undefined });
+  });
+
+  it('识别完整的星期名称和 next/on 之后的缩写', () => {
+    expect(parseTodoInput('call mom sunday', now)).toMatchObject({ text: 'call mom', dueAt: at(2026, 10, 25) });
+    expect(parseTodoInput('call mom on sun', now)).toMatchObject({ text: 'call mom', dueAt: at(2026, 10, 25) });
+    expect(parseTodoInput('review next wed 3pm', now)).toMatchObject({ text: 'review', dueAt: at(2026, 10, 28, 15) });
+  });
+
+  it('没有日期引导词时不把范围和分数当作短日期', () => {
+    expect(parseTodoInput('read chapters 3-5', now)).toEqual({
+      text: 'read chapters 3-5',
+      dueAt: undefined,
+      priority: undefined,
+    });
+    expect(parseTodoInput('fix 1/2 done', now)).toEqual({ text: 'fix 1/2 done', dueAt: undefined, priority: undefined });
+  });
+
+  it('识别 on/by/due 引导的短日期，今年已过的日期视为明年', () => {
+    expect(parseTodoInput('pay rent by 11/1', now)).toMatchObject({ text: 'pay rent', dueAt: at(2026, 11, 1) });
+    expect(parseTodoInput('renew due 3-5', now)).toMatchObject({ text: 'renew', dueAt: at(2027, 3, 5) });
+    expect(parseTodoInput('交房租 11月1日 下午3点', now)).toMatchObject({ text: '交房租', dueAt: at(2026, 11, 1, 15) });
+  });
+
+  it('拒绝超出范围的日期', () => {
+    expect(parseTodoInput('meeting 2026-13-45', now)).toEqual({
+      text: 'meeting 2026-13-45',
+      dueAt: undefined,
+      priority: undefined,
+    });
+    expect(parseTodoInput('report on 2/30', now)).toMatchObject({ text: 'report on 2/30', dueAt: undefined });
+    expect(parseTodoInput('meeting 2026-11-05 14:30', now)).toMatchObject({
+      text: 'meeting',
+      dueAt: at(2026, 11, 5, 14, 30),
+    });
+  });
+
+  it('把晚上/夜里 12 点视为下一天的 00:00', () => {
+    expect(parseTodoInput('睡觉 晚上12点', now)).toMatchObject({ text: '睡觉', dueAt: at(2026, 10, 20, 0) });
+    expect(parseTodoInput('提交报告 明天夜里12点', now)).toMatchObject({ text: '提交报告', dueAt: at(2026, 10, 21, 0) });
+    expect(parseTodoInput('吃午饭 中午12点', now)).toMatchObject({ text: '吃午饭', dueAt: at(2026, 10, 19, 12) });
+    expect(parseTodoInput('看球 夜里11点', now)).toMatchObject({ text: '看球', dueAt: at(2026, 10, 19, 23) });
+  });
+
+  it('识别相对日期和优先级', () => {
+    expect(parseTodoInput('buy milk tomorrow 9am !high', now)).toEqual({
+      text: 'buy milk',
+      dueAt: at(2026, 10, 20),
+      priority: 'high',
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { TodoPriority } from '@/lib/supabaseSync';
+
+/**
+ * 待办快捷输入解析
+ * 例如 `buy milk tomorrow 9am !high`、`交房租 明天下午3点 !高`
+ * 识别出的日期、时间和优先级会从文本中移除
+ */
+
+export interface ParsedTodoInput {
+  text: string;
+  dueAt?: number;
+  priority?: TodoPriority;
+}
+
+// 只给出日期时的默认提醒时间
+const DEFAULT_DUE_HOUR = 9;
+const TONIGHT_HOUR = 20;
+
+const PRIORITY_ALIASES: Record<string, TodoPriority> = {
+  high: 'high',
+  h: 'high',
+  高: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  中: 'medium',
+  low: 'low',
+  l: 'low',
+  低: 'low',
+};
+
+const EN_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ZH_WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const PRIORITY_PATTERN = /(?:^|\s)[!！](high|medium|med|low|h|m|l|高|中|低)(?=\s|$)/i;
+const RELATIVE_DAY_PATTERN = /\b(today|tonight|tomorrow|tmr)\b|(今天|今晚|明天|后天)/i;
+// 缩写（sun、wed 等）容易与普通单词混淆，只在 next/on 之后识别
+const EN_WEEKDAY_PATTERN =
+  /\b(?:(next)\s+|on\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b|\b(?:(next)|on)\s+(sun|mon|tues|tue|wed|thurs|thu|fri|sat)\b/i;
+const ZH_WEEKDAY_PATTERN = /(下)?(?:周|星期)([日天一二三四五六])/;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/;
+// 3-5、1/2 之类可能是范围或分数，需要 on/by/due 引导才视为日期
+const SHORT_DATE_PATTERN = /\b(?:on|by|due)\s+(\d{1,2})[/-](\d{1,2})\b|(\d{1,2})月(\d{1,2})[日号]/i;
+const EN_TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|\b(\d{1,2}):(\d{2})\b/i;
+const ZH_TIME_PATTERN = /(上午|早上|中午|下午|晚上|夜里)?(\d{1,2})点(半|(\d{1,2})分?)?/;
+
+// 构造日期并校验，2026-13-45 之类超出范围的日期返回 undefined，不顺延到后面的月份
+const createDate = (year: number, month: number, date: number): Date | undefined => {
+  const day = new Date(year, month, date);
+  return day.getFullYear() === year && day.getMonth() === month && day.getDate() === date ? day : undefined;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// 指定星期几：默认取接下来最近的一天（今天不算），next/下周 取下一个自然周（周一开始）中的那天
+const nextWeekday = (now: Date, weekday: number, nextWeek: boolean) => {
+  if (nextWeek) {
+    const nextMonday = addDays(now, (8 - now.getDay()) % 7 || 7);
+    return addDays(nextMonday, (weekday + 6) % 7);
+  }
+  return addDays(now, (weekday - now.getDay() + 7) % 7 || 7);
+};
+
+export function parseTodoInput(input: string, now: Date = new Date()): ParsedTodoInput {
+  let rest = ` ${input.trim()} `;
+  let priority: TodoPriority | undefined;
+  let day: Date | undefined;
+  let hour: number | undefined;
+  let minute = 0;
+  let defaultHour = DEFAULT_DUE_HOUR;
+  // 晚上/夜里 12 点是当天结束时的午夜，即下一天的 00:00
+  let midnight = false;
+
+  // 匹配并从文本中移除，accept 返回 false 时保留原文
+  const take = (pattern: RegExp, accept?: (match: RegExpMatchArray) => boolean): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (!match || (accept && !accept(match))) {
+      return null;
+    }
+    rest = rest.replace(match[0], ' ');
+    return match;
+  };
+
+  const priorityMatch = take(PRIORITY_PATTERN);
+  if (priorityMatch) {
+    priority = PRIORITY_ALIASES[priorityMatch[1].toLowerCase()];
+  }
+
+  take(ISO_DATE_PATTERN, (match) => {
+    day = createDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return !!day;
+  });
+
+  if (!day) {
+    const relativeMatch = take(RELATIVE_DAY_PATTERN);
+    if (relativeMatch) {
+      const word = (relativeMatch[1] || relativeMatch[2]).toLowerCase();
+      const offset = { today: 0, tonight: 0, 今天: 0, 今晚: 0, tomorrow: 1, tmr: 1, 明天: 1, 后天: 2 }[word] ?? 0;
+      day = addDays(now, offset);
+      if (word === 'tonight' || word === '今晚') {
+        defaultHour = TONIGHT_HOUR;
+      }
+    }
+  }
+
+  if (!day) {
+    const weekdayMatch = take(EN_WEEKDAY_PATTERN);
+    if (weekdayMatch) {
+      const name = weekdayMatch[2] || weekdayMatch[4];
+      day = nextWeekday(now, EN_WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase()), !!(weekdayMatch[1] || weekdayMatch[3]));
+    }
+  }
+
+  if (!day) {
+    const weekdayMatch = take(ZH_WEEKDAY_PATTERN);
+    if (weekdayMatch) {
+      const weekday = weekdayMatch[2] === '天' ? 0 : ZH_WEEKDAYS.indexOf(weekdayMatch[2]);
+      day = nextWeekday(now, weekday, !!weekdayMatch[1]);
+    }
+  }
+
+  const timeMatch = take(EN_TIME_PATTERN);
+  if (timeMatch) {
+    if (timeMatch[3]) {
+      const isPm = timeMatch[3].toLowerCase() === 'pm';
+      hour = (Number(timeMatch[1]) % 12) + (isPm ? 12 : 0);
+      minute = Number(timeMatch[2] || 0);
+    } else {
+      hour = Number(timeMatch[4]);
+      minute = Number(timeMatch[5]);
+    }
+  } else {
+    const zhTimeMatch = take(ZH_TIME_PATTERN);
+    if (zhTimeMatch) {
+      hour = Number(zhTimeMatch[2]);
+      minute = zhTimeMatch[3] === '半' ? 30 : Number(zhTimeMatch[4] || 0);
+      if (['晚上', '夜里'].includes(zhTimeMatch[1]) && hour === 12) {
+        hour = 0;
+        midnight = true;
+      } else if (zhTimeMatch[1] === '夜里') {
+        // 夜里 1 点至 5 点是凌晨，6 点至 11 点是晚上
+        if (hour >= 6 && hour < 12) hour += 12;
+      } else if (['下午', '晚上'].includes(zhTimeMatch[1]) && hour < 12) {
+        hour += 12;
+      } else if (zhTimeMatch[1] === '中午' && hour < 6) {
+        hour += 12;
+      }
+    }
+  }
+
+  // 短日期放在时间之后匹配，避免把 9:30 之类误判为日期
+  if (!day) {
+    take(SHORT_DATE_PATTERN, (match) => {
+      const month = Number(match[1] || match[3]) - 1;
+      const date = Number(match[2] || match[4]);
+      const thisYear = createDate(now.getFullYear(), month, date);
+      // 今年已过（或今年没有这一天，如 2 月 29 日）的日期视为明年
+      day =
+        thisYear && thisYear >= startOfDay(now) ? thisYear : createDate(now.getFullYear() + 1, month, date);
+      return !!day;
+    });
+  }
+
+  if (hour !== undefined && (hour > 23 || minute > 59)) {
+    hour = undefined;
+  } else if (midnight) {
+    // 未给出日期时指今晚的 12 点
+    day = addDays(day ?? now, 1);
+  }
+
+  let dueAt: number | undefined;
+  if (day) {
+    dueAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour ?? defaultHour, minute).getTime();
+  } else if (hour !== undefined) {
+    // 只给出时间：今天已过则顺延到明天
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute);
+    if (candidate.getTime() <= now.getTime()) {
+      candidate.setDate(candidate.getDate() + 1);
+    }
+    dueAt = candidate.getTime();
+  }
+
+  const text = rest.replace(/\s+/g, ' ').trim();
+
+  return {
+    // 全部被识别为日期等信息时保留原文，避免生成空待办
+    text: text || input.trim(),
+    dueAt,
+    priority,
+  };
+}
+
+/**
+ * 截止时间的简短显示，如 `今天 09:00`、`明天 15:30`、`10/25 09:00`
+ */
+export function formatTodoDue(dueAt: number, now: Date = new Date()): string {
+  const due = new Date(dueAt);
+  const time = `${String(due.getHours()).padStart(2, '0')}:${String(due.getMinutes()).padStart(2, '0')}`;
+  const dayDiff = Math.round((startOfDay(due).getTime() - startOfDay(now).getTime()) / 86400000);
+
+  if (dayDiff === 0) return `今天 ${time}`;
+  if (dayDiff === 1) return `明天 ${time}`;
+  if (dayDiff === -1) return `昨天 ${time}`;
+
+  const date = `${due.getMonth() + 1}/${due.getDate()}`;
+  return due.getFullYear() === now.getFullYear() ? `${date} ${time}` : `${due.getFullYear()}/${date} ${time}`;
+}
@@ -1,7 +1,7 @@
 // CORS 配置文件
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, x-api-key, content-type, notion-version',
-  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE',
-  'Access-Control-Expose-Headers': 'X-Wallpaper-Source, X-Wallpaper-Date, X-Is-Fallback, X-Wallpaper-Size, X-Wallpaper-Resolution',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, x-api-key, content-type, notion-version, accept, accept-language, x-proxy-authorization',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, PATCH, DELETE',
+  'Access-Control-Expose-Headers': 'X-Wallpaper-Source, X-Wallpaper-Date, X-Is-Fallback, X-Wallpaper-Size, X-Wallpaper-Resolution, X-Final-Url',
 }
\ No newline at end of file
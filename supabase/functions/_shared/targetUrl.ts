@@ -0,0 +1,123 @@
+// 目标地址校验：代理类边缘函数只允许访问 http/https 的公网地址
+
+// 禁止访问的 IPv4 地址段：本机、内网、链路本地（含云服务元数据地址）、运营商 NAT、保留和组播地址
+function isPrivateIPv4(address: string): boolean {
+  const ipv4 = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (!ipv4) return false
+
+  const [a, b, c] = [Number(ipv4[1]), Number(ipv4[2]), Number(ipv4[3])]
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  )
+}
+
+// 展开 IPv6 地址为 8 组 16 位整数，末尾为点分 IPv4 的写法一并转换，格式错误时返回 null
+function expandIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0]
+
+  const dotted = text.match(/^(.*:)(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})$/)
+  if (dotted) {
+    const bytes = dotted[2].split('.').map(Number)
+    if (bytes.some((byte) => byte > 255)) return null
+    text = `${dotted[1]}${((bytes[0] << 8) | bytes[1]).toString(16)}:${((bytes[2] << 8) | bytes[3]).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+
+  const parse = (part: string) => (part ? part.split(':') : [])
+  const head = parse(halves[0])
+  const tail = halves.length === 2 ? parse(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map((group) => parseInt(group, 16))
+}
+
+// 禁止访问的 IPv6 地址：未指定、本机、链路本地、唯一本地、组播，以及映射到内网 IPv4 的地址
+function isPrivateIPv6(address: string): boolean {
+  const groups = expandIPv6(address)
+  // 无法解析的地址一律拒绝
+  if (!groups) return true
+
+  const first = groups[0]
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) return true
+  if ((first & 0xffc0) === 0xfe80 || (first & 0xfe00) === 0xfc00 || (first & 0xff00) === 0xff00) return true
+
+  // ::ffff:a.b.c.d（IPv4 映射）和 64:ff9b::a.b.c.d（NAT64）按其中的 IPv4 地址检查
+  const isMapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff
+  const isNat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)
+  if (isMapped || isNat64) {
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.')
+    return isPrivateIPv4(ipv4)
+  }
+
+  return false
+}
+
+// 是否为内网或本机的 IP 地址（DNS 解析结果使用）
+function isPrivateAddress(address: string): boolean {
+  return address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address)
+}
+
+// 禁止访问内网和本机地址，避免被用来探测 Supabase 内部服务
+// hostname 为 URL.hostname，IPv6 地址带方括号
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase()
+
+  if (host.startsWith('[') && host.endsWith(']')) {
+    return isPrivateIPv6(host.slice(1, -1))
+  }
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+
+  return isPrivateIPv4(host)
+}
+
+// 域名是否解析到内网地址，无法解析时交给 fetch 报错
+async function resolvesToPrivateAddress(hostname: string): Promise<boolean> {
+  if (hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname)) return false
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ])
+  return lookups.some(
+    (lookup) => lookup.status === 'fulfilled' && lookup.value.some((address) => isPrivateAddress(address))
+  )
+}
+
+// 校验目标地址，只允许 http/https 的公网地址
+export function parseTargetUrl(value: string | null): URL | null {
+  if (!value) return null
+
+  try {
+    const target = new URL(value)
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return null
+    if (isPrivateHost(target.hostname)) return null
+    return target
+  } catch {
+    return null
+  }
+}
+
+// 校验目标地址并检查域名的 DNS 解析结果，防止通过指向内网的域名绕过检查
+// 首次请求和每一跳重定向都需要调用
+export async function parsePublicTargetUrl(value: string | null): Promise<URL | null> {
+  const target = parseTargetUrl(value)
+  if (!target) return null
+  return (await resolvesToPrivateAddress(target.hostname)) ? null : target
+}
@@ -0,0 +1,260 @@
+// Page Metadata - Supabase Edge Function
+// 抓取网页的标题、描述、图标（apple-touch-icon、manifest 图标）和 Open Graph 图片，用于新建卡片时自动填写
+// 用法: /functions/v1/page-metadata?url=<编码后的网页地址>
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { parsePublicTargetUrl } from '../_shared/targetUrl.ts'
+
+console.log("Page Metadata function started")
+
+const REQUEST_TIMEOUT = 10000
+const MANIFEST_TIMEOUT = 5000
+const MAX_HTML_SIZE = 512 * 1024 // 只解析前 512KB，<head> 基本都在这个范围内
+const MAX_REDIRECTS = 5
+
+interface PageIcon {
+  url: string
+  size: number // 最大边长，未声明尺寸时为 0
+  type?: string
+  source: 'apple-touch-icon' | 'manifest' | 'icon'
+}
+
+function jsonResponse(body: unknown, status: number, extraHeaders: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  })
+}
+
+// 手动跟随重定向，每一跳都重新检查地址和 DNS 解析结果，防止重定向到内网
+async function fetchPublic(target: URL, accept: string, timeout: number): Promise<{ response: Response; finalUrl: URL }> {
+  const signal = AbortSignal.timeout(timeout)
+  let current = target
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await fetch(current.href, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; TomatoTabs-Metadata/1.0)',
+        'Accept': accept,
+        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+      },
+      redirect: 'manual',
+      signal,
+    })
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: current }
+    }
+
+    const next = await parsePublicTargetUrl(new URL(location, current).href)
+    await response.body?.cancel()
+    if (!next) {
+      throw new Error('重定向地址不允许访问')
+    }
+    current = next
+  }
+
+  throw new Error('重定向次数过多')
+}
+
+// 读取响应的前 limit 字节
+async function readLimited(response: Response, limit: number): Promise<Uint8Array> {
+  const reader = response.body?.getReader()
+  if (!reader) return new Uint8Array()
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (total < limit) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.byteLength
+  }
+  await reader.cancel()
+
+  const bytes = new Uint8Array(Math.min(total, limit))
+  let offset = 0
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset)
+    bytes.set(part, offset)
+    offset += part.length
+    if (offset >= bytes.length) break
+  }
+  return bytes
+}
+
+// 按响应头或 <meta charset> 声明的编码解码，兼容 GBK 等非 UTF-8 页面
+function decodeHtml(bytes: Uint8Array, contentType: string): string {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 4096))
+  const charset =
+    contentType.match(/charset=["']?([\w-]+)/i)?.[1] ||
+    head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ||
+    'utf-8'
+
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+const cleanText = (value: string | undefined) => (value ? decodeEntities(value).replace(/\s+/g, ' ').trim() : '')
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? ''
+  }
+  return attributes
+}
+
+// "180x180" / "16x16 32x32" / "any" 取最大边长，矢量图标按 512 计
+function parseIconSize(sizes: string | undefined, type: string | undefined): number {
+  if (sizes?.toLowerCase().includes('any') || type === 'image/svg+xml') return 512
+  const values = (sizes || '').match(/\d+x\d+/gi) || []
+  return Math.max(0, ...values.map((value) => Math.max(...value.split(/x/i).map(Number))))
+}
+
+function resolveUrl(href: string | undefined, base: URL): string | null {
+  if (!href) return null
+  try {
+    const url = new URL(decodeEntities(href.trim()), base)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+async function fetchManifestIcons(manifestUrl: string): Promise<PageIcon[]> {
+  const target = await parsePublicTargetUrl(manifestUrl)
+  if (!target) return []
+
+  try {
+    const { response, finalUrl } = await fetchPublic(target, 'application/manifest+json, application/json', MANIFEST_TIMEOUT)
+    if (!response.ok) {
+      await response.body?.cancel()
+      return []
+    }
+    const manifest = JSON.parse(new TextDecoder().decode(await readLimited(response, 256 * 1024)))
+    if (!Array.isArray(manifest.icons)) return []
+
+    return manifest.icons
+      // 单色图标只有轮廓，不适合作为卡片图标
+      .filter((icon: { purpose?: string }) => !icon.purpose || !/^monochrome$/i.test(icon.purpose.trim()))
+      .map((icon: { src?: string; sizes?: string; type?: string }) => ({
+        url: resolveUrl(icon.src, finalUrl),
+        size: parseIconSize(icon.sizes, icon.type),
+        type: icon.type,
+        source: 'manifest' as const,
+      }))
+      .filter((icon: { url: string | null }) => icon.url)
+  } catch (error) {
+    console.warn(`读取 manifest 失败: ${manifestUrl}`, error)
+    return []
+  }
+}
+
+serve(async (req) => {
+  // 处理 CORS 预检请求
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const requestUrl = new URL(req.url)
+  const target = await parsePublicTargetUrl(requestUrl.searchParams.get('url'))
+  if (!target) {
+    return jsonResponse({ error: '缺少 url 参数或地址不允许访问' }, 400)
+  }
+
+  try {
+    const { response, finalUrl } = await fetchPublic(target, 'text/html,application/xhtml+xml', REQUEST_TIMEOUT)
+    if (!response.ok) {
+      await response.body?.cancel()
+      return jsonResponse({ error: `网页返回 ${response.status}` }, 502)
+    }
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType && !/html|xml/i.test(contentType)) {
+      await response.body?.cancel()
+      return jsonResponse({ error: '目标地址不是网页', contentType }, 415)
+    }
+
+    const html = decodeHtml(await readLimited(response, MAX_HTML_SIZE), contentType)
+    const head = html.split(/<\/head>/i)[0]
+
+    const baseUrl = resolveUrl(head.match(/<base\b[^>]*href=["']([^"']+)["']/i)?.[1], finalUrl)
+    const base = baseUrl ? new URL(baseUrl) : finalUrl
+
+    const meta: Record<string, string> = {}
+    const icons: PageIcon[] = []
+    let manifestUrl: string | null = null
+
+    for (const match of head.matchAll(/<(meta|link)\b([^>]*)>/gi)) {
+      const attributes = parseAttributes(match[2])
+
+      if (match[1].toLowerCase() === 'meta') {
+        const key = (attributes.property || attributes.name || '').toLowerCase()
+        if (key && attributes.content && !meta[key]) {
+          meta[key] = attributes.content
+        }
+        continue
+      }
+
+      const rel = (attributes.rel || '').toLowerCase().split(/\s+/)
+      const href = resolveUrl(attributes.href, base)
+      if (!href) continue
+
+      if (rel.includes('manifest')) {
+        manifestUrl = manifestUrl || href
+      } else if (rel.includes('apple-touch-icon') || rel.includes('apple-touch-icon-precomposed')) {
+        // 未声明尺寸的 apple-touch-icon 按 iOS 默认的 180 计
+        icons.push({ url: href, size: parseIconSize(attributes.sizes, attributes.type) || 180, type: attributes.type, source: 'apple-touch-icon' })
+      } else if (rel.includes('icon')) {
+        icons.push({ url: href, size: parseIconSize(attributes.sizes, attributes.type), type: attributes.type, source: 'icon' })
+      }
+    }
+
+    if (manifestUrl) {
+      icons.push(...(await fetchManifestIcons(manifestUrl)))
+    }
+
+    const metadata = {
+      url: target.href,
+      finalUrl: finalUrl.href,
+      title: cleanText(head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || meta['og:title']),
+      description: cleanText(meta['description'] || meta['og:description'] || meta['twitter:description']),
+      siteName: cleanText(meta['og:site_name'] || meta['application-name'] || meta['apple-mobile-web-app-title']),
+      image: resolveUrl(meta['og:image'] || meta['og:image:url'] || meta['twitter:image'], base),
+      icons: icons.filter((icon, index) => icons.findIndex((other) => other.url === icon.url) === index),
+    }
+
+    return jsonResponse(metadata, 200, { 'Cache-Control': 'public, max-age=86400' })
+  } catch (error) {
+    const isTimeout = error instanceof DOMException && error.name === 'TimeoutError'
+    console.error(`抓取网页信息失败: ${target.href}`, error)
+
+    return jsonResponse(
+      {
+        error: isTimeout ? '网页响应超时' : '抓取网页信息失败',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      isTimeout ? 504 : 502
+    )
+  }
+})
@@ -0,0 +1,157 @@
+// Proxy Fetch - Supabase Edge Function
+// 通用跨域代理：图标、壁纸、网页信息和 Notion API 请求统一从这里转发
+// 用法: /functions/v1/proxy-fetch?url=<编码后的目标地址>
+// 目标站点的认证头通过 X-Proxy-Authorization 传入（Authorization 由 Supabase 网关用于校验 anon key）
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { parsePublicTargetUrl } from '../_shared/targetUrl.ts'
+
+console.log("Proxy Fetch function started")
+
+const REQUEST_TIMEOUT = 15000
+const MAX_RESPONSE_SIZE = 15 * 1024 * 1024 // 15MB，足够 4K 壁纸
+const MAX_REDIRECTS = 5
+
+// 转发给目标站点的请求头
+const FORWARD_REQUEST_HEADERS = ['accept', 'accept-language', 'content-type', 'notion-version']
+
+// 返回给客户端的响应头
+const FORWARD_RESPONSE_HEADERS = ['content-type', 'cache-control', 'etag', 'last-modified']
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// 读取响应内容，累计超过上限时中止读取并返回 null（目标站点可能不返回 content-length）
+async function readBody(response: Response, limit: number): Promise<Uint8Array | null> {
+  const reader = response.body?.getReader()
+  if (!reader) return new Uint8Array()
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+serve(async (req) => {
+  const { method: requestMethod } = req
+  let method = requestMethod
+
+  // 处理 CORS 预检请求
+  if (method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const requestUrl = new URL(req.url)
+  let target = await parsePublicTargetUrl(requestUrl.searchParams.get('url'))
+  if (!target) {
+    return jsonResponse({ error: '缺少 url 参数或地址不允许访问' }, 400)
+  }
+
+  try {
+    const headers = new Headers({
+      'User-Agent': 'Mozilla/5.0 (compatible; TomatoTabs-Proxy/1.0)',
+    })
+    for (const name of FORWARD_REQUEST_HEADERS) {
+      const value = req.headers.get(name)
+      if (value) headers.set(name, value)
+    }
+    const targetAuth = req.headers.get('x-proxy-authorization')
+    if (targetAuth) {
+      headers.set('Authorization', targetAuth)
+    }
+
+    let body = method === 'GET' || method === 'HEAD' ? undefined : await req.arrayBuffer()
+    const signal = AbortSignal.timeout(REQUEST_TIMEOUT)
+
+    // 手动跟随重定向，每一跳都重新检查地址和 DNS 解析结果，防止重定向到内网
+    let response: Response | null = null
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      response = await fetch(target.href, { method, headers, body, redirect: 'manual', signal })
+
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) break
+
+      const next = await parsePublicTargetUrl(new URL(location, target).href)
+      if (!next) {
+        return jsonResponse({ error: '重定向地址不允许访问', location }, 400)
+      }
+      // 跨域重定向时不再携带目标站点的认证头
+      if (next.origin !== target.origin) {
+        headers.delete('Authorization')
+      }
+      // 303 以及 POST 请求的 301/302 按浏览器行为改为不带请求体的 GET
+      const switchToGet =
+        (response.status === 303 && method !== 'HEAD') ||
+        ((response.status === 301 || response.status === 302) && method === 'POST')
+      if (switchToGet) {
+        method = 'GET'
+        body = undefined
+        headers.delete('content-type')
+      }
+      target = next
+      await response.body?.cancel()
+    }
+
+    if (!response) {
+      return jsonResponse({ error: '请求失败' }, 502)
+    }
+    if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+      return jsonResponse({ error: '重定向次数过多' }, 508)
+    }
+
+    const contentLength = Number(response.headers.get('content-length') || 0)
+    if (contentLength > MAX_RESPONSE_SIZE) {
+      await response.body?.cancel()
+      return jsonResponse({ error: '响应内容过大', size: contentLength }, 413)
+    }
+
+    const data = await readBody(response, MAX_RESPONSE_SIZE)
+    if (!data) {
+      return jsonResponse({ error: '响应内容过大' }, 413)
+    }
+
+    const responseHeaders = new Headers(corsHeaders)
+    for (const name of FORWARD_RESPONSE_HEADERS) {
+      const value = response.headers.get(name)
+      if (value) responseHeaders.set(name, value)
+    }
+    responseHeaders.set('X-Final-Url', target.href)
+
+    return new Response(requestMethod === 'HEAD' ? null : data, {
+      status: response.status,
+      headers: responseHeaders,
+    })
+  } catch (error) {
+    const isTimeout = error instanceof DOMException && error.name === 'TimeoutError'
+    console.error(`代理请求失败: ${target.href}`, error)
+
+    return jsonResponse(
+      {
+        error: isTimeout ? '目标站点响应超时' : '代理请求失败',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      isTimeout ? 504 : 502
+    )
+  }
+})
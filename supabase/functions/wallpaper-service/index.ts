@@ -25,10 +25,13 @@ function getChinaDate(): Date {
 // 因为直接构造的 Bing 图片 URL 无效（ID 格式不对）
 // 实际使用的是 HPImageArchive API 返回的真实 URL
 
-// 获取Bing每日壁纸元数据
-async function getBingWallpaperMetadata(): Promise<any> {
+// HPImageArchive 最多提供最近 8 天的壁纸（idx 0-7）
+const MAX_ARCHIVE_INDEX = 7;
+
+// 获取Bing壁纸元数据列表，idx 为往前的天数，count 为数量
+async function getBingArchiveMetadata(idx: number, count: number): Promise<any[]> {
   try {
-    const response = await fetch('https://www.bing.com/HPImageArchive.aspx?format=js&idx=0&n=1&mkt=zh-CN', {
+    const response = await fetch(`https://www.bing.com/HPImageArchive.aspx?format=js&idx=${idx}&n=${count}&mkt=zh-CN`, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; WallpaperBot/1.0)',
       },
@@ -37,14 +40,25 @@ async function getBingWallpaperMetadata(): Promise<any> {
 
     if (response.ok) {
       const data = await response.json();
-      if (data.images && data.images[0]) {
-        return data.images[0];
+      if (Array.isArray(data.images)) {
+        return data.images;
       }
     }
   } catch (error: any) {
     console.log('获取Bing元数据失败:', error.message || error);
   }
-  return null;
+  return [];
+}
+
+// 获取Bing每日壁纸元数据（idx 为 0 时是今天）
+async function getBingWallpaperMetadata(idx = 0): Promise<any> {
+  const images = await getBingArchiveMetadata(idx, 1);
+  return images[0] || null;
+}
+
+// Bing 的 startdate（YYYYMMDD）转换为 YYYY-MM-DD
+function formatBingDate(startdate: string): string {
+  return `${startdate.slice(0, 4)}-${startdate.slice(4, 6)}-${startdate.slice(6, 8)}`;
 }
 
 // 获取壁纸图片
@@ -87,14 +101,45 @@ Deno.serve(async (req) => {
     // 获取参数
     const resolution = requestUrl.searchParams.get('resolution') || 'uhd';
     const forceRefresh = requestUrl.searchParams.get('refresh') === 'true';
+    const archiveIndex = Math.min(Math.max(parseInt(requestUrl.searchParams.get('idx') || '0', 10) || 0, 0), MAX_ARCHIVE_INDEX);
+
+    // 往期壁纸列表：?list=8 返回最近几天的壁纸信息，供设置页浏览
+    const listParam = requestUrl.searchParams.get('list');
+    if (listParam) {
+      const count = Math.min(Math.max(parseInt(listParam, 10) || 1, 1), MAX_ARCHIVE_INDEX + 1);
+      const images = await getBingArchiveMetadata(0, count);
+      return new Response(
+        JSON.stringify({
+          images: images.map((image: any, index: number) => ({
+            idx: index,
+            date: formatBingDate(image.startdate),
+            title: image.title || '',
+            copyright: image.copyright || '',
+            thumbnail: `https://www.bing.com${image.urlbase}_400x240.jpg`,
+          })),
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600',
+          },
+        }
+      );
+    }
 
     // 验证分辨率参数
     const targetResolution = RESOLUTIONS[resolution as keyof typeof RESOLUTIONS] || RESOLUTIONS['uhd'];
 
     console.log(`壁纸请求: ${resolution} (${targetResolution})`);
 
+    // 往期壁纸先获取元数据以确定壁纸日期
+    const archiveMetadata = archiveIndex > 0 ? await getBingWallpaperMetadata(archiveIndex) : null;
+
     // 生成缓存键 - 基于日期和分辨率 (使用UTC+8)
-    const today = getChinaDate().toISOString().split('T')[0];
+    const today = archiveMetadata?.startdate
+      ? formatBingDate(archiveMetadata.startdate)
+      : getChinaDate().toISOString().split('T')[0];
     const cacheKey = `wallpaper-${today}-${resolution}.jpg`;
 
     // 获取Supabase环境变量
@@ -131,7 +176,7 @@ Deno.serve(async (req) => {
     }
 
     // 获取Bing壁纸元数据
-    const metadata = await getBingWallpaperMetadata();
+    const metadata = archiveMetadata || await getBingWallpaperMetadata(archiveIndex);
     let imageUrl = '';
     let wallpaperData: ArrayBuffer | null = null;
 
@@ -165,7 +210,7 @@ Deno.serve(async (req) => {
       console.log('Bing壁纸获取失败，返回错误');
       return new Response(
         JSON.stringify({
-          error: '无法获取今日Bing壁纸',
+          error: archiveIndex > 0 ? '无法获取往期Bing壁纸' : '无法获取今日Bing壁纸',
           resolution: targetResolution,
           date: today,
           message: '服务端无法从Bing获取壁纸，请稍后重试'
@@ -47,6 +47,11 @@ CREATE TABLE IF NOT EXISTS user_settings (
   show_day BOOLEAN DEFAULT true,
   -- Style
   search_bar_border_radius INTEGER DEFAULT 12,
+  -- Search Engines
+  search_engines JSONB,
+  default_search_engine TEXT DEFAULT 'bing',
+  -- All synced preferences (设置注册表)
+  preferences JSONB,
   -- Meta
   last_sync TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -57,6 +62,9 @@ CREATE TABLE IF NOT EXISTS user_settings (
 CREATE TABLE IF NOT EXISTS user_websites (
   id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
   websites JSONB DEFAULT '[]'::jsonb,
+  groups JSONB DEFAULT '[]'::jsonb, -- 网站分组（文件夹），每个分组带 updatedAt 用于冲突合并
+  pages JSONB DEFAULT '[]'::jsonb, -- 多页面（如 工作/生活/工具），包含名称与排序
+  website_order JSONB, -- 卡片顺序（ID 列表），卡片内容逐条存储在 user_website_records，迁移期间 websites 仍同步写入
   last_sync TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -523,3 +531,346 @@ CREATE POLICY "Admins can manage all replies" ON announcement_replies
 -- 部署完成! 新增表: announcement_replies
 -- ==============================================================================
 
+
+-- ==============================================================================
+-- 15. Website Groups (网站分组/文件夹)
+-- ==============================================================================
+
+-- 为已部署的 user_websites 表添加 groups 字段
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_websites' AND column_name = 'groups') THEN
+    ALTER TABLE user_websites ADD COLUMN groups JSONB DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- 16. Website Pages (多页面)
+-- ==============================================================================
+
+-- 为已部署的 user_websites 表添加 pages 字段
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_websites' AND column_name = 'pages') THEN
+    ALTER TABLE user_websites ADD COLUMN pages JSONB DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- 部署完成! 新增字段: user_websites.groups, user_websites.pages
+-- ==============================================================================
+
+-- ==============================================================================
+-- 17. User Todos (待办事项)
+-- ==============================================================================
+
+-- 每个用户一行，todos 中每条记录带 updatedAt 与 deleted 标记，用于多设备合并
+CREATE TABLE IF NOT EXISTS user_todos (
+  id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  todos JSONB DEFAULT '[]'::jsonb,
+  last_sync TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_todos ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - 用户只能访问自己的待办
+DROP POLICY IF EXISTS "Users can read own todos" ON user_todos;
+CREATE POLICY "Users can read own todos" ON user_todos
+  FOR SELECT USING (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Users can insert own todos" ON user_todos;
+CREATE POLICY "Users can insert own todos" ON user_todos
+  FOR INSERT WITH CHECK (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Users can update own todos" ON user_todos;
+CREATE POLICY "Users can update own todos" ON user_todos
+  FOR UPDATE USING (auth.uid() = id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_user_todos_updated_at ON user_todos;
+CREATE TRIGGER update_user_todos_updated_at BEFORE UPDATE ON user_todos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================================================
+-- 部署完成! 新增表: user_todos
+-- ==============================================================================
+
+-- ==============================================================================
+-- 18. Search Engines (搜索引擎注册表)
+-- ==============================================================================
+
+-- 为已部署的 user_settings 表添加搜索引擎字段，search_engines 为空表示使用内置默认列表
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_settings' AND column_name = 'search_engines') THEN
+    ALTER TABLE user_settings ADD COLUMN search_engines JSONB;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_settings' AND column_name = 'default_search_engine') THEN
+    ALTER TABLE user_settings ADD COLUMN default_search_engine TEXT DEFAULT 'bing';
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- 部署完成! 新增字段: user_settings.search_engines, user_settings.default_search_engine
+-- ==============================================================================
+
+-- ==============================================================================
+-- 19. Website Records (逐条网站同步)
+-- ==============================================================================
+
+-- 每个网站卡片一行，客户端只上传变化的记录，多设备同时编辑不同卡片时互不覆盖
+-- client_updated_at 为卡片的 updatedAt，按最后写入者胜合并；deleted 为软删除墓碑
+-- 迁移期间新版本客户端仍同时写入 user_websites.websites 整表字段，只读取整表的旧版本客户端不会读到过期数据；
+-- 所有客户端升级后再停止写入该字段
+CREATE TABLE IF NOT EXISTS user_website_records (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  website_id TEXT NOT NULL,
+  data JSONB NOT NULL,
+  client_updated_at BIGINT NOT NULL DEFAULT 0,
+  deleted BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, website_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_website_records_updated_at
+ON user_website_records(user_id, updated_at);
+
+-- 为已部署的 user_websites 表添加卡片顺序字段
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_websites' AND column_name = 'website_order') THEN
+    ALTER TABLE user_websites ADD COLUMN website_order JSONB;
+  END IF;
+END $$;
+
+ALTER TABLE user_website_records ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - 用户只能访问自己的记录
+DROP POLICY IF EXISTS "Users can read own website records" ON user_website_records;
+CREATE POLICY "Users can read own website records" ON user_website_records
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own website records" ON user_website_records;
+CREATE POLICY "Users can insert own website records" ON user_website_records
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own website records" ON user_website_records;
+CREATE POLICY "Users can update own website records" ON user_website_records
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- 只能彻底删除已标记删除的记录（清空回收站）
+DROP POLICY IF EXISTS "Users can delete own deleted website records" ON user_website_records;
+CREATE POLICY "Users can delete own deleted website records" ON user_website_records
+  FOR DELETE USING (auth.uid() = user_id AND deleted = true);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_user_website_records_updated_at ON user_website_records;
+CREATE TRIGGER update_user_website_records_updated_at BEFORE UPDATE ON user_website_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 批量写入记录：只有 updatedAt 不早于云端时才覆盖（最后写入者胜）
+-- 删除墓碑只携带 id/deleted/updatedAt，保留云端原有内容并标记删除；云端没有的记录不写入墓碑
+CREATE OR REPLACE FUNCTION upsert_website_records(records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  INSERT INTO user_website_records (user_id, website_id, data, client_updated_at, deleted)
+  SELECT
+    auth.uid(),
+    r->>'id',
+    r,
+    COALESCE((r->>'updatedAt')::BIGINT, 0),
+    COALESCE((r->>'deleted')::BOOLEAN, false)
+  FROM jsonb_array_elements(records) AS r
+  WHERE r->>'id' IS NOT NULL
+    AND (
+      r ? 'name'
+      OR EXISTS (
+        SELECT 1 FROM user_website_records existing
+        WHERE existing.user_id = auth.uid() AND existing.website_id = r->>'id'
+      )
+    )
+  ON CONFLICT (user_id, website_id) DO UPDATE
+  SET
+    data = CASE
+      WHEN EXCLUDED.data ? 'name' THEN EXCLUDED.data
+      ELSE user_website_records.data || EXCLUDED.data
+    END,
+    client_updated_at = EXCLUDED.client_updated_at,
+    deleted = EXCLUDED.deleted
+  WHERE user_website_records.client_updated_at <= EXCLUDED.client_updated_at;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$;
+
+-- 迁移已有数据：将 user_websites.websites 数组拆分为逐条记录（已存在的记录不覆盖）
+INSERT INTO user_website_records (user_id, website_id, data, client_updated_at, deleted)
+SELECT
+  w.id,
+  site->>'id',
+  site,
+  COALESCE((site->>'updatedAt')::BIGINT, 0),
+  COALESCE((site->>'deleted')::BOOLEAN, false)
+FROM user_websites w, jsonb_array_elements(COALESCE(w.websites, '[]'::jsonb)) AS site
+WHERE site->>'id' IS NOT NULL
+ON CONFLICT (user_id, website_id) DO NOTHING;
+
+UPDATE user_websites
+SET website_order = (
+  SELECT jsonb_agg(site->'id') FROM jsonb_array_elements(websites) AS site
+)
+WHERE website_order IS NULL AND jsonb_typeof(websites) = 'array';
+
+-- ==============================================================================
+-- 部署完成! 新增表: user_website_records, 新增函数: upsert_website_records(), 新增字段: user_websites.website_order
+-- ==============================================================================
+
+-- ==============================================================================
+-- 20. Realtime (多设备实时同步)
+-- ==============================================================================
+
+-- 将用户数据表加入 Realtime 发布，客户端订阅自己的行变更；RLS 保证只能收到本人的数据
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH tbl IN ARRAY ARRAY['user_websites', 'user_settings', 'user_website_records', 'user_todos'] LOOP
+      IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                     WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = tbl) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- 部署完成! Realtime 发布新增: user_websites, user_settings, user_website_records, user_todos
+-- ==============================================================================
+
+-- ==============================================================================
+-- 21. Settings Preferences (设置注册表)
+-- ==============================================================================
+
+-- 客户端设置注册表中的全部云端设置保存为一个 JSON 对象，新增设置无需再添加字段
+-- 原有独立字段继续写入，供旧版本客户端读取
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'user_settings' AND column_name = 'preferences') THEN
+    ALTER TABLE user_settings ADD COLUMN preferences JSONB;
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- 部署完成! 新增字段: user_settings.preferences
+-- ==============================================================================
+
+-- ==============================================================================
+-- 22. Wallpaper Backup (自定义壁纸云端备份)
+-- ==============================================================================
+
+-- 每个用户一行，wallpapers 中每条记录带 updatedAt 与 deleted 标记，原图保存在私有存储桶 user-wallpapers 的 <用户ID>/ 目录
+CREATE TABLE IF NOT EXISTS user_wallpapers (
+  id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  wallpapers JSONB DEFAULT '[]'::jsonb,
+  last_sync TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_wallpapers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies - 用户只能访问自己的壁纸列表
+DROP POLICY IF EXISTS "Users can read own wallpapers" ON user_wallpapers;
+CREATE POLICY "Users can read own wallpapers" ON user_wallpapers
+  FOR SELECT USING (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Users can insert own wallpapers" ON user_wallpapers;
+CREATE POLICY "Users can insert own wallpapers" ON user_wallpapers
+  FOR INSERT WITH CHECK (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Users can update own wallpapers" ON user_wallpapers;
+CREATE POLICY "Users can update own wallpapers" ON user_wallpapers
+  FOR UPDATE USING (auth.uid() = id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_user_wallpapers_updated_at ON user_wallpapers;
+CREATE TRIGGER update_user_wallpapers_updated_at BEFORE UPDATE ON user_wallpapers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 壁纸原图和缩略图保存在私有存储桶 user-wallpapers 的 <用户ID>/ 目录，只有本人可以读取和修改
+-- （wallpapers 存储桶是公开的，只用于必应壁纸缓存）
+-- 单个文件不超过 10MB（与客户端 MAX_FILE_SIZE 一致）
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('user-wallpapers', 'user-wallpapers', false, 10 * 1024 * 1024)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+DROP POLICY IF EXISTS "Users can read own wallpaper files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload own wallpapers" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own wallpaper files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own wallpaper files" ON storage.objects;
+
+-- 当前用户在 user-wallpapers 存储桶中已使用的空间（字节），只能查询自己的用量
+DROP FUNCTION IF EXISTS user_wallpaper_storage_usage(UUID);
+CREATE OR REPLACE FUNCTION user_wallpaper_storage_usage()
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT COALESCE(SUM((metadata->>'size')::BIGINT), 0)
+  FROM storage.objects
+  WHERE auth.uid() IS NOT NULL
+    AND bucket_id = 'user-wallpapers'
+    AND (storage.foldername(name))[1] = auth.uid()::text;
+$$;
+
+REVOKE ALL ON FUNCTION user_wallpaper_storage_usage() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION user_wallpaper_storage_usage() TO authenticated;
+
+CREATE POLICY "Users can read own wallpaper files" ON storage.objects FOR SELECT USING (
+  bucket_id = 'user-wallpapers'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- 用户只能写入自己的目录，已用空间加上新文件不超过 200MB（与客户端 WALLPAPER_CLOUD_QUOTA 一致）
+-- 存储服务校验权限时新文件的 metadata 可能尚未写入，此时只能按已用空间判断，
+-- 客户端上传前会按已用空间加文件大小检查配额，绕过客户端时最多超出一个文件（受存储桶单文件上限限制）
+CREATE POLICY "Users can upload own wallpapers" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'user-wallpapers'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND user_wallpaper_storage_usage() + COALESCE((metadata->>'size')::BIGINT, 0) <= 200 * 1024 * 1024
+);
+
+CREATE POLICY "Users can update own wallpaper files" ON storage.objects FOR UPDATE USING (
+  bucket_id = 'user-wallpapers'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+) WITH CHECK (
+  bucket_id = 'user-wallpapers'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete own wallpaper files" ON storage.objects FOR DELETE USING (
+  bucket_id = 'user-wallpapers'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- ==============================================================================
+-- 部署完成! 新增表: user_wallpapers, 新增函数: user_wallpaper_storage_usage(), 新增私有存储桶: user-wallpapers/<用户ID>/
+-- ==============================================================================